@@ -4,51 +4,169 @@ import LearningCentresList from './components/LearningCentresList'
 import LearningCentreDetail from './components/LearningCentreDetail'
 import CoordinatorFieldNoteDetail from './components/CoordinatorFieldNoteDetail'
 import ChildFieldNotes from './components/ChildFieldNotes'
+import CentreChildren from './components/CentreChildren'
+import ChildMentionReview from './components/ChildMentionReview'
+import FieldDuplicateReview from './components/FieldDuplicateReview'
+import WhatsAppImport from './components/WhatsAppImport'
 import ReportDetail from './components/ReportDetail'
 import LLMAnalysisPlayground from './components/LLMAnalysisPlayground'
+import AuthProvider from './components/AuthProvider'
+import RequireAuth from './components/RequireAuth'
+import LoginPage from './components/LoginPage'
+import PromptTemplates from './components/PromptTemplates'
+import UsagePage from './components/UsagePage'
+import ManagePage from './components/ManagePage'
+import ReportCoverage from './components/ReportCoverage'
+import CentreMonthData from './components/CentreMonthData'
+import ConsentReport from './components/ConsentReport'
+import GenerateReports from './components/GenerateReports'
+import AnalysisJobs from './components/AnalysisJobs'
+import { useAuth } from './hooks/useAuth'
+import { CHILD_DATA_ROLES, ROLE_LABELS, hasRole } from './lib/auth'
+
+function AppHeader() {
+  const { session, profile, signOut } = useAuth()
 
-function App() {
   return (
-    <div className="min-h-screen bg-white">
-      <header className="border-b border-gray-200 bg-white">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="flex items-center justify-between h-16">
-            <div className="flex items-center">
-              <Link to="/">
-                <img
-                  src="/logo_with_text.png"
-                  alt="Logo"
-                  className="h-10 w-auto"
-                />
-              </Link>
-            </div>
+    <header className="border-b border-gray-200 bg-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center justify-between h-16">
+          <div className="flex items-center">
+            <Link to="/">
+              <img
+                src="/logo_with_text.png"
+                alt="Logo"
+                className="h-10 w-auto"
+              />
+            </Link>
+          </div>
+          {session && (
             <nav className="flex items-center gap-4">
               <Link
-                to="/playground"
+                to="/coverage"
                 className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
               >
-                LLM Playground
+                Coverage
               </Link>
+              {hasRole(profile, CHILD_DATA_ROLES) && (
+                <>
+                  <Link
+                    to="/playground"
+                    className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                  >
+                    LLM Playground
+                  </Link>
+                  <Link
+                    to="/prompt-templates"
+                    className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                  >
+                    Prompt Templates
+                  </Link>
+                </>
+              )}
+              {hasRole(profile, ['admin']) && (
+                <>
+                  <Link
+                    to="/manage"
+                    className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                  >
+                    Manage
+                  </Link>
+                  <Link
+                    to="/consent"
+                    className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                  >
+                    Consent
+                  </Link>
+                  <Link
+                    to="/jobs"
+                    className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                  >
+                    Jobs
+                  </Link>
+                  <Link
+                    to="/usage"
+                    className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+                  >
+                    Usage
+                  </Link>
+                </>
+              )}
+              <span className="text-xs text-gray-500">
+                {session.user.email}
+                {profile && ` · ${ROLE_LABELS[profile.role]}`}
+              </span>
+              <button
+                type="button"
+                onClick={signOut}
+                className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                Sign out
+              </button>
             </nav>
-          </div>
+          )}
         </div>
-      </header>
-      <Routes>
-        <Route path="/" element={<DistrictsList />} />
-        <Route path="/playground" element={<LLMAnalysisPlayground />} />
-        <Route path="/:state/:district" element={<LearningCentresList />} />
-        <Route path="/:state/:district/centre/:centreId" element={<LearningCentreDetail />} />
-        <Route
-          path="/:state/:district/centre/:centreId/coordinator-notes/:noteId"
-          element={<CoordinatorFieldNoteDetail />}
-        />
-        <Route
-          path="/:state/:district/centre/:centreId/child/:childId"
-          element={<ChildFieldNotes />}
-        />
-        <Route path="/:state/:district/centre/:centreId/report/:reportId" element={<ReportDetail />} />
-      </Routes>
-    </div>
+      </div>
+    </header>
+  )
+}
+
+function App() {
+  return (
+    <AuthProvider>
+      <div className="min-h-screen bg-white">
+        <AppHeader />
+        <Routes>
+          <Route path="/login" element={<LoginPage />} />
+          <Route element={<RequireAuth />}>
+            <Route path="/" element={<DistrictsList />} />
+            <Route path="/coverage" element={<ReportCoverage />} />
+            <Route path="/:state/:district" element={<LearningCentresList />} />
+            <Route path="/:state/:district/centre/:centreId" element={<LearningCentreDetail />} />
+            <Route path="/:state/:district/centre/:centreId/report/:reportId" element={<ReportDetail />} />
+          </Route>
+          <Route element={<RequireAuth roles={['admin']} />}>
+            <Route path="/usage" element={<UsagePage />} />
+            <Route path="/manage" element={<ManagePage />} />
+            <Route path="/consent" element={<ConsentReport />} />
+            <Route path="/reports/generate" element={<GenerateReports />} />
+            <Route path="/jobs" element={<AnalysisJobs />} />
+          </Route>
+          <Route element={<RequireAuth roles={CHILD_DATA_ROLES} />}>
+            <Route path="/playground" element={<LLMAnalysisPlayground />} />
+            <Route path="/prompt-templates" element={<PromptTemplates />} />
+            <Route
+              path="/:state/:district/centre/:centreId/coordinator-notes/:noteId"
+              element={<CoordinatorFieldNoteDetail />}
+            />
+            <Route
+              path="/:state/:district/centre/:centreId/children"
+              element={<CentreChildren />}
+            />
+            <Route
+              path="/:state/:district/centre/:centreId/children/mentions"
+              element={<ChildMentionReview />}
+            />
+            <Route
+              path="/:state/:district/centre/:centreId/duplicates"
+              element={<FieldDuplicateReview />}
+            />
+            <Route
+              path="/:state/:district/centre/:centreId/import"
+              element={<WhatsAppImport />}
+            />
+            <Route
+              path="/:state/:district/centre/:centreId/child/:childId"
+              element={<ChildFieldNotes />}
+            />
+            <Route
+              path="/:state/:district/centre/:centreId/month/:year/:month"
+              element={<CentreMonthData />}
+            />
+          </Route>
+        </Routes>
+      </div>
+    </AuthProvider>
   )
 }
 
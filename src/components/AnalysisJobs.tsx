@@ -0,0 +1,359 @@
+import { useMemo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { lastMonths } from '../lib/coverage'
+import { useAllLearningCentres } from '../hooks/useDirectory'
+import {
+  enqueueAnalysisJob,
+  retryAnalysisJobItems,
+  runAnalysisWorker,
+  useAnalysisJobItems,
+  useAnalysisJobs,
+} from '../hooks/useAnalysisJobs'
+import type { AnalysisJobItemDetail } from '../hooks/useAnalysisJobs'
+import type { AnalysisJob, AnalysisJobItemStatus } from '../types/database'
+import { Card, CardContent, CardHeader } from './ui/card'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Skeleton } from './ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+
+const ALL = 'all'
+
+const ITEM_STATUS_LABELS: Record<AnalysisJobItemStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  succeeded: 'Done',
+  failed: 'Failed',
+}
+
+const ITEM_STATUS_CLASSES: Record<AnalysisJobItemStatus, string> = {
+  queued: 'text-gray-600',
+  running: 'text-blue-700',
+  succeeded: 'text-emerald-700',
+  failed: 'text-red-700',
+}
+
+function monthLabel(year: number, month: number) {
+  return new Date(year, month - 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+}
+
+function jobScope(job: AnalysisJob) {
+  if (job.district) return `${job.district}, ${job.state}`
+  return job.state || 'All centres'
+}
+
+function itemTiming(item: AnalysisJobItemDetail) {
+  if (item.status === 'queued' && new Date(item.run_after).getTime() > Date.now()) {
+    return `Next attempt ${new Date(item.run_after).toLocaleTimeString()}`
+  }
+  if (item.status === 'running' && item.locked_at) {
+    return `Started ${new Date(item.locked_at).toLocaleTimeString()}`
+  }
+  return item.finished_at ? new Date(item.finished_at).toLocaleString() : ''
+}
+
+// Bulk analysis runs in the analysis-worker Edge Function; this page queues jobs and
+// shows how far each one has got
+export default function AnalysisJobs() {
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const selectedJobId = searchParams.get('job') ?? undefined
+  const months = useMemo(() => lastMonths(12).reverse(), [])
+  const [monthKey, setMonthKey] = useState(months[1].key)
+  const [stateFilter, setStateFilter] = useState(ALL)
+  const [districtFilter, setDistrictFilter] = useState(ALL)
+  const [includeAnalysed, setIncludeAnalysed] = useState(false)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const { data: centres = [] } = useAllLearningCentres()
+  const { data: jobs = [], isLoading, error } = useAnalysisJobs()
+  const { data: items = [], isLoading: itemsLoading } = useAnalysisJobItems(selectedJobId)
+  const selectedJob = jobs.find(job => job.id === selectedJobId)
+  const failedItemIds = items.filter(item => item.status === 'failed').map(item => item.id)
+
+  const states = useMemo(() => Array.from(new Set(centres.map(c => c.state))).sort(), [centres])
+  const districts = useMemo(() => Array.from(new Set(
+    centres.filter(c => stateFilter === ALL || c.state === stateFilter).map(c => c.district)
+  )).sort(), [centres, stateFilter])
+
+  function refreshJobs() {
+    queryClient.invalidateQueries({ queryKey: ['analysisJobs'] })
+    queryClient.invalidateQueries({ queryKey: ['analysisJobItems'] })
+  }
+
+  const workerMutation = useMutation({
+    mutationFn: runAnalysisWorker,
+    onSuccess: () => {
+      setNotice('The worker has started on the queue.')
+      refreshJobs()
+    },
+  })
+
+  const enqueueMutation = useMutation({
+    mutationFn: async () => {
+      const month = months.find(m => m.key === monthKey) ?? months[1]
+      const jobId = await enqueueAnalysisJob({
+        year: month.year,
+        month: month.month,
+        state: stateFilter === ALL ? undefined : stateFilter,
+        district: districtFilter === ALL ? undefined : districtFilter,
+        includeAnalysed,
+      })
+      // Start on it straight away rather than waiting for the schedule
+      if (jobId) await runAnalysisWorker()
+      return jobId
+    },
+    onSuccess: (jobId) => {
+      setNotice(jobId ? null : 'Every report in that month and scope already has an analysis.')
+      if (jobId) setSearchParams({ job: jobId })
+      refreshJobs()
+    },
+  })
+
+  const retryMutation = useMutation({
+    mutationFn: async (itemIds: string[]) => {
+      const requeued = await retryAnalysisJobItems(itemIds)
+      if (requeued > 0) await runAnalysisWorker()
+      return requeued
+    },
+    onSuccess: refreshJobs,
+  })
+
+  const mutationError = workerMutation.error || enqueueMutation.error || retryMutation.error
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Analysis Jobs</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Reports queued for LLM analysis. A background worker analyses them one at a time, waits and retries when
+            OpenAI is rate limiting, and carries on where it left off if it is interrupted.
+          </p>
+        </div>
+        <Button variant="outline" disabled={workerMutation.isPending} onClick={() => workerMutation.mutate()}>
+          {workerMutation.isPending ? 'Starting...' : 'Process Queue Now'}
+        </Button>
+      </div>
+
+      {(error || mutationError) && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {error?.message || mutationError?.message}
+        </div>
+      )}
+      {notice && <p className="mb-6 text-sm text-gray-600">{notice}</p>}
+
+      <Card className="mb-8">
+        <CardHeader>
+          <h2 className="text-lg font-medium">Queue Analysis</h2>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="jobMonth">Month</Label>
+              <Select value={monthKey} onValueChange={setMonthKey}>
+                <SelectTrigger id="jobMonth">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {months.map(month => (
+                    <SelectItem key={month.key} value={month.key}>{monthLabel(month.year, month.month)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="jobState">State</Label>
+              <Select
+                value={stateFilter}
+                onValueChange={(value) => {
+                  setStateFilter(value)
+                  setDistrictFilter(ALL)
+                }}
+              >
+                <SelectTrigger id="jobState">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All states</SelectItem>
+                  {states.map(state => (
+                    <SelectItem key={state} value={state}>{state}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="jobDistrict">District</Label>
+              <Select value={districtFilter} onValueChange={setDistrictFilter}>
+                <SelectTrigger id="jobDistrict">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All districts</SelectItem>
+                  {districts.map(district => (
+                    <SelectItem key={district} value={district}>{district}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={includeAnalysed}
+                onChange={(e) => setIncludeAnalysed(e.target.checked)}
+              />
+              Also re-analyse reports that already have an analysis
+            </label>
+            <Button disabled={enqueueMutation.isPending} onClick={() => enqueueMutation.mutate()}>
+              {enqueueMutation.isPending ? 'Queueing...' : 'Queue Analysis'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(4)].map((_, idx) => (
+            <Skeleton key={idx} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : jobs.length === 0 ? (
+        <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
+          No analysis jobs yet.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Queued</TableHead>
+              <TableHead>Month</TableHead>
+              <TableHead>Scope</TableHead>
+              <TableHead className="text-right">Done</TableHead>
+              <TableHead className="text-right">Queued</TableHead>
+              <TableHead className="text-right">Running</TableHead>
+              <TableHead className="text-right">Failed</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jobs.map(job => (
+              <TableRow key={job.id} className={job.id === selectedJobId ? 'bg-gray-50' : undefined}>
+                <TableCell className="whitespace-nowrap text-gray-600">{new Date(job.created_at).toLocaleString()}</TableCell>
+                <TableCell>{monthLabel(job.year, job.month)}</TableCell>
+                <TableCell className="text-gray-600">{jobScope(job)}</TableCell>
+                <TableCell className="text-right">{job.succeeded_count} / {job.items_count}</TableCell>
+                <TableCell className="text-right text-gray-600">{job.queued_count}</TableCell>
+                <TableCell className="text-right text-blue-700">{job.running_count}</TableCell>
+                <TableCell className={`text-right ${job.failed_count > 0 ? 'text-red-700' : 'text-gray-600'}`}>
+                  {job.failed_count}
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setSearchParams(job.id === selectedJobId ? {} : { job: job.id })}
+                  >
+                    {job.id === selectedJobId ? 'Hide' : 'Items'}
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {selectedJob && (
+        <section className="mt-10">
+          <div className="mb-4 flex items-start justify-between gap-4">
+            <h2 className="text-lg font-medium text-gray-900">
+              {monthLabel(selectedJob.year, selectedJob.month)} · {jobScope(selectedJob)}
+            </h2>
+            {failedItemIds.length > 0 && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={retryMutation.isPending}
+                onClick={() => retryMutation.mutate(failedItemIds)}
+              >
+                Retry {failedItemIds.length} Failed
+              </Button>
+            )}
+          </div>
+          {itemsLoading ? (
+            <Skeleton className="h-40 w-full" />
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Centre</TableHead>
+                  <TableHead>Facilitator</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Attempts</TableHead>
+                  <TableHead>When</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => {
+                  const centre = item.learning_centre
+                  const reportPath = centre
+                    ? `/${encodeURIComponent(centre.state)}/${encodeURIComponent(centre.district)}/centre/${item.learning_centre_id}/report/${item.generated_report_id}`
+                    : null
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        {centre?.centre_name ?? 'Unknown centre'}
+                        {centre && <span className="block text-xs text-gray-500">{centre.district}, {centre.state}</span>}
+                      </TableCell>
+                      <TableCell className="text-gray-600">{item.report?.facilitator?.name ?? '—'}</TableCell>
+                      <TableCell className={ITEM_STATUS_CLASSES[item.status]}>{ITEM_STATUS_LABELS[item.status]}</TableCell>
+                      <TableCell className="text-right text-gray-600">{item.attempts} / {item.max_attempts}</TableCell>
+                      <TableCell className="whitespace-nowrap text-gray-600">{itemTiming(item)}</TableCell>
+                      <TableCell className="max-w-xs text-sm text-red-700">{item.last_error}</TableCell>
+                      <TableCell className="text-right">
+                        {item.status === 'failed' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={retryMutation.isPending}
+                            onClick={() => retryMutation.mutate([item.id])}
+                          >
+                            Retry
+                          </Button>
+                        )}
+                        {item.status === 'succeeded' && reportPath && (
+                          <Button size="sm" variant="ghost" onClick={() => navigate(reportPath)}>
+                            Open Report
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </section>
+      )}
+    </div>
+  )
+}
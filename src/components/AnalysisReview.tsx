@@ -0,0 +1,210 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  REVIEW_ACTION_LABELS,
+  REVIEW_STATUS_LABELS,
+  editAnalysisText,
+  reviewAnalysis,
+  useAnalysisReviews,
+} from '../hooks/useAnalysisReviews'
+import { useAuth } from '../hooks/useAuth'
+import type { LLMAnalysisReviewAction, LLMAnalysisReviewStatus, ReportLLMAnalysis } from '../types/database'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+
+type ReviewDecision = Exclude<LLMAnalysisReviewAction, 'edited' | 'replaced'>
+
+const STATUS_CLASSES: Record<LLMAnalysisReviewStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  in_review: 'bg-blue-50 text-blue-700',
+  approved: 'bg-emerald-50 text-emerald-700',
+  rejected: 'bg-red-50 text-red-700',
+}
+
+const DECISIONS: Record<LLMAnalysisReviewStatus, { action: ReviewDecision; label: string }[]> = {
+  draft: [{ action: 'submitted', label: 'Submit for Review' }],
+  rejected: [{ action: 'submitted', label: 'Resubmit for Review' }],
+  in_review: [
+    { action: 'approved', label: 'Approve' },
+    { action: 'rejected', label: 'Reject' },
+  ],
+  approved: [{ action: 'reopened', label: 'Reopen' }],
+}
+
+interface AnalysisReviewProps {
+  reportId: string
+  analysis: ReportLLMAnalysis
+  editing: boolean
+  onEditingChange: (editing: boolean) => void
+}
+
+// Review controls for a report analysis: edit the text, move it through review and
+// see who did what. The analysis text itself is rendered by the report page.
+export default function AnalysisReview({ reportId, analysis, editing, onEditingChange }: AnalysisReviewProps) {
+  const queryClient = useQueryClient()
+  const [draftText, setDraftText] = useState(analysis.text)
+  const [comment, setComment] = useState('')
+  const { data: reviews = [] } = useAnalysisReviews(reportId)
+  const { user } = useAuth()
+  // The database refuses approval from the last editor or submitter; reviews are newest first
+  const submittedBy = reviews.find(review => review.analysis_id === analysis.id && review.action === 'submitted')?.created_by
+  const cannotApprove = !!user && (user.id === analysis.edited_by || user.id === submittedBy)
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['reportLLMAnalysis', reportId] })
+    queryClient.invalidateQueries({ queryKey: ['analysisReviews', reportId] })
+  }
+
+  const editMutation = useMutation({
+    mutationFn: () => editAnalysisText(analysis.id, draftText),
+    onSuccess: () => {
+      onEditingChange(false)
+      refresh()
+    },
+  })
+
+  const reviewMutation = useMutation({
+    mutationFn: (action: ReviewDecision) => reviewAnalysis(analysis.id, action, comment),
+    onSuccess: () => {
+      setComment('')
+      refresh()
+    },
+  })
+
+  const pending = editMutation.isPending || reviewMutation.isPending
+  const error = editMutation.error || reviewMutation.error
+  const edited = analysis.text !== analysis.original_text
+
+  return (
+    <div className="mb-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className={`rounded-full px-2.5 py-0.5 text-xs font-medium ${STATUS_CLASSES[analysis.review_status]}`}>
+          {REVIEW_STATUS_LABELS[analysis.review_status]}
+        </span>
+        {analysis.reviewed_at && (analysis.review_status === 'approved' || analysis.review_status === 'rejected') && (
+          <span className="text-xs text-gray-500">
+            {REVIEW_STATUS_LABELS[analysis.review_status]} {new Date(analysis.reviewed_at).toLocaleString()}
+          </span>
+        )}
+        {analysis.review_status !== 'approved' && (
+          <span className="text-xs text-gray-500">Partners see this analysis once it is approved.</span>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {error.message}
+        </div>
+      )}
+
+      {editing ? (
+        <div className="space-y-2">
+          <Textarea
+            value={draftText}
+            onChange={(e) => setDraftText(e.target.value)}
+            rows={16}
+            className="bg-white"
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={pending || !draftText.trim() || draftText === analysis.text}
+              onClick={() => editMutation.mutate()}
+            >
+              {editMutation.isPending ? 'Saving...' : 'Save Text'}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={pending}
+              onClick={() => {
+                setDraftText(analysis.text)
+                onEditingChange(false)
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor={`reviewComment-${analysis.id}`} className="text-xs text-gray-500">
+            Review comment{analysis.review_status === 'in_review' ? ' (required to reject)' : ''}
+          </Label>
+          <Textarea
+            id={`reviewComment-${analysis.id}`}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            className="bg-white"
+          />
+          <div className="flex flex-wrap gap-2">
+            {analysis.review_status !== 'approved' && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={pending}
+                onClick={() => {
+                  setDraftText(analysis.text)
+                  onEditingChange(true)
+                }}
+              >
+                Edit Text
+              </Button>
+            )}
+            {DECISIONS[analysis.review_status].map(({ action, label }) => (
+              <Button
+                key={action}
+                size="sm"
+                variant={action === 'rejected' || action === 'reopened' ? 'outline' : 'default'}
+                disabled={pending || (action === 'rejected' && !comment.trim()) || (action === 'approved' && cannotApprove)}
+                onClick={() => reviewMutation.mutate(action)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          {analysis.review_status === 'in_review' && cannotApprove && (
+            <p className="text-xs text-gray-500">
+              You last edited or submitted this analysis, so someone else has to approve it.
+            </p>
+          )}
+        </div>
+      )}
+
+      {edited && (
+        <details className="text-xs text-gray-500">
+          <summary className="cursor-pointer hover:text-gray-700">
+            Original model output
+            {analysis.edited_at && ` · last edited ${new Date(analysis.edited_at).toLocaleString()}`}
+          </summary>
+          <p className="mt-2 whitespace-pre-wrap rounded-md bg-white p-3 text-sm text-gray-600">
+            {analysis.original_text}
+          </p>
+        </details>
+      )}
+
+      {reviews.length > 0 && (
+        <details className="text-xs text-gray-500">
+          <summary className="cursor-pointer hover:text-gray-700">Review history ({reviews.length})</summary>
+          <ul className="mt-2 space-y-2">
+            {reviews.map(review => (
+              <li key={review.id} className="rounded-md bg-white p-3">
+                <span className="font-medium text-gray-700">{REVIEW_ACTION_LABELS[review.action]}</span>
+                {' · '}
+                {review.created_by_profile?.display_name || review.created_by_profile?.email || '—'}
+                {' · '}
+                {new Date(review.created_at).toLocaleString()}
+                {!review.analysis_id && ' · earlier analysis'}
+                {review.comment && (
+                  <p className="mt-1 whitespace-pre-wrap text-sm text-gray-700">{review.comment}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { AUDIT_ASSIGNMENT_COLUMNS, AUDIT_TABLE_LABELS, auditFieldChanges, auditRecordName } from '../lib/audit'
+import { useFacilitators, usePartnerOrganisations, useVolunteers } from '../hooks/useDirectory'
+import type { AuditAction, AuditLogEntry } from '../types/database'
+import { Skeleton } from './ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+
+const AUDIT_LOG_LIMIT = 200
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: 'created',
+  UPDATE: 'updated',
+  DELETE: 'deleted',
+}
+
+const ASSIGNMENT_ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: 'assigned',
+  UPDATE: 'updated',
+  DELETE: 'removed',
+}
+
+interface AuditLogProps {
+  // Limits the log to one centre, including its assignments
+  learningCentreId?: string
+}
+
+export default function AuditLog({ learningCentreId }: AuditLogProps) {
+  const { data: facilitators = [] } = useFacilitators()
+  const { data: volunteers = [] } = useVolunteers()
+  const { data: partners = [] } = usePartnerOrganisations()
+
+  const { data: entries = [], isLoading, error } = useQuery({
+    queryKey: ['auditLog', learningCentreId ?? 'all'],
+    queryFn: async () => {
+      let query = supabase
+        .from('audit_log')
+        .select('*, changed_by_profile:changed_by(display_name, email)')
+        .order('changed_at', { ascending: false })
+        .limit(AUDIT_LOG_LIMIT)
+      if (learningCentreId) {
+        query = query.eq('learning_centre_id', learningCentreId)
+      }
+
+      const { data, error } = await query
+      if (error) throw error
+      return (data || []) as AuditLogEntry[]
+    },
+  })
+
+  // Assignment rows only hold ids, so names come from the directory lists
+  const namesById = useMemo(() => {
+    const records = [...facilitators, ...volunteers, ...partners]
+    return new Map(records.map(record => [record.id, record.name]))
+  }, [facilitators, volunteers, partners])
+
+  function describe(entry: AuditLogEntry): string {
+    const tableLabel = AUDIT_TABLE_LABELS[entry.table_name] ?? entry.table_name
+    const assignmentColumn = AUDIT_ASSIGNMENT_COLUMNS[entry.table_name]
+    if (assignmentColumn) {
+      const row = entry.new_data ?? entry.old_data ?? {}
+      const assignedId = String(row[assignmentColumn] ?? '')
+      const name = namesById.get(assignedId) ?? 'unknown record'
+      return `${tableLabel.replace(' assignment', '')} ${name} ${ASSIGNMENT_ACTION_LABELS[entry.action]}`
+    }
+    const name = auditRecordName(entry)
+    return `${tableLabel}${name ? ` ${name}` : ''} ${ACTION_LABELS[entry.action]}`
+  }
+
+  if (isLoading) return <Skeleton className="h-40 w-full" />
+
+  if (error) return (
+    <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+      {error.message}
+    </div>
+  )
+
+  if (entries.length === 0) return (
+    <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
+      No changes recorded yet.
+    </p>
+  )
+
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>When</TableHead>
+            <TableHead>Who</TableHead>
+            <TableHead>What</TableHead>
+            <TableHead>Changes</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map(entry => (
+            <TableRow key={entry.id}>
+              <TableCell className="whitespace-nowrap text-xs text-gray-500">
+                {new Date(entry.changed_at).toLocaleString()}
+              </TableCell>
+              <TableCell className="text-sm">
+                {entry.changed_by_profile?.display_name || entry.changed_by_profile?.email || 'Database'}
+              </TableCell>
+              <TableCell className="text-sm text-gray-900">{describe(entry)}</TableCell>
+              <TableCell className="text-xs text-gray-600">
+                {entry.action === 'UPDATE' && (
+                  <ul className="space-y-0.5">
+                    {auditFieldChanges(entry).map(change => (
+                      <li key={change.field}>
+                        <span className="font-mono">{change.field}</span>: {change.from} → {change.to}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react'
+import type { ReactNode } from 'react'
+import type { Session } from '@supabase/supabase-js'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { AuthContext } from '../lib/auth'
+import type { UserProfile } from '../types/database'
+
+export default function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient()
+  const [session, setSession] = useState<Session | null>(null)
+  const [sessionLoading, setSessionLoading] = useState(true)
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setSessionLoading(false)
+    })
+
+    const { data: listener } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      setSession(nextSession)
+      // Cached queries were fetched under the previous user's policies
+      if (event === 'SIGNED_OUT' || event === 'SIGNED_IN') {
+        queryClient.clear()
+      }
+    })
+
+    return () => listener.subscription.unsubscribe()
+  }, [queryClient])
+
+  const userId = session?.user.id
+
+  const { data: profile = null, isLoading: profileLoading } = useQuery({
+    queryKey: ['userProfile', userId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .eq('id', userId)
+        .single()
+
+      if (error && error.code !== 'PGRST116') throw error
+      return (data ?? null) as UserProfile | null
+    },
+    enabled: !!userId,
+  })
+
+  const value = {
+    session,
+    user: session?.user ?? null,
+    profile,
+    loading: sessionLoading || (!!userId && profileLoading),
+    signOut: async () => {
+      await supabase.auth.signOut()
+    },
+  }
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
@@ -0,0 +1,161 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import {
+  invalidateCentreQueries,
+  useFacilitators,
+  usePartnerOrganisations,
+  useVolunteers,
+} from '../hooks/useDirectory'
+import type { LearningCentre } from '../types/database'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+
+type AssignmentTable =
+  | 'learning_centre_facilitators'
+  | 'learning_centre_volunteers'
+  | 'learning_centre_partner_organisations'
+
+interface NamedRecord {
+  id: string
+  name: string
+}
+
+interface AssignmentPickerProps {
+  centreId: string
+  label: string
+  table: AssignmentTable
+  column: string
+  assigned: NamedRecord[]
+  options: NamedRecord[]
+}
+
+function AssignmentPicker({ centreId, label, table, column, assigned, options }: AssignmentPickerProps) {
+  const queryClient = useQueryClient()
+  const [selectedId, setSelectedId] = useState('')
+  const assignedIds = new Set(assigned.map(record => record.id))
+  const available = options.filter(option => !assignedIds.has(option.id))
+
+  const assignMutation = useMutation({
+    mutationFn: async (recordId: string) => {
+      const { error } = await supabase
+        .from(table)
+        .insert({ learning_centre_id: centreId, [column]: recordId })
+      if (error) throw error
+    },
+    onSuccess: () => {
+      setSelectedId('')
+      invalidateCentreQueries(queryClient, centreId)
+    },
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async (recordId: string) => {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq('learning_centre_id', centreId)
+        .eq(column, recordId)
+      if (error) throw error
+    },
+    onSuccess: () => invalidateCentreQueries(queryClient, centreId),
+  })
+
+  const error = assignMutation.error || removeMutation.error
+  const pickerId = `assign-${table}`
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium uppercase tracking-wide text-gray-500">{label}</h3>
+      {assigned.length === 0 ? (
+        <p className="text-sm text-gray-500">None assigned.</p>
+      ) : (
+        <ul className="space-y-1">
+          {assigned.map(record => (
+            <li key={record.id} className="flex items-center justify-between gap-3 text-sm text-gray-700">
+              <span>{record.name}</span>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={removeMutation.isPending}
+                onClick={() => removeMutation.mutate(record.id)}
+              >
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor={pickerId} className="sr-only">Add to centre</Label>
+          <Select value={selectedId} onValueChange={setSelectedId} disabled={available.length === 0}>
+            <SelectTrigger id={pickerId}>
+              <SelectValue placeholder={available.length === 0 ? 'Nothing left to assign' : 'Choose…'} />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          variant="outline"
+          disabled={!selectedId || assignMutation.isPending}
+          onClick={() => assignMutation.mutate(selectedId)}
+        >
+          Assign
+        </Button>
+      </div>
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {error.message}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Admin pickers for the facilitators, volunteers and partners working at a centre
+export default function CentreAssignments({ centre }: { centre: LearningCentre }) {
+  const { data: facilitators = [] } = useFacilitators()
+  const { data: volunteers = [] } = useVolunteers()
+  const { data: partners = [] } = usePartnerOrganisations()
+
+  return (
+    <div className="grid grid-cols-1 gap-6 rounded-lg border border-gray-200 bg-white p-6 md:grid-cols-3">
+      <AssignmentPicker
+        centreId={centre.id}
+        label="Facilitators"
+        table="learning_centre_facilitators"
+        column="facilitator_id"
+        assigned={centre.facilitators ?? []}
+        options={facilitators}
+      />
+      <AssignmentPicker
+        centreId={centre.id}
+        label="Volunteers"
+        table="learning_centre_volunteers"
+        column="volunteer_id"
+        assigned={centre.volunteers ?? []}
+        options={volunteers}
+      />
+      <AssignmentPicker
+        centreId={centre.id}
+        label="Partner Organizations"
+        table="learning_centre_partner_organisations"
+        column="partner_organisation_id"
+        assigned={centre.partner_organisations ?? []}
+        options={partners}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,457 @@
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { childLabel } from '../lib/childMentions'
+import { invalidateChildQueries, useCentreChildren, useChildHistory } from '../hooks/useChildren'
+import { useAllLearningCentres } from '../hooks/useDirectory'
+import { useChildConsents, useConsentStatuses } from '../hooks/useChildConsents'
+import { CONSENT_GAP_LABELS, consentGaps, consentLookup } from '../lib/consent'
+import type { ChildHistoryAction, ChildHistoryEntry, LearningCentre } from '../types/database'
+import ChildConsentForm from './ChildConsentForm'
+import ChildForm from './ChildForm'
+import MoveChildForm from './MoveChildForm'
+import { Card, CardContent, CardHeader } from './ui/card'
+import { Button } from './ui/button'
+import { Skeleton } from './ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+
+const NEW_RECORD = 'new'
+
+const HISTORY_ACTION_LABELS: Record<ChildHistoryAction, string> = {
+  created: 'Created',
+  alias_added: 'Alias added',
+  alias_removed: 'Alias removed',
+  merged: 'Merged',
+  left: 'Left the centre',
+  returned: 'Attending again',
+  moved: 'Moved centre',
+}
+
+function formatDate(value?: string | null) {
+  return value ? new Date(value).toLocaleDateString() : '—'
+}
+
+function historyDetail(entry: ChildHistoryEntry, centreNames: Map<string, string>): string {
+  const { details } = entry
+  if (entry.action === 'moved') {
+    const from = centreNames.get(String(details.from_learning_centre_id)) ?? 'another centre'
+    const to = centreNames.get(String(details.to_learning_centre_id)) ?? 'another centre'
+    return `${from} to ${to} on ${formatDate(String(details.moved_on ?? ''))}`
+  }
+  if (entry.action === 'alias_added' || entry.action === 'alias_removed') return String(details.alias ?? '')
+  if (entry.action === 'left') return formatDate(String(details.left_at ?? ''))
+  if (entry.action === 'created' || entry.action === 'merged') {
+    const aliases = (entry.action === 'created' ? details.aliases : details.merged_aliases) as string[] | undefined
+    const label = aliases && aliases.length > 0 ? aliases.join(', ') : 'Unnamed Child'
+    return entry.action === 'merged' ? `with ${label}` : label
+  }
+  return ''
+}
+
+// Create, edit, merge, move and mark children as left for one centre, with the history of those changes
+export default function CentreChildren() {
+  const { centreId, state: stateParam, district: districtParam } = useParams<{
+    centreId: string
+    state: string
+    district: string
+  }>()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const centrePath = `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(districtParam || '')}/centre/${centreId}`
+  // Id of the child being edited, NEW_RECORD for the create form, or null
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [mergingId, setMergingId] = useState<string | null>(null)
+  const [mergeTargetId, setMergeTargetId] = useState('')
+  const [movingId, setMovingId] = useState<string | null>(null)
+  const [consentingId, setConsentingId] = useState<string | null>(null)
+
+  const { data: centre } = useQuery({
+    queryKey: ['centre', centreId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('learning_centres_with_details')
+        .select('*')
+        .eq('id', centreId)
+        .single()
+
+      if (error) throw error
+      return data as LearningCentre
+    },
+    enabled: !!centreId,
+  })
+
+  const { data: children = [], isLoading, error: childrenError } = useCentreChildren(centreId)
+  const { data: history = [], isLoading: historyLoading } = useChildHistory(centreId)
+  const { data: centres = [] } = useAllLearningCentres()
+  const centreNames = new Map(centres.map(c => [c.id, c.centre_name]))
+  const { data: consentStatuses = [] } = useConsentStatuses({ centreId }, !!centreId)
+  const consents = consentLookup(consentStatuses)
+  const { data: consentForms = [], isLoading: consentFormsLoading } = useChildConsents(consentingId ?? undefined)
+
+  const sortedChildren = [...children].sort((a, b) =>
+    Number(!!a.left_at) - Number(!!b.left_at) ||
+    childLabel(a).localeCompare(childLabel(b), undefined, { sensitivity: 'base' })
+  )
+  const childrenById = new Map(children.map(child => [child.id, child]))
+  const editingChild = editingId && editingId !== NEW_RECORD ? childrenById.get(editingId) : undefined
+  const mergingChild = mergingId ? childrenById.get(mergingId) : undefined
+  const movingChild = movingId ? childrenById.get(movingId) : undefined
+  const consentingChild = consentingId ? childrenById.get(consentingId) : undefined
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ sourceId, targetId }: { sourceId: string; targetId: string }) => {
+      const { error } = await supabase.rpc('merge_children', {
+        p_source_child_id: sourceId,
+        p_target_child_id: targetId,
+      })
+      if (error) throw error
+    },
+    onSuccess: () => {
+      if (centreId) invalidateChildQueries(queryClient, centreId)
+      closeMerge()
+    },
+  })
+
+  function openEdit(id: string) {
+    closeMerge()
+    setMovingId(null)
+    setConsentingId(null)
+    setEditingId(id)
+  }
+
+  function openMove(id: string) {
+    closeMerge()
+    setEditingId(null)
+    setConsentingId(null)
+    setMovingId(id)
+  }
+
+  function openConsent(id: string) {
+    closeMerge()
+    setEditingId(null)
+    setMovingId(null)
+    setConsentingId(id)
+  }
+
+  function openMerge(id: string) {
+    setEditingId(null)
+    setMovingId(null)
+    setConsentingId(null)
+    setMergingId(id)
+    setMergeTargetId('')
+    mergeMutation.reset()
+  }
+
+  function closeMerge() {
+    setMergingId(null)
+    setMergeTargetId('')
+  }
+
+  function confirmMerge() {
+    const target = childrenById.get(mergeTargetId)
+    if (!mergingChild || !target) return
+    const message =
+      `Merge ${childLabel(mergingChild)} into ${childLabel(target)}? ` +
+      'Their notes and aliases move to one record and this cannot be undone.'
+    if (window.confirm(message)) {
+      mergeMutation.mutate({ sourceId: mergingChild.id, targetId: target.id })
+    }
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <Button
+            onClick={() => navigate(centrePath)}
+            variant="link"
+            className="mb-2 gap-1 text-gray-500 hover:text-gray-900"
+          >
+            ← Back to Learning Centre
+          </Button>
+          <h1 className="text-2xl font-semibold text-gray-900">
+            Children{centre ? ` at ${centre.centre_name}` : ''}
+          </h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Add children, keep their aliases up to date, record guardian consent, merge duplicates and record when a
+            child leaves or moves centre.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => navigate(`${centrePath}/children/mentions`)}>
+            Review Mentions
+          </Button>
+          <Button onClick={() => openEdit(NEW_RECORD)}>New Child</Button>
+        </div>
+      </div>
+
+      {childrenError && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {childrenError.message}
+        </div>
+      )}
+
+      {editingId && centreId && (
+        <Card className="mb-6">
+          <CardHeader>
+            <h2 className="text-lg font-medium">
+              {editingChild ? `Edit ${childLabel(editingChild)}` : 'New child'}
+            </h2>
+          </CardHeader>
+          {/* Keyed so switching children resets the form state */}
+          <CardContent key={editingId}>
+            <ChildForm
+              centreId={centreId}
+              child={editingChild}
+              onSaved={() => setEditingId(null)}
+              onCancel={() => setEditingId(null)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {movingChild && (
+        <Card className="mb-6">
+          <CardHeader>
+            <h2 className="text-lg font-medium">Move {childLabel(movingChild)} to another centre</h2>
+          </CardHeader>
+          <CardContent key={movingChild.id}>
+            <MoveChildForm child={movingChild} onMoved={() => setMovingId(null)} onCancel={() => setMovingId(null)} />
+          </CardContent>
+        </Card>
+      )}
+
+      {consentingChild && (
+        <Card className="mb-6">
+          <CardHeader>
+            <h2 className="text-lg font-medium">Consent for {childLabel(consentingChild)}</h2>
+            <p className="text-sm text-gray-500">
+              Record the latest consent form. It replaces the one on record; earlier forms are kept below.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {consentFormsLoading ? (
+              <Skeleton className="h-48 w-full" />
+            ) : (
+              <ChildConsentForm
+                // Keyed so a newly recorded form prefills the next renewal
+                key={`${consentingChild.id}-${consentForms[0]?.id ?? 'none'}`}
+                childId={consentingChild.id}
+                latest={consentForms[0]}
+                onSaved={() => setConsentingId(null)}
+                onCancel={() => setConsentingId(null)}
+              />
+            )}
+            {consentForms.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Given on</TableHead>
+                    <TableHead>Photos</TableHead>
+                    <TableHead>Aliases</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Guardian</TableHead>
+                    <TableHead>Recorded by</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {consentForms.map(form => (
+                    <TableRow key={form.id}>
+                      <TableCell className="whitespace-nowrap text-gray-600">{formatDate(form.consented_on)}</TableCell>
+                      <TableCell className="text-gray-600">{form.photo_consent ? 'Yes' : 'No'}</TableCell>
+                      <TableCell className="text-gray-600">{form.name_display_consent ? 'Yes' : 'No'}</TableCell>
+                      <TableCell className="text-gray-600">{formatDate(form.expires_on)}</TableCell>
+                      <TableCell className="text-gray-600">
+                        {form.guardian_name || '—'}
+                        {form.guardian_acknowledged_on
+                          ? `, acknowledged ${formatDate(form.guardian_acknowledged_on)}`
+                          : ', not acknowledged'}
+                      </TableCell>
+                      <TableCell className="text-gray-600">
+                        {form.recorded_by_profile?.display_name || form.recorded_by_profile?.email || '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {mergingChild && (
+        <Card className="mb-6">
+          <CardHeader>
+            <h2 className="text-lg font-medium">Merge {childLabel(mergingChild)}</h2>
+            <p className="text-sm text-gray-500">
+              Choose the record to keep. Tagged notes, aliases and history move onto it, and this record is removed.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger className="md:w-80">
+                <SelectValue placeholder="Keep this child" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedChildren
+                  .filter(child => child.id !== mergingChild.id)
+                  .map(child => (
+                    <SelectItem key={child.id} value={child.id}>
+                      {childLabel(child)}{child.name ? ` (${child.name})` : ''}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            {mergeMutation.error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+                {mergeMutation.error.message}
+              </div>
+            )}
+            <div className="flex gap-3">
+              <Button disabled={!mergeTargetId || mergeMutation.isPending} onClick={confirmMerge}>
+                {mergeMutation.isPending ? 'Merging...' : 'Merge Children'}
+              </Button>
+              <Button variant="outline" onClick={closeMerge}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="space-y-3">
+              {[...Array(4)].map((_, idx) => (
+                <Skeleton key={idx} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : sortedChildren.length === 0 ? (
+            <p className="py-6 text-center text-sm text-gray-500">No children recorded for this centre yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Aliases</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Consent</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedChildren.map(child => {
+                  const consent = consents.get(child.id)
+                  const gaps = consent ? consentGaps(consent) : []
+                  return (
+                    <TableRow key={child.id}>
+                      <TableCell>
+                        <button
+                          type="button"
+                          onClick={() => navigate(`${centrePath}/child/${child.id}`)}
+                          className="text-left text-gray-900 underline-offset-4 hover:underline"
+                        >
+                          {childLabel(child)}
+                        </button>
+                      </TableCell>
+                      <TableCell className="text-gray-600">{child.name || '—'}</TableCell>
+                      <TableCell className="text-gray-600">
+                        {child.left_at ? `Left ${formatDate(child.left_at)}` : 'Attending'}
+                      </TableCell>
+                      <TableCell className={gaps.length > 0 ? 'text-amber-700' : 'text-gray-600'}>
+                        {!consent
+                          ? '—'
+                          : gaps.length > 0
+                            ? gaps.map(gap => CONSENT_GAP_LABELS[gap]).join(', ')
+                            : consent.expires_on ? `Until ${formatDate(consent.expires_on)}` : 'Given'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" variant="outline" onClick={() => openEdit(child.id)}>
+                            Edit
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={children.length < 2}
+                            onClick={() => openMerge(child.id)}
+                          >
+                            Merge
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => openConsent(child.id)}>
+                            Consent
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => openMove(child.id)}>
+                            Move
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <section>
+        <h2 className="mb-3 text-lg font-medium text-gray-900">History</h2>
+        {historyLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : history.length === 0 ? (
+          <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
+            No changes recorded yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Child</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map(entry => {
+                const child = childrenById.get(entry.child_id)
+                const detail = historyDetail(entry, centreNames)
+                return (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap text-gray-600">
+                      {new Date(entry.changed_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-gray-900">{child ? childLabel(child) : 'Removed child'}</TableCell>
+                    <TableCell className="text-gray-600">
+                      {HISTORY_ACTION_LABELS[entry.action]}{detail ? `: ${detail}` : ''}
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {entry.changed_by_profile?.display_name || entry.changed_by_profile?.email || '—'}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </section>
+    </div>
+  )
+}
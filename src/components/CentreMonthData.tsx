@@ -0,0 +1,182 @@
+import { useNavigate, useParams } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { useCentreMonthFieldNotes, useCentreMonthImages } from '../hooks/useCentreMonthData'
+import { usePhotoConsent } from '../hooks/useChildConsents'
+import type { GeneratedReport, LearningCentre } from '../types/database'
+import ConsentPhoto from './ConsentPhoto'
+import { Button } from './ui/button'
+import { Skeleton } from './ui/skeleton'
+
+// Raw field notes and photos for one centre-month, including months without a report
+export default function CentreMonthData() {
+  const { centreId, state: stateParam, district: districtParam, year: yearParam, month: monthParam } = useParams<{
+    centreId: string
+    state: string
+    district: string
+    year: string
+    month: string
+  }>()
+  const navigate = useNavigate()
+  const year = Number(yearParam)
+  const month = Number(monthParam)
+  const validPeriod = Number.isInteger(year) && Number.isInteger(month) && month >= 1 && month <= 12
+  const centrePath = `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(districtParam || '')}/centre/${centreId}`
+  const monthLabel = validPeriod
+    ? new Date(year, month - 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+    : ''
+
+  const { data: centre } = useQuery({
+    queryKey: ['centre', centreId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('learning_centres_with_details')
+        .select('*')
+        .eq('id', centreId)
+        .single()
+
+      if (error) throw error
+      return data as LearningCentre
+    },
+    enabled: !!centreId,
+  })
+
+  const { data: reports = [] } = useQuery({
+    queryKey: ['centreMonthReports', centreId, year, month],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('generated_reports_summary')
+        .select('*')
+        .eq('learning_centre_id', centreId)
+        .eq('year', year)
+        .eq('month', month)
+
+      if (error) throw error
+      return (data || []) as GeneratedReport[]
+    },
+    enabled: !!centreId && validPeriod,
+  })
+
+  const { data: images = [], isLoading: imagesLoading, error: imagesError } =
+    useCentreMonthImages(centreId, year, month, validPeriod)
+  const { isPhotoVisible } = usePhotoConsent(images.map(image => image.id))
+  const { data: fieldNotes = [], isLoading: notesLoading, error: notesError } =
+    useCentreMonthFieldNotes(centreId, year, month, validPeriod)
+
+  const error = imagesError?.message || notesError?.message || null
+
+  if (!validPeriod) return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="text-center text-gray-500">Invalid month</div>
+    </div>
+  )
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <Button
+          onClick={() => navigate(centrePath)}
+          variant="link"
+          className="mb-2 gap-1 text-gray-500 hover:text-gray-900"
+        >
+          ← Back to Learning Centre
+        </Button>
+        <h1 className="text-2xl font-semibold text-gray-900">
+          {centre ? `${centre.centre_name}, ` : ''}{monthLabel}
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Field notes and photos received this month.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      <section className="mb-6 rounded-lg border border-gray-200 bg-white p-5 text-sm">
+        {reports.length === 0 ? (
+          <p className="text-gray-600">No report has been generated for this month.</p>
+        ) : (
+          <ul className="space-y-1">
+            {reports.map(report => (
+              <li key={report.id}>
+                <button
+                  type="button"
+                  onClick={() => navigate(`${centrePath}/report/${report.id}`)}
+                  className="text-gray-900 underline underline-offset-4"
+                >
+                  {report.facilitator_name} report{report.has_llm_analysis ? ' (analysed)' : ''}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="mb-6">
+        <h2 className="mb-3 text-lg font-medium text-gray-900">
+          Images {!imagesLoading && <span className="text-sm font-normal text-gray-500">({images.length})</span>}
+        </h2>
+        {imagesLoading ? (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-48 w-full" />
+            ))}
+          </div>
+        ) : images.length > 0 ? (
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {images.map(image => (
+              <div key={image.id} className="overflow-hidden rounded-lg bg-gray-100">
+                <ConsentPhoto
+                  src={image.photo_url}
+                  alt={image.caption || 'Field image'}
+                  visible={isPhotoVisible(image.id)}
+                  className="h-48 w-full object-cover"
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
+            No images this month.
+          </p>
+        )}
+      </section>
+
+      <section>
+        <h2 className="mb-3 text-lg font-medium text-gray-900">
+          Field Notes {!notesLoading && <span className="text-sm font-normal text-gray-500">({fieldNotes.length})</span>}
+        </h2>
+        {notesLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : fieldNotes.length > 0 ? (
+          <div className="space-y-4">
+            {fieldNotes.map(note => {
+              const displayDate = note.sent_at ?? note.created_at
+              return (
+                <article key={note.id} className="rounded-lg border border-gray-100 bg-gray-50/70 p-4 shadow-sm">
+                  {displayDate && (
+                    <p className="text-xs uppercase tracking-wide text-gray-500">
+                      {new Date(displayDate).toLocaleString()}
+                    </p>
+                  )}
+                  <p className="mt-2 text-sm text-gray-800 whitespace-pre-wrap">{note.text}</p>
+                </article>
+              )
+            })}
+          </div>
+        ) : (
+          <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
+            No field notes this month.
+          </p>
+        )}
+      </section>
+    </div>
+  )
+}
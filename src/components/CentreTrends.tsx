@@ -0,0 +1,87 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { RUBRIC_DIMENSIONS } from '../lib/llm'
+import { detectSlips, fillMonthlyActivity } from '../lib/trends'
+import type { CentreMonthlyActivity } from '../types/database'
+import { BarChart, LineChart } from './TrendCharts'
+import { Skeleton } from './ui/skeleton'
+
+const RUBRIC_COLORS = ['#2563eb', '#16a34a', '#f59e0b', '#9333ea', '#db2777', '#0891b2']
+
+export default function CentreTrends({ centreId }: { centreId: string }) {
+  const { data: activity = [], isLoading, error } = useQuery({
+    queryKey: ['centreTrends', centreId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('learning_centre_monthly_activity')
+        .select('*')
+        .eq('learning_centre_id', centreId)
+
+      if (error) throw error
+      return (data || []) as CentreMonthlyActivity[]
+    },
+  })
+
+  const months = useMemo(() => fillMonthlyActivity(activity), [activity])
+  const warnings = useMemo(() => detectSlips(months), [months])
+  const labels = months.map(month => month.label)
+  const hasRubric = months.some(month => RUBRIC_DIMENSIONS.some(dimension => month.scores[dimension.key] !== null))
+
+  if (isLoading) return <Skeleton className="h-64 w-full" />
+
+  if (error) return (
+    <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+      Could not load trends: {error.message}
+    </div>
+  )
+
+  if (months.length === 0) return (
+    <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-8 text-center text-gray-500">
+      No field notes or analyses recorded for this centre yet.
+    </p>
+  )
+
+  return (
+    <div className="space-y-6">
+      {warnings.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <p className="font-medium">This centre may be slipping</p>
+          <ul className="mt-1 list-disc pl-5">
+            {warnings.map(warning => <li key={warning.key}>{warning.message}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="rounded-lg border border-gray-200 bg-white p-6">
+        <h3 className="mb-3 text-sm font-medium text-gray-900">Field notes and photos per month</h3>
+        <BarChart
+          labels={labels}
+          series={[
+            { key: 'notes', label: 'Field notes', color: '#6b7280', values: months.map(month => month.fieldNotes) },
+            { key: 'images', label: 'Photos', color: '#93c5fd', values: months.map(month => month.images) },
+          ]}
+        />
+      </div>
+
+      <div className="rounded-lg border border-gray-200 bg-white p-6">
+        <h3 className="mb-3 text-sm font-medium text-gray-900">Analysis rubric (1–5)</h3>
+        {hasRubric ? (
+          <LineChart
+            labels={labels}
+            min={1}
+            max={5}
+            series={RUBRIC_DIMENSIONS.map((dimension, i) => ({
+              key: dimension.key,
+              label: dimension.label,
+              color: RUBRIC_COLORS[i % RUBRIC_COLORS.length],
+              values: months.map(month => month.scores[dimension.key]),
+            }))}
+          />
+        ) : (
+          <p className="text-sm text-gray-500">No analyses with rubric scores yet.</p>
+        )}
+      </div>
+    </div>
+  )
+}
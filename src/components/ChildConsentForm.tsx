@@ -0,0 +1,152 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { emptyToNull, hasErrors, validateChildConsent } from '../lib/validation'
+import type { ChildConsentDraft, ValidationErrors } from '../lib/validation'
+import { invalidateConsentQueries } from '../hooks/useChildConsents'
+import type { ChildConsent } from '../types/database'
+import FormField from './FormField'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+
+type ConsentFlag = 'photo_consent' | 'name_display_consent'
+
+const CONSENT_FLAG_LABELS: Record<ConsentFlag, string> = {
+  photo_consent: 'Photos may be kept and shown to staff',
+  name_display_consent: 'Aliases may be shown instead of a pseudonym',
+}
+
+interface ChildConsentFormProps {
+  childId: string
+  // The form currently on record, used to prefill a renewal
+  latest?: ChildConsent
+  onSaved: () => void
+  onCancel: () => void
+}
+
+// Records a new consent form for a child; earlier forms are kept as history
+export default function ChildConsentForm({ childId, latest, onSaved, onCancel }: ChildConsentFormProps) {
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState<ChildConsentDraft>({
+    photo_consent: latest?.photo_consent ?? false,
+    name_display_consent: latest?.name_display_consent ?? false,
+    consented_on: new Date().toISOString().slice(0, 10),
+    expires_on: '',
+    guardian_name: latest?.guardian_name ?? '',
+    guardian_acknowledged_on: '',
+    notes: '',
+  })
+  const [errors, setErrors] = useState<ValidationErrors<ChildConsentDraft>>({})
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: ChildConsentDraft) => {
+      const { error } = await supabase.from('child_consents').insert({
+        child_id: childId,
+        photo_consent: values.photo_consent,
+        name_display_consent: values.name_display_consent,
+        consented_on: values.consented_on,
+        expires_on: values.expires_on || null,
+        guardian_name: emptyToNull(values.guardian_name),
+        guardian_acknowledged_on: values.guardian_acknowledged_on || null,
+        notes: emptyToNull(values.notes),
+      })
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateConsentQueries(queryClient)
+      onSaved()
+    },
+  })
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    const validationErrors = validateChildConsent(draft)
+    setErrors(validationErrors)
+    if (!hasErrors(validationErrors)) saveMutation.mutate(draft)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div className="flex flex-wrap gap-6">
+        {(Object.keys(CONSENT_FLAG_LABELS) as ConsentFlag[]).map(flag => (
+          <label key={flag} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft[flag]}
+              onChange={(e) => setDraft({ ...draft, [flag]: e.target.checked })}
+            />
+            {CONSENT_FLAG_LABELS[flag]}
+          </label>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <FormField id="consent-consented_on" label="Consent given on" error={errors.consented_on}>
+          <Input
+            id="consent-consented_on"
+            type="date"
+            value={draft.consented_on}
+            aria-invalid={!!errors.consented_on}
+            onChange={(e) => setDraft({ ...draft, consented_on: e.target.value })}
+          />
+        </FormField>
+        <FormField id="consent-expires_on" label="Expires on (optional)" error={errors.expires_on}>
+          <Input
+            id="consent-expires_on"
+            type="date"
+            value={draft.expires_on}
+            aria-invalid={!!errors.expires_on}
+            onChange={(e) => setDraft({ ...draft, expires_on: e.target.value })}
+          />
+        </FormField>
+        <FormField id="consent-guardian_name" label="Guardian" error={errors.guardian_name}>
+          <Input
+            id="consent-guardian_name"
+            value={draft.guardian_name}
+            aria-invalid={!!errors.guardian_name}
+            onChange={(e) => setDraft({ ...draft, guardian_name: e.target.value })}
+          />
+        </FormField>
+        <FormField
+          id="consent-guardian_acknowledged_on"
+          label="Guardian acknowledged on"
+          error={errors.guardian_acknowledged_on}
+        >
+          <Input
+            id="consent-guardian_acknowledged_on"
+            type="date"
+            value={draft.guardian_acknowledged_on}
+            aria-invalid={!!errors.guardian_acknowledged_on}
+            onChange={(e) => setDraft({ ...draft, guardian_acknowledged_on: e.target.value })}
+          />
+        </FormField>
+      </div>
+      <FormField id="consent-notes" label="Notes">
+        <Textarea
+          id="consent-notes"
+          rows={2}
+          value={draft.notes}
+          onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+        />
+      </FormField>
+      <p className="text-xs text-gray-500">
+        Consent only applies once the guardian has acknowledged it. Until then the child is shown under a pseudonym and
+        photos of them are hidden.
+      </p>
+      {saveMutation.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {saveMutation.error.message}
+        </div>
+      )}
+      <div className="flex gap-3">
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving...' : 'Record Consent'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
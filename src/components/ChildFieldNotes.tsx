@@ -1,25 +1,39 @@
-import { useMemo, useCallback } from 'react';
+import { useMemo, useCallback, useState } from 'react';
 import type { ReactNode } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
-import type {
-  Child,
-  Coordinator,
-  CoordinatorFieldNote,
-  FieldNote,
-  Facilitator,
-  LearningCentre,
-} from '../types/database';
+import { withSignedPhotoUrls } from '../lib/fieldMedia';
+import { findChildAliasMatches } from '../lib/childMentions';
+import type { ChildAliasRecord } from '../lib/childMentions';
+import { canShowChildName, childPseudonym, consentLookup, displayChildLabel } from '../lib/consent';
+import { TIMELINE_KIND_LABELS, groupTimelineByMonth, timelineSpan } from '../lib/childTimeline';
+import type { TimelineEntry, TimelineEntryKind } from '../lib/childTimeline';
+import type { Child, ChildCentreEnrolment, ChildTimelineNote, ChildTimelinePhoto, LearningCentre } from '../types/database';
+import { useConsentStatuses } from '../hooks/useChildConsents';
+import { findThreadStatus, useCommentThreads } from '../hooks/useComments';
+import type { CommentTarget } from '../lib/comments';
+import ConsentPhoto from './ConsentPhoto';
+import CommentThread from './CommentThread';
 import { Button } from './ui/button';
 import { Skeleton } from './ui/skeleton';
 
-type FacilitatorNote = Pick<FieldNote, 'id' | 'text' | 'created_at' | 'sent_at'> & {
-  facilitator?: Pick<Facilitator, 'name' | 'contact_number' | 'email'> | null;
+type Enrolment = ChildCentreEnrolment & {
+  learning_centre?: Pick<LearningCentre, 'centre_name'> | null;
 };
 
-type CoordinatorNote = Pick<CoordinatorFieldNote, 'id' | 'note_text' | 'created_at' | 'noted_at'> & {
-  coordinator?: Pick<Coordinator, 'name'> | null;
+type TimelineFilter = 'all' | TimelineEntryKind;
+
+const COMMENT_TARGET_TYPES: Record<TimelineEntryKind, CommentTarget['type']> = {
+  facilitator: 'field_note',
+  coordinator: 'coordinator_field_note',
+  photo: 'field_image',
+};
+
+const ENTRY_KIND_LABELS: Record<TimelineEntryKind, string> = {
+  facilitator: 'Facilitator note',
+  coordinator: 'Coordinator note',
+  photo: 'Photo',
 };
 
 interface ChildWithContext extends Child {
@@ -50,8 +64,6 @@ export default function ChildFieldNotes() {
   }>();
   const navigate = useNavigate();
 
-const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
   // Fetch child data
   const { data: child, isLoading: childLoading, error: childError } = useQuery({
     queryKey: ['child', childId],
@@ -59,7 +71,7 @@ const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\
     const { data, error } = await supabase
       .from('children')
       .select(
-        'id, learning_centre_id, alias, created_at, updated_at, learning_centre:learning_centre_id(id, centre_name, city, state)',
+        'id, learning_centre_id, alias, left_at, created_at, updated_at, learning_centre:learning_centre_id(id, centre_name, city, state)',
       )
       .eq('id', childId)
       .single();
@@ -77,6 +89,7 @@ const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\
       alias: Array.isArray(data.alias)
         ? (data.alias as string[]).filter((alias) => Boolean(alias && alias.trim()))
         : [],
+      left_at: data.left_at ? String(data.left_at) : null,
       created_at: data.created_at ? String(data.created_at) : '',
       updated_at: data.updated_at ? String(data.updated_at) : '',
       learning_centre: learningCentre
@@ -92,144 +105,143 @@ const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\
     enabled: !!childId,
   })
 
-  // Fetch field notes
-  const { data: notesData } = useQuery({
-    queryKey: ['childNotes', childId],
+  // Centres the child has attended, oldest first
+  const { data: enrolments = [] } = useQuery({
+    queryKey: ['childEnrolments', childId],
     queryFn: async () => {
-    const { data, error } = await supabase
-      .from('child_field_note_links')
-      .select(`
-        id,
-        field_note:field_note_id (
-          id,
-          text,
-          created_at,
-          sent_at,
-          facilitator:facilitator_id ( name, contact_number, email )
-        ),
-        coordinator_field_note:coordinator_field_note_id (
-          id,
-          note_text,
-          created_at,
-          noted_at,
-          coordinator:coordinator_id ( name )
-        )
-      `)
-      .eq('child_id', childId);
-
-    if (error) throw error;
+      const { data, error } = await supabase
+        .from('child_centre_enrolments')
+        .select('*, learning_centre:learning_centre_id(centre_name)')
+        .eq('child_id', childId)
+        .order('started_on', { ascending: true });
 
-    const facilitator: FacilitatorNote[] = [];
-    const coordinator: CoordinatorNote[] = [];
+      if (error) throw error;
+      return (data || []) as Enrolment[];
+    },
+    enabled: !!childId,
+  });
 
-    (data ?? []).forEach((link) => {
-      const typedLink = link as unknown as {
-        field_note?: {
-          id: string
-          text: string
-          created_at: string
-          sent_at: string
-          facilitator?: { name: string; contact_number: string; email: string } | null
-        } | null
-        coordinator_field_note?: {
-          id: string
-          note_text: string
-          created_at: string
-          noted_at: string
-          coordinator?: { name: string } | null
-        } | null
-      }
-      if (typedLink.field_note) {
-        facilitator.push({
-          id: typedLink.field_note.id,
-          text: typedLink.field_note.text,
-          created_at: typedLink.field_note.created_at,
-          sent_at: typedLink.field_note.sent_at,
-          facilitator: typedLink.field_note.facilitator
-            ? {
-                name: typedLink.field_note.facilitator.name ?? null,
-                contact_number: typedLink.field_note.facilitator.contact_number ?? null,
-                email: typedLink.field_note.facilitator.email ?? null,
-              }
-            : null,
-        });
-      }
-      if (typedLink.coordinator_field_note) {
-        coordinator.push({
-          id: typedLink.coordinator_field_note.id,
-          note_text: typedLink.coordinator_field_note.note_text,
-          created_at: typedLink.coordinator_field_note.created_at,
-          noted_at: typedLink.coordinator_field_note.noted_at,
-          coordinator: typedLink.coordinator_field_note.coordinator
-            ? { name: typedLink.coordinator_field_note.coordinator.name ?? null }
-            : null,
-        });
-      }
-    });
+  // Notes linked to the child at any centre, as timeline entries. They come from a function
+  // because notes from a centre the viewer cannot open, such as a moved child's earlier
+  // centre, are not readable directly.
+  const { data: entries = [], isLoading: notesLoading } = useQuery({
+    queryKey: ['childNotes', childId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('list_child_timeline_notes', { p_child_id: childId });
 
-    facilitator.sort((a, b) => {
-      const dateA = Date.parse(a.sent_at || a.created_at || '');
-      const dateB = Date.parse(b.sent_at || b.created_at || '');
-      return (isNaN(dateB) ? 0 : dateB) - (isNaN(dateA) ? 0 : dateA);
-    });
+      if (error) throw error;
+      return ((data ?? []) as ChildTimelineNote[]).map((note): TimelineEntry => ({
+        id: note.id,
+        kind: note.kind,
+        date: note.dated_at,
+        author: note.author,
+        text: note.body,
+        learningCentreId: note.learning_centre_id,
+        centreVisible: note.centre_visible,
+        withheldChildren: note.withheld_children,
+      }));
+    },
+    enabled: !!childId,
+  });
 
-    coordinator.sort((a, b) => {
-      const dateA = Date.parse(a.noted_at || a.created_at || '');
-      const dateB = Date.parse(b.noted_at || b.created_at || '');
-      return (isNaN(dateB) ? 0 : dateB) - (isNaN(dateA) ? 0 : dateA);
-    });
+  // Photos the child is tagged in. A photo only comes with a URL when everyone tagged in it
+  // has consent, not just this child.
+  const { data: photoEntries = [], isLoading: photosLoading } = useQuery({
+    queryKey: ['childPhotos', childId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('list_child_timeline_photos', { p_child_id: childId });
 
-    return { facilitator, coordinator }
+      if (error) throw error;
+      const photos = (data ?? []) as ChildTimelinePhoto[];
+      const signed = await withSignedPhotoUrls(
+        photos.flatMap((photo) => (photo.photo_url ? [{ id: photo.id, photo_url: photo.photo_url }] : [])),
+      );
+      const urls = new Map(signed.map((photo) => [photo.id, photo.photo_url]));
+      return photos.map((photo): TimelineEntry => ({
+        id: photo.id,
+        kind: 'photo',
+        date: photo.dated_at,
+        author: photo.author,
+        text: photo.caption,
+        learningCentreId: photo.learning_centre_id,
+        centreVisible: photo.centre_visible,
+        photoUrl: urls.get(photo.id),
+        withheldChildren: photo.withheld_children,
+      }));
     },
     enabled: !!childId,
-  })
+  });
 
-  const facilitatorNotes = notesData?.facilitator || []
-  const coordinatorNotes = notesData?.coordinator || []
-  const loading = childLoading
-  const error = childError?.message || null
+  const { data: consentStatuses = [] } = useConsentStatuses({ childIds: childId ? [childId] : [] });
+  const consents = useMemo(() => consentLookup(consentStatuses), [consentStatuses]);
+  const showName = !!childId && canShowChildName(childId, consents);
 
-  const aliases = useMemo(() => child?.alias ?? [], [child]);
-  const aliasLower = useMemo(() => aliases.map((alias) => alias.toLowerCase()), [aliases]);
+  const [filter, setFilter] = useState<TimelineFilter>('all');
+  const filteredEntries = useMemo(() => {
+    const all = [...entries, ...photoEntries];
+    return filter === 'all' ? all : all.filter((entry) => entry.kind === filter);
+  }, [entries, photoEntries, filter]);
+  const months = useMemo(() => groupTimelineByMonth(filteredEntries), [filteredEntries]);
+  const { data: commentThreads = [] } = useCommentThreads(
+    [...entries, ...photoEntries]
+      .filter((entry) => entry.centreVisible !== false)
+      .map((entry) => entry.learningCentreId ?? ''),
+  );
+  const span = useMemo(() => timelineSpan([...entries, ...photoEntries]), [entries, photoEntries]);
+  const centreNames = useMemo(
+    () => new Map(enrolments.map((enrolment) => [enrolment.learning_centre_id, enrolment.learning_centre?.centre_name ?? ''])),
+    [enrolments],
+  );
+  // Centre names are only worth showing on entries once the child has attended more than one
+  const showCentre = centreNames.size > 1;
+
+  const loading = childLoading;
+  const error = childError?.message || null;
 
+  const aliases = useMemo(() => child?.alias ?? [], [child]);
+  // Same matcher as the mention suggestions, so Kannada and respelt aliases are highlighted too.
+  // Without name consent the alias is replaced by the child's pseudonym. Other children named
+  // in the entry are shown by their pseudonym when their own name consent is missing.
   const highlightChildAliases = useCallback(
-    (text: string): ReactNode[] => {
-      if (!aliases.length) {
-        return [
-          <span key="plain" className="whitespace-pre-wrap">
-            {text}
+    (text: string, withheld: ChildAliasRecord[] = []): ReactNode[] => {
+      const normalised = text.normalize('NFC');
+      const segments: ReactNode[] = [];
+      let position = 0;
+      const children = [
+        { id: childId ?? '', alias: aliases },
+        ...withheld.filter((other) => other.id !== childId),
+      ];
+      findChildAliasMatches(normalised, children).forEach((match, idx) => {
+        if (match.start > position) {
+          segments.push(
+            <span key={`text-${idx}`} className="whitespace-pre-wrap">
+              {normalised.slice(position, match.start)}
+            </span>,
+          );
+        }
+        segments.push(
+          match.childId !== (childId ?? '') ? (
+            <span key={`match-${idx}`}>{childPseudonym(match.childId)}</span>
+          ) : (
+            <mark key={`match-${idx}`} className="rounded bg-yellow-100 px-1 py-0.5">
+              {showName || !childId ? normalised.slice(match.start, match.end) : childPseudonym(childId)}
+            </mark>
+          ),
+        );
+        position = match.end;
+      });
+      if (position < normalised.length) {
+        segments.push(
+          <span key="text-end" className="whitespace-pre-wrap">
+            {normalised.slice(position)}
           </span>,
-        ] as ReactNode[];
+        );
       }
-
-      const regex = new RegExp(`(${aliases.map(escapeRegExp).join('|')})`, 'gi');
-      return text
-        .split(regex)
-        .map((segment, idx) => {
-          if (!segment) {
-            return null;
-          }
-          const isMatch = aliasLower.includes(segment.toLowerCase());
-          if (isMatch) {
-            return (
-              <mark key={idx} className="rounded bg-yellow-100 px-1 py-0.5">
-                {segment}
-              </mark>
-            );
-          }
-          return (
-            <span key={idx} className="whitespace-pre-wrap">
-              {segment}
-            </span>
-          );
-        })
-        .filter(Boolean) as ReactNode[];
+      return segments;
     },
-    [aliases, aliasLower],
+    [aliases, childId, showName],
   );
 
-  const childLabel = aliases.length > 0 ? aliases.join(', ') : 'Unnamed Child';
-
   const goBack = () =>
     navigate(
       `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(districtParam || '')}/centre/${centreId}`,
@@ -268,61 +280,136 @@ const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\
       </Button>
 
       <header className="mb-8 space-y-1">
-        <h1 className="text-2xl font-semibold text-gray-900">{childLabel}</h1>
+        <h1 className="text-2xl font-semibold text-gray-900">{displayChildLabel(child, consents)}</h1>
         {child.learning_centre && (
           <p className="text-sm text-gray-500">
             {child.learning_centre.centre_name} • {child.learning_centre.city}, {child.learning_centre.state}
           </p>
         )}
-      </header>
-
-      <section className="mb-10">
-        <h2 className="text-lg font-medium text-gray-900 mb-3">Facilitator Field Notes</h2>
-        {facilitatorNotes.length === 0 ? (
-          <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
-            No facilitator notes associated with this child yet.
+        {child.left_at && (
+          <p className="text-sm text-gray-500">Left the centre on {formatDisplayDate(child.left_at)}</p>
+        )}
+        {!showName && (
+          <p className="text-sm text-amber-700">
+            Shown under a pseudonym until a guardian's consent to display their aliases is recorded.
           </p>
-        ) : (
-          <div className="space-y-4">
-            {facilitatorNotes.map((note) => (
-              <article key={note.id} className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
-                <div className="flex flex-wrap items-center gap-2 text-xs uppercase tracking-wide text-gray-500">
-                  <span>{note.facilitator?.name || 'Facilitator'}</span>
-                  <span aria-hidden="true">•</span>
-                  <span>{formatDisplayDate(note.sent_at || note.created_at)}</span>
-                </div>
-                <div className="mt-3 text-sm text-gray-800 whitespace-pre-wrap">
-                  {note.text?.trim()
-                    ? highlightChildAliases(note.text.trim())
-                    : <span className="italic text-gray-500">No note text provided.</span>}
-                </div>
-              </article>
-            ))}
-          </div>
         )}
+      </header>
+
+      <section className="mb-8 grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div className="rounded-lg border border-gray-200 bg-white p-4">
+          <p className="text-xs uppercase tracking-wide text-gray-500">First seen</p>
+          <p className="mt-1 text-sm font-medium text-gray-900">{span ? formatDisplayDate(span.firstSeen) : '—'}</p>
+        </div>
+        <div className="rounded-lg border border-gray-200 bg-white p-4">
+          <p className="text-xs uppercase tracking-wide text-gray-500">Last seen</p>
+          <p className="mt-1 text-sm font-medium text-gray-900">{span ? formatDisplayDate(span.lastSeen) : '—'}</p>
+        </div>
+        <div className="rounded-lg border border-gray-200 bg-white p-4">
+          <p className="text-xs uppercase tracking-wide text-gray-500">Centres</p>
+          {enrolments.length === 0 ? (
+            <p className="mt-1 text-sm font-medium text-gray-900">—</p>
+          ) : (
+            <ul className="mt-1 space-y-1 text-sm text-gray-900">
+              {enrolments.map((enrolment) => (
+                <li key={enrolment.id}>
+                  <span className="font-medium">{enrolment.learning_centre?.centre_name || 'Learning centre'}</span>{' '}
+                  <span className="text-gray-500">
+                    {formatDisplayDate(enrolment.started_on)} – {enrolment.ended_on ? formatDisplayDate(enrolment.ended_on) : 'present'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
       </section>
 
       <section>
-        <h2 className="text-lg font-medium text-gray-900 mb-3">Coordinator Field Notes</h2>
-        {coordinatorNotes.length === 0 ? (
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-medium text-gray-900">Timeline</h2>
+          <div className="inline-flex flex-wrap rounded-md border border-gray-200 p-1">
+            {(['all', ...Object.keys(TIMELINE_KIND_LABELS)] as TimelineFilter[]).map((key) => (
+              <Button
+                key={key}
+                size="sm"
+                variant={filter === key ? 'default' : 'ghost'}
+                onClick={() => setFilter(key)}
+              >
+                {key === 'all' ? 'All' : TIMELINE_KIND_LABELS[key]}
+              </Button>
+            ))}
+          </div>
+        </div>
+        {notesLoading || photosLoading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, idx) => (
+              <Skeleton key={idx} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : months.length === 0 ? (
           <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
-            No coordinator notes associated with this child yet.
+            {filter === 'all'
+              ? 'No notes or photos associated with this child yet.'
+              : `No ${TIMELINE_KIND_LABELS[filter].toLowerCase()} associated with this child yet.`}
           </p>
         ) : (
-          <div className="space-y-4">
-            {coordinatorNotes.map((note) => (
-              <article key={note.id} className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
-                <div className="flex flex-wrap items-center gap-2 text-xs uppercase tracking-wide text-gray-500">
-                  <span>{note.coordinator?.name || 'Coordinator'}</span>
-                  <span aria-hidden="true">•</span>
-                  <span>{formatDisplayDate(note.noted_at || note.created_at)}</span>
-                </div>
-                <div className="mt-3 text-sm text-gray-800 whitespace-pre-wrap">
-                  {note.note_text?.trim()
-                    ? highlightChildAliases(note.note_text.trim())
-                    : <span className="italic text-gray-500">No note text provided.</span>}
+          <div className="space-y-8">
+            {months.map((month) => (
+              <div key={month.key}>
+                <h3 className="mb-3 text-sm font-medium text-gray-500">{month.label}</h3>
+                <div className="space-y-4 border-l-2 border-gray-100 pl-4">
+                  {month.entries.map((entry) => (
+                    <article key={`${entry.kind}-${entry.id}`} className="rounded-lg border border-gray-200 bg-white p-5 shadow-sm">
+                      <div className="flex flex-wrap items-center gap-2 text-xs uppercase tracking-wide text-gray-500">
+                        <span>{entry.author}</span>
+                        <span aria-hidden="true">•</span>
+                        <span>{ENTRY_KIND_LABELS[entry.kind]}</span>
+                        <span aria-hidden="true">•</span>
+                        <span>{formatDisplayDate(entry.date)}</span>
+                        {showCentre && entry.learningCentreId && centreNames.get(entry.learningCentreId) && (
+                          <>
+                            <span aria-hidden="true">•</span>
+                            <span>{centreNames.get(entry.learningCentreId)}</span>
+                          </>
+                        )}
+                      </div>
+                      {entry.kind === 'photo' ? (
+                        <figure className="mt-3 space-y-2">
+                          <ConsentPhoto
+                            src={entry.photoUrl ?? ''}
+                            alt="Photo the child is tagged in"
+                            visible={!!entry.photoUrl}
+                            className="max-h-96 w-full rounded-md object-cover"
+                          />
+                          {entry.text.trim() && (
+                            <figcaption className="text-sm text-gray-700 whitespace-pre-wrap">
+                              {highlightChildAliases(entry.text.trim(), entry.withheldChildren)}
+                            </figcaption>
+                          )}
+                        </figure>
+                      ) : (
+                        <div className="mt-3 text-sm text-gray-800 whitespace-pre-wrap">
+                          {entry.text.trim()
+                            ? highlightChildAliases(entry.text.trim(), entry.withheldChildren)
+                            : <span className="italic text-gray-500">No note text provided.</span>}
+                        </div>
+                      )}
+                      {entry.learningCentreId && entry.centreVisible === false && (
+                        <p className="mt-3 text-xs text-gray-500">
+                          Comments on this entry are only shown to staff of the centre it was written for.
+                        </p>
+                      )}
+                      {entry.learningCentreId && entry.centreVisible !== false && (
+                        <CommentThread
+                          target={{ type: COMMENT_TARGET_TYPES[entry.kind], id: entry.id }}
+                          centreId={entry.learningCentreId}
+                          status={findThreadStatus(commentThreads, { type: COMMENT_TARGET_TYPES[entry.kind], id: entry.id })}
+                        />
+                      )}
+                    </article>
+                  ))}
                 </div>
-              </article>
+              </div>
             ))}
           </div>
         )}
@@ -0,0 +1,118 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { hasErrors, parseAliases, validateChild } from '../lib/validation'
+import type { ChildDraft, ValidationErrors } from '../lib/validation'
+import { invalidateChildQueries } from '../hooks/useChildren'
+import type { Child } from '../types/database'
+import FormField from './FormField'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+
+interface ChildFormProps {
+  centreId: string
+  // Edits this child's aliases and left date when given, otherwise creates a child
+  child?: Child
+  onSaved: () => void
+  onCancel: () => void
+}
+
+export default function ChildForm({ centreId, child, onSaved, onCancel }: ChildFormProps) {
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState<ChildDraft>({
+    name: child?.name ?? '',
+    alias: child?.alias?.join(', ') ?? '',
+    left_at: child?.left_at ?? '',
+  })
+  const [errors, setErrors] = useState<ValidationErrors<ChildDraft>>({})
+
+  // Each change goes through an RPC so it is recorded in the child's history
+  const saveMutation = useMutation({
+    mutationFn: async (values: ChildDraft) => {
+      const aliases = parseAliases(values.alias)
+      if (!child) {
+        const { error } = await supabase.rpc('create_child', {
+          p_learning_centre_id: centreId,
+          p_name: values.name.trim(),
+          p_aliases: aliases,
+        })
+        if (error) throw error
+        return
+      }
+
+      const { error: aliasError } = await supabase.rpc('set_child_aliases', {
+        p_child_id: child.id,
+        p_aliases: aliases,
+      })
+      if (aliasError) throw aliasError
+
+      const { error: leftError } = await supabase.rpc('set_child_left_at', {
+        p_child_id: child.id,
+        p_left_at: values.left_at || null,
+      })
+      if (leftError) throw leftError
+    },
+    onSuccess: () => {
+      invalidateChildQueries(queryClient, centreId)
+      onSaved()
+    },
+  })
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    const validationErrors = validateChild(draft)
+    setErrors(validationErrors)
+    if (!hasErrors(validationErrors)) saveMutation.mutate(draft)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <FormField id="child-name" label="Name" error={errors.name}>
+          <Input
+            id="child-name"
+            value={draft.name}
+            disabled={!!child}
+            aria-invalid={!!errors.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+        </FormField>
+        <FormField id="child-alias" label="Aliases (comma-separated, as they appear in notes)" error={errors.alias}>
+          <Input
+            id="child-alias"
+            value={draft.alias}
+            onChange={(e) => setDraft({ ...draft, alias: e.target.value })}
+          />
+        </FormField>
+        {child && (
+          <FormField id="child-left_at" label="Left the centre on" error={errors.left_at}>
+            <Input
+              id="child-left_at"
+              type="date"
+              value={draft.left_at}
+              aria-invalid={!!errors.left_at}
+              onChange={(e) => setDraft({ ...draft, left_at: e.target.value })}
+            />
+          </FormField>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        The name is only shown to admins and coordinators. Aliases are what appear in notes and reports.
+      </p>
+      {saveMutation.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {saveMutation.error.message}
+        </div>
+      )}
+      <div className="flex gap-3">
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving...' : child ? 'Save Child' : 'Create Child'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
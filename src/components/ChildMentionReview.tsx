@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { childLabel } from '../lib/childMentions'
+import { useCentreChildren } from '../hooks/useChildren'
+import { scanChildMentions, usePendingChildMentions } from '../hooks/useChildMentions'
+import type { PendingChildMention } from '../hooks/useChildMentions'
+import { Card, CardContent } from './ui/card'
+import { Button } from './ui/button'
+import { Skeleton } from './ui/skeleton'
+
+// Characters of note text shown either side of the match
+const SNIPPET_CONTEXT = 120
+
+function noteSource(suggestion: PendingChildMention): { author: string; date?: string | null; text: string } {
+  if (suggestion.field_note) {
+    return {
+      author: suggestion.field_note.facilitator?.name || 'Facilitator',
+      date: suggestion.field_note.sent_at || suggestion.field_note.created_at,
+      text: suggestion.field_note.text ?? '',
+    }
+  }
+  return {
+    author: suggestion.coordinator_field_note?.coordinator?.name || 'Coordinator',
+    date: suggestion.coordinator_field_note?.noted_at,
+    text: suggestion.coordinator_field_note?.note_text ?? '',
+  }
+}
+
+// Note text around the first occurrence of the matched text, with the match highlighted
+function snippet(text: string, matchedText: string): ReactNode {
+  const normalised = text.normalize('NFC')
+  const index = normalised.toLowerCase().indexOf(matchedText.toLowerCase())
+  if (index < 0) return normalised.slice(0, SNIPPET_CONTEXT * 2)
+
+  const start = Math.max(0, index - SNIPPET_CONTEXT)
+  const end = Math.min(normalised.length, index + matchedText.length + SNIPPET_CONTEXT)
+  return (
+    <>
+      {start > 0 && '…'}
+      {normalised.slice(start, index)}
+      <mark className="rounded bg-yellow-100 px-1 py-0.5">{normalised.slice(index, index + matchedText.length)}</mark>
+      {normalised.slice(index + matchedText.length, end)}
+      {end < normalised.length && '…'}
+    </>
+  )
+}
+
+// Review queue for links between children and the notes that mention them
+export default function ChildMentionReview() {
+  const { centreId, state: stateParam, district: districtParam } = useParams<{
+    centreId: string
+    state: string
+    district: string
+  }>()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const centrePath = `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(districtParam || '')}/centre/${centreId}`
+  const [scanResult, setScanResult] = useState<number | null>(null)
+
+  const { data: children = [] } = useCentreChildren(centreId)
+  const { data: suggestions = [], isLoading, error } = usePendingChildMentions(centreId)
+  const childrenById = new Map(children.map(child => [child.id, child]))
+
+  const scanMutation = useMutation({
+    mutationFn: () => scanChildMentions(centreId as string, children),
+    onSuccess: (added) => {
+      setScanResult(added)
+      queryClient.invalidateQueries({ queryKey: ['childMentionSuggestions', centreId] })
+    },
+  })
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, accept }: { id: string; accept: boolean }) => {
+      const { error } = await supabase.rpc('review_child_mention_suggestion', {
+        p_suggestion_id: id,
+        p_accept: accept,
+      })
+      if (error) throw error
+      return accept
+    },
+    onSuccess: (accepted) => {
+      queryClient.invalidateQueries({ queryKey: ['childMentionSuggestions', centreId] })
+      if (accepted) queryClient.invalidateQueries({ queryKey: ['childNotes'] })
+    },
+  })
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <Button
+            onClick={() => navigate(`${centrePath}/children`)}
+            variant="link"
+            className="mb-2 gap-1 text-gray-500 hover:text-gray-900"
+          >
+            ← Back to Children
+          </Button>
+          <h1 className="text-2xl font-semibold text-gray-900">Child Mentions</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Notes that mention a child's alias, including other spellings and Kannada script. Accepting links the note to the child.
+          </p>
+        </div>
+        <Button
+          disabled={!centreId || children.length === 0 || scanMutation.isPending}
+          onClick={() => scanMutation.mutate()}
+        >
+          {scanMutation.isPending ? 'Scanning...' : 'Scan Notes'}
+        </Button>
+      </div>
+
+      {scanResult !== null && !scanMutation.isPending && (
+        <p className="mb-4 text-sm text-gray-600">
+          {scanResult === 0 ? 'No new mentions found.' : `${scanResult} new mention${scanResult === 1 ? '' : 's'} to review.`}
+        </p>
+      )}
+
+      {(error || scanMutation.error || reviewMutation.error) && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {error?.message || scanMutation.error?.message || reviewMutation.error?.message}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, idx) => (
+            <Skeleton key={idx} className="h-28 w-full" />
+          ))}
+        </div>
+      ) : suggestions.length === 0 ? (
+        <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
+          Nothing to review. Scan the notes to look for new mentions.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {suggestions.map(suggestion => {
+            const child = childrenById.get(suggestion.child_id)
+            const source = noteSource(suggestion)
+            const reviewing = reviewMutation.isPending && reviewMutation.variables?.id === suggestion.id
+            return (
+              <Card key={suggestion.id}>
+                <CardContent className="pt-6">
+                  <div className="flex flex-wrap items-start justify-between gap-4">
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium text-gray-900">
+                        {child ? childLabel(child) : 'Unknown child'}
+                        {suggestion.matched_text !== suggestion.matched_alias && (
+                          <span className="ml-2 text-xs font-normal text-gray-500">
+                            “{suggestion.matched_text}” matched {suggestion.matched_alias}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs uppercase tracking-wide text-gray-500">
+                        {source.author}
+                        {source.date && ` • ${new Date(source.date).toLocaleDateString()}`}
+                        {suggestion.coordinator_field_note_id ? ' • Coordinator note' : ' • Field note'}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        disabled={reviewing}
+                        onClick={() => reviewMutation.mutate({ id: suggestion.id, accept: true })}
+                      >
+                        Accept
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={reviewing}
+                        onClick={() => reviewMutation.mutate({ id: suggestion.id, accept: false })}
+                      >
+                        Reject
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="mt-3 text-sm text-gray-800 whitespace-pre-wrap">
+                    {snippet(source.text, suggestion.matched_text)}
+                  </p>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { MessageSquare } from 'lucide-react'
+import { completeMention, mentionedUserIds, pendingMention, splitMentions } from '../lib/comments'
+import type { CommentTarget } from '../lib/comments'
+import { useAuth } from '../hooks/useAuth'
+import { addComment, markCommentsRead, useCommentParticipants, useComments } from '../hooks/useComments'
+import type { Comment, CommentParticipant, CommentThreadStatus } from '../types/database'
+import { Button } from './ui/button'
+import { Textarea } from './ui/textarea'
+
+interface CommentComposerProps {
+  target: CommentTarget
+  parentId: string | null
+  participants: CommentParticipant[]
+  placeholder: string
+  onPosted: () => void
+  onCancel?: () => void
+}
+
+function CommentComposer({ target, parentId, participants, placeholder, onPosted, onCancel }: CommentComposerProps) {
+  const [body, setBody] = useState('')
+  const partial = pendingMention(body)
+  const suggestions = partial === null
+    ? []
+    : participants.filter(p => p.name.toLowerCase().startsWith(partial.toLowerCase())).slice(0, 5)
+
+  const postMutation = useMutation({
+    mutationFn: () => addComment(target, body, parentId, mentionedUserIds(body, participants)),
+    onSuccess: () => {
+      setBody('')
+      onPosted()
+    },
+  })
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        className="bg-white"
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {suggestions.map(participant => (
+            <button
+              key={participant.id}
+              type="button"
+              onClick={() => setBody(completeMention(body, participant))}
+              className="rounded-full border border-gray-200 px-3 py-1 text-xs text-gray-700 hover:bg-gray-50"
+            >
+              @{participant.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {postMutation.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {postMutation.error.message}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Button size="sm" disabled={!body.trim() || postMutation.isPending} onClick={() => postMutation.mutate()}>
+          {postMutation.isPending ? 'Posting...' : parentId ? 'Reply' : 'Comment'}
+        </Button>
+        {onCancel && (
+          <Button size="sm" variant="ghost" disabled={postMutation.isPending} onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface CommentThreadProps {
+  target: CommentTarget
+  centreId: string
+  status?: CommentThreadStatus
+  defaultOpen?: boolean
+}
+
+// Discussion on one report, note or photo. Collapsed it shows the comment count and how
+// many are unread; opening it marks them read.
+export default function CommentThread({ target, centreId, status, defaultOpen = false }: CommentThreadProps) {
+  const queryClient = useQueryClient()
+  const { user } = useAuth()
+  const [open, setOpen] = useState(defaultOpen)
+  const [replyTo, setReplyTo] = useState<string | null>(null)
+  const { data: comments = [], isLoading, error } = useComments(target, open)
+  const { data: participants = [] } = useCommentParticipants(open ? centreId : undefined)
+
+  const count = status?.comments_count ?? 0
+  const unread = status?.unread_count ?? 0
+  const unreadMentions = status?.unread_mentions_count ?? 0
+
+  // Only the thread counts are refreshed, so comments stay marked as new while the thread is open
+  const { type: targetType, id: targetId } = target
+  useEffect(() => {
+    if (!open || unread === 0 || isLoading) return
+    markCommentsRead({ type: targetType, id: targetId })
+      .then(() => queryClient.invalidateQueries({ queryKey: ['commentThreads'] }))
+      .catch(() => {})
+  }, [open, unread, isLoading, targetType, targetId, queryClient])
+
+  const refresh = () => {
+    setReplyTo(null)
+    queryClient.invalidateQueries({ queryKey: ['comments', target.type, target.id] })
+    queryClient.invalidateQueries({ queryKey: ['commentThreads'] })
+  }
+
+  const names = new Map(participants.map(p => [p.id, p.name]))
+  const topLevel = comments.filter(comment => !comment.parent_id)
+  const replies = (parentId: string) => comments.filter(comment => comment.parent_id === parentId)
+
+  const renderComment = (comment: Comment) => {
+    const mentionsMe = !!user && comment.mentions?.some(mention => mention.user_id === user.id)
+    const isNew = comment.created_by !== user?.id && comment.reads?.length === 0
+    return (
+      <div
+        className={`rounded-md border p-3 ${mentionsMe ? 'border-blue-200 bg-blue-50/50' : 'border-gray-100 bg-white'}`}
+      >
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          <span className="font-medium text-gray-700">
+            {comment.created_by ? names.get(comment.created_by) ?? 'Former member' : 'Former member'}
+          </span>
+          <span aria-hidden="true">•</span>
+          <span>{new Date(comment.created_at).toLocaleString()}</span>
+          {isNew && <span className="rounded-full bg-blue-100 px-2 py-0.5 text-blue-700">New</span>}
+        </div>
+        <p className="mt-1 text-sm text-gray-800 whitespace-pre-wrap">
+          {splitMentions(comment.body, participants).map((segment, idx) =>
+            segment.participant
+              ? <span key={idx} className="font-medium text-blue-700">{segment.text}</span>
+              : <span key={idx}>{segment.text}</span>
+          )}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-3">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className="flex items-center gap-2 text-xs text-gray-500 hover:text-gray-800"
+      >
+        <MessageSquare className="h-3.5 w-3.5" aria-hidden="true" />
+        {count === 0 ? 'Comment' : `${count} comment${count === 1 ? '' : 's'}`}
+        {unread > 0 && (
+          <span className="rounded-full bg-blue-600 px-1.5 py-0.5 text-[10px] font-medium text-white">
+            {unread} new{unreadMentions > 0 ? ` · ${unreadMentions} @you` : ''}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-3 space-y-3 border-l-2 border-gray-100 pl-3">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+              {error.message}
+            </div>
+          )}
+          {isLoading ? (
+            <div className="h-12 w-full rounded-md bg-gray-100 animate-pulse" />
+          ) : (
+            topLevel.map(comment => (
+              <div key={comment.id} className="space-y-2">
+                {renderComment(comment)}
+                <div className="ml-4 space-y-2">
+                  {replies(comment.id).map(reply => (
+                    <div key={reply.id}>{renderComment(reply)}</div>
+                  ))}
+                  {replyTo === comment.id ? (
+                    <CommentComposer
+                      target={target}
+                      parentId={comment.id}
+                      participants={participants}
+                      placeholder="Reply... type @ to mention someone"
+                      onPosted={refresh}
+                      onCancel={() => setReplyTo(null)}
+                    />
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setReplyTo(comment.id)}
+                      className="text-xs text-gray-500 hover:text-gray-800"
+                    >
+                      Reply
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+          <CommentComposer
+            target={target}
+            parentId={null}
+            participants={participants}
+            placeholder="Add a comment... type @ to mention someone"
+            onPosted={refresh}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import { EyeOff } from 'lucide-react'
+
+interface ConsentPhotoProps {
+  src: string
+  alt: string
+  // False when a child in the photo lacks photo consent; the image is then never requested
+  visible: boolean
+  className?: string
+}
+
+// A gallery photo, or a placeholder in its place until consent covers everyone tagged in it
+export default function ConsentPhoto({ src, alt, visible, className = '' }: ConsentPhotoProps) {
+  if (visible) return <img src={src} alt={alt} className={className} loading="lazy" />
+
+  return (
+    <div
+      role="img"
+      aria-label="Photo hidden until consent is recorded"
+      className={`flex min-h-32 flex-col items-center justify-center gap-2 bg-gray-100 p-4 text-center text-xs text-gray-500 ${className}`}
+    >
+      <EyeOff className="h-5 w-5" aria-hidden="true" />
+      Hidden until consent is recorded
+    </div>
+  )
+}
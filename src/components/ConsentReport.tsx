@@ -0,0 +1,142 @@
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { childLabel } from '../lib/childMentions'
+import { CONSENT_GAP_LABELS, consentGaps } from '../lib/consent'
+import type { ConsentGap } from '../lib/consent'
+import { useConsentStatuses } from '../hooks/useChildConsents'
+import { Button } from './ui/button'
+import { Skeleton } from './ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+
+type GapFilter = 'all' | ConsentGap
+
+function formatDate(value?: string | null) {
+  return value ? new Date(value).toLocaleDateString() : '—'
+}
+
+// Children whose consent does not cover both their aliases and photos, so it can be chased up.
+// Aliases are shown here so admins can identify the child with the centre.
+export default function ConsentReport() {
+  const navigate = useNavigate()
+  const [filter, setFilter] = useState<GapFilter>('all')
+  const [includeLeft, setIncludeLeft] = useState(false)
+
+  const { data: statuses = [], isLoading, error } = useConsentStatuses({})
+
+  const rows = useMemo(
+    () =>
+      statuses
+        .filter(status => includeLeft || !status.left_at)
+        .map(status => ({ status, gaps: consentGaps(status) }))
+        .filter(row => row.gaps.length > 0)
+        .sort((a, b) =>
+          a.status.state.localeCompare(b.status.state) ||
+          a.status.district.localeCompare(b.status.district) ||
+          a.status.centre_name.localeCompare(b.status.centre_name) ||
+          childLabel({ id: a.status.child_id, alias: a.status.alias })
+            .localeCompare(childLabel({ id: b.status.child_id, alias: b.status.alias }), undefined, { sensitivity: 'base' })
+        ),
+    [statuses, includeLeft],
+  )
+  const counts = useMemo(() => {
+    const byGap = new Map<ConsentGap, number>()
+    rows.forEach(row => row.gaps.forEach(gap => byGap.set(gap, (byGap.get(gap) ?? 0) + 1)))
+    return byGap
+  }, [rows])
+  const visibleRows = filter === 'all' ? rows : rows.filter(row => row.gaps.includes(filter))
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-2xl font-semibold text-gray-900">Consent</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Children without current guardian consent for their aliases and photos. Until it is recorded they are shown
+          under a pseudonym and photos of them are hidden.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {error.message}
+        </div>
+      )}
+
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="inline-flex flex-wrap rounded-md border border-gray-200 p-1">
+          {(['all', ...Object.keys(CONSENT_GAP_LABELS)] as GapFilter[]).map(key => (
+            <Button
+              key={key}
+              size="sm"
+              variant={filter === key ? 'default' : 'ghost'}
+              onClick={() => setFilter(key)}
+            >
+              {key === 'all' ? `All (${rows.length})` : `${CONSENT_GAP_LABELS[key]} (${counts.get(key) ?? 0})`}
+            </Button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={includeLeft} onChange={(e) => setIncludeLeft(e.target.checked)} />
+          Include children who have left
+        </label>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(6)].map((_, idx) => (
+            <Skeleton key={idx} className="h-10 w-full" />
+          ))}
+        </div>
+      ) : visibleRows.length === 0 ? (
+        <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
+          Every child in this list has current consent.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Child</TableHead>
+              <TableHead>Centre</TableHead>
+              <TableHead>Missing</TableHead>
+              <TableHead>Last consent</TableHead>
+              <TableHead>Expires</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.map(({ status, gaps }) => (
+              <TableRow key={status.child_id}>
+                <TableCell>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      navigate(
+                        `/${encodeURIComponent(status.state)}/${encodeURIComponent(status.district)}/centre/${status.learning_centre_id}/children`,
+                      )
+                    }
+                    className="text-left text-gray-900 underline-offset-4 hover:underline"
+                  >
+                    {childLabel({ id: status.child_id, alias: status.alias })}
+                  </button>
+                  {status.left_at && <span className="ml-2 text-xs text-gray-500">Left {formatDate(status.left_at)}</span>}
+                </TableCell>
+                <TableCell className="text-gray-600">
+                  {status.centre_name}
+                  <span className="block text-xs text-gray-500">{status.district}, {status.state}</span>
+                </TableCell>
+                <TableCell className="text-amber-700">{gaps.map(gap => CONSENT_GAP_LABELS[gap]).join(', ')}</TableCell>
+                <TableCell className="whitespace-nowrap text-gray-600">{formatDate(status.consented_on)}</TableCell>
+                <TableCell className="whitespace-nowrap text-gray-600">{formatDate(status.expires_on)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -1,16 +1,25 @@
+import { useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
+import { hasRole } from '../lib/auth';
+import { consentLookup, displayChildLabel } from '../lib/consent';
+import { useAuth } from '../hooks/useAuth';
+import { useConsentStatuses } from '../hooks/useChildConsents';
+import { findThreadStatus, useCommentThreads } from '../hooks/useComments';
 import type {
+  Child,
   Coordinator,
   CoordinatorFieldNote,
   LearningCentre,
 } from '../types/database';
 import { Button } from './ui/button';
 import { Skeleton } from './ui/skeleton';
+import CoordinatorNoteForm from './CoordinatorNoteForm';
+import CommentThread from './CommentThread';
 
 type CoordinatorNoteDetail = CoordinatorFieldNote & {
-  coordinator?: Pick<Coordinator, 'id' | 'name'> | null;
+  coordinator?: Pick<Coordinator, 'id' | 'name' | 'user_id'> | null;
   learning_centre?: Pick<LearningCentre, 'id' | 'centre_name' | 'city' | 'state'> | null;
 };
 
@@ -22,6 +31,9 @@ export default function CoordinatorFieldNoteDetail() {
     district: string;
   }>();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user, profile } = useAuth();
+  const [editing, setEditing] = useState(false);
 
   const formatDisplayDate = (isoString: string) => {
     if (!isoString) return 'Date unavailable';
@@ -44,7 +56,7 @@ export default function CoordinatorFieldNoteDetail() {
       const { data, error } = await supabase
         .from('coordinator_field_notes')
         .select(
-          'id, learning_centre_id, note_text, noted_at, created_at, coordinator_id, coordinator:coordinator_id(id, name), learning_centre:learning_centre_id(id, centre_name, city, state)',
+          'id, learning_centre_id, note_text, noted_at, created_at, created_by, coordinator_id, coordinator:coordinator_id(id, name, user_id), learning_centre:learning_centre_id(id, centre_name, city, state)',
         )
         .eq('id', noteId)
         .single();
@@ -68,10 +80,12 @@ export default function CoordinatorFieldNoteDetail() {
         note_text: String(data.note_text ?? ''),
         noted_at: data.noted_at ? String(data.noted_at) : '',
         created_at: data.created_at ? String(data.created_at) : '',
+        created_by: data.created_by ? String(data.created_by) : null,
         coordinator: coordinator
           ? {
               id: String(coordinator.id),
               name: coordinator.name ?? null,
+              user_id: coordinator.user_id ?? null,
             }
           : null,
         learning_centre: learningCentre
@@ -87,6 +101,26 @@ export default function CoordinatorFieldNoteDetail() {
     enabled: !!noteId,
   })
 
+  const { data: taggedChildren = [], isLoading: tagsLoading } = useQuery({
+    queryKey: ['coordinatorNoteChildren', noteId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('child_field_note_links')
+        .select('child:child_id(id, alias)')
+        .eq('coordinator_field_note_id', noteId);
+
+      if (error) throw error;
+      return (data ?? [])
+        .map((link) => link.child as unknown as Pick<Child, 'id' | 'alias'> | null)
+        .filter((child): child is Pick<Child, 'id' | 'alias'> => Boolean(child));
+    },
+    enabled: !!noteId,
+  })
+
+  const { data: consentStatuses = [] } = useConsentStatuses({ childIds: taggedChildren.map((child) => child.id) });
+  const consents = consentLookup(consentStatuses);
+  const { data: commentThreads = [] } = useCommentThreads(note ? [note.learning_centre_id] : []);
+
   const error = noteError?.message || null;
 
   const backToCentre = () =>
@@ -94,6 +128,32 @@ export default function CoordinatorFieldNoteDetail() {
       `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(districtParam || '')}/centre/${centreId}`,
     );
 
+  // Mirrors can_edit_coordinator_note; the RPCs enforce the same rule
+  const canEdit =
+    !!note &&
+    (hasRole(profile, ['admin']) ||
+      (hasRole(profile, ['coordinator']) &&
+        (note.created_by === user?.id || (!!note.coordinator?.user_id && note.coordinator.user_id === user?.id))));
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('delete_coordinator_field_note', { p_note_id: noteId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coordinatorNotes', centreId] });
+      queryClient.invalidateQueries({ queryKey: ['childNotes'] });
+      queryClient.removeQueries({ queryKey: ['coordinatorNote', noteId] });
+      backToCentre();
+    },
+  })
+
+  const confirmDelete = () => {
+    if (window.confirm('Delete this note? Children tagged in it will lose the link.')) {
+      deleteMutation.mutate();
+    }
+  };
+
   if (loading) {
     return (
       <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -130,23 +190,85 @@ export default function CoordinatorFieldNoteDetail() {
         ← Back to Learning Centre
       </Button>
 
-      <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
-        <header className="mb-5 space-y-2">
-          <h1 className="text-xl font-semibold text-gray-900">
-            {note.coordinator?.name || 'Coordinator Note'} — {formattedDate}
-          </h1>
-          {note.learning_centre && (
-            <p className="text-sm text-gray-500">
-              {note.learning_centre.centre_name} • {note.learning_centre.city},{' '}
-              {note.learning_centre.state}
-            </p>
+      {editing ? (
+        <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <h1 className="mb-5 text-xl font-semibold text-gray-900">Edit Coordinator Note</h1>
+          <CoordinatorNoteForm
+            centreId={note.learning_centre_id}
+            note={{ ...note, childIds: taggedChildren.map((child) => child.id) }}
+            onSaved={() => setEditing(false)}
+            onCancel={() => setEditing(false)}
+          />
+        </div>
+      ) : (
+        <div className="rounded-lg border border-gray-200 bg-white p-6 shadow-sm">
+          <header className="mb-5 flex items-start justify-between gap-4">
+            <div className="space-y-2">
+              <h1 className="text-xl font-semibold text-gray-900">
+                {note.coordinator?.name || 'Coordinator Note'} — {formattedDate}
+              </h1>
+              {note.learning_centre && (
+                <p className="text-sm text-gray-500">
+                  {note.learning_centre.centre_name} • {note.learning_centre.city},{' '}
+                  {note.learning_centre.state}
+                </p>
+              )}
+            </div>
+            {canEdit && (
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" disabled={tagsLoading} onClick={() => setEditing(true)}>
+                  Edit
+                </Button>
+                <Button size="sm" variant="ghost" disabled={deleteMutation.isPending} onClick={confirmDelete}>
+                  Delete
+                </Button>
+              </div>
+            )}
+          </header>
+
+          {deleteMutation.error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+              {deleteMutation.error.message}
+            </div>
           )}
-        </header>
 
-        <article className="prose max-w-none text-sm text-gray-800 whitespace-pre-wrap">
-          {note.note_text || 'No note text provided.'}
-        </article>
-      </div>
+          <article className="prose max-w-none text-sm text-gray-800 whitespace-pre-wrap">
+            {note.note_text || 'No note text provided.'}
+          </article>
+
+          {taggedChildren.length > 0 && (
+            <div className="mt-6 border-t border-gray-100 pt-4">
+              <h2 className="text-xs font-medium uppercase tracking-wide text-gray-500">Children</h2>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {taggedChildren.map((child) => (
+                  <button
+                    key={child.id}
+                    type="button"
+                    onClick={() =>
+                      navigate(
+                        `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(districtParam || '')}/centre/${centreId}/child/${child.id}`,
+                      )
+                    }
+                    className="rounded-full border border-gray-200 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    {displayChildLabel(child, consents)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="mt-6 border-t border-gray-100 pt-4">
+            <h2 className="text-xs font-medium uppercase tracking-wide text-gray-500">Discussion</h2>
+            <CommentThread
+              target={{ type: 'coordinator_field_note', id: note.id }}
+              centreId={note.learning_centre_id}
+              status={findThreadStatus(commentThreads, { type: 'coordinator_field_note', id: note.id })}
+              defaultOpen
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,137 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { ROLE_LABELS } from '../lib/auth'
+import { emptyToNull, hasErrors, validateCoordinator } from '../lib/validation'
+import type { CoordinatorDraft, ValidationErrors } from '../lib/validation'
+import type { Coordinator, UserProfile } from '../types/database'
+import FormField from './FormField'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+
+const NO_LOGIN = 'none'
+
+interface CoordinatorFormProps {
+  coordinator?: Coordinator
+  // Logins already linked to another coordinator
+  linkedUserIds: string[]
+  onSaved: () => void
+  onCancel: () => void
+}
+
+export default function CoordinatorForm({ coordinator, linkedUserIds, onSaved, onCancel }: CoordinatorFormProps) {
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState<CoordinatorDraft>({
+    name: coordinator?.name ?? '',
+    contact: coordinator?.contact ?? '',
+    user_id: coordinator?.user_id ?? '',
+  })
+  const [errors, setErrors] = useState<ValidationErrors<CoordinatorDraft>>({})
+
+  const { data: logins = [] } = useQuery({
+    queryKey: ['staffProfiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('*')
+        .in('role', ['admin', 'coordinator'])
+        .order('display_name', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as UserProfile[]
+    },
+  })
+  const availableLogins = logins.filter(login => login.id === draft.user_id || !linkedUserIds.includes(login.id))
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: CoordinatorDraft) => {
+      const row = {
+        name: values.name.trim(),
+        contact: emptyToNull(values.contact),
+        user_id: values.user_id || null,
+      }
+      const { error } = coordinator
+        ? await supabase.from('coordinators').update(row).eq('id', coordinator.id)
+        : await supabase.from('coordinators').insert(row)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coordinators'] })
+      queryClient.invalidateQueries({ queryKey: ['auditLog'] })
+      onSaved()
+    },
+  })
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    const validationErrors = validateCoordinator(draft)
+    setErrors(validationErrors)
+    if (!hasErrors(validationErrors)) saveMutation.mutate(draft)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <FormField id="coordinator-name" label="Name" error={errors.name}>
+          <Input
+            id="coordinator-name"
+            value={draft.name}
+            aria-invalid={!!errors.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+        </FormField>
+        <FormField id="coordinator-contact" label="Contact" error={errors.contact}>
+          <Input
+            id="coordinator-contact"
+            value={draft.contact}
+            aria-invalid={!!errors.contact}
+            onChange={(e) => setDraft({ ...draft, contact: e.target.value })}
+          />
+        </FormField>
+        <FormField id="coordinator-user_id" label="Dashboard login">
+          <Select
+            value={draft.user_id || NO_LOGIN}
+            onValueChange={(value) => setDraft({ ...draft, user_id: value === NO_LOGIN ? '' : value })}
+          >
+            <SelectTrigger id="coordinator-user_id">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_LOGIN}>Not linked</SelectItem>
+              {availableLogins.map(login => (
+                <SelectItem key={login.id} value={login.id}>
+                  {login.display_name || login.email} ({ROLE_LABELS[login.role]})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FormField>
+      </div>
+      <p className="text-xs text-gray-500">
+        A linked login can write coordinator notes as this coordinator and edit them later.
+      </p>
+      {saveMutation.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {saveMutation.error.message}
+        </div>
+      )}
+      <div className="flex gap-3">
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving...' : coordinator ? 'Save Coordinator' : 'Create Coordinator'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
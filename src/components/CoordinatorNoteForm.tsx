@@ -0,0 +1,243 @@
+import { useMemo, useState } from 'react'
+import type { FormEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { hasRole } from '../lib/auth'
+import { childLabel, findChildMentions } from '../lib/childMentions'
+import { useAuth } from '../hooks/useAuth'
+import { useCentreChildren } from '../hooks/useChildren'
+import { useCoordinators } from '../hooks/useDirectory'
+import { useLocalDraft } from '../hooks/useLocalDraft'
+import type { CoordinatorFieldNote } from '../types/database'
+import FormField from './FormField'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Textarea } from './ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+
+interface NoteDraft {
+  coordinatorId: string
+  notedOn: string
+  text: string
+  childIds: string[]
+}
+
+interface CoordinatorNoteFormProps {
+  centreId: string
+  // Edits this note when given, otherwise writes a new one
+  note?: Pick<CoordinatorFieldNote, 'id' | 'coordinator_id' | 'noted_at' | 'note_text'> & { childIds: string[] }
+  onSaved: (noteId: string) => void
+  onCancel: () => void
+}
+
+function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export default function CoordinatorNoteForm({ centreId, note, onSaved, onCancel }: CoordinatorNoteFormProps) {
+  const queryClient = useQueryClient()
+  const { user, profile } = useAuth()
+  const isAdmin = hasRole(profile, ['admin'])
+  const { data: coordinators = [], isLoading: coordinatorsLoading } = useCoordinators()
+  const originalNotedOn = note ? toDateInput(new Date(note.noted_at)) : ''
+
+  const [initialDraft] = useState<NoteDraft>(() => ({
+    coordinatorId: note?.coordinator_id ?? '',
+    notedOn: originalNotedOn || toDateInput(new Date()),
+    text: note?.note_text ?? '',
+    childIds: note?.childIds ?? [],
+  }))
+  const draft = useLocalDraft<NoteDraft>(`coordinatorNoteDraft:${centreId}:${note?.id ?? 'new'}`, initialDraft)
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const { data: children = [] } = useCentreChildren(centreId)
+
+  // Coordinators write as themselves; admins can enter notes for anyone
+  const ownCoordinator = coordinators.find(c => c.user_id && c.user_id === user?.id)
+  const coordinatorOptions = isAdmin ? coordinators : coordinators.filter(c => c.id === ownCoordinator?.id)
+  const coordinatorId = draft.value.coordinatorId || ownCoordinator?.id || ''
+
+  const childrenById = useMemo(() => new Map(children.map(child => [child.id, child])), [children])
+  const tagged = draft.value.childIds.filter(id => childrenById.has(id))
+  const suggestions = findChildMentions(draft.value.text, children).filter(m => !tagged.includes(m.childId))
+  // Children who have left can still be suggested from the text, but are not offered in the picker
+  const untagged = children.filter(child => !tagged.includes(child.id) && !child.left_at)
+
+  function setField<K extends keyof NoteDraft>(key: K, value: NoteDraft[K]) {
+    draft.update({ ...draft.value, [key]: value })
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: NoteDraft & { coordinatorId: string }) => {
+      // Keep the original time of day unless the date itself was changed
+      const notedAt = note && values.notedOn === originalNotedOn
+        ? note.noted_at
+        : new Date(`${values.notedOn}T00:00:00`).toISOString()
+      const { data, error } = await supabase.rpc('save_coordinator_field_note', {
+        p_note_id: note?.id ?? null,
+        p_learning_centre_id: centreId,
+        p_coordinator_id: values.coordinatorId,
+        p_noted_at: notedAt,
+        p_note_text: values.text.trim(),
+        p_child_ids: values.childIds,
+      })
+
+      if (error) throw error
+      return data as string
+    },
+    onSuccess: (noteId) => {
+      draft.clear()
+      queryClient.invalidateQueries({ queryKey: ['coordinatorNotes', centreId] })
+      queryClient.invalidateQueries({ queryKey: ['coordinatorNote', noteId] })
+      queryClient.invalidateQueries({ queryKey: ['coordinatorNoteChildren', noteId] })
+      queryClient.invalidateQueries({ queryKey: ['childNotes'] })
+      onSaved(noteId)
+    },
+  })
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    if (!coordinatorId) {
+      setFormError('Choose the coordinator who wrote this note')
+    } else if (!draft.value.notedOn) {
+      setFormError('Date is required')
+    } else if (!draft.value.text.trim()) {
+      setFormError('Note text is required')
+    } else {
+      setFormError(null)
+      saveMutation.mutate({ ...draft.value, childIds: tagged, coordinatorId })
+    }
+  }
+
+  const notLinked = !coordinatorsLoading && !isAdmin && !ownCoordinator
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      {draft.restored && (
+        <div className="flex items-center justify-between gap-3 rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-sm text-gray-600">
+          <span>Restored an unsaved draft{draft.savedAt ? ` from ${new Date(draft.savedAt).toLocaleString()}` : ''}.</span>
+          <Button type="button" size="sm" variant="ghost" onClick={draft.discard}>
+            Discard Draft
+          </Button>
+        </div>
+      )}
+      {notLinked && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          Your login is not linked to a coordinator yet. Ask an admin to link it on the Manage page.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <FormField id="note-coordinator" label="Coordinator">
+          <Select
+            value={coordinatorId}
+            onValueChange={(value) => setField('coordinatorId', value)}
+            disabled={!isAdmin}
+          >
+            <SelectTrigger id="note-coordinator">
+              <SelectValue placeholder="Choose a coordinator" />
+            </SelectTrigger>
+            <SelectContent>
+              {coordinatorOptions.map(coordinator => (
+                <SelectItem key={coordinator.id} value={coordinator.id}>{coordinator.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </FormField>
+        <FormField id="note-noted_on" label="Visit date">
+          <Input
+            id="note-noted_on"
+            type="date"
+            value={draft.value.notedOn}
+            onChange={(e) => setField('notedOn', e.target.value)}
+          />
+        </FormField>
+      </div>
+
+      <FormField id="note-text" label="Note">
+        <Textarea
+          id="note-text"
+          rows={10}
+          value={draft.value.text}
+          onChange={(e) => setField('text', e.target.value)}
+          placeholder="What did you see during the visit?"
+        />
+      </FormField>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-900">Children in this note</p>
+        {suggestions.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-500">Mentioned:</span>
+            {suggestions.map(suggestion => (
+              <button
+                key={suggestion.childId}
+                type="button"
+                onClick={() => setField('childIds', [...tagged, suggestion.childId])}
+                className="rounded-full border border-dashed border-gray-400 px-2.5 py-0.5 text-gray-700 hover:bg-gray-50"
+              >
+                + {suggestion.alias}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2">
+          {tagged.length === 0 && <span className="text-sm text-gray-500">No children tagged.</span>}
+          {tagged.map(childId => (
+            <span
+              key={childId}
+              className="inline-flex items-center gap-1 rounded-full bg-gray-900 px-2.5 py-0.5 text-sm text-white"
+            >
+              {childLabel(childrenById.get(childId) ?? { id: childId })}
+              <button
+                type="button"
+                aria-label="Remove tag"
+                onClick={() => setField('childIds', tagged.filter(id => id !== childId))}
+                className="text-gray-300 hover:text-white"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+        {untagged.length > 0 && (
+          <Select value="" onValueChange={(value) => setField('childIds', [...tagged, value])}>
+            <SelectTrigger className="w-64" aria-label="Tag another child">
+              <SelectValue placeholder="Tag another child" />
+            </SelectTrigger>
+            <SelectContent>
+              {untagged.map(child => (
+                <SelectItem key={child.id} value={child.id}>{childLabel(child)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {(formError || saveMutation.error) && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {formError ?? saveMutation.error?.message}
+        </div>
+      )}
+      <div className="flex items-center gap-3">
+        <Button type="submit" disabled={saveMutation.isPending || notLinked}>
+          {saveMutation.isPending ? 'Saving...' : note ? 'Save Note' : 'Add Note'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        {draft.savedAt && !draft.restored && (
+          <span className="text-xs text-gray-400">Draft saved {new Date(draft.savedAt).toLocaleTimeString()}</span>
+        )}
+      </div>
+    </form>
+  )
+}
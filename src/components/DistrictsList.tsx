@@ -1,48 +1,167 @@
-import { useNavigate } from 'react-router-dom';
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
-import type { District } from '../types/database';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import type { DistrictMetrics } from '../types/database';
+import { Label } from './ui/label';
 import { Skeleton } from './ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table';
+
+type PeriodKey = 'all' | 'this_quarter' | 'last_quarter' | 'last_12_months' | 'this_year';
+
+const PERIOD_LABELS: Record<PeriodKey, string> = {
+  all: 'All time',
+  this_quarter: 'This quarter',
+  last_quarter: 'Last quarter',
+  last_12_months: 'Last 12 months',
+  this_year: 'This year',
+};
+
+type MetricTotals = Omit<DistrictMetrics, 'state' | 'district' | 'facilitator_ids'>;
+
+function toIsoDate(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Inclusive date range for the RPC; null bounds mean unbounded
+function periodRange(period: PeriodKey, now = new Date()): { from: string | null; to: string | null } {
+  const quarterStartMonth = Math.floor(now.getMonth() / 3) * 3;
+  switch (period) {
+    case 'this_quarter':
+      return { from: toIsoDate(new Date(now.getFullYear(), quarterStartMonth, 1)), to: null };
+    case 'last_quarter':
+      return {
+        from: toIsoDate(new Date(now.getFullYear(), quarterStartMonth - 3, 1)),
+        to: toIsoDate(new Date(now.getFullYear(), quarterStartMonth, 0)),
+      };
+    case 'last_12_months':
+      return { from: toIsoDate(new Date(now.getFullYear(), now.getMonth() - 11, 1)), to: null };
+    case 'this_year':
+      return { from: toIsoDate(new Date(now.getFullYear(), 0, 1)), to: null };
+    default:
+      return { from: null, to: null };
+  }
+}
+
+function sumMetrics(rows: DistrictMetrics[]): MetricTotals {
+  const totals: MetricTotals = {
+    centres_count: 0,
+    active_centres_count: 0,
+    ended_centres_count: 0,
+    facilitators_count: 0,
+    children_count: 0,
+    field_notes_count: 0,
+    images_count: 0,
+    centre_months: 0,
+    reported_centre_months: 0,
+    reports_count: 0,
+    analysed_reports_count: 0,
+  };
+  rows.forEach((row) => {
+    (Object.keys(totals) as Array<keyof MetricTotals>).forEach((key) => {
+      totals[key] += Number(row[key]);
+    });
+  });
+  // A facilitator with centres in several districts is counted once
+  totals.facilitators_count = new Set(rows.flatMap((row) => row.facilitator_ids ?? [])).size;
+  return totals;
+}
+
+function formatPercent(numerator: number, denominator: number) {
+  if (denominator === 0) return '—';
+  return `${Math.round((numerator / denominator) * 100)}%`;
+}
+
+function formatRate(count: number, centreMonths: number) {
+  if (centreMonths === 0) return '—';
+  return (count / centreMonths).toFixed(1);
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string | number; detail?: string }) {
+  return (
+    <div className="rounded-lg border border-gray-200 bg-white p-4">
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className="text-lg text-gray-900">{value}</div>
+      {detail && <div className="text-xs text-gray-400">{detail}</div>}
+    </div>
+  );
+}
+
+function MetricCells({ metrics }: { metrics: MetricTotals }) {
+  return (
+    <>
+      <TableCell className="text-right">
+        {metrics.active_centres_count}
+        <span className="text-gray-400"> / {metrics.ended_centres_count}</span>
+      </TableCell>
+      <TableCell className="text-right">{metrics.facilitators_count}</TableCell>
+      <TableCell className="text-right">{metrics.children_count}</TableCell>
+      <TableCell className="text-right">{formatRate(metrics.field_notes_count, metrics.centre_months)}</TableCell>
+      <TableCell className="text-right">{formatRate(metrics.images_count, metrics.centre_months)}</TableCell>
+      <TableCell className="text-right">{formatPercent(metrics.reported_centre_months, metrics.centre_months)}</TableCell>
+      <TableCell className="text-right">{formatPercent(metrics.analysed_reports_count, metrics.reports_count)}</TableCell>
+    </>
+  );
+}
 
 export default function DistrictsList() {
-  const navigate = useNavigate();
+  const [period, setPeriod] = useState<PeriodKey>('all');
+  const range = periodRange(period);
 
   const { data: districts = [], isLoading: loading, error: districtError } = useQuery({
-    queryKey: ['districts'],
+    queryKey: ['districtMetrics', range.from, range.to],
     queryFn: async () => {
-      const { data, error } = await supabase
-        .from('districts_summary')
-        .select('*')
-        .order('state', { ascending: true })
-        .order('district', { ascending: true });
+      const { data, error } = await supabase.rpc('district_dashboard_metrics', {
+        p_from: range.from,
+        p_to: range.to,
+      });
 
       if (error) throw error;
-      return (data || []) as District[]
+      return (data || []) as DistrictMetrics[];
     },
-  })
+  });
 
   const error = districtError?.message || null;
 
+  const groupedByState = useMemo(() => districts.reduce((acc, district) => {
+    if (!acc[district.state]) {
+      acc[district.state] = [];
+    }
+    acc[district.state].push(district);
+    return acc;
+  }, {} as Record<string, DistrictMetrics[]>), [districts]);
+
+  const overall = useMemo(() => sumMetrics(districts), [districts]);
+
   if (loading) return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <Skeleton className="h-8 w-64 mb-8" />
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-5 mb-8">
+        {[...Array(5)].map((_, i) => (
+          <Skeleton key={i} className="h-20 w-full" />
+        ))}
+      </div>
       <div className="space-y-6">
         {[...Array(3)].map((_, i) => (
           <div key={i}>
             <Skeleton className="h-6 w-32 mb-4" />
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {[...Array(6)].map((_, j) => (
-                <Card key={j}>
-                  <CardHeader>
-                    <Skeleton className="h-5 w-3/4" />
-                  </CardHeader>
-                  <CardContent>
-                    <Skeleton className="h-4 w-1/2" />
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+            <Skeleton className="h-40 w-full" />
           </div>
         ))}
       </div>
@@ -55,39 +174,95 @@ export default function DistrictsList() {
     </div>
   );
 
-  const groupedByState = districts.reduce((acc, district) => {
-    if (!acc[district.state]) {
-      acc[district.state] = [];
-    }
-    acc[district.state].push(district);
-    return acc;
-  }, {} as Record<string, District[]>);
-
-
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-      <h1 className="text-2xl font-semibold text-gray-900 mb-6">Learning Centers</h1>
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Learning Centers</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Activity and report coverage per district. Rates are per centre-month: each month a centre was open in the period.
+          </p>
+        </div>
+        <div className="w-48 space-y-2">
+          <Label htmlFor="period">Period</Label>
+          <Select value={period} onValueChange={(value) => setPeriod(value as PeriodKey)}>
+            <SelectTrigger id="period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PERIOD_LABELS) as PeriodKey[]).map((key) => (
+                <SelectItem key={key} value={key}>{PERIOD_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 md:grid-cols-5 mb-8">
+        <StatCard
+          label="Active centres"
+          value={overall.active_centres_count}
+          detail={`${overall.ended_centres_count} ended`}
+        />
+        <StatCard label="Facilitators" value={overall.facilitators_count} />
+        <StatCard label="Children enrolled" value={overall.children_count} />
+        <StatCard
+          label="Report coverage"
+          value={formatPercent(overall.reported_centre_months, overall.centre_months)}
+          detail={`${overall.reported_centre_months} of ${overall.centre_months} centre-months`}
+        />
+        <StatCard
+          label="Reports with analysis"
+          value={formatPercent(overall.analysed_reports_count, overall.reports_count)}
+          detail={`${overall.analysed_reports_count} of ${overall.reports_count} reports`}
+        />
+      </div>
+
+      {districts.length === 0 && (
+        <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-8 text-center text-gray-500">
+          No learning centres available to your account.
+        </p>
+      )}
 
       {Object.entries(groupedByState).map(([state, stateDistricts]) => (
         <div key={state} className="mb-8">
           <h2 className="text-lg font-medium mb-3 text-gray-800">{state}</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {stateDistricts.map((district) => (
-              <Card
-                key={`${district.state}-${district.district}`}
-                onClick={() => navigate(`/${encodeURIComponent(district.state)}/${encodeURIComponent(district.district)}`)}
-                className="cursor-pointer transition-colors hover:bg-gray-50 border-gray-200"
-              >
-                <CardHeader>
-                  <CardTitle className="text-base font-medium text-gray-900">{district.district}</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <CardDescription>
-                    {district.learning_centres_count} learning centre{district.learning_centres_count !== 1 ? 's' : ''}
-                  </CardDescription>
-                </CardContent>
-              </Card>
-            ))}
+          <div className="rounded-lg border border-gray-200 bg-white">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>District</TableHead>
+                  <TableHead className="text-right">Centres (active / ended)</TableHead>
+                  <TableHead className="text-right">Facilitators</TableHead>
+                  <TableHead className="text-right">Children</TableHead>
+                  <TableHead className="text-right">Notes / month</TableHead>
+                  <TableHead className="text-right">Photos / month</TableHead>
+                  <TableHead className="text-right">Report coverage</TableHead>
+                  <TableHead className="text-right">With analysis</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stateDistricts.map((district) => (
+                  <TableRow key={`${district.state}-${district.district}`}>
+                    <TableCell>
+                      <Link
+                        to={`/${encodeURIComponent(district.state)}/${encodeURIComponent(district.district)}`}
+                        className="font-medium text-gray-900 underline-offset-2 hover:underline"
+                      >
+                        {district.district}
+                      </Link>
+                    </TableCell>
+                    <MetricCells metrics={district} />
+                  </TableRow>
+                ))}
+                {stateDistricts.length > 1 && (
+                  <TableRow className="bg-gray-50 font-medium">
+                    <TableCell>All of {state}</TableCell>
+                    <MetricCells metrics={sumMetrics(stateDistricts)} />
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
           </div>
         </div>
       ))}
@@ -0,0 +1,136 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { MAX_CONTACT_NUMBER_LENGTH, emptyToNull, hasErrors, parseAliases, validateFacilitator } from '../lib/validation'
+import type { FacilitatorDraft, ValidationErrors } from '../lib/validation'
+import { invalidateCentreQueries } from '../hooks/useDirectory'
+import type { Facilitator } from '../types/database'
+import FormField from './FormField'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+
+interface FacilitatorFormProps {
+  facilitator?: Facilitator
+  onSaved: () => void
+  onCancel: () => void
+}
+
+function toDraft(facilitator?: Facilitator): FacilitatorDraft {
+  return {
+    name: facilitator?.name ?? '',
+    contact_number: facilitator?.contact_number ?? '',
+    email: facilitator?.email ?? '',
+    start_date: facilitator?.start_date ?? '',
+    end_date: facilitator?.end_date ?? '',
+    alias: facilitator?.alias?.join(', ') ?? '',
+  }
+}
+
+export default function FacilitatorForm({ facilitator, onSaved, onCancel }: FacilitatorFormProps) {
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState<FacilitatorDraft>(() => toDraft(facilitator))
+  const [errors, setErrors] = useState<ValidationErrors<FacilitatorDraft>>({})
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: FacilitatorDraft) => {
+      const aliases = parseAliases(values.alias)
+      const row = {
+        name: values.name.trim(),
+        contact_number: values.contact_number.trim(),
+        email: emptyToNull(values.email),
+        start_date: emptyToNull(values.start_date),
+        end_date: emptyToNull(values.end_date),
+        alias: aliases.length > 0 ? aliases : null,
+      }
+      const { error } = facilitator
+        ? await supabase.from('facilitators').update(row).eq('id', facilitator.id)
+        : await supabase.from('facilitators').insert(row)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['facilitators'] })
+      invalidateCentreQueries(queryClient)
+      onSaved()
+    },
+  })
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    const validationErrors = validateFacilitator(draft)
+    setErrors(validationErrors)
+    if (!hasErrors(validationErrors)) saveMutation.mutate(draft)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <FormField id="facilitator-name" label="Name" error={errors.name}>
+          <Input
+            id="facilitator-name"
+            value={draft.name}
+            aria-invalid={!!errors.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          />
+        </FormField>
+        <FormField id="facilitator-contact_number" label="Contact number" error={errors.contact_number}>
+          <Input
+            id="facilitator-contact_number"
+            type="tel"
+            maxLength={MAX_CONTACT_NUMBER_LENGTH}
+            value={draft.contact_number}
+            aria-invalid={!!errors.contact_number}
+            onChange={(e) => setDraft({ ...draft, contact_number: e.target.value })}
+          />
+        </FormField>
+        <FormField id="facilitator-email" label="Email" error={errors.email}>
+          <Input
+            id="facilitator-email"
+            type="email"
+            value={draft.email}
+            aria-invalid={!!errors.email}
+            onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+          />
+        </FormField>
+        <FormField id="facilitator-alias" label="Aliases (comma-separated, as they appear in chats)" error={errors.alias}>
+          <Input
+            id="facilitator-alias"
+            value={draft.alias}
+            onChange={(e) => setDraft({ ...draft, alias: e.target.value })}
+          />
+        </FormField>
+        <FormField id="facilitator-start_date" label="Start date" error={errors.start_date}>
+          <Input
+            id="facilitator-start_date"
+            type="date"
+            value={draft.start_date}
+            onChange={(e) => setDraft({ ...draft, start_date: e.target.value })}
+          />
+        </FormField>
+        <FormField id="facilitator-end_date" label="End date" error={errors.end_date}>
+          <Input
+            id="facilitator-end_date"
+            type="date"
+            value={draft.end_date}
+            aria-invalid={!!errors.end_date}
+            onChange={(e) => setDraft({ ...draft, end_date: e.target.value })}
+          />
+        </FormField>
+      </div>
+      {saveMutation.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {saveMutation.error.message}
+        </div>
+      )}
+      <div className="flex gap-3">
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving...' : facilitator ? 'Save Facilitator' : 'Create Facilitator'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,217 @@
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { DUPLICATE_METHOD_LABELS } from '../lib/duplicates'
+import type { DuplicateKind } from '../lib/duplicates'
+import { usePhotoConsent } from '../hooks/useChildConsents'
+import { scanFieldDuplicates, usePendingFieldDuplicates } from '../hooks/useFieldDuplicates'
+import type { DuplicateScanResult, PendingFieldDuplicate } from '../hooks/useFieldDuplicates'
+import ConsentPhoto from './ConsentPhoto'
+import { Card, CardContent } from './ui/card'
+import { Button } from './ui/button'
+import { Skeleton } from './ui/skeleton'
+
+const KIND_LABELS: Record<DuplicateKind, string> = {
+  note: 'Notes',
+  image: 'Photos',
+}
+
+interface DuplicateSide {
+  id?: string
+  author: string
+  date?: string | null
+  text?: string | null
+  photoUrl?: string
+}
+
+function sides(candidate: PendingFieldDuplicate): [DuplicateSide, DuplicateSide] {
+  if (candidate.kind === 'note') {
+    return [candidate.original_field_note, candidate.duplicate_field_note].map(note => ({
+      id: note?.id,
+      author: note?.facilitator?.name || 'Facilitator',
+      date: note?.sent_at || note?.created_at,
+      text: note?.text,
+    })) as [DuplicateSide, DuplicateSide]
+  }
+  return [candidate.original_field_image, candidate.duplicate_field_image].map(image => ({
+    id: image?.id,
+    author: image?.facilitator?.name || 'Facilitator',
+    date: image?.sent_at || image?.created_at,
+    text: image?.caption,
+    photoUrl: image?.photo_url,
+  })) as [DuplicateSide, DuplicateSide]
+}
+
+function scanSummary(result: DuplicateScanResult): string {
+  const found = result.added === 0
+    ? 'No new duplicates found.'
+    : `${result.added} new possible duplicate${result.added === 1 ? '' : 's'} to review.`
+  return result.unreadableImages > 0
+    ? `${found} ${result.unreadableImages} photo${result.unreadableImages === 1 ? '' : 's'} could not be read and were skipped.`
+    : found
+}
+
+// Review queue for notes and photos that were stored more than once at a centre
+export default function FieldDuplicateReview() {
+  const { centreId, state: stateParam, district: districtParam } = useParams<{
+    centreId: string
+    state: string
+    district: string
+  }>()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const centrePath = `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(districtParam || '')}/centre/${centreId}`
+  const [kind, setKind] = useState<DuplicateKind>('note')
+  const [scanResult, setScanResult] = useState<DuplicateScanResult | null>(null)
+
+  const { data: candidates = [], isLoading, error } = usePendingFieldDuplicates(centreId)
+  const visibleCandidates = candidates.filter(candidate => candidate.kind === kind)
+  const imageIds = candidates.flatMap(candidate =>
+    [candidate.original_field_image_id, candidate.duplicate_field_image_id].filter((id): id is string => Boolean(id))
+  )
+  const { isPhotoVisible } = usePhotoConsent(imageIds)
+
+  const scanMutation = useMutation({
+    mutationFn: () => scanFieldDuplicates(centreId as string),
+    onSuccess: (result) => {
+      setScanResult(result)
+      queryClient.invalidateQueries({ queryKey: ['fieldDuplicates', centreId] })
+    },
+  })
+
+  // Merged duplicates drop out of the month views, counts and child timelines
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, merge }: { id: string; merge: boolean }) => {
+      const { error } = await supabase.rpc('review_field_duplicate', {
+        p_candidate_id: id,
+        p_merge: merge,
+      })
+      if (error) throw error
+      return merge
+    },
+    onSuccess: (merged) => {
+      queryClient.invalidateQueries({ queryKey: ['fieldDuplicates', centreId] })
+      if (merged) {
+        queryClient.invalidateQueries({ queryKey: ['centreMonthFieldNotes', centreId] })
+        queryClient.invalidateQueries({ queryKey: ['centreMonthImages', centreId] })
+        queryClient.invalidateQueries({ queryKey: ['centreTrends', centreId] })
+        queryClient.invalidateQueries({ queryKey: ['districtMetrics'] })
+        queryClient.invalidateQueries({ queryKey: ['reportCoverage'] })
+        queryClient.invalidateQueries({ queryKey: ['childNotes'] })
+        queryClient.invalidateQueries({ queryKey: ['childPhotos'] })
+        queryClient.invalidateQueries({ queryKey: ['imageChildLinks'] })
+      }
+    },
+  })
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <Button
+            onClick={() => navigate(centrePath)}
+            variant="link"
+            className="mb-2 gap-1 text-gray-500 hover:text-gray-900"
+          >
+            ← Back to Learning Centre
+          </Button>
+          <h1 className="text-2xl font-semibold text-gray-900">Duplicates</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Notes and photos that appear to have been stored more than once. Merging keeps the earlier copy, moves any
+            child tags onto it and leaves the later copy out of counts and analysis.
+          </p>
+        </div>
+        <Button disabled={!centreId || scanMutation.isPending} onClick={() => scanMutation.mutate()}>
+          {scanMutation.isPending ? 'Scanning...' : 'Scan for Duplicates'}
+        </Button>
+      </div>
+
+      {scanResult && !scanMutation.isPending && <p className="mb-4 text-sm text-gray-600">{scanSummary(scanResult)}</p>}
+
+      {(error || scanMutation.error || reviewMutation.error) && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {error?.message || scanMutation.error?.message || reviewMutation.error?.message}
+        </div>
+      )}
+
+      <div className="mb-4 inline-flex flex-wrap rounded-md border border-gray-200 p-1">
+        {(Object.keys(KIND_LABELS) as DuplicateKind[]).map(key => (
+          <Button key={key} size="sm" variant={kind === key ? 'default' : 'ghost'} onClick={() => setKind(key)}>
+            {KIND_LABELS[key]} ({candidates.filter(candidate => candidate.kind === key).length})
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {[...Array(3)].map((_, idx) => (
+            <Skeleton key={idx} className="h-40 w-full" />
+          ))}
+        </div>
+      ) : visibleCandidates.length === 0 ? (
+        <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
+          Nothing to review. Identical notes are queued as they arrive, and WhatsApp imports are scanned for near-duplicates and repeated photos; scan to check rows added any other way.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {visibleCandidates.map(candidate => {
+            const reviewing = reviewMutation.isPending && reviewMutation.variables?.id === candidate.id
+            return (
+              <Card key={candidate.id}>
+                <CardContent className="pt-6">
+                  <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+                    <p className="text-sm font-medium text-gray-900">
+                      {DUPLICATE_METHOD_LABELS[candidate.method]}
+                      {candidate.method !== 'exact' && (
+                        <span className="ml-2 text-xs font-normal text-gray-500">
+                          {Math.round(candidate.similarity * 100)}% similar
+                        </span>
+                      )}
+                    </p>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        disabled={reviewing}
+                        onClick={() => reviewMutation.mutate({ id: candidate.id, merge: true })}
+                      >
+                        Merge
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={reviewing}
+                        onClick={() => reviewMutation.mutate({ id: candidate.id, merge: false })}
+                      >
+                        Not a Duplicate
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                    {sides(candidate).map((side, index) => (
+                      <div key={index} className="space-y-2">
+                        <p className="text-xs uppercase tracking-wide text-gray-500">
+                          {index === 0 ? 'Kept' : 'Duplicate'} • {side.author}
+                          {side.date && ` • ${new Date(side.date).toLocaleString()}`}
+                        </p>
+                        {side.photoUrl !== undefined && (
+                          <ConsentPhoto
+                            src={side.photoUrl}
+                            alt={side.text || 'Field image'}
+                            visible={!!side.id && isPhotoVisible(side.id)}
+                            className="h-48 w-full rounded-md object-cover"
+                          />
+                        )}
+                        {side.text && <p className="text-sm text-gray-800 whitespace-pre-wrap">{side.text}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
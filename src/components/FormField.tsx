@@ -0,0 +1,19 @@
+import type { ReactNode } from 'react'
+import { Label } from './ui/label'
+
+interface FormFieldProps {
+  id: string
+  label: string
+  error?: string
+  children: ReactNode
+}
+
+export default function FormField({ id, label, error, children }: FormFieldProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      {children}
+      {error && <p id={`${id}-error`} className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,320 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { lastMonths } from '../lib/coverage'
+import { useAllLearningCentres } from '../hooks/useDirectory'
+import { enqueueAnalysisJob, runAnalysisWorker } from '../hooks/useAnalysisJobs'
+import type { LearningCentre, MonthlyReportGeneration } from '../types/database'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Skeleton } from './ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+
+const ALL = 'all'
+
+type CentreRunStatus = 'waiting' | 'running' | 'done' | 'failed' | 'skipped'
+
+interface CentreRun {
+  centre: LearningCentre
+  status: CentreRunStatus
+  rows: MonthlyReportGeneration[]
+  error?: string
+}
+
+const STATUS_LABELS: Record<CentreRunStatus, string> = {
+  waiting: 'Waiting',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  skipped: 'Stopped',
+}
+
+const STATUS_CLASSES: Record<CentreRunStatus, string> = {
+  waiting: 'text-gray-500',
+  running: 'text-blue-700',
+  done: 'text-emerald-700',
+  failed: 'text-red-700',
+  skipped: 'text-gray-500',
+}
+
+function sum(rows: MonthlyReportGeneration[], key: 'field_notes_count' | 'images_count') {
+  return rows.reduce((total, row) => total + Number(row[key]), 0)
+}
+
+// Creates the month's reports for every centre in scope, one centre at a time, and
+// optionally queues the new reports for analysis. Failures are recorded per centre and the
+// run goes on.
+export default function GenerateReports() {
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const months = useMemo(() => lastMonths(12).reverse(), [])
+  const [monthKey, setMonthKey] = useState(months[1].key)
+  const [stateFilter, setStateFilter] = useState(ALL)
+  const [districtFilter, setDistrictFilter] = useState(ALL)
+  const [analyse, setAnalyse] = useState(false)
+  const [runs, setRuns] = useState<CentreRun[]>([])
+  const [running, setRunning] = useState(false)
+  const [analysisJob, setAnalysisJob] = useState<{ id: string | null; error?: string } | null>(null)
+  const stopRequested = useRef(false)
+
+  const { data: centres = [], isLoading, error } = useAllLearningCentres()
+
+  // Let a run in progress finish its current centre and stop when leaving the page
+  useEffect(() => () => {
+    stopRequested.current = true
+  }, [])
+
+  const states = useMemo(() => Array.from(new Set(centres.map(c => c.state))).sort(), [centres])
+  const districts = useMemo(() => Array.from(new Set(
+    centres.filter(c => stateFilter === ALL || c.state === stateFilter).map(c => c.district)
+  )).sort(), [centres, stateFilter])
+  const scopedCentres = centres.filter(centre =>
+    (stateFilter === ALL || centre.state === stateFilter) &&
+    (districtFilter === ALL || centre.district === districtFilter)
+  )
+  const selectedMonth = months.find(month => month.key === monthKey) ?? months[1]
+
+  function updateRun(centreId: string, changes: Partial<CentreRun>) {
+    setRuns(current => current.map(run => run.centre.id === centreId ? { ...run, ...changes } : run))
+  }
+
+  async function generate() {
+    const { year, month } = selectedMonth
+    const targets = scopedCentres
+    const newReportIds: string[] = []
+
+    stopRequested.current = false
+    setRunning(true)
+    setAnalysisJob(null)
+    setRuns(targets.map(centre => ({ centre, status: 'waiting', rows: [] })))
+
+    for (const centre of targets) {
+      if (stopRequested.current) {
+        updateRun(centre.id, { status: 'skipped' })
+        continue
+      }
+      updateRun(centre.id, { status: 'running' })
+
+      try {
+        const { data, error } = await supabase.rpc('generate_monthly_reports', {
+          p_learning_centre_id: centre.id,
+          p_year: year,
+          p_month: month,
+        })
+        if (error) throw error
+        const rows = (data || []) as MonthlyReportGeneration[]
+        rows.forEach(row => {
+          if (row.created && row.report_id) newReportIds.push(row.report_id)
+        })
+        updateRun(centre.id, { rows, status: 'done' })
+      } catch (err) {
+        updateRun(centre.id, {
+          status: 'failed',
+          error: err instanceof Error ? err.message : 'Failed to generate reports',
+        })
+      }
+    }
+
+    if (analyse && newReportIds.length > 0) {
+      try {
+        const jobId = await enqueueAnalysisJob({ year, month, reportIds: newReportIds })
+        if (jobId) await runAnalysisWorker()
+        setAnalysisJob({ id: jobId })
+      } catch (err) {
+        setAnalysisJob({ id: null, error: err instanceof Error ? err.message : 'Failed to queue analysis' })
+      }
+    }
+
+    setRunning(false)
+    queryClient.invalidateQueries({ queryKey: ['reportCoverage'] })
+    queryClient.invalidateQueries({ queryKey: ['districtMetrics'] })
+    queryClient.invalidateQueries({ queryKey: ['centreTrends'] })
+    queryClient.invalidateQueries({ queryKey: ['reports'] })
+    queryClient.invalidateQueries({ queryKey: ['availableMonths'] })
+  }
+
+  const finished = runs.filter(run => run.status === 'done' || run.status === 'failed').length
+  const failed = runs.filter(run => run.status === 'failed').length
+  const created = runs.reduce((total, run) => total + run.rows.filter(row => row.created).length, 0)
+
+  if (isLoading) return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Skeleton className="h-8 w-64 mb-8" />
+      <Skeleton className="h-10 w-full mb-6" />
+      <Skeleton className="h-64 w-full" />
+    </div>
+  )
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <Button
+          onClick={() => navigate('/coverage')}
+          variant="link"
+          className="mb-2 gap-1 text-gray-500 hover:text-gray-900"
+        >
+          ← Back to Coverage
+        </Button>
+        <h1 className="text-2xl font-semibold text-gray-900">Generate Reports</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Creates a report for each facilitator with field notes or photos in the month. Reports that already exist are
+          left as they are.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {error.message}
+        </div>
+      )}
+
+      <div className="mb-4 grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="generateMonth">Month</Label>
+          <Select value={monthKey} onValueChange={setMonthKey} disabled={running}>
+            <SelectTrigger id="generateMonth">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {months.map(month => (
+                <SelectItem key={month.key} value={month.key}>
+                  {new Date(month.year, month.month - 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="generateState">State</Label>
+          <Select
+            value={stateFilter}
+            onValueChange={(value) => {
+              setStateFilter(value)
+              setDistrictFilter(ALL)
+            }}
+            disabled={running}
+          >
+            <SelectTrigger id="generateState">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All states</SelectItem>
+              {states.map(state => (
+                <SelectItem key={state} value={state}>{state}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="generateDistrict">District</Label>
+          <Select value={districtFilter} onValueChange={setDistrictFilter} disabled={running}>
+            <SelectTrigger id="generateDistrict">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All districts</SelectItem>
+              {districts.map(district => (
+                <SelectItem key={district} value={district}>{district}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="mb-8 flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input type="checkbox" checked={analyse} disabled={running} onChange={(e) => setAnalyse(e.target.checked)} />
+          Queue LLM analysis for new reports
+        </label>
+        {running ? (
+          <Button variant="outline" onClick={() => { stopRequested.current = true }}>
+            Stop After Current Centre
+          </Button>
+        ) : (
+          <Button disabled={scopedCentres.length === 0} onClick={generate}>
+            Generate for {scopedCentres.length} centre{scopedCentres.length === 1 ? '' : 's'}
+          </Button>
+        )}
+      </div>
+
+      {runs.length > 0 && (
+        <>
+          <p className="mb-4 text-sm text-gray-600">
+            {finished} of {runs.length} centres processed · {created} report{created === 1 ? '' : 's'} created
+            {failed > 0 && <span className="text-red-700"> · {failed} failed</span>}
+          </p>
+          {analysisJob?.error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+              Reports were created, but queueing their analysis failed: {analysisJob.error}
+            </div>
+          )}
+          {analysisJob?.id && (
+            <p className="mb-4 text-sm text-gray-600">
+              New reports are queued for analysis.{' '}
+              <Button variant="link" className="h-auto p-0" onClick={() => navigate(`/jobs?job=${analysisJob.id}`)}>
+                Follow the job
+              </Button>
+            </p>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Centre</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Notes</TableHead>
+                <TableHead className="text-right">Photos</TableHead>
+                <TableHead className="text-right">New reports</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map(run => {
+                const unattributed = run.rows.find(row => !row.report_id)
+                const newReports = run.rows.filter(row => row.created).length
+                return (
+                  <TableRow key={run.centre.id}>
+                    <TableCell>
+                      {run.centre.centre_name}
+                      <span className="block text-xs text-gray-500">{run.centre.district}, {run.centre.state}</span>
+                    </TableCell>
+                    <TableCell className={STATUS_CLASSES[run.status]}>{STATUS_LABELS[run.status]}</TableCell>
+                    <TableCell className="text-right text-gray-600">{sum(run.rows, 'field_notes_count')}</TableCell>
+                    <TableCell className="text-right text-gray-600">{sum(run.rows, 'images_count')}</TableCell>
+                    <TableCell className="text-right text-gray-600">{newReports}</TableCell>
+                    <TableCell className="text-sm">
+                      {run.error && <span className="text-red-700">{run.error}</span>}
+                      {unattributed && (
+                        <span className="block text-amber-700">
+                          {Number(unattributed.field_notes_count)} notes and {Number(unattributed.images_count)} photos
+                          have no facilitator and were not reported.
+                        </span>
+                      )}
+                      {run.status === 'done' && run.rows.length === 0 && (
+                        <span className="text-gray-500">No activity this month.</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { childLabel } from '../lib/childMentions'
+import { canShowChildInPhoto, displayChildLabel } from '../lib/consent'
+import type { ConsentLookup } from '../lib/consent'
+import type { Child, ChildFieldImageLink } from '../types/database'
+import { Button } from './ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+
+type ConsentFlag = 'consent_confirmed' | 'share_externally'
+
+const CONSENT_FLAG_LABELS: Record<ConsentFlag, string> = {
+  consent_confirmed: 'Consent given',
+  share_externally: 'Can share externally',
+}
+
+interface ImageChildTagsProps {
+  imageId: string
+  links: ChildFieldImageLink[]
+  // Children at the photo's centre
+  centreChildren: Child[]
+  consents: ConsentLookup
+}
+
+// Tags under a gallery photo, with an editor for adding children and their consent flags.
+// The tags show pseudonyms unless name consent is current; the editor shows aliases so
+// staff can tag the right child.
+export default function ImageChildTags({ imageId, links, centreChildren, consents }: ImageChildTagsProps) {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState(false)
+  const childrenById = new Map(centreChildren.map(child => [child.id, child]))
+  const untagged = centreChildren.filter(child => !child.left_at && !links.some(link => link.child_id === child.id))
+
+  function invalidate() {
+    queryClient.invalidateQueries({ queryKey: ['imageChildLinks'] })
+    queryClient.invalidateQueries({ queryKey: ['childPhotos'] })
+  }
+
+  const addMutation = useMutation({
+    mutationFn: async (childId: string) => {
+      const { error } = await supabase
+        .from('child_field_image_links')
+        .insert({ child_id: childId, field_image_id: imageId })
+      if (error) throw error
+    },
+    onSuccess: invalidate,
+  })
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ linkId, flag, value }: { linkId: string; flag: ConsentFlag; value: boolean }) => {
+      const { error } = await supabase
+        .from('child_field_image_links')
+        .update({ [flag]: value })
+        .eq('id', linkId)
+      if (error) throw error
+    },
+    onSuccess: invalidate,
+  })
+
+  const removeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      const { error } = await supabase.from('child_field_image_links').delete().eq('id', linkId)
+      if (error) throw error
+    },
+    onSuccess: invalidate,
+  })
+
+  const error = addMutation.error || updateMutation.error || removeMutation.error
+  const busy = addMutation.isPending || updateMutation.isPending || removeMutation.isPending
+
+  return (
+    <div className="space-y-2 p-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {links.length === 0 && <span className="text-xs text-gray-500">No children tagged.</span>}
+        {links.map(link => {
+          const covered = canShowChildInPhoto(link, consents)
+          return (
+            <span
+              key={link.id}
+              title={covered ? 'Photo consent given' : 'Photo consent not recorded'}
+              className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs ${
+                covered ? 'bg-gray-900 text-white' : 'border border-amber-300 bg-amber-50 text-amber-900'
+              }`}
+            >
+              {displayChildLabel(childrenById.get(link.child_id) ?? { id: link.child_id }, consents)}
+            </span>
+          )
+        })}
+        <Button size="sm" variant="ghost" className="ml-auto h-7 px-2 text-xs" onClick={() => setEditing(!editing)}>
+          {editing ? 'Done' : 'Tag Children'}
+        </Button>
+      </div>
+
+      {editing && (
+        <div className="space-y-3 border-t border-gray-200 pt-3">
+          {links.map(link => (
+            <div key={link.id} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-gray-900">
+                  {childLabel(childrenById.get(link.child_id) ?? { id: link.child_id })}
+                </span>
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => removeMutation.mutate(link.id)}
+                  className="text-xs text-gray-500 hover:text-gray-900"
+                >
+                  Remove
+                </button>
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {(Object.keys(CONSENT_FLAG_LABELS) as ConsentFlag[]).map(flag => (
+                  <label key={flag} className="flex items-center gap-1.5 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={link[flag]}
+                      disabled={busy}
+                      onChange={(e) => updateMutation.mutate({ linkId: link.id, flag, value: e.target.checked })}
+                    />
+                    {CONSENT_FLAG_LABELS[flag]}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+          {untagged.length > 0 && (
+            <Select value="" disabled={busy} onValueChange={(value) => addMutation.mutate(value)}>
+              <SelectTrigger className="h-8 w-full text-xs" aria-label="Tag a child">
+                <SelectValue placeholder="Tag a child" />
+              </SelectTrigger>
+              <SelectContent>
+                {untagged.map(child => (
+                  <SelectItem key={child.id} value={child.id}>{childLabel(child)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {error && (
+            <div className="p-2 bg-red-50 border border-red-200 rounded-md text-xs text-red-800">
+              {error.message}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,19 @@
-import { useState, useEffect } from 'react'
-import { useQuery } from '@tanstack/react-query'
+import { useState, useEffect, useRef } from 'react'
+import { Link } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { supabase } from '../lib/supabase'
-import { generateLLMAnalysis } from '../lib/openai'
+import { DEFAULT_LLM_PROVIDER, getLLMProvider } from '../lib/llm'
+import type { AnalysisProgress, LLMAnalysisRequest, LLMStreamResult } from '../lib/llm'
+import { DEFAULT_PROMPT_TEMPLATE, PROMPT_PLACEHOLDERS } from '../lib/prompts'
+import { EMPTY_ANALYSIS_INPUT, buildAnalysisRequest, fetchAnalysisInput } from '../lib/reportAnalysis'
+import type { AnalysisInput } from '../lib/reportAnalysis'
+import { usePromptTemplates } from '../hooks/usePromptTemplates'
+import { usePhotoConsent } from '../hooks/useChildConsents'
+import PromptComparison from './PromptComparison'
+import ConsentPhoto from './ConsentPhoto'
+import ModelPicker from './ModelPicker'
+import RubricBadges from './RubricBadges'
+import type { ModelSelection } from './ModelPicker'
 import { Card, CardContent, CardHeader } from './ui/card'
 import { Button } from './ui/button'
 import { Label } from './ui/label'
@@ -13,7 +25,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from './ui/select'
-import type { FieldNote, FieldImage } from '../types/database'
+import type { GeneratedReport } from '../types/database'
 
 interface MonthYear {
   month: number
@@ -29,34 +41,46 @@ interface SimpleLearningCentre {
   facilitators: Array<{ name: string }>
 }
 
+// A finished run, remembered with the selection it was made for so it can be saved
+interface AnalysisRun extends LLMStreamResult {
+  providerId: string
+  centreId: string
+  month: number
+  year: number
+  promptText: string
+  promptTemplateId: string | null
+}
+
+type RunReport = Pick<GeneratedReport, 'id' | 'facilitator_name' | 'month_year_display' | 'has_llm_analysis'> & {
+  state: string
+  district: string
+}
+
 export default function LLMAnalysisPlayground() {
   const [selectedCentreId, setSelectedCentreId] = useState<string>('')
   const [selectedMonth, setSelectedMonth] = useState<string>('')
   const [prompt, setPrompt] = useState<string>('')
-  const [analysis, setAnalysis] = useState<string>('')
+  const [analysisRun, setAnalysisRun] = useState<AnalysisRun | null>(null)
   const [analysisLoading, setAnalysisLoading] = useState(false)
+  const [streamingText, setStreamingText] = useState('')
+  const [batchProgress, setBatchProgress] = useState<AnalysisProgress | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const [analysisError, setAnalysisError] = useState<string | null>(null)
+  const [selectedReportId, setSelectedReportId] = useState<string>('')
+  const [savedReportId, setSavedReportId] = useState<string | null>(null)
+  const [mode, setMode] = useState<'single' | 'compare'>('single')
+  const [modelSelection, setModelSelection] = useState<ModelSelection>({
+    providerId: DEFAULT_LLM_PROVIDER.id,
+    model: DEFAULT_LLM_PROVIDER.defaultModel,
+  })
+  const queryClient = useQueryClient()
+  const analysis = analysisRun?.analysis ?? ''
 
-  // Load default prompt from the scripts
-  const defaultPrompt = `You are analyzing field notes from a learning facilitator named {{FACILITATOR_NAME}}. The facilitator works with oppressed communities and creates after school learning spaces with a view to build agency. Spaces are designed to be safe, open, joyful and self-determined where learners can make their own decisions.
-
-CONTEXT: The facilitator has shared photos as well as some field notes. Since facilitators often prefer sending images over text, the visual content is crucial for understanding their work.
-
-INSTRUCTIONS:
-- Analyze both the images and text messages to understand what is happening at the learning center
-- Observe if the learning center is safe, open, joyful and self-determined
-- Make a note if there is play happening in the learning centers
-- Check if the learning center is different from school like spaces
-- The images show real field work activities - describe what you see and avoid making assumptions
-- Create a comprehensive field work report based on visual evidence and text notes
-- Pay special attention to the visual documentation as it's the primary way this facilitator communicates their work
-
-TEXT MESSAGES AND FIELD NOTES:
-{{FIELD_NOTES}}
-
-IMAGES PROVIDED: {{IMAGES_COUNT}} work-related photos showing field activities
-
-Write this as a professional field work assessment report that recognizes the visual documentation as the primary evidence of the facilitator's work and impact. Don't make up any details and don't add any details that are not in the text messages or images. Don't include the messages and photos in the report. You don't have to describe each photo. You don't need to include the purpose or details about the organisation. It's okay if the report is short and doesn't have a lot of details. Do not include any title or date in the report.`
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('')
+  const { data: promptTemplates = [], isLoading: templatesLoading } = usePromptTemplates()
+  const defaultTemplate = promptTemplates.find(t => t.is_default)
+  const defaultPrompt = defaultTemplate?.body ?? DEFAULT_PROMPT_TEMPLATE
+  const selectedTemplate = promptTemplates.find(t => t.id === selectedTemplateId)
 
   // Fetch learning centres
   const { data: learningCentres = [] } = useQuery({
@@ -107,48 +131,117 @@ Write this as a professional field work assessment report that recognizes the vi
   // Fetch field notes and images for selected month
   const { data: fieldData, isLoading: fieldDataLoading } = useQuery({
     queryKey: ['fieldData', selectedCentreId, selectedMonth],
-    queryFn: async () => {
-      if (!selectedMonth) return { notes: [], images: [] }
+    queryFn: async (): Promise<AnalysisInput> => {
+      if (!selectedMonth) return EMPTY_ANALYSIS_INPUT
 
       const [year, month] = selectedMonth.split('-').map(Number)
-      const startDate = new Date(year, month - 1, 1)
-      const endDate = new Date(year, month, 0, 23, 59, 59)
-
-      const [notesResult, imagesResult] = await Promise.all([
-        supabase
-          .from('field_notes')
-          .select('*')
-          .eq('learning_centre_id', selectedCentreId)
-          .gte('sent_at', startDate.toISOString())
-          .lte('sent_at', endDate.toISOString())
-          .order('sent_at', { ascending: true }),
-        supabase
-          .from('field_images')
-          .select('*')
-          .eq('learning_centre_id', selectedCentreId)
-          .gte('sent_at', startDate.toISOString())
-          .lte('sent_at', endDate.toISOString())
-          .order('sent_at', { ascending: true })
-      ])
-
-      if (notesResult.error) throw notesResult.error
-      if (imagesResult.error) throw imagesResult.error
-
-      return {
-        notes: (notesResult.data || []) as FieldNote[],
-        images: (imagesResult.data || []) as FieldImage[]
-      }
+      return fetchAnalysisInput(selectedCentreId, year, month)
     },
     enabled: !!selectedCentreId && !!selectedMonth,
   })
 
   const fieldNotes = fieldData?.notes || []
   const images = fieldData?.images || []
+  const { isPhotoVisible } = usePhotoConsent(images.slice(0, 6).map(img => img.id))
+
+  // Generated reports the last run can be saved to
+  const { data: runReports = [] } = useQuery({
+    queryKey: ['runReports', analysisRun?.centreId, analysisRun?.year, analysisRun?.month],
+    queryFn: async () => {
+      if (!analysisRun) return []
+
+      const { data, error } = await supabase
+        .from('generated_reports_summary')
+        .select('id, facilitator_name, month_year_display, has_llm_analysis')
+        .eq('learning_centre_id', analysisRun.centreId)
+        .eq('year', analysisRun.year)
+        .eq('month', analysisRun.month)
 
-  // Set default prompt on mount only
+      if (error) throw error
+
+      const centre = learningCentres.find(c => c.id === analysisRun.centreId)
+      const reports = (data || []).map(report => ({
+        ...report,
+        state: centre?.state ?? '',
+        district: centre?.district ?? '',
+      })) as RunReport[]
+
+      if (reports.length > 0) {
+        setSelectedReportId(reports[0].id)
+      }
+
+      return reports
+    },
+    enabled: !!analysisRun,
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ reportId, run }: { reportId: string; run: AnalysisRun }) => {
+      const { error } = await supabase.rpc('save_report_llm_analysis', {
+        p_generated_report_id: reportId,
+        p_text: run.analysis,
+        p_prompt_text: run.promptText,
+        p_model: run.model,
+        p_temperature: run.temperature,
+        p_images_count: run.imagesCount,
+        p_prompt_template_id: run.promptTemplateId,
+        p_rubric: run.rubric,
+      })
+
+      if (error) throw error
+      return reportId
+    },
+    onSuccess: (reportId, { run }) => {
+      setSavedReportId(reportId)
+      queryClient.invalidateQueries({ queryKey: ['report', reportId] })
+      queryClient.invalidateQueries({ queryKey: ['reportLLMAnalysis', reportId] })
+      queryClient.invalidateQueries({ queryKey: ['reports', run.centreId] })
+      queryClient.invalidateQueries({ queryKey: ['runReports', run.centreId, run.year, run.month] })
+    },
+  })
+
+  const savedReport = runReports.find(r => r.id === savedReportId)
+
+  // Start from the registry's default template once templates have loaded
   useEffect(() => {
-    setPrompt(defaultPrompt)
-  }, [])
+    if (templatesLoading) return
+    setPrompt(current => current || defaultPrompt)
+    setSelectedTemplateId(current => current || defaultTemplate?.id || '')
+  }, [templatesLoading, defaultPrompt, defaultTemplate?.id])
+
+  // Stop any in-flight stream when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), [])
+
+  function selectTemplate(templateId: string) {
+    const template = promptTemplates.find(t => t.id === templateId)
+    if (!template) return
+    setSelectedTemplateId(template.id)
+    setPrompt(template.body)
+  }
+
+  const [selectedYear, selectedMonthNumber] = selectedMonth
+    ? selectedMonth.split('-').map(Number)
+    : [0, 0]
+
+  // Fill a prompt template for the selected centre-month and build the request
+  function buildRequest(promptText: string): LLMAnalysisRequest {
+    const centre = learningCentres.find(c => c.id === selectedCentreId)
+    return buildAnalysisRequest(
+      promptText,
+      {
+        centre: {
+          id: selectedCentreId,
+          centre_name: centre?.centre_name ?? '',
+          district: centre?.district ?? '',
+          state: centre?.state ?? '',
+        },
+        facilitatorName: centre?.facilitators?.[0]?.name || 'Facilitator',
+        year: selectedYear,
+        month: selectedMonthNumber,
+      },
+      fieldData ?? EMPTY_ANALYSIS_INPUT
+    )
+  }
 
   async function runAnalysis() {
     if (!selectedCentreId || !selectedMonth) {
@@ -156,279 +249,471 @@ Write this as a professional field work assessment report that recognizes the vi
       return
     }
 
+    const controller = new AbortController()
+    abortControllerRef.current = controller
     setAnalysisLoading(true)
     setAnalysisError(null)
-    setAnalysis('')
+    setAnalysisRun(null)
+    setStreamingText('')
+    setBatchProgress(null)
+    setSavedReportId(null)
+    saveMutation.reset()
 
     try {
-      const centre = learningCentres.find(c => c.id === selectedCentreId)
-      const facilitatorName = centre?.facilitators?.[0]?.name || 'Facilitator'
-
-      // Prepare field notes with timestamps
-      const formattedNotes = fieldNotes.map(note => ({
-        timestamp: note.sent_at || note.created_at,
-        text: note.text
-      }))
-
-      // Prepare images with URLs
-      const formattedImages = images.map(img => ({
-        url: img.photo_url,
-        caption: img.caption
-      }))
-
-      // Replace placeholders in prompt
-      let processedPrompt = prompt
-        .replace(/\{\{FACILITATOR_NAME\}\}/g, facilitatorName)
-        .replace(/\{\{IMAGES_COUNT\}\}/g, String(formattedImages.length))
-
-      const fieldNotesText = formattedNotes.length > 0
-        ? formattedNotes.map(note => `[${note.timestamp}] ${note.text}`).join('\n')
-        : 'Limited text messages - analysis should focus primarily on visual documentation.'
-
-      processedPrompt = processedPrompt.replace(/\{\{FIELD_NOTES\}\}/g, fieldNotesText)
-
-      const result = await generateLLMAnalysis({
-        facilitatorName,
-        fieldNotes: formattedNotes,
-        images: formattedImages,
-        customPrompt: processedPrompt
+      const provider = getLLMProvider(modelSelection.providerId)
+      const request = { ...buildRequest(prompt), model: modelSelection.model }
+      const result = await provider.stream(request, {
+        signal: controller.signal,
+        onToken: (_text, analysisSoFar) => setStreamingText(analysisSoFar),
+        onProgress: setBatchProgress,
       })
 
-      setAnalysis(result)
+      setAnalysisRun({
+        ...result,
+        providerId: provider.id,
+        centreId: selectedCentreId,
+        month: selectedMonthNumber,
+        year: selectedYear,
+        promptText: prompt,
+        promptTemplateId: selectedTemplate && selectedTemplate.body === prompt ? selectedTemplate.id : null,
+      })
     } catch (err) {
       setAnalysisError(err instanceof Error ? err.message : 'Failed to generate analysis')
     } finally {
+      abortControllerRef.current = null
       setAnalysisLoading(false)
     }
   }
 
+  function stopAnalysis() {
+    abortControllerRef.current?.abort()
+  }
+
   const selectedCentre = learningCentres.find(c => c.id === selectedCentreId)
 
-  return (
-    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <div className="mb-8">
-          <h1 className="text-2xl font-semibold text-gray-900">LLM Analysis Playground</h1>
-          <p className="text-sm text-gray-500 mt-1">
-            Test and experiment with LLM analysis on field notes and images
-          </p>
+  const configurationCard = (
+    <Card>
+      <CardHeader>
+        <h2 className="text-lg font-medium">Configuration</h2>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="centre">Learning Centre</Label>
+          <Select value={selectedCentreId} onValueChange={setSelectedCentreId}>
+            <SelectTrigger id="centre">
+              <SelectValue placeholder="Select a learning centre" />
+            </SelectTrigger>
+            <SelectContent>
+              {learningCentres.map(centre => (
+                <SelectItem key={centre.id} value={centre.id}>
+                  {centre.centre_name} ({centre.district}, {centre.state})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Left Column - Controls */}
-          <div className="space-y-6">
-            <Card>
-              <CardHeader>
-                <h2 className="text-lg font-medium">Configuration</h2>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="centre">Learning Centre</Label>
-                  <Select value={selectedCentreId} onValueChange={setSelectedCentreId}>
-                    <SelectTrigger id="centre">
-                      <SelectValue placeholder="Select a learning centre" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {learningCentres.map(centre => (
-                        <SelectItem key={centre.id} value={centre.id}>
-                          {centre.centre_name} ({centre.district}, {centre.state})
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="month">Month</Label>
-                  <Select
-                    value={selectedMonth}
-                    onValueChange={setSelectedMonth}
-                    disabled={!selectedCentreId}
-                  >
-                    <SelectTrigger id="month">
-                      <SelectValue placeholder="Select a month" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {availableMonths.map(m => (
-                        <SelectItem key={`${m.year}-${m.month}`} value={`${m.year}-${m.month}`}>
-                          {m.display}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+        <div className="space-y-2">
+          <Label htmlFor="month">Month</Label>
+          <Select
+            value={selectedMonth}
+            onValueChange={setSelectedMonth}
+            disabled={!selectedCentreId}
+          >
+            <SelectTrigger id="month">
+              <SelectValue placeholder="Select a month" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableMonths.map(m => (
+                <SelectItem key={`${m.year}-${m.month}`} value={`${m.year}-${m.month}`}>
+                  {m.display}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
 
-                {selectedCentre && (
-                  <div className="pt-4 border-t border-gray-200">
-                    <p className="text-sm text-gray-600">
-                      <span className="font-medium">Facilitator:</span>{' '}
-                      {selectedCentre.facilitators?.[0]?.name || 'N/A'}
-                    </p>
-                    <p className="text-sm text-gray-600 mt-1">
-                      <span className="font-medium">Field Notes:</span> {fieldNotes.length}
-                    </p>
-                    <p className="text-sm text-gray-600 mt-1">
-                      <span className="font-medium">Images:</span> {images.length}
-                    </p>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <h2 className="text-lg font-medium">Prompt</h2>
-                <p className="text-sm text-gray-500">
-                  Customize the prompt. Use placeholders: {'{{FACILITATOR_NAME}}'}, {'{{FIELD_NOTES}}'}, {'{{IMAGES_COUNT}}'}
-                </p>
-              </CardHeader>
-              <CardContent>
-                <Textarea
-                  value={prompt}
-                  onChange={(e) => setPrompt(e.target.value)}
-                  rows={15}
-                  className="font-mono text-xs"
-                  placeholder="Enter your custom prompt here..."
-                />
-                <div className="mt-4">
-                  <Button
-                    onClick={() => setPrompt(defaultPrompt)}
-                    variant="outline"
-                    className="w-full"
-                  >
-                    Reset to Default Prompt
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
+        {selectedCentre && (
+          <div className="pt-4 border-t border-gray-200">
+            <p className="text-sm text-gray-600">
+              <span className="font-medium">Facilitator:</span>{' '}
+              {selectedCentre.facilitators?.[0]?.name || 'N/A'}
+            </p>
+            <p className="text-sm text-gray-600 mt-1">
+              <span className="font-medium">Field Notes:</span> {fieldNotes.length}
+            </p>
+            <p className="text-sm text-gray-600 mt-1">
+              <span className="font-medium">Images:</span> {images.length}
+              {!!fieldData?.withheldImagesCount && (
+                <span className="text-gray-500"> ({fieldData.withheldImagesCount} withheld without photo consent)</span>
+              )}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
 
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-gray-900">LLM Analysis Playground</h1>
+            <p className="text-sm text-gray-500 mt-1">
+              Test and experiment with LLM analysis on field notes and images
+            </p>
+          </div>
+          <div className="inline-flex rounded-md border border-gray-200 p-1">
             <Button
-              onClick={runAnalysis}
-              disabled={analysisLoading || !selectedCentreId || !selectedMonth}
-              className="w-full"
+              size="sm"
+              variant={mode === 'single' ? 'default' : 'ghost'}
+              onClick={() => setMode('single')}
             >
-              {analysisLoading ? 'Generating Analysis...' : 'Run Analysis'}
+              Single Run
             </Button>
+            <Button
+              size="sm"
+              variant={mode === 'compare' ? 'default' : 'ghost'}
+              onClick={() => setMode('compare')}
+            >
+              Compare Variants
+            </Button>
+          </div>
+        </div>
 
-            {analysisError && (
-              <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
-                {analysisError}
+        {mode === 'compare' ? (
+          <div className="space-y-6">
+            <div className="max-w-xl">{configurationCard}</div>
+            {selectedCentreId && selectedMonth ? (
+              <PromptComparison
+                key={`${selectedCentreId}-${selectedMonth}`}
+                templates={promptTemplates}
+                defaultTemplate={defaultTemplate}
+                defaultPrompt={defaultPrompt}
+                centreId={selectedCentreId}
+                month={selectedMonthNumber}
+                year={selectedYear}
+                buildRequest={buildRequest}
+              />
+            ) : (
+              <div className="text-center py-8 text-gray-400">
+                Select a learning centre and month to compare prompt variants.
               </div>
             )}
           </div>
-
-          {/* Right Column - Results */}
-          <div className="space-y-6">
-            <Card>
-              <CardHeader>
-                <h2 className="text-lg font-medium">Analysis Result</h2>
-              </CardHeader>
-              <CardContent>
-                {analysisLoading && (
-                  <div className="text-center py-8 text-gray-500">
-                    Generating analysis...
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Left Column - Controls */}
+            <div className="space-y-6">
+              {configurationCard}
+
+              <Card>
+                <CardHeader>
+                  <h2 className="text-lg font-medium">Model</h2>
+                </CardHeader>
+                <CardContent>
+                  <ModelPicker
+                    idPrefix="analysis"
+                    value={modelSelection}
+                    onChange={setModelSelection}
+                    disabled={analysisLoading}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-medium">Prompt</h2>
+                    <Link to="/prompt-templates" className="text-sm text-gray-600 underline hover:text-gray-900">
+                      Manage templates
+                    </Link>
                   </div>
-                )}
-                {!analysisLoading && !analysis && (
-                  <div className="text-center py-8 text-gray-400">
-                    Select a learning centre and month, then click "Run Analysis" to see results here.
+                  <p className="text-sm text-gray-500">
+                    Start from a saved template and customize it. Available placeholders:
+                  </p>
+                  <ul className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-500">
+                    {PROMPT_PLACEHOLDERS.map(placeholder => (
+                      <li key={placeholder.token} title={placeholder.description} className="font-mono">
+                        {placeholder.token}
+                      </li>
+                    ))}
+                  </ul>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2 mb-4">
+                    <Label htmlFor="template">Template</Label>
+                    <Select value={selectedTemplateId} onValueChange={selectTemplate} disabled={promptTemplates.length === 0}>
+                      <SelectTrigger id="template">
+                        <SelectValue placeholder={templatesLoading ? 'Loading templates...' : 'Built-in default prompt'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {promptTemplates.map(template => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name} v{template.version}{template.is_default ? ' (default)' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedTemplate && selectedTemplate.body !== prompt && (
+                      <p className="text-xs text-gray-500">Edited from {selectedTemplate.name} v{selectedTemplate.version}</p>
+                    )}
                   </div>
-                )}
-                {!analysisLoading && analysis && (
-                  <div className="prose prose-sm max-w-none">
-                    <pre className="whitespace-pre-wrap text-sm text-gray-700 bg-gray-50 p-4 rounded-md">
-                      {analysis}
-                    </pre>
+                  <Textarea
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                    rows={15}
+                    className="font-mono text-xs"
+                    placeholder="Enter your custom prompt here..."
+                  />
+                  <div className="mt-4">
+                    <Button
+                      onClick={() => {
+                        setPrompt(defaultPrompt)
+                        setSelectedTemplateId(defaultTemplate?.id ?? '')
+                      }}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      Reset to Default Prompt
+                    </Button>
                   </div>
-                )}
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <h2 className="text-lg font-medium">Images Preview {!fieldDataLoading && `(${images.length})`}</h2>
-              </CardHeader>
-              <CardContent>
-                {fieldDataLoading ? (
-                  <div className="grid grid-cols-2 gap-4">
-                    {[...Array(6)].map((_, idx) => (
-                      <div key={idx} className="space-y-2">
-                        <div className="w-full h-32 bg-gray-200 rounded-md animate-pulse" />
-                        <div className="h-3 bg-gray-200 rounded w-3/4 animate-pulse" />
-                      </div>
-                    ))}
+                </CardContent>
+              </Card>
+
+              <Button
+                onClick={runAnalysis}
+                disabled={analysisLoading || !selectedCentreId || !selectedMonth}
+                className="w-full"
+              >
+                {analysisLoading ? 'Generating Analysis...' : 'Run Analysis'}
+              </Button>
+
+              {analysisError && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+                  {analysisError}
+                </div>
+              )}
+            </div>
+
+            {/* Right Column - Results */}
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-medium">Analysis Result</h2>
+                    {analysisLoading && (
+                      <Button size="sm" variant="outline" onClick={stopAnalysis}>
+                        Stop
+                      </Button>
+                    )}
                   </div>
-                ) : images.length > 0 ? (
-                  <>
-                    <div className="grid grid-cols-2 gap-4">
-                      {images.slice(0, 6).map((img, idx) => (
-                        <div key={img.id} className="space-y-2">
-                          <img
-                            src={img.photo_url}
-                            alt={img.caption || `Image ${idx + 1}`}
-                            className="w-full h-32 object-cover rounded-md"
-                          />
-                          {img.caption && (
-                            <p className="text-xs text-gray-600">{img.caption}</p>
+                </CardHeader>
+                <CardContent>
+                  {analysisLoading && !streamingText && (
+                    <div className="text-center py-8 text-gray-500">
+                      {batchProgress ? (
+                        <>
+                          <p>Describing photos: batch {batchProgress.batch} of {batchProgress.batchCount}</p>
+                          <p className="text-xs text-gray-400 mt-1">
+                            {batchProgress.imagesAnalysed} of {batchProgress.imagesTotal} images analysed
+                            {batchProgress.batch === batchProgress.batchCount && ' · writing the report'}
+                          </p>
+                        </>
+                      ) : (
+                        'Generating analysis...'
+                      )}
+                    </div>
+                  )}
+                  {analysisLoading && streamingText && (
+                    <div className="prose prose-sm max-w-none">
+                      <pre className="whitespace-pre-wrap text-sm text-gray-700 bg-gray-50 p-4 rounded-md">
+                        {streamingText}
+                      </pre>
+                    </div>
+                  )}
+                  {!analysisLoading && !analysis && !analysisRun?.cancelled && (
+                    <div className="text-center py-8 text-gray-400">
+                      Select a learning centre and month, then click "Run Analysis" to see results here.
+                    </div>
+                  )}
+                  {!analysisLoading && analysisRun?.rubric && (
+                    <div className="mb-4">
+                      <RubricBadges rubric={analysisRun.rubric} />
+                    </div>
+                  )}
+                  {!analysisLoading && analysis && (
+                    <div className="prose prose-sm max-w-none">
+                      <pre className="whitespace-pre-wrap text-sm text-gray-700 bg-gray-50 p-4 rounded-md">
+                        {analysis}
+                      </pre>
+                    </div>
+                  )}
+                  {!analysisLoading && analysisRun && (
+                    <div className="mt-4 space-y-3 border-t border-gray-200 pt-4">
+                      <p className="text-xs text-gray-500">
+                        {analysisRun.model} · temperature {analysisRun.temperature} · {analysisRun.imagesCount} of {analysisRun.imagesTotal} image{analysisRun.imagesTotal === 1 ? '' : 's'} analysed
+                      </p>
+                      {analysisRun.imagesCount < analysisRun.imagesTotal && (
+                        <p className="text-xs text-amber-700">
+                          {analysisRun.imagesTotal - analysisRun.imagesCount} of the photos did not reach the model.
+                        </p>
+                      )}
+                      {analysisRun.cancelled ? (
+                        <p className="text-sm text-amber-700">
+                          Stopped before the analysis finished. The partial output is kept here but cannot be saved to a report.
+                        </p>
+                      ) : analysisRun.providerId === 'mock' ? (
+                        <p className="text-sm text-gray-500">
+                          Mock provider output is for development only and cannot be saved to a report.
+                        </p>
+                      ) : runReports.length === 0 ? (
+                        <p className="text-sm text-gray-500">
+                          No generated report exists for this centre and month, so this run cannot be saved.
+                        </p>
+                      ) : (
+                        <>
+                          {runReports.length > 1 && (
+                            <div className="space-y-2">
+                              <Label htmlFor="saveReport">Report</Label>
+                              <Select value={selectedReportId} onValueChange={setSelectedReportId}>
+                                <SelectTrigger id="saveReport">
+                                  <SelectValue placeholder="Select a report" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {runReports.map(report => (
+                                    <SelectItem key={report.id} value={report.id}>
+                                      {report.facilitator_name} — {report.month_year_display}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
+                          {runReports.find(r => r.id === selectedReportId)?.has_llm_analysis && !savedReportId && (
+                            <p className="text-xs text-amber-700">
+                              This report already has an analysis. Saving will replace it, including any review edits or approval.
+                            </p>
                           )}
+                          <Button
+                            onClick={() => saveMutation.mutate({ reportId: selectedReportId, run: analysisRun })}
+                            disabled={!selectedReportId || saveMutation.isPending}
+                            variant="outline"
+                            className="w-full"
+                          >
+                            {saveMutation.isPending ? 'Saving...' : 'Save to Report'}
+                          </Button>
+                        </>
+                      )}
+                      {saveMutation.error && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+                          {saveMutation.error.message}
+                        </div>
+                      )}
+                      {savedReport && (
+                        <p className="text-sm text-gray-600">
+                          Saved.{' '}
+                          <Link
+                            to={`/${encodeURIComponent(savedReport.state)}/${encodeURIComponent(savedReport.district)}/centre/${analysisRun.centreId}/report/${savedReport.id}`}
+                            className="underline hover:text-gray-900"
+                          >
+                            Open {savedReport.month_year_display} report
+                          </Link>
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <h2 className="text-lg font-medium">Images Preview {!fieldDataLoading && `(${images.length})`}</h2>
+                </CardHeader>
+                <CardContent>
+                  {fieldDataLoading ? (
+                    <div className="grid grid-cols-2 gap-4">
+                      {[...Array(6)].map((_, idx) => (
+                        <div key={idx} className="space-y-2">
+                          <div className="w-full h-32 bg-gray-200 rounded-md animate-pulse" />
+                          <div className="h-3 bg-gray-200 rounded w-3/4 animate-pulse" />
                         </div>
                       ))}
                     </div>
-                    {images.length > 6 && (
-                      <p className="text-xs text-gray-500 mt-4 text-center">
-                        Showing 6 of {images.length} images
-                      </p>
-                    )}
-                  </>
-                ) : (
-                  <div className="text-center py-8 text-gray-400 text-sm">
-                    No images available for this selection
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <h2 className="text-lg font-medium">Field Notes Preview {!fieldDataLoading && `(${fieldNotes.length})`}</h2>
-              </CardHeader>
-              <CardContent>
-                {fieldDataLoading ? (
-                  <div className="space-y-3">
-                    {[...Array(5)].map((_, idx) => (
-                      <div key={idx} className="border-l-2 border-gray-300 pl-3 py-1">
-                        <div className="h-3 bg-gray-200 rounded w-1/4 mb-2 animate-pulse" />
-                        <div className="h-4 bg-gray-200 rounded w-full animate-pulse" />
-                        <div className="h-4 bg-gray-200 rounded w-5/6 mt-1 animate-pulse" />
+                  ) : images.length > 0 ? (
+                    <>
+                      <div className="grid grid-cols-2 gap-4">
+                        {images.slice(0, 6).map((img, idx) => (
+                          <div key={img.id} className="space-y-2">
+                            <ConsentPhoto
+                              src={img.photo_url}
+                              alt={img.caption || `Image ${idx + 1}`}
+                              visible={isPhotoVisible(img.id)}
+                              className="w-full h-32 object-cover rounded-md"
+                            />
+                            {img.caption && (
+                              <p className="text-xs text-gray-600">{img.caption}</p>
+                            )}
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
-                ) : fieldNotes.length > 0 ? (
-                  <>
-                    <div className="space-y-3 max-h-96 overflow-y-auto">
-                      {fieldNotes.slice(0, 10).map((note) => (
-                        <div key={note.id} className="text-sm border-l-2 border-gray-300 pl-3 py-1">
-                          <p className="text-xs text-gray-500">
-                            {new Date(note.sent_at || note.created_at).toLocaleString()}
-                          </p>
-                          <p className="text-gray-700 mt-1">{note.text}</p>
+                      {images.length > 6 && (
+                        <p className="text-xs text-gray-500 mt-4 text-center">
+                          Showing 6 of {images.length} images
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <div className="text-center py-8 text-gray-400 text-sm">
+                      No images available for this selection
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <h2 className="text-lg font-medium">Field Notes Preview {!fieldDataLoading && `(${fieldNotes.length})`}</h2>
+                </CardHeader>
+                <CardContent>
+                  {fieldDataLoading ? (
+                    <div className="space-y-3">
+                      {[...Array(5)].map((_, idx) => (
+                        <div key={idx} className="border-l-2 border-gray-300 pl-3 py-1">
+                          <div className="h-3 bg-gray-200 rounded w-1/4 mb-2 animate-pulse" />
+                          <div className="h-4 bg-gray-200 rounded w-full animate-pulse" />
+                          <div className="h-4 bg-gray-200 rounded w-5/6 mt-1 animate-pulse" />
                         </div>
                       ))}
                     </div>
-                    {fieldNotes.length > 10 && (
-                      <p className="text-xs text-gray-500 mt-4 text-center">
-                        Showing 10 of {fieldNotes.length} notes
-                      </p>
-                    )}
-                  </>
-                ) : (
-                  <div className="text-center py-8 text-gray-400 text-sm">
-                    No field notes available for this selection
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+                  ) : fieldNotes.length > 0 ? (
+                    <>
+                      <div className="space-y-3 max-h-96 overflow-y-auto">
+                        {fieldNotes.slice(0, 10).map((note) => (
+                          <div key={note.id} className="text-sm border-l-2 border-gray-300 pl-3 py-1">
+                            <p className="text-xs text-gray-500">
+                              {new Date(note.sent_at || note.created_at).toLocaleString()}
+                            </p>
+                            <p className="text-gray-700 mt-1">{note.text}</p>
+                          </div>
+                        ))}
+                      </div>
+                      {fieldNotes.length > 10 && (
+                        <p className="text-xs text-gray-500 mt-4 text-center">
+                          Showing 10 of {fieldNotes.length} notes
+                        </p>
+                      )}
+                    </>
+                  ) : (
+                    <div className="text-center py-8 text-gray-400 text-sm">
+                      No field notes available for this selection
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
           </div>
-        </div>
+        )}
       </div>
   )
 }
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
@@ -5,6 +6,15 @@ import type { LearningCentre, GeneratedReport, FieldNote } from '../types/databa
 import { Card, CardContent, CardHeader } from './ui/card';
 import { Button } from './ui/button';
 import { Skeleton } from './ui/skeleton';
+import { useAuth } from '../hooks/useAuth';
+import { CHILD_DATA_ROLES, hasRole } from '../lib/auth';
+import { consentLookup, displayChildLabel } from '../lib/consent';
+import { useConsentStatuses } from '../hooks/useChildConsents';
+import CentreTrends from './CentreTrends';
+import LearningCentreForm from './LearningCentreForm';
+import CentreAssignments from './CentreAssignments';
+import AuditLog from './AuditLog';
+import CoordinatorNoteForm from './CoordinatorNoteForm';
 
 function formatDisplayDate(isoString: string) {
   if (!isoString) return 'Date unavailable';
@@ -28,6 +38,13 @@ export default function LearningCentreDetail() {
     district: string; 
   }>();
   const navigate = useNavigate();
+  const { profile } = useAuth();
+  const canViewChildData = hasRole(profile, CHILD_DATA_ROLES);
+  const { data: consentStatuses = [] } = useConsentStatuses({ centreId }, !!centreId && canViewChildData);
+  const consents = consentLookup(consentStatuses);
+  const isAdmin = hasRole(profile, ['admin']);
+  const [editing, setEditing] = useState(false);
+  const [writingNote, setWritingNote] = useState(false);
 
   // Fetch centre details
   const { data: centre, isLoading: centreLoading, error: centreError } = useQuery({
@@ -97,7 +114,7 @@ export default function LearningCentreDetail() {
 
       return grouped
     },
-    enabled: !!centreId && reports.length > 0,
+    enabled: !!centreId && reports.length > 0 && canViewChildData,
   })
 
   // Fetch coordinator notes
@@ -148,7 +165,7 @@ export default function LearningCentreDetail() {
 
       return normalized
     },
-    enabled: !!centreId,
+    enabled: !!centreId && canViewChildData,
   })
 
   const loading = centreLoading
@@ -227,9 +244,29 @@ export default function LearningCentreDetail() {
         <h1 className="text-2xl font-semibold text-gray-900">{centre.centre_name}</h1>
       </div>
 
+      {editing && (
+        <section className="mb-10 rounded-lg border border-gray-200 bg-white p-6">
+          <h2 className="mb-4 text-lg font-medium text-gray-900">Edit Centre</h2>
+          <LearningCentreForm
+            centre={centre}
+            onSaved={(saved) => {
+              setEditing(false);
+              // State or district may have changed, which moves the centre's URL
+              navigate(`/${encodeURIComponent(saved.state)}/${encodeURIComponent(saved.district)}/centre/${saved.id}`, { replace: true });
+            }}
+            onCancel={() => setEditing(false)}
+          />
+        </section>
+      )}
+
       <section className="mb-10">
-        <div className="mb-4">
+        <div className="mb-4 flex items-center justify-between gap-4">
           <h2 className="text-lg font-medium text-gray-900">Centre Information</h2>
+          {isAdmin && !editing && (
+            <Button variant="outline" size="sm" onClick={() => setEditing(true)}>
+              Edit Centre
+            </Button>
+          )}
         </div>
         <div className="rounded-lg border border-gray-200 bg-white p-6 space-y-6">
           <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
@@ -320,12 +357,64 @@ export default function LearningCentreDetail() {
         </div>
       </section>
 
+      {isAdmin && (
+        <section className="mt-10">
+          <div className="mb-4">
+            <h2 className="text-lg font-medium text-gray-900">Assignments</h2>
+            <p className="text-sm text-gray-500">
+              Facilitators, volunteers and partner organisations working at this centre.
+            </p>
+          </div>
+          <CentreAssignments centre={centre} />
+        </section>
+      )}
+
+      {canViewChildData && centreId && (
+        <section className="mt-10">
+          <div className="mb-4">
+            <h2 className="text-lg font-medium text-gray-900">Trends</h2>
+            <p className="text-sm text-gray-500">
+              Monthly activity and analysis rubric scores across the centre's lifetime.
+            </p>
+          </div>
+          <CentreTrends centreId={centreId} />
+        </section>
+      )}
+
       <section className="mt-10">
-        <div className="mb-4">
-          <h2 className="text-lg font-medium text-gray-900">Monthly Facilitator Updates</h2>
-          <p className="text-sm text-gray-500">
-            These are monthly reports generated based on the field notes shared by the facilitators over WhatsApp.
-          </p>
+        <div className="mb-4 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Monthly Facilitator Updates</h2>
+            <p className="text-sm text-gray-500">
+              These are monthly reports generated based on the field notes shared by the facilitators over WhatsApp.
+            </p>
+          </div>
+          {canViewChildData && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  navigate(
+                    `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(districtParam || '')}/centre/${centreId}/import`,
+                  )
+                }
+              >
+                Import WhatsApp Chat
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  navigate(
+                    `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(districtParam || '')}/centre/${centreId}/duplicates`,
+                  )
+                }
+              >
+                Review Duplicates
+              </Button>
+            </div>
+          )}
         </div>
         {reports.length === 0 ? (
           <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-8 text-center text-gray-500">
@@ -382,100 +471,142 @@ export default function LearningCentreDetail() {
         )}
       </section>
 
-      <section className="mt-10">
-        <div className="mb-4">
-          <h2 className="text-lg font-medium text-gray-900">Coordinator Field Notes</h2>
-          <p className="text-sm text-gray-500">
-            These notes come directly from coordinators after their visits to the centre.
-          </p>
-        </div>
-        {coordinatorNotes.length === 0 ? (
-          <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-8 text-center text-sm text-gray-500">
-            No coordinator field notes recorded yet.
-          </p>
-        ) : (
-          <div className="overflow-hidden rounded-lg border border-gray-200 bg-white">
-            <ul className="divide-y divide-gray-200">
-              {coordinatorNotes.map((note) => {
-                const displayDate = note.noted_at || note.created_at;
-                const formattedDate = formatDisplayDate(displayDate);
-                const coordinatorName = note.coordinator?.name || 'Coordinator';
+      {canViewChildData && (
+        <>
+          <section className="mt-10">
+            <div className="mb-4 flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900">Coordinator Field Notes</h2>
+                <p className="text-sm text-gray-500">
+                  These notes come directly from coordinators after their visits to the centre.
+                </p>
+              </div>
+              {!writingNote && (
+                <Button variant="outline" size="sm" onClick={() => setWritingNote(true)}>
+                  New Note
+                </Button>
+              )}
+            </div>
+            {writingNote && centreId && (
+              <div className="mb-4 rounded-lg border border-gray-200 bg-white p-5">
+                <CoordinatorNoteForm
+                  centreId={centreId}
+                  onSaved={() => setWritingNote(false)}
+                  onCancel={() => setWritingNote(false)}
+                />
+              </div>
+            )}
+            {coordinatorNotes.length === 0 ? (
+              <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-8 text-center text-sm text-gray-500">
+                No coordinator field notes recorded yet.
+              </p>
+            ) : (
+              <div className="overflow-hidden rounded-lg border border-gray-200 bg-white">
+                <ul className="divide-y divide-gray-200">
+                  {coordinatorNotes.map((note) => {
+                    const displayDate = note.noted_at || note.created_at;
+                    const formattedDate = formatDisplayDate(displayDate);
+                    const coordinatorName = note.coordinator?.name || 'Coordinator';
 
-                return (
-                  <li key={note.id}>
-                    <button
-                      type="button"
-                      onClick={() =>
-                        navigate(
-                          `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(
-                            districtParam || '',
-                          )}/centre/${centreId}/coordinator-notes/${note.id}`,
-                        )
-                      }
-                      className="flex w-full items-center justify-between gap-4 px-5 py-4 text-left transition-colors hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-300"
-                    >
-                      <div className="space-y-2">
-                        <div className="text-sm font-medium text-gray-900">
-                          {coordinatorName} — {formattedDate}
-                        </div>
-                      </div>
-                      <span className="text-xs text-gray-400" aria-hidden="true">
-                        →
-                      </span>
-                    </button>
-                  </li>
-                );
-              })}
-            </ul>
-          </div>
-        )}
-      </section>
+                    return (
+                      <li key={note.id}>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            navigate(
+                              `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(
+                                districtParam || '',
+                              )}/centre/${centreId}/coordinator-notes/${note.id}`,
+                            )
+                          }
+                          className="flex w-full items-center justify-between gap-4 px-5 py-4 text-left transition-colors hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                        >
+                          <div className="space-y-2">
+                            <div className="text-sm font-medium text-gray-900">
+                              {coordinatorName} — {formattedDate}
+                            </div>
+                          </div>
+                          <span className="text-xs text-gray-400" aria-hidden="true">
+                            →
+                          </span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+          </section>
 
-      <section className="mt-10">
-        <div className="mb-2">
-          <h2 className="text-lg font-medium text-gray-900">Children</h2>
-          <p className="text-sm text-gray-500">
-            These are anonymised aliases pulled from field notes, not the full list.
-          </p>
-        </div>
-        {centre?.children && centre.children.length > 0 ? (
-          <div className="rounded-lg border border-gray-200 bg-white p-5 text-sm text-gray-700">
-            <ul className="space-y-2">
-              {centre.children
-                .map((child) => ({
-                  id: child.id,
-                  aliases: child.alias?.filter((alias) => Boolean(alias && alias.trim())) ?? [],
-                }))
-                .map((child) => ({
-                  id: child.id,
-                  label: child.aliases.length > 0 ? child.aliases.join(', ') : 'Unnamed Child',
-                }))
-                .sort((a, b) => a.label.localeCompare(b.label, undefined, { sensitivity: 'base' }))
-                .map((child) => (
-                  <li key={child.id}>
-                    <button
-                      type="button"
-                      onClick={() =>
-                        navigate(
-                          `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(
-                            districtParam || '',
-                          )}/centre/${centreId}/child/${child.id}`,
-                        )
-                      }
-                      className="w-full rounded-md border border-gray-200 px-4 py-2 text-left transition-colors hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-300"
-                    >
-                      {child.label}
-                    </button>
-                  </li>
-                ))}
-            </ul>
+          <section className="mt-10">
+            <div className="mb-2 flex items-start justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-medium text-gray-900">Children</h2>
+                <p className="text-sm text-gray-500">
+                  These are anonymised aliases pulled from field notes, not the full list. Children without name
+                  consent are shown under a pseudonym.
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  navigate(
+                    `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(districtParam || '')}/centre/${centreId}/children`,
+                  )
+                }
+              >
+                Manage Children
+              </Button>
+            </div>
+            {centre?.children && centre.children.length > 0 ? (
+              <div className="rounded-lg border border-gray-200 bg-white p-5 text-sm text-gray-700">
+                <ul className="space-y-2">
+                  {centre.children
+                    .map((child) => ({
+                      id: child.id,
+                      label: displayChildLabel(child, consents),
+                    }))
+                    .sort((a, b) => a.label.localeCompare(b.label, undefined, { sensitivity: 'base' }))
+                    .map((child) => (
+                      <li key={child.id}>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            navigate(
+                              `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(
+                                districtParam || '',
+                              )}/centre/${centreId}/child/${child.id}`,
+                            )
+                          }
+                          className="w-full rounded-md border border-gray-200 px-4 py-2 text-left transition-colors hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-300"
+                        >
+                          {child.label}
+                        </button>
+                      </li>
+                    ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
+                No anonymised child aliases have been captured from the field notes yet.
+              </p>
+            )}
+          </section>
+        </>
+      )}
+
+      {isAdmin && centreId && (
+        <section className="mt-10">
+          <div className="mb-4">
+            <h2 className="text-lg font-medium text-gray-900">Change History</h2>
+            <p className="text-sm text-gray-500">
+              Edits to this centre and its assignments, newest first.
+            </p>
           </div>
-        ) : (
-          <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
-            No anonymised child aliases have been captured from the field notes yet.
-          </p>
-        )}
-      </section>
+          <AuditLog learningCentreId={centreId} />
+        </section>
+      )}
     </div>
   );
 }
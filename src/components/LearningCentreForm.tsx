@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { emptyToNull, hasErrors, validateLearningCentre } from '../lib/validation'
+import type { LearningCentreDraft, ValidationErrors } from '../lib/validation'
+import { invalidateCentreQueries } from '../hooks/useDirectory'
+import type { LearningCentre } from '../types/database'
+import FormField from './FormField'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+
+type SavedCentre = Pick<LearningCentre, 'id' | 'state' | 'district'>
+
+interface LearningCentreFormProps {
+  // Edits this centre when given, otherwise creates a new one
+  centre?: LearningCentre
+  onSaved: (centre: SavedCentre) => void
+  onCancel: () => void
+}
+
+const TEXT_FIELDS: Array<{ key: keyof LearningCentreDraft; label: string }> = [
+  { key: 'centre_name', label: 'Centre name' },
+  { key: 'area', label: 'Area' },
+  { key: 'city', label: 'City' },
+  { key: 'district', label: 'District' },
+  { key: 'state', label: 'State' },
+  { key: 'country', label: 'Country' },
+]
+
+function toDraft(centre?: LearningCentre): LearningCentreDraft {
+  return {
+    centre_name: centre?.centre_name ?? '',
+    area: centre?.area ?? '',
+    city: centre?.city ?? '',
+    district: centre?.district ?? '',
+    state: centre?.state ?? '',
+    country: centre?.country ?? 'India',
+    start_date: centre?.start_date ?? '',
+    end_date: centre?.end_date ?? '',
+  }
+}
+
+export default function LearningCentreForm({ centre, onSaved, onCancel }: LearningCentreFormProps) {
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState<LearningCentreDraft>(() => toDraft(centre))
+  const [errors, setErrors] = useState<ValidationErrors<LearningCentreDraft>>({})
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: LearningCentreDraft) => {
+      const row = {
+        centre_name: values.centre_name.trim(),
+        area: values.area.trim(),
+        city: values.city.trim(),
+        district: values.district.trim(),
+        state: values.state.trim(),
+        country: values.country.trim(),
+        start_date: values.start_date,
+        end_date: emptyToNull(values.end_date),
+      }
+      const query = centre
+        ? supabase.from('learning_centres').update(row).eq('id', centre.id)
+        : supabase.from('learning_centres').insert(row)
+      const { data, error } = await query.select('id, state, district').single()
+
+      if (error) throw error
+      return data as SavedCentre
+    },
+    onSuccess: (saved) => {
+      invalidateCentreQueries(queryClient, saved.id)
+      onSaved(saved)
+    },
+  })
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    const validationErrors = validateLearningCentre(draft)
+    setErrors(validationErrors)
+    if (!hasErrors(validationErrors)) saveMutation.mutate(draft)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        {TEXT_FIELDS.map(field => (
+          <FormField key={field.key} id={`centre-${field.key}`} label={field.label} error={errors[field.key]}>
+            <Input
+              id={`centre-${field.key}`}
+              value={draft[field.key]}
+              aria-invalid={!!errors[field.key]}
+              onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+            />
+          </FormField>
+        ))}
+        <FormField id="centre-start_date" label="Start date" error={errors.start_date}>
+          <Input
+            id="centre-start_date"
+            type="date"
+            value={draft.start_date}
+            aria-invalid={!!errors.start_date}
+            onChange={(e) => setDraft({ ...draft, start_date: e.target.value })}
+          />
+        </FormField>
+        <FormField id="centre-end_date" label="End date (leave empty while running)" error={errors.end_date}>
+          <Input
+            id="centre-end_date"
+            type="date"
+            value={draft.end_date}
+            aria-invalid={!!errors.end_date}
+            onChange={(e) => setDraft({ ...draft, end_date: e.target.value })}
+          />
+        </FormField>
+      </div>
+      {saveMutation.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {saveMutation.error.message}
+        </div>
+      )}
+      <div className="flex gap-3">
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving...' : centre ? 'Save Centre' : 'Create Centre'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
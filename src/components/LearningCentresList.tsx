@@ -2,6 +2,10 @@ import { useState, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
+import { CHILD_DATA_ROLES, hasRole } from '../lib/auth';
+import { canShowChildName, consentLookup } from '../lib/consent';
+import { useAuth } from '../hooks/useAuth';
+import { useConsentStatuses } from '../hooks/useChildConsents';
 import type { LearningCentre } from '../types/database';
 import { Card, CardContent, CardHeader } from './ui/card';
 import { Button } from './ui/button';
@@ -14,6 +18,8 @@ export default function LearningCentresList() {
   const state = stateParam ? decodeURIComponent(stateParam) : '';
   const district = districtParam ? decodeURIComponent(districtParam) : '';
   const [search, setSearch] = useState('');
+  const { profile } = useAuth();
+  const canViewChildData = hasRole(profile, CHILD_DATA_ROLES);
 
   const { data: centres = [], isLoading: loading, error: centreError } = useQuery({
     queryKey: ['learningCentres', state, district],
@@ -31,21 +37,29 @@ export default function LearningCentresList() {
     enabled: !!state && !!district,
   })
 
+  const { data: consentStatuses = [] } = useConsentStatuses(
+    { state, district },
+    canViewChildData && !!state && !!district,
+  );
+
   const error = centreError?.message || null;
 
   const filteredCentres = useMemo(() => {
     if (!search.trim()) return centres;
+    const consents = consentLookup(consentStatuses);
     const query = search.trim().toLowerCase();
     return centres.filter((centre) => {
       const nameMatch = centre.centre_name?.toLowerCase().includes(query);
       const locationMatch = centre.city?.toLowerCase().includes(query) || centre.area?.toLowerCase().includes(query);
       const facilitatorMatch = centre.facilitators?.some((f) => f.name?.toLowerCase().includes(query));
+      // Aliases only match when name consent is current, so a search cannot confirm where a child attends
       const childMatch = centre.children?.some((child) =>
+        canShowChildName(child.id, consents) &&
         child.alias?.some((alias) => alias?.toLowerCase().includes(query))
       );
       return Boolean(nameMatch || locationMatch || facilitatorMatch || childMatch);
     });
-  }, [centres, search]);
+  }, [centres, search, consentStatuses]);
 
   if (loading) return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
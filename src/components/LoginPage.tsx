@@ -0,0 +1,131 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
+import type { Location } from 'react-router-dom'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../hooks/useAuth'
+import { Card, CardContent, CardHeader } from './ui/card'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+
+type LoginMode = 'password' | 'magic-link'
+
+export default function LoginPage() {
+  const { session } = useAuth()
+  const location = useLocation()
+  const [mode, setMode] = useState<LoginMode>('password')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [linkSent, setLinkSent] = useState(false)
+
+  const from = (location.state as { from?: Location } | null)?.from?.pathname || '/'
+
+  if (session) {
+    return <Navigate to={from} replace />
+  }
+
+  async function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      if (mode === 'password') {
+        const { error } = await supabase.auth.signInWithPassword({ email, password })
+        if (error) throw error
+      } else {
+        const { error } = await supabase.auth.signInWithOtp({
+          email,
+          options: {
+            emailRedirectTo: window.location.origin,
+            shouldCreateUser: false,
+          },
+        })
+        if (error) throw error
+        setLinkSent(true)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const inputClassName =
+    'w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 placeholder:text-gray-400 shadow-sm focus:border-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-200'
+
+  return (
+    <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <Card>
+        <CardHeader>
+          <h1 className="text-xl font-semibold text-gray-900">Sign in</h1>
+          <p className="text-sm text-gray-500">
+            Use the email address your administrator registered for you.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {linkSent ? (
+            <div className="rounded-md border border-gray-200 bg-gray-50 p-4 text-sm text-gray-700">
+              Check {email} for a sign-in link.
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <input
+                  id="email"
+                  type="email"
+                  required
+                  autoComplete="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+
+              {mode === 'password' && (
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <input
+                    id="password"
+                    type="password"
+                    required
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className={inputClassName}
+                  />
+                </div>
+              )}
+
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+                  {error}
+                </div>
+              )}
+
+              <Button type="submit" disabled={submitting} className="w-full">
+                {submitting
+                  ? 'Signing in...'
+                  : mode === 'password' ? 'Sign in' : 'Email me a sign-in link'}
+              </Button>
+
+              <Button
+                type="button"
+                variant="link"
+                onClick={() => {
+                  setMode(mode === 'password' ? 'magic-link' : 'password')
+                  setError(null)
+                }}
+              >
+                {mode === 'password' ? 'Use a magic link instead' : 'Use a password instead'}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
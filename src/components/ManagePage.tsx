@@ -0,0 +1,352 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import {
+  invalidateCentreQueries,
+  useAllLearningCentres,
+  useCoordinators,
+  useFacilitators,
+  usePartnerOrganisations,
+  useVolunteers,
+} from '../hooks/useDirectory'
+import AuditLog from './AuditLog'
+import CoordinatorForm from './CoordinatorForm'
+import FacilitatorForm from './FacilitatorForm'
+import LearningCentreForm from './LearningCentreForm'
+import PartnerOrganisationForm from './PartnerOrganisationForm'
+import VolunteerForm from './VolunteerForm'
+import { Card, CardContent, CardHeader } from './ui/card'
+import { Button } from './ui/button'
+import { Skeleton } from './ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+
+type ManageTab = 'centres' | 'facilitators' | 'coordinators' | 'volunteers' | 'partners' | 'history'
+
+const TAB_LABELS: Record<ManageTab, string> = {
+  centres: 'Learning Centres',
+  facilitators: 'Facilitators',
+  coordinators: 'Coordinators',
+  volunteers: 'Volunteers',
+  partners: 'Partner Organisations',
+  history: 'Change History',
+}
+
+const NEW_BUTTON_LABELS: Record<Exclude<ManageTab, 'history'>, string> = {
+  centres: 'New Centre',
+  facilitators: 'New Facilitator',
+  coordinators: 'New Coordinator',
+  volunteers: 'New Volunteer',
+  partners: 'New Partner',
+}
+
+const NEW_RECORD = 'new'
+
+function formatDate(value?: string | null) {
+  return value ? new Date(value).toLocaleDateString() : '—'
+}
+
+export default function ManagePage() {
+  const queryClient = useQueryClient()
+  const [tab, setTab] = useState<ManageTab>('centres')
+  // Id of the record being edited, NEW_RECORD for the create form, or null
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  const { data: centres = [], isLoading: centresLoading } = useAllLearningCentres()
+  const { data: facilitators = [], isLoading: facilitatorsLoading } = useFacilitators()
+  const { data: coordinators = [], isLoading: coordinatorsLoading } = useCoordinators()
+  const { data: volunteers = [], isLoading: volunteersLoading } = useVolunteers()
+  const { data: partners = [], isLoading: partnersLoading } = usePartnerOrganisations()
+
+  // Only volunteers and partners can be deleted; centres and facilitators are ended by date
+  const deleteMutation = useMutation({
+    mutationFn: async ({ table, id }: { table: 'volunteers' | 'partner_organisations'; id: string }) => {
+      const { error } = await supabase.from(table).delete().eq('id', id)
+      if (error) throw error
+      return table
+    },
+    onSuccess: (table) => {
+      queryClient.invalidateQueries({ queryKey: [table === 'volunteers' ? 'volunteers' : 'partnerOrganisations'] })
+      invalidateCentreQueries(queryClient)
+    },
+  })
+
+  function confirmDelete(table: 'volunteers' | 'partner_organisations', id: string, name: string) {
+    if (window.confirm(`Delete ${name}? They will be removed from every centre.`)) {
+      deleteMutation.mutate({ table, id })
+    }
+  }
+
+  function switchTab(next: ManageTab) {
+    setTab(next)
+    setEditingId(null)
+    deleteMutation.reset()
+  }
+
+  const closeForm = () => setEditingId(null)
+  const loading = centresLoading || facilitatorsLoading || coordinatorsLoading || volunteersLoading || partnersLoading
+
+  function renderForm() {
+    if (!editingId) return null
+    const isNew = editingId === NEW_RECORD
+    let title = ''
+    let form = null
+
+    if (tab === 'centres') {
+      const centre = centres.find(c => c.id === editingId)
+      title = isNew ? 'New learning centre' : `Edit ${centre?.centre_name ?? 'centre'}`
+      form = <LearningCentreForm centre={centre} onSaved={closeForm} onCancel={closeForm} />
+    } else if (tab === 'facilitators') {
+      const facilitator = facilitators.find(f => f.id === editingId)
+      title = isNew ? 'New facilitator' : `Edit ${facilitator?.name ?? 'facilitator'}`
+      form = <FacilitatorForm facilitator={facilitator} onSaved={closeForm} onCancel={closeForm} />
+    } else if (tab === 'coordinators') {
+      const coordinator = coordinators.find(c => c.id === editingId)
+      const linkedUserIds = coordinators
+        .filter(c => c.id !== coordinator?.id && c.user_id)
+        .map(c => c.user_id as string)
+      title = isNew ? 'New coordinator' : `Edit ${coordinator?.name ?? 'coordinator'}`
+      form = (
+        <CoordinatorForm
+          coordinator={coordinator}
+          linkedUserIds={linkedUserIds}
+          onSaved={closeForm}
+          onCancel={closeForm}
+        />
+      )
+    } else if (tab === 'volunteers') {
+      const volunteer = volunteers.find(v => v.id === editingId)
+      title = isNew ? 'New volunteer' : `Edit ${volunteer?.name ?? 'volunteer'}`
+      form = <VolunteerForm volunteer={volunteer} onSaved={closeForm} onCancel={closeForm} />
+    } else if (tab === 'partners') {
+      const partner = partners.find(p => p.id === editingId)
+      title = isNew ? 'New partner organisation' : `Edit ${partner?.name ?? 'partner organisation'}`
+      form = <PartnerOrganisationForm partner={partner} onSaved={closeForm} onCancel={closeForm} />
+    }
+
+    return (
+      <Card className="mb-6">
+        <CardHeader>
+          <h2 className="text-lg font-medium">{title}</h2>
+        </CardHeader>
+        {/* Keyed so switching records resets the form state */}
+        <CardContent key={`${tab}-${editingId}`}>{form}</CardContent>
+      </Card>
+    )
+  }
+
+  function editButton(id: string) {
+    return (
+      <Button size="sm" variant="ghost" onClick={() => setEditingId(id)}>
+        Edit
+      </Button>
+    )
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Manage</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Create and edit learning centres and the people and organisations working with them. Every change is recorded.
+          </p>
+        </div>
+        {tab !== 'history' && (
+          <Button variant="outline" onClick={() => setEditingId(NEW_RECORD)}>
+            {NEW_BUTTON_LABELS[tab]}
+          </Button>
+        )}
+      </div>
+
+      <div className="mb-6 inline-flex flex-wrap rounded-md border border-gray-200 p-1">
+        {(Object.keys(TAB_LABELS) as ManageTab[]).map(key => (
+          <Button
+            key={key}
+            size="sm"
+            variant={tab === key ? 'default' : 'ghost'}
+            onClick={() => switchTab(key)}
+          >
+            {TAB_LABELS[key]}
+          </Button>
+        ))}
+      </div>
+
+      {renderForm()}
+
+      {deleteMutation.error && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {deleteMutation.error.message}
+        </div>
+      )}
+
+      {tab === 'history' ? (
+        <AuditLog />
+      ) : loading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <div className="rounded-lg border border-gray-200 bg-white">
+          {tab === 'centres' && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Centre</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Ended</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {centres.map(centre => (
+                  <TableRow key={centre.id}>
+                    <TableCell>
+                      <Link
+                        to={`/${encodeURIComponent(centre.state)}/${encodeURIComponent(centre.district)}/centre/${centre.id}`}
+                        className="text-gray-900 underline-offset-2 hover:underline"
+                      >
+                        {centre.centre_name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {centre.area}, {centre.city}, {centre.district}, {centre.state}
+                    </TableCell>
+                    <TableCell>{formatDate(centre.start_date)}</TableCell>
+                    <TableCell>{formatDate(centre.end_date)}</TableCell>
+                    <TableCell className="text-right">{editButton(centre.id)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {tab === 'facilitators' && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Ended</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {facilitators.map(facilitator => (
+                  <TableRow key={facilitator.id}>
+                    <TableCell className="text-gray-900">{facilitator.name}</TableCell>
+                    <TableCell className="text-gray-600">
+                      {facilitator.contact_number}
+                      {facilitator.email && ` · ${facilitator.email}`}
+                    </TableCell>
+                    <TableCell>{formatDate(facilitator.start_date)}</TableCell>
+                    <TableCell>{formatDate(facilitator.end_date)}</TableCell>
+                    <TableCell className="text-right">{editButton(facilitator.id)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {tab === 'coordinators' && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Login</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {coordinators.map(coordinator => (
+                  <TableRow key={coordinator.id}>
+                    <TableCell className="text-gray-900">{coordinator.name}</TableCell>
+                    <TableCell className="text-gray-600">{coordinator.contact || '—'}</TableCell>
+                    <TableCell className="text-gray-600">{coordinator.user_id ? 'Linked' : 'Not linked'}</TableCell>
+                    <TableCell className="text-right">{editButton(coordinator.id)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {tab === 'volunteers' && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {volunteers.map(volunteer => (
+                  <TableRow key={volunteer.id}>
+                    <TableCell className="text-gray-900">{volunteer.name}</TableCell>
+                    <TableCell className="text-right">
+                      {editButton(volunteer.id)}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => confirmDelete('volunteers', volunteer.id, volunteer.name)}
+                      >
+                        Delete
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {tab === 'partners' && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Website</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {partners.map(partner => (
+                  <TableRow key={partner.id}>
+                    <TableCell className="text-gray-900">{partner.name}</TableCell>
+                    <TableCell className="text-gray-600">{partner.contact || '—'}</TableCell>
+                    <TableCell className="text-gray-600">
+                      {partner.url ? (
+                        <a href={partner.url} target="_blank" rel="noopener noreferrer" className="underline">
+                          {partner.url}
+                        </a>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {editButton(partner.id)}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => confirmDelete('partner_organisations', partner.id, partner.name)}
+                      >
+                        Delete
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
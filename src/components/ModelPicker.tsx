@@ -0,0 +1,64 @@
+import { LLM_PROVIDERS, getLLMProvider } from '../lib/llm'
+import { Label } from './ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+
+export interface ModelSelection {
+  providerId: string
+  model: string
+}
+
+interface ModelPickerProps {
+  value: ModelSelection
+  onChange: (value: ModelSelection) => void
+  idPrefix: string
+  disabled?: boolean
+}
+
+export default function ModelPicker({ value, onChange, idPrefix, disabled }: ModelPickerProps) {
+  const provider = getLLMProvider(value.providerId)
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-provider`}>Provider</Label>
+        <Select
+          value={provider.id}
+          disabled={disabled}
+          onValueChange={(providerId) => onChange({ providerId, model: getLLMProvider(providerId).defaultModel })}
+        >
+          <SelectTrigger id={`${idPrefix}-provider`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LLM_PROVIDERS.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-model`}>Model</Label>
+        <Select
+          value={value.model}
+          disabled={disabled}
+          onValueChange={(model) => onChange({ providerId: provider.id, model })}
+        >
+          <SelectTrigger id={`${idPrefix}-model`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {provider.models.map(model => (
+              <SelectItem key={model} value={model}>{model}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  )
+}
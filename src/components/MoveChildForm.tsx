@@ -0,0 +1,95 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { childLabel } from '../lib/childMentions'
+import { invalidateChildQueries } from '../hooks/useChildren'
+import { useAllLearningCentres } from '../hooks/useDirectory'
+import type { Child } from '../types/database'
+import FormField from './FormField'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+
+interface MoveChildFormProps {
+  child: Child
+  onMoved: () => void
+  onCancel: () => void
+}
+
+export default function MoveChildForm({ child, onMoved, onCancel }: MoveChildFormProps) {
+  const queryClient = useQueryClient()
+  const { data: centres = [] } = useAllLearningCentres()
+  const [centreId, setCentreId] = useState('')
+  const [movedOn, setMovedOn] = useState(() => new Date().toISOString().slice(0, 10))
+
+  const moveMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('move_child_to_centre', {
+        p_child_id: child.id,
+        p_learning_centre_id: centreId,
+        p_moved_on: movedOn,
+      })
+      if (error) throw error
+    },
+    onSuccess: () => {
+      invalidateChildQueries(queryClient, child.learning_centre_id)
+      invalidateChildQueries(queryClient, centreId)
+      onMoved()
+    },
+  })
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    if (centreId && movedOn) moveMutation.mutate()
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        <FormField id="move-centre" label="New centre">
+          <Select value={centreId} onValueChange={setCentreId}>
+            <SelectTrigger id="move-centre">
+              <SelectValue placeholder="Choose a centre" />
+            </SelectTrigger>
+            <SelectContent>
+              {centres
+                .filter(centre => centre.id !== child.learning_centre_id)
+                .map(centre => (
+                  <SelectItem key={centre.id} value={centre.id}>
+                    {centre.centre_name} ({centre.district}, {centre.state})
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </FormField>
+        <FormField id="move-date" label="Moved on">
+          <Input id="move-date" type="date" value={movedOn} onChange={(e) => setMovedOn(e.target.value)} />
+        </FormField>
+      </div>
+      <p className="text-xs text-gray-500">
+        {childLabel(child)} keeps their notes and history. Staff at the new centre will see them; staff who only
+        have access to this centre will not.
+      </p>
+      {moveMutation.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {moveMutation.error.message}
+        </div>
+      )}
+      <div className="flex gap-3">
+        <Button type="submit" disabled={!centreId || !movedOn || moveMutation.isPending}>
+          {moveMutation.isPending ? 'Moving...' : 'Move Child'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { emptyToNull, hasErrors, validatePartnerOrganisation } from '../lib/validation'
+import type { PartnerOrganisationDraft, ValidationErrors } from '../lib/validation'
+import { invalidateCentreQueries } from '../hooks/useDirectory'
+import type { PartnerOrganisation } from '../types/database'
+import FormField from './FormField'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+
+interface PartnerOrganisationFormProps {
+  partner?: PartnerOrganisation
+  onSaved: () => void
+  onCancel: () => void
+}
+
+const FIELDS: Array<{ key: keyof PartnerOrganisationDraft; label: string; type?: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'contact', label: 'Contact' },
+  { key: 'url', label: 'Website', type: 'url' },
+  { key: 'logo_url', label: 'Logo URL', type: 'url' },
+]
+
+export default function PartnerOrganisationForm({ partner, onSaved, onCancel }: PartnerOrganisationFormProps) {
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState<PartnerOrganisationDraft>({
+    name: partner?.name ?? '',
+    url: partner?.url ?? '',
+    contact: partner?.contact ?? '',
+    logo_url: partner?.logo_url ?? '',
+  })
+  const [errors, setErrors] = useState<ValidationErrors<PartnerOrganisationDraft>>({})
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: PartnerOrganisationDraft) => {
+      const row = {
+        name: values.name.trim(),
+        url: emptyToNull(values.url),
+        contact: emptyToNull(values.contact),
+        logo_url: emptyToNull(values.logo_url),
+      }
+      const { error } = partner
+        ? await supabase.from('partner_organisations').update(row).eq('id', partner.id)
+        : await supabase.from('partner_organisations').insert(row)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['partnerOrganisations'] })
+      invalidateCentreQueries(queryClient)
+      onSaved()
+    },
+  })
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    const validationErrors = validatePartnerOrganisation(draft)
+    setErrors(validationErrors)
+    if (!hasErrors(validationErrors)) saveMutation.mutate(draft)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        {FIELDS.map(field => (
+          <FormField key={field.key} id={`partner-${field.key}`} label={field.label} error={errors[field.key]}>
+            <Input
+              id={`partner-${field.key}`}
+              type={field.type ?? 'text'}
+              value={draft[field.key]}
+              aria-invalid={!!errors[field.key]}
+              onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+            />
+          </FormField>
+        ))}
+      </div>
+      {saveMutation.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {saveMutation.error.message}
+        </div>
+      )}
+      <div className="flex gap-3">
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving...' : partner ? 'Save Partner' : 'Create Partner'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
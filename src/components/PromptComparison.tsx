@@ -0,0 +1,321 @@
+import { useMemo, useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { DEFAULT_ANALYSIS_TEMPERATURE, DEFAULT_LLM_PROVIDER, getLLMProvider } from '../lib/llm'
+import type { LLMAnalysisRequest } from '../lib/llm'
+import { diffWords } from '../lib/diff'
+import type { PromptComparisonVariant, PromptTemplate } from '../types/database'
+import { Card, CardContent, CardHeader } from './ui/card'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import ModelPicker from './ModelPicker'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+
+const MAX_VARIANTS = 4
+const VARIANT_LABELS = ['A', 'B', 'C', 'D']
+
+interface VariantConfig {
+  promptTemplateId: string
+  prompt: string
+  providerId: string
+  model: string
+  temperature: number
+}
+
+type VariantResult =
+  | { status: 'done'; output: string; config: VariantConfig }
+  | { status: 'error'; error: string; config: VariantConfig }
+
+interface PromptComparisonProps {
+  templates: PromptTemplate[]
+  defaultTemplate?: PromptTemplate
+  defaultPrompt: string
+  centreId: string
+  month: number
+  year: number
+  // Builds the request for a prompt against the currently selected centre-month
+  buildRequest: (promptText: string) => LLMAnalysisRequest
+}
+
+function DiffView({ baseline, text }: { baseline: string; text: string }) {
+  // The diff is quadratic in word count, so only redo it when either text changes
+  const parts = useMemo(() => diffWords(baseline, text), [baseline, text])
+  return (
+    <pre className="whitespace-pre-wrap text-sm text-gray-700 bg-gray-50 p-4 rounded-md">
+      {parts.map((part, idx) => {
+        if (part.type === 'added') {
+          return <ins key={idx} className="bg-green-100 text-green-900 no-underline">{part.text}</ins>
+        }
+        if (part.type === 'removed') {
+          return <del key={idx} className="bg-red-50 text-red-700">{part.text}</del>
+        }
+        return <span key={idx}>{part.text}</span>
+      })}
+    </pre>
+  )
+}
+
+export default function PromptComparison({
+  templates,
+  defaultTemplate,
+  defaultPrompt,
+  centreId,
+  month,
+  year,
+  buildRequest,
+}: PromptComparisonProps) {
+  const queryClient = useQueryClient()
+  const initialVariant: VariantConfig = {
+    promptTemplateId: defaultTemplate?.id ?? '',
+    prompt: defaultPrompt,
+    providerId: DEFAULT_LLM_PROVIDER.id,
+    model: DEFAULT_LLM_PROVIDER.defaultModel,
+    temperature: DEFAULT_ANALYSIS_TEMPERATURE,
+  }
+  const [variants, setVariants] = useState<VariantConfig[]>([initialVariant, { ...initialVariant }])
+  const [results, setResults] = useState<VariantResult[] | null>(null)
+  const [running, setRunning] = useState(false)
+  const [showDiff, setShowDiff] = useState(true)
+  const [preferred, setPreferred] = useState<number | null>(null)
+  const [notes, setNotes] = useState('')
+
+  function updateVariant(index: number, changes: Partial<VariantConfig>) {
+    setVariants(current => current.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)))
+  }
+
+  function selectTemplate(index: number, templateId: string) {
+    const template = templates.find(t => t.id === templateId)
+    if (!template) return
+    updateVariant(index, { promptTemplateId: template.id, prompt: template.body })
+  }
+
+  async function runComparison() {
+    setRunning(true)
+    setResults(null)
+    setPreferred(null)
+    saveMutation.reset()
+
+    const configs = variants.map(variant => ({ ...variant }))
+    const settled = await Promise.allSettled(
+      configs.map(config =>
+        getLLMProvider(config.providerId).generate({
+          ...buildRequest(config.prompt),
+          model: config.model,
+          temperature: config.temperature,
+          rubric: false,
+        })
+      )
+    )
+
+    setResults(settled.map((result, i) =>
+      result.status === 'fulfilled'
+        ? { status: 'done', output: result.value.analysis, config: configs[i] }
+        : {
+            status: 'error',
+            error: result.reason instanceof Error ? result.reason.message : 'Failed to generate analysis',
+            config: configs[i],
+          }
+    ))
+    setRunning(false)
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ runResults, preferredIndex }: { runResults: VariantResult[]; preferredIndex: number }) => {
+      const storedVariants: PromptComparisonVariant[] = runResults.map((result, i) => {
+        const template = templates.find(t => t.id === result.config.promptTemplateId)
+        return {
+          label: VARIANT_LABELS[i],
+          prompt_text: result.config.prompt,
+          // Only credit the template when its text was used unchanged
+          prompt_template_id: template && template.body === result.config.prompt ? template.id : null,
+          provider: result.config.providerId,
+          model: result.config.model,
+          temperature: result.config.temperature,
+          output: result.status === 'done' ? result.output : '',
+        }
+      })
+
+      const { error } = await supabase.from('prompt_comparisons').insert({
+        learning_centre_id: centreId,
+        month,
+        year,
+        variants: storedVariants,
+        preferred_variant: preferredIndex,
+        notes: notes.trim() || null,
+      })
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['promptTemplatePreferences'] })
+    },
+  })
+
+  const baseline = results?.[0]?.status === 'done' ? results[0].output : null
+  const inputClassName =
+    'w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 shadow-sm focus:border-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-200'
+
+  return (
+    <div className="space-y-6">
+      <div className={`grid grid-cols-1 gap-6 ${variants.length > 2 ? 'lg:grid-cols-4 md:grid-cols-2' : 'lg:grid-cols-2'}`}>
+        {variants.map((variant, index) => (
+          <Card key={index}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-medium">Variant {VARIANT_LABELS[index]}</h2>
+                {variants.length > 2 && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={running}
+                    onClick={() => setVariants(current => current.filter((_, i) => i !== index))}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor={`variant-template-${index}`}>Template</Label>
+                <Select value={variant.promptTemplateId} onValueChange={(value) => selectTemplate(index, value)}>
+                  <SelectTrigger id={`variant-template-${index}`}>
+                    <SelectValue placeholder="Built-in default prompt" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name} v{template.version}{template.is_default ? ' (default)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ModelPicker
+                idPrefix={`variant-${index}`}
+                value={{ providerId: variant.providerId, model: variant.model }}
+                onChange={(selection) => updateVariant(index, selection)}
+              />
+              <div className="space-y-2">
+                <Label htmlFor={`variant-temperature-${index}`}>Temperature</Label>
+                <input
+                  id={`variant-temperature-${index}`}
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={variant.temperature}
+                  onChange={(e) => updateVariant(index, { temperature: Number(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+              <Textarea
+                value={variant.prompt}
+                onChange={(e) => updateVariant(index, { prompt: e.target.value })}
+                rows={10}
+                className="font-mono text-xs"
+              />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <Button onClick={runComparison} disabled={running} className="sm:flex-1">
+          {running ? 'Running Variants...' : `Run ${variants.length} Variants`}
+        </Button>
+        {variants.length < MAX_VARIANTS && (
+          <Button
+            variant="outline"
+            disabled={running}
+            onClick={() => setVariants(current => [...current, { ...current[current.length - 1] }])}
+          >
+            Add Variant
+          </Button>
+        )}
+      </div>
+
+      {results && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-medium">Outputs</h2>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input type="checkbox" checked={showDiff} onChange={(e) => setShowDiff(e.target.checked)} />
+                Highlight word differences against variant A
+              </label>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className={`grid grid-cols-1 gap-4 ${results.length > 2 ? 'lg:grid-cols-4 md:grid-cols-2' : 'lg:grid-cols-2'}`}>
+              {results.map((result, index) => (
+                <div key={index} className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-900">Variant {VARIANT_LABELS[index]}</p>
+                    <p className="text-xs text-gray-500">
+                      {result.config.model} · {result.config.temperature}
+                    </p>
+                  </div>
+                  {result.status === 'error' ? (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+                      {result.error}
+                    </div>
+                  ) : showDiff && baseline !== null && index > 0 ? (
+                    <DiffView baseline={baseline} text={result.output} />
+                  ) : (
+                    <pre className="whitespace-pre-wrap text-sm text-gray-700 bg-gray-50 p-4 rounded-md">
+                      {result.output}
+                    </pre>
+                  )}
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="radio"
+                      name="preferredVariant"
+                      disabled={result.status === 'error'}
+                      checked={preferred === index}
+                      onChange={() => setPreferred(index)}
+                    />
+                    Prefer this output
+                  </label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3 border-t border-gray-200 pt-4">
+              <Label htmlFor="comparisonNotes">Why this variant? (optional)</Label>
+              <Textarea
+                id="comparisonNotes"
+                rows={3}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
+              {saveMutation.error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+                  {saveMutation.error.message}
+                </div>
+              )}
+              {saveMutation.isSuccess ? (
+                <p className="text-sm text-gray-600">Preference recorded.</p>
+              ) : (
+                <Button
+                  variant="outline"
+                  disabled={preferred === null || saveMutation.isPending}
+                  onClick={() => preferred !== null && saveMutation.mutate({ runResults: results, preferredIndex: preferred })}
+                >
+                  {saveMutation.isPending ? 'Saving...' : 'Record Preference'}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
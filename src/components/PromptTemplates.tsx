@@ -0,0 +1,331 @@
+import { useMemo, useState } from 'react'
+import type { FormEvent } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { PROMPT_PLACEHOLDERS } from '../lib/prompts'
+import { usePromptTemplates } from '../hooks/usePromptTemplates'
+import { useAuth } from '../hooks/useAuth'
+import { hasRole } from '../lib/auth'
+import type { PromptTemplate, PromptTemplatePreference } from '../types/database'
+import { Card, CardContent, CardHeader } from './ui/card'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Skeleton } from './ui/skeleton'
+
+interface TemplateDraft {
+  name: string
+  body: string
+  changelog: string
+  // Set when the draft is a new version of an existing template
+  baseTemplate: PromptTemplate | null
+}
+
+export default function PromptTemplates() {
+  const queryClient = useQueryClient()
+  const { user, profile } = useAuth()
+  const isAdmin = hasRole(profile, ['admin'])
+  const { data: templates = [], isLoading, error: templatesError } = usePromptTemplates()
+  const [selectedId, setSelectedId] = useState<string>('')
+  const [draft, setDraft] = useState<TemplateDraft | null>(null)
+
+  // Outcomes of playground A/B comparisons, used as evidence when choosing the default
+  const { data: preferences = [] } = useQuery({
+    queryKey: ['promptTemplatePreferences'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('prompt_template_preference_summary')
+        .select('*')
+
+      if (error) throw error
+      return data as PromptTemplatePreference[]
+    },
+  })
+
+  const templatesByName = useMemo(() => {
+    return templates.reduce((acc, template) => {
+      if (!acc[template.name]) {
+        acc[template.name] = []
+      }
+      acc[template.name].push(template)
+      return acc
+    }, {} as Record<string, PromptTemplate[]>)
+  }, [templates])
+
+  const selected =
+    templates.find(t => t.id === selectedId) ??
+    templates.find(t => t.is_default) ??
+    templates[0]
+  const selectedPreference = preferences.find(p => p.prompt_template_id === selected?.id)
+
+  const saveMutation = useMutation({
+    mutationFn: async (templateDraft: TemplateDraft) => {
+      const name = templateDraft.name.trim()
+      const versions = templatesByName[name] ?? []
+      if (!templateDraft.baseTemplate && versions.length > 0) {
+        throw new Error(`A template named "${name}" already exists. Create a new version of it instead.`)
+      }
+
+      const nextVersion = versions.reduce((max, t) => Math.max(max, t.version), 0) + 1
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .insert({
+          name,
+          version: nextVersion,
+          body: templateDraft.body,
+          changelog: templateDraft.changelog.trim() || null,
+          created_by: user?.id ?? null,
+        })
+        .select('*')
+        .single()
+
+      if (error) throw error
+      return data as PromptTemplate
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ['promptTemplates'] })
+      setSelectedId(template.id)
+      setDraft(null)
+    },
+  })
+
+  const defaultMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const { error } = await supabase.rpc('set_default_prompt_template', {
+        p_prompt_template_id: templateId,
+      })
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['promptTemplates'] })
+    },
+  })
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    if (draft) saveMutation.mutate(draft)
+  }
+
+  const inputClassName =
+    'w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm text-gray-900 placeholder:text-gray-400 shadow-sm focus:border-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-200 disabled:bg-gray-50'
+
+  if (isLoading) return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Skeleton className="h-8 w-64 mb-8" />
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-64 w-full lg:col-span-2" />
+      </div>
+    </div>
+  )
+
+  if (templatesError) return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="text-center text-red-600">Error: {templatesError.message}</div>
+    </div>
+  )
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Prompt Templates</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Versioned prompts used by the playground and report generation. Saved versions never change; edits create a new version.
+          </p>
+        </div>
+        {isAdmin && (
+          <Button
+            variant="outline"
+            onClick={() => setDraft({ name: '', body: '', changelog: '', baseTemplate: null })}
+          >
+            New Template
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <h2 className="text-lg font-medium">Templates</h2>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {Object.keys(templatesByName).length === 0 && (
+              <p className="text-sm text-gray-500">No templates saved yet.</p>
+            )}
+            {Object.entries(templatesByName).map(([name, versions]) => (
+              <div key={name}>
+                <p className="text-sm font-medium text-gray-900">{name}</p>
+                <ul className="mt-1 space-y-1">
+                  {versions.map(template => (
+                    <li key={template.id}>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setSelectedId(template.id)
+                          setDraft(null)
+                        }}
+                        className={`w-full rounded-md px-3 py-1.5 text-left text-sm transition-colors hover:bg-gray-50 ${
+                          selected?.id === template.id ? 'bg-gray-100 text-gray-900' : 'text-gray-600'
+                        }`}
+                      >
+                        v{template.version}
+                        {template.is_default && (
+                          <span className="ml-2 rounded bg-gray-900 px-1.5 py-0.5 text-xs text-white">default</span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 space-y-6">
+          {draft ? (
+            <Card>
+              <CardHeader>
+                <h2 className="text-lg font-medium">
+                  {draft.baseTemplate
+                    ? `New version of ${draft.baseTemplate.name}`
+                    : 'New template'}
+                </h2>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="templateName">Name</Label>
+                    <input
+                      id="templateName"
+                      required
+                      value={draft.name}
+                      disabled={!!draft.baseTemplate}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="templateBody">Prompt</Label>
+                    <Textarea
+                      id="templateBody"
+                      required
+                      rows={18}
+                      value={draft.body}
+                      onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                      className="font-mono text-xs"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="templateChangelog">Changelog</Label>
+                    <Textarea
+                      id="templateChangelog"
+                      required={!!draft.baseTemplate}
+                      rows={3}
+                      value={draft.changelog}
+                      onChange={(e) => setDraft({ ...draft, changelog: e.target.value })}
+                      placeholder="What changed and why"
+                    />
+                  </div>
+                  {saveMutation.error && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+                      {saveMutation.error.message}
+                    </div>
+                  )}
+                  <div className="flex gap-3">
+                    <Button type="submit" disabled={saveMutation.isPending}>
+                      {saveMutation.isPending ? 'Saving...' : 'Save Version'}
+                    </Button>
+                    <Button type="button" variant="outline" onClick={() => setDraft(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+          ) : selected ? (
+            <Card>
+              <CardHeader>
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <h2 className="text-lg font-medium">
+                      {selected.name} v{selected.version}
+                    </h2>
+                    <p className="text-xs text-gray-500">
+                      Created {new Date(selected.created_at).toLocaleString()}
+                      {selected.is_default && ' · default template'}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {selectedPreference
+                        ? `Preferred in ${selectedPreference.times_preferred} of ${selectedPreference.times_compared} comparisons`
+                        : 'Not compared in the playground yet'}
+                    </p>
+                  </div>
+                  {isAdmin && (
+                    <div className="flex gap-2">
+                      {!selected.is_default && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={defaultMutation.isPending}
+                          onClick={() => defaultMutation.mutate(selected.id)}
+                        >
+                          Set as Default
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        onClick={() =>
+                          setDraft({
+                            name: selected.name,
+                            body: selected.body,
+                            changelog: '',
+                            baseTemplate: selected,
+                          })
+                        }
+                      >
+                        New Version
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {defaultMutation.error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+                    {defaultMutation.error.message}
+                  </div>
+                )}
+                {selected.changelog && (
+                  <div>
+                    <h3 className="text-xs font-medium uppercase tracking-wide text-gray-500">Changelog</h3>
+                    <p className="mt-1 text-sm text-gray-700 whitespace-pre-wrap">{selected.changelog}</p>
+                  </div>
+                )}
+                <pre className="whitespace-pre-wrap text-xs font-mono text-gray-700 bg-gray-50 p-4 rounded-md">
+                  {selected.body}
+                </pre>
+              </CardContent>
+            </Card>
+          ) : null}
+
+          <Card>
+            <CardHeader>
+              <h2 className="text-lg font-medium">Placeholders</h2>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-1 gap-2 text-sm md:grid-cols-2">
+                {PROMPT_PLACEHOLDERS.map(placeholder => (
+                  <div key={placeholder.token}>
+                    <dt className="font-mono text-xs text-gray-900">{placeholder.token}</dt>
+                    <dd className="text-xs text-gray-500">{placeholder.description}</dd>
+                  </div>
+                ))}
+              </dl>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,280 @@
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../hooks/useAuth'
+import { CHILD_DATA_ROLES, hasRole } from '../lib/auth'
+import { COVERAGE_STATUS_LABELS, coverageCell, coverageMonthKey, lastMonths } from '../lib/coverage'
+import type { CoverageCell, CoverageMonth, CoverageStatus } from '../lib/coverage'
+import type { LearningCentre, ReportCoverageMonth } from '../types/database'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Skeleton } from './ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+
+const ALL = 'all'
+const MONTH_WINDOWS = [6, 12, 24]
+
+const STATUS_CLASSES: Record<CoverageStatus, string> = {
+  analysed: 'bg-emerald-500 hover:bg-emerald-600',
+  reported: 'bg-emerald-200 hover:bg-emerald-300',
+  missing: 'bg-amber-400 hover:bg-amber-500',
+  inactive: 'bg-gray-200',
+  closed: 'bg-white border border-dashed border-gray-200',
+}
+
+function cellTitle(centre: LearningCentre, month: CoverageMonth, cell: CoverageCell) {
+  const activity = `${cell.fieldNotes} notes, ${cell.images} photos`
+  return `${centre.centre_name}, ${month.label}: ${COVERAGE_STATUS_LABELS[cell.status]} (${activity})`
+}
+
+export default function ReportCoverage() {
+  const navigate = useNavigate()
+  const { profile } = useAuth()
+  const canViewChildData = hasRole(profile, CHILD_DATA_ROLES)
+  const isAdmin = hasRole(profile, ['admin'])
+  const [monthCount, setMonthCount] = useState(12)
+  const [stateFilter, setStateFilter] = useState(ALL)
+  const [districtFilter, setDistrictFilter] = useState(ALL)
+  const [partnerFilter, setPartnerFilter] = useState(ALL)
+
+  const months = useMemo(() => lastMonths(monthCount), [monthCount])
+  const fromDate = `${months[0].year}-${String(months[0].month).padStart(2, '0')}-01`
+  const toDate = new Date().toISOString().slice(0, 10)
+
+  const { data: centres = [], isLoading: centresLoading, error: centresError } = useQuery({
+    queryKey: ['coverageCentres'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('learning_centres_with_details')
+        .select('*')
+        .order('state', { ascending: true })
+        .order('district', { ascending: true })
+        .order('centre_name', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as LearningCentre[]
+    },
+  })
+
+  const { data: coverage = [], isLoading: coverageLoading, error: coverageError } = useQuery({
+    queryKey: ['reportCoverage', fromDate, toDate],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('report_coverage', {
+        p_from: fromDate,
+        p_to: toDate,
+      })
+
+      if (error) throw error
+      return (data || []) as ReportCoverageMonth[]
+    },
+  })
+
+  const coverageByCentre = useMemo(() => {
+    const byCentre = new Map<string, Map<string, ReportCoverageMonth>>()
+    coverage.forEach(row => {
+      if (!byCentre.has(row.learning_centre_id)) {
+        byCentre.set(row.learning_centre_id, new Map())
+      }
+      byCentre.get(row.learning_centre_id)?.set(coverageMonthKey(row.year, row.month), row)
+    })
+    return byCentre
+  }, [coverage])
+
+  const states = useMemo(() => Array.from(new Set(centres.map(c => c.state))).sort(), [centres])
+  const districts = useMemo(() => Array.from(new Set(
+    centres.filter(c => stateFilter === ALL || c.state === stateFilter).map(c => c.district)
+  )).sort(), [centres, stateFilter])
+  const partners = useMemo(() => {
+    const byId = new Map<string, string>()
+    centres.forEach(c => c.partner_organisations?.forEach(p => byId.set(p.id, p.name)))
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name))
+  }, [centres])
+
+  const filteredCentres = centres.filter(centre =>
+    (stateFilter === ALL || centre.state === stateFilter) &&
+    (districtFilter === ALL || centre.district === districtFilter) &&
+    (partnerFilter === ALL || centre.partner_organisations?.some(p => p.id === partnerFilter))
+  )
+
+  const rows = filteredCentres.map(centre => ({
+    centre,
+    cells: months.map(month => coverageCell(centre, month, coverageByCentre.get(centre.id)?.get(month.key))),
+  }))
+  const missingCount = rows.reduce(
+    (total, row) => total + row.cells.filter(cell => cell.status === 'missing').length,
+    0
+  )
+
+  function openCell(centre: LearningCentre, month: CoverageMonth, cell: CoverageCell) {
+    const centrePath = `/${encodeURIComponent(centre.state)}/${encodeURIComponent(centre.district)}/centre/${centre.id}`
+    if (cell.reportId) {
+      navigate(`${centrePath}/report/${cell.reportId}`)
+    } else if (canViewChildData && cell.status !== 'closed') {
+      navigate(`${centrePath}/month/${month.year}/${month.month}`)
+    }
+  }
+
+  const error = centresError?.message || coverageError?.message || null
+
+  if (centresLoading || coverageLoading) return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Skeleton className="h-8 w-64 mb-8" />
+      <Skeleton className="h-10 w-full mb-6" />
+      <Skeleton className="h-96 w-full" />
+    </div>
+  )
+
+  if (error) return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="text-center text-red-600">Error: {error}</div>
+    </div>
+  )
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Report Coverage</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Which centres have a report for each month. Amber cells had field notes or photos but no report.
+          </p>
+        </div>
+        {isAdmin && (
+          <Button variant="outline" onClick={() => navigate('/reports/generate')}>
+            Generate Reports
+          </Button>
+        )}
+      </div>
+
+      <div className="mb-6 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-2">
+          <Label htmlFor="coverageState">State</Label>
+          <Select
+            value={stateFilter}
+            onValueChange={(value) => {
+              setStateFilter(value)
+              setDistrictFilter(ALL)
+            }}
+          >
+            <SelectTrigger id="coverageState">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All states</SelectItem>
+              {states.map(state => (
+                <SelectItem key={state} value={state}>{state}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="coverageDistrict">District</Label>
+          <Select value={districtFilter} onValueChange={setDistrictFilter}>
+            <SelectTrigger id="coverageDistrict">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All districts</SelectItem>
+              {districts.map(district => (
+                <SelectItem key={district} value={district}>{district}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="coveragePartner">Partner organisation</Label>
+          <Select value={partnerFilter} onValueChange={setPartnerFilter}>
+            <SelectTrigger id="coveragePartner">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All partners</SelectItem>
+              {partners.map(partner => (
+                <SelectItem key={partner.id} value={partner.id}>{partner.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="coverageMonths">Months</Label>
+          <Select value={String(monthCount)} onValueChange={(value) => setMonthCount(Number(value))}>
+            <SelectTrigger id="coverageMonths">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTH_WINDOWS.map(count => (
+                <SelectItem key={count} value={String(count)}>Last {count} months</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-x-5 gap-y-2 text-xs text-gray-600">
+        {(Object.keys(COVERAGE_STATUS_LABELS) as CoverageStatus[]).map(status => (
+          <span key={status} className="flex items-center gap-1.5">
+            <span className={`inline-block h-3 w-3 rounded-sm ${STATUS_CLASSES[status]}`} />
+            {COVERAGE_STATUS_LABELS[status]}
+          </span>
+        ))}
+        <span className="ml-auto text-gray-500">
+          {rows.length} centre{rows.length === 1 ? '' : 's'} · {missingCount} missing report{missingCount === 1 ? '' : 's'}
+        </span>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-8 text-center text-gray-500">
+          No learning centres match these filters.
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-gray-200 bg-white">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="sticky left-0 bg-white px-4 py-2 text-left font-medium text-gray-700">Centre</th>
+                {months.map(month => (
+                  <th key={month.key} className="px-1 py-2 text-center text-xs font-normal text-gray-500 whitespace-nowrap">
+                    {month.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ centre, cells }) => (
+                <tr key={centre.id} className="border-b border-gray-100 last:border-0">
+                  <td className="sticky left-0 bg-white px-4 py-1.5 whitespace-nowrap">
+                    <div className="text-gray-900">{centre.centre_name}</div>
+                    <div className="text-xs text-gray-500">{centre.district}, {centre.state}</div>
+                  </td>
+                  {cells.map((cell, index) => {
+                    const month = months[index]
+                    const clickable = !!cell.reportId || (canViewChildData && cell.status !== 'closed')
+                    return (
+                      <td key={month.key} className="px-1 py-1.5 text-center">
+                        <button
+                          type="button"
+                          disabled={!clickable}
+                          title={cellTitle(centre, month, cell)}
+                          aria-label={cellTitle(centre, month, cell)}
+                          onClick={() => openCell(centre, month, cell)}
+                          className={`h-6 w-full min-w-6 rounded-sm transition-colors disabled:cursor-default ${STATUS_CLASSES[cell.status]}`}
+                        />
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,15 +3,22 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { ChevronDown } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import type { GeneratedReport, FieldImage, FieldNote } from '../types/database';
+import type { GeneratedReport, ReportLLMAnalysis } from '../types/database';
 import { Button } from './ui/button';
 import { Skeleton } from './ui/skeleton';
-
-interface ReportLLMAnalysis {
-  id: string;
-  text: string;
-  created_at: string;
-}
+import { useAuth } from '../hooks/useAuth';
+import { useCentreMonthFieldNotes, useCentreMonthImages } from '../hooks/useCentreMonthData';
+import { useCentreChildren } from '../hooks/useChildren';
+import { usePhotoConsent } from '../hooks/useChildConsents';
+import { CHILD_DATA_ROLES, hasRole } from '../lib/auth';
+import { parseRubric } from '../lib/llm';
+import RubricBadges from './RubricBadges';
+import ImageChildTags from './ImageChildTags';
+import ConsentPhoto from './ConsentPhoto';
+import AnalysisReview from './AnalysisReview';
+import CommentThread from './CommentThread';
+import { REVIEW_STATUS_LABELS } from '../hooks/useAnalysisReviews';
+import { findThreadStatus, useCommentThreads } from '../hooks/useComments';
 
 type SectionKey = 'summary' | 'images' | 'analysis' | 'notes';
 
@@ -23,12 +30,15 @@ export default function ReportDetail() {
     district: string;
   }>();
   const navigate = useNavigate();
+  const { profile } = useAuth();
+  const canViewChildData = hasRole(profile, CHILD_DATA_ROLES);
   const [openSections, setOpenSections] = useState<Record<SectionKey, boolean>>({
     summary: true,
     images: true,
     notes: false,
     analysis: true,
   });
+  const [editingAnalysis, setEditingAnalysis] = useState(false);
 
   const toggleSection = (section: SectionKey) => {
     setOpenSections((prev) => ({
@@ -53,101 +63,30 @@ export default function ReportDetail() {
     enabled: !!reportId,
   })
 
-  // Calculate period dates from report
   const reportYear = report ? Number(report.year) : 0;
   const reportMonth = report ? Number(report.month) : 0;
-  const periodStart = report ? new Date(Date.UTC(reportYear, reportMonth - 1, 1)) : null;
-  const periodEnd = report ? new Date(Date.UTC(reportYear, reportMonth, 1)) : null;
-  const periodStartIso = periodStart?.toISOString() ?? '';
-  const periodEndIso = periodEnd?.toISOString() ?? '';
-
-  // Fetch images
-  const { data: images = [], isLoading: imagesLoading } = useQuery({
-    queryKey: ['reportImages', report?.learning_centre_id, periodStartIso, periodEndIso],
-    queryFn: async () => {
-      if (!report) return [];
-
-      const [imagesPrimaryResult, imagesFallbackResult] = await Promise.all([
-        supabase
-          .from('field_images')
-          .select('*')
-          .eq('learning_centre_id', report.learning_centre_id)
-          .not('sent_at', 'is', null)
-          .gte('sent_at', periodStartIso)
-          .lt('sent_at', periodEndIso),
-        supabase
-          .from('field_images')
-          .select('*')
-          .eq('learning_centre_id', report.learning_centre_id)
-          .is('sent_at', null)
-          .gte('created_at', periodStartIso)
-          .lt('created_at', periodEndIso),
-      ]);
-
-      if (imagesPrimaryResult.error) throw imagesPrimaryResult.error;
-      if (imagesFallbackResult.error) throw imagesFallbackResult.error;
-
-      const uniqueImages = new Map<string, FieldImage>();
-      [...(imagesPrimaryResult.data ?? []), ...(imagesFallbackResult.data ?? [])].forEach((image) => {
-        uniqueImages.set(image.id, image);
-      });
-      const sortedImages = Array.from(uniqueImages.values()).sort((a, b) => {
-        const aDate = a.sent_at ?? a.created_at;
-        const bDate = b.sent_at ?? b.created_at;
-        if (!aDate && !bDate) return 0;
-        if (!aDate) return 1;
-        if (!bDate) return -1;
-        return new Date(aDate).getTime() - new Date(bDate).getTime();
-      });
 
-      return sortedImages as FieldImage[]
-    },
-    enabled: !!report && !!periodStartIso && !!periodEndIso,
-  })
-
-  // Fetch field notes
-  const { data: fieldNotes = [], isLoading: notesLoading } = useQuery({
-    queryKey: ['reportFieldNotes', report?.learning_centre_id, periodStartIso, periodEndIso],
-    queryFn: async () => {
-      if (!report) return [];
-
-      const [notesPrimaryResult, notesFallbackResult] = await Promise.all([
-        supabase
-          .from('field_notes')
-          .select('*')
-          .eq('learning_centre_id', report.learning_centre_id)
-          .not('sent_at', 'is', null)
-          .gte('sent_at', periodStartIso)
-          .lt('sent_at', periodEndIso),
-        supabase
-          .from('field_notes')
-          .select('*')
-          .eq('learning_centre_id', report.learning_centre_id)
-          .is('sent_at', null)
-          .gte('created_at', periodStartIso)
-          .lt('created_at', periodEndIso),
-      ]);
-
-      if (notesPrimaryResult.error) throw notesPrimaryResult.error;
-      if (notesFallbackResult.error) throw notesFallbackResult.error;
+  const { data: images = [], isLoading: imagesLoading } = useCentreMonthImages(
+    report?.learning_centre_id,
+    reportYear,
+    reportMonth,
+    canViewChildData,
+  );
 
-      const uniqueNotes = new Map<string, FieldNote>();
-      [...(notesPrimaryResult.data ?? []), ...(notesFallbackResult.data ?? [])].forEach((note) => {
-        uniqueNotes.set(note.id, note);
-      });
-      const sortedNotes = Array.from(uniqueNotes.values()).sort((a, b) => {
-        const aDate = a.sent_at ?? a.created_at;
-        const bDate = b.sent_at ?? b.created_at;
-        if (!aDate && !bDate) return 0;
-        if (!aDate) return 1;
-        if (!bDate) return -1;
-        return new Date(aDate).getTime() - new Date(bDate).getTime();
-      });
+  const { links: imageLinks, consents, isPhotoVisible } = usePhotoConsent(
+    images.map((image) => image.id),
+    canViewChildData,
+  );
+  const { data: centreChildren = [] } = useCentreChildren(
+    canViewChildData ? report?.learning_centre_id : undefined,
+  );
 
-      return sortedNotes as FieldNote[]
-    },
-    enabled: !!report && !!periodStartIso && !!periodEndIso,
-  })
+  const { data: fieldNotes = [], isLoading: notesLoading } = useCentreMonthFieldNotes(
+    report?.learning_centre_id,
+    reportYear,
+    reportMonth,
+    canViewChildData,
+  );
 
   // Fetch LLM analysis if available
   const { data: llmAnalysis = null, isLoading: analysisLoading } = useQuery({
@@ -159,7 +98,8 @@ export default function ReportDetail() {
         .eq('generated_report_id', reportId)
         .single();
 
-      if (analysisError && analysisError.code !== 'PGRST116') { // PGRST116 = no rows found
+      // PGRST116 = no rows found, which for partner viewers also means not approved yet
+      if (analysisError && analysisError.code !== 'PGRST116') {
         throw analysisError;
       }
       return analysisData as ReportLLMAnalysis | null
@@ -167,7 +107,12 @@ export default function ReportDetail() {
     enabled: !!reportId && !!report?.has_llm_analysis,
   })
 
+  const { data: commentThreads = [] } = useCommentThreads(
+    canViewChildData && report ? [report.learning_centre_id] : [],
+  );
+
   const imageCount = images.length;
+  const rubric = parseRubric(llmAnalysis?.rubric);
   const fieldNoteCount = fieldNotes.length;
   const loading = reportLoading
   const error = reportError?.message || null;
@@ -245,25 +190,33 @@ export default function ReportDetail() {
         {openSections.summary && (
           <div className="space-y-6 border-t border-gray-100 p-5">
             <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
-              <div className="rounded-md border border-gray-200 bg-gray-50 px-4 py-3 text-center">
-                {imagesLoading ? (
-                  <Skeleton className="h-7 w-8 mx-auto" />
-                ) : (
-                  <div className="text-lg text-gray-900">{imageCount}</div>
-                )}
-                <div className="text-xs uppercase tracking-wide text-gray-500">Images</div>
-              </div>
-              <div className="rounded-md border border-gray-200 bg-gray-50 px-4 py-3 text-center">
-                {notesLoading ? (
-                  <Skeleton className="h-7 w-8 mx-auto" />
-                ) : (
-                  <div className="text-lg text-gray-900">{fieldNoteCount}</div>
-                )}
-                <div className="text-xs uppercase tracking-wide text-gray-500">Field Notes</div>
-              </div>
+              {canViewChildData && (
+                <>
+                  <div className="rounded-md border border-gray-200 bg-gray-50 px-4 py-3 text-center">
+                    {imagesLoading ? (
+                      <Skeleton className="h-7 w-8 mx-auto" />
+                    ) : (
+                      <div className="text-lg text-gray-900">{imageCount}</div>
+                    )}
+                    <div className="text-xs uppercase tracking-wide text-gray-500">Images</div>
+                  </div>
+                  <div className="rounded-md border border-gray-200 bg-gray-50 px-4 py-3 text-center">
+                    {notesLoading ? (
+                      <Skeleton className="h-7 w-8 mx-auto" />
+                    ) : (
+                      <div className="text-lg text-gray-900">{fieldNoteCount}</div>
+                    )}
+                    <div className="text-xs uppercase tracking-wide text-gray-500">Field Notes</div>
+                  </div>
+                </>
+              )}
               <div className="rounded-md border border-gray-200 bg-gray-50 px-4 py-3 text-center">
                 <div className="text-lg text-gray-900">
-                  {report.has_llm_analysis ? 'Yes' : 'No'}
+                  {!report.has_llm_analysis
+                    ? 'No'
+                    : llmAnalysis
+                      ? REVIEW_STATUS_LABELS[llmAnalysis.review_status]
+                      : analysisLoading ? 'Yes' : 'Awaiting review'}
                 </div>
                 <div className="text-xs uppercase tracking-wide text-gray-500">LLM Analysis</div>
               </div>
@@ -291,57 +244,72 @@ export default function ReportDetail() {
       </section>
 
       {/* Images Section */}
-      <section className="mb-6 rounded-lg bg-white shadow-sm">
-        <button
-          type="button"
-          onClick={() => toggleSection('images')}
-          aria-expanded={openSections.images}
-          className="flex w-full items-center justify-between px-5 py-4 text-left hover:bg-gray-50 focus:outline-none"
-        >
-          <div>
-            <span className="block text-base font-medium text-gray-900">Images</span>
-            {imagesLoading ? (
-              <Skeleton className="h-4 w-16 mt-1" />
-            ) : (
-              <span className="block text-xs text-gray-500">
-                {images.length} {images.length === 1 ? 'image' : 'images'}
-              </span>
-            )}
-          </div>
-          <ChevronDown
-            className={`h-4 w-4 text-gray-500 transition-transform ${openSections.images ? 'rotate-180' : ''}`}
-            aria-hidden="true"
-          />
-        </button>
-        {openSections.images && (
-          <div className="border-t border-gray-100 p-5">
-            {imagesLoading ? (
-              <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {[...Array(6)].map((_, i) => (
-                  <div key={i} className="h-48 w-full bg-gray-200 rounded-lg animate-pulse" />
-                ))}
-              </div>
-            ) : images.length > 0 ? (
-              <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {images.map((image) => (
-                  <div key={image.id} className="overflow-hidden rounded-lg bg-gray-100">
-                    <img
-                      src={image.photo_url}
-                      alt="Report image"
-                      className="h-48 w-full object-cover"
-                      loading="lazy"
-                    />
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <div className="text-center py-8 text-gray-400 text-sm">
-                No images available for this report
-              </div>
-            )}
-          </div>
-        )}
-      </section>
+      {canViewChildData && (
+        <section className="mb-6 rounded-lg bg-white shadow-sm">
+          <button
+            type="button"
+            onClick={() => toggleSection('images')}
+            aria-expanded={openSections.images}
+            className="flex w-full items-center justify-between px-5 py-4 text-left hover:bg-gray-50 focus:outline-none"
+          >
+            <div>
+              <span className="block text-base font-medium text-gray-900">Images</span>
+              {imagesLoading ? (
+                <Skeleton className="h-4 w-16 mt-1" />
+              ) : (
+                <span className="block text-xs text-gray-500">
+                  {images.length} {images.length === 1 ? 'image' : 'images'}
+                </span>
+              )}
+            </div>
+            <ChevronDown
+              className={`h-4 w-4 text-gray-500 transition-transform ${openSections.images ? 'rotate-180' : ''}`}
+              aria-hidden="true"
+            />
+          </button>
+          {openSections.images && (
+            <div className="border-t border-gray-100 p-5">
+              {imagesLoading ? (
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {[...Array(6)].map((_, i) => (
+                    <div key={i} className="h-48 w-full bg-gray-200 rounded-lg animate-pulse" />
+                  ))}
+                </div>
+              ) : images.length > 0 ? (
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {images.map((image) => (
+                    <div key={image.id} className="overflow-hidden rounded-lg bg-gray-100">
+                      <ConsentPhoto
+                        src={image.photo_url}
+                        alt="Report image"
+                        visible={isPhotoVisible(image.id)}
+                        className="h-48 w-full object-cover"
+                      />
+                      <ImageChildTags
+                        imageId={image.id}
+                        links={imageLinks.filter((link) => link.field_image_id === image.id)}
+                        centreChildren={centreChildren}
+                        consents={consents}
+                      />
+                      <div className="px-3 pb-3">
+                        <CommentThread
+                          target={{ type: 'field_image', id: image.id }}
+                          centreId={report.learning_centre_id}
+                          status={findThreadStatus(commentThreads, { type: 'field_image', id: image.id })}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-8 text-gray-400 text-sm">
+                  No images available for this report
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+      )}
 
       {/* LLM Analysis Section */}
       {report.has_llm_analysis && (
@@ -372,14 +340,49 @@ export default function ReportDetail() {
                 </div>
               ) : llmAnalysis ? (
                 <div className="rounded-md bg-gray-50 p-5">
-                  <p className="text-sm text-gray-900 whitespace-pre-wrap">{llmAnalysis.text}</p>
+                  {rubric && (
+                    <div className="mb-4">
+                      <RubricBadges rubric={rubric} />
+                    </div>
+                  )}
+                  {canViewChildData && (
+                    <AnalysisReview
+                      key={llmAnalysis.id}
+                      reportId={report.id}
+                      analysis={llmAnalysis}
+                      editing={editingAnalysis}
+                      onEditingChange={setEditingAnalysis}
+                    />
+                  )}
+                  {!editingAnalysis && (
+                    <p className="text-sm text-gray-900 whitespace-pre-wrap">{llmAnalysis.text}</p>
+                  )}
                   <div className="mt-4 text-xs text-gray-500">
                     Generated {new Date(llmAnalysis.created_at).toLocaleString()}
+                    {llmAnalysis.model && ` · ${llmAnalysis.model}`}
+                    {llmAnalysis.temperature != null && ` · temperature ${llmAnalysis.temperature}`}
+                    {llmAnalysis.images_count != null && (imagesLoading
+                      ? ` · ${llmAnalysis.images_count} images analysed`
+                      : ` · ${llmAnalysis.images_count} of ${imageCount} images analysed`)}
                   </div>
+                  {!imagesLoading && llmAnalysis.images_count != null && llmAnalysis.images_count < imageCount && (
+                    <p className="mt-1 text-xs text-amber-700">
+                      {imageCount - llmAnalysis.images_count} of this month's photos did not reach the model: photos without
+                      consent are left out, and reports analysed before every photo was included covered at most 60.
+                    </p>
+                  )}
+                  {llmAnalysis.prompt_text && (
+                    <details className="mt-3 text-xs text-gray-500">
+                      <summary className="cursor-pointer hover:text-gray-700">Prompt used</summary>
+                      <pre className="mt-2 whitespace-pre-wrap rounded-md bg-white p-3 text-gray-600">
+                        {llmAnalysis.prompt_text}
+                      </pre>
+                    </details>
+                  )}
                 </div>
               ) : (
                 <div className="text-center py-8 text-gray-400 text-sm">
-                  No LLM analysis available
+                  {canViewChildData ? 'No LLM analysis available' : 'The analysis for this report has not been approved yet'}
                 </div>
               )}
             </div>
@@ -388,67 +391,88 @@ export default function ReportDetail() {
       )}
 
       {/* Field Notes Section */}
-      <section className="mt-6 rounded-lg bg-white shadow-sm">
-        <button
-          type="button"
-          onClick={() => toggleSection('notes')}
-          aria-expanded={openSections.notes}
-          className="flex w-full items-center justify-between px-5 py-4 text-left hover:bg-gray-50 focus:outline-none"
-        >
-          <div>
-            <span className="block text-base font-medium text-gray-900">Field Notes</span>
-            {notesLoading ? (
-              <Skeleton className="h-4 w-16 mt-1" />
-            ) : (
-              <span className="block text-xs text-gray-500">
-                {fieldNotes.length} {fieldNotes.length === 1 ? 'note' : 'notes'}
-              </span>
-            )}
-          </div>
-          <ChevronDown
-            className={`h-4 w-4 text-gray-500 transition-transform ${openSections.notes ? 'rotate-180' : ''}`}
-            aria-hidden="true"
-          />
-        </button>
-        {openSections.notes && (
-          <div className="space-y-4 border-t border-gray-100 p-5">
-            {notesLoading ? (
-              <>
-                {[...Array(3)].map((_, i) => (
-                  <div key={i} className="rounded-lg border border-gray-100 bg-gray-50/70 p-4 shadow-sm">
-                    <div className="h-3 bg-gray-200 rounded w-1/4 mb-2 animate-pulse" />
-                    <div className="h-4 bg-gray-200 rounded w-full animate-pulse" />
-                    <div className="h-4 bg-gray-200 rounded w-5/6 mt-1 animate-pulse" />
-                  </div>
-                ))}
-              </>
-            ) : fieldNotes.length > 0 ? (
-              fieldNotes.map((note) => {
-                const displayDate = note.sent_at ?? note.created_at;
-                return (
-                  <article
-                    key={note.id}
-                    className="rounded-lg border border-gray-100 bg-gray-50/70 p-4 shadow-sm"
-                  >
-                    {displayDate && (
-                      <p className="text-xs uppercase tracking-wide text-gray-500">
-                        {new Date(displayDate).toLocaleString()}
+      {canViewChildData && (
+        <section className="mt-6 rounded-lg bg-white shadow-sm">
+          <button
+            type="button"
+            onClick={() => toggleSection('notes')}
+            aria-expanded={openSections.notes}
+            className="flex w-full items-center justify-between px-5 py-4 text-left hover:bg-gray-50 focus:outline-none"
+          >
+            <div>
+              <span className="block text-base font-medium text-gray-900">Field Notes</span>
+              {notesLoading ? (
+                <Skeleton className="h-4 w-16 mt-1" />
+              ) : (
+                <span className="block text-xs text-gray-500">
+                  {fieldNotes.length} {fieldNotes.length === 1 ? 'note' : 'notes'}
+                </span>
+              )}
+            </div>
+            <ChevronDown
+              className={`h-4 w-4 text-gray-500 transition-transform ${openSections.notes ? 'rotate-180' : ''}`}
+              aria-hidden="true"
+            />
+          </button>
+          {openSections.notes && (
+            <div className="space-y-4 border-t border-gray-100 p-5">
+              {notesLoading ? (
+                <>
+                  {[...Array(3)].map((_, i) => (
+                    <div key={i} className="rounded-lg border border-gray-100 bg-gray-50/70 p-4 shadow-sm">
+                      <div className="h-3 bg-gray-200 rounded w-1/4 mb-2 animate-pulse" />
+                      <div className="h-4 bg-gray-200 rounded w-full animate-pulse" />
+                      <div className="h-4 bg-gray-200 rounded w-5/6 mt-1 animate-pulse" />
+                    </div>
+                  ))}
+                </>
+              ) : fieldNotes.length > 0 ? (
+                fieldNotes.map((note) => {
+                  const displayDate = note.sent_at ?? note.created_at;
+                  return (
+                    <article
+                      key={note.id}
+                      className="rounded-lg border border-gray-100 bg-gray-50/70 p-4 shadow-sm"
+                    >
+                      {displayDate && (
+                        <p className="text-xs uppercase tracking-wide text-gray-500">
+                          {new Date(displayDate).toLocaleString()}
+                        </p>
+                      )}
+                      <p className="mt-2 text-sm text-gray-800 whitespace-pre-wrap">
+                        {note.text}
                       </p>
-                    )}
-                    <p className="mt-2 text-sm text-gray-800 whitespace-pre-wrap">
-                      {note.text}
-                    </p>
-                  </article>
-                );
-              })
-            ) : (
-              <div className="text-center py-8 text-gray-400 text-sm">
-                No field notes available for this report
-              </div>
-            )}
-          </div>
-        )}
-      </section>
+                      <CommentThread
+                        target={{ type: 'field_note', id: note.id }}
+                        centreId={report.learning_centre_id}
+                        status={findThreadStatus(commentThreads, { type: 'field_note', id: note.id })}
+                      />
+                    </article>
+                  );
+                })
+              ) : (
+                <div className="text-center py-8 text-gray-400 text-sm">
+                  No field notes available for this report
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+      )}
+
+      {/* Discussion */}
+      {canViewChildData && (
+        <section className="mt-6 rounded-lg bg-white p-5 shadow-sm">
+          <span className="block text-base font-medium text-gray-900">Discussion</span>
+          <span className="block text-xs text-gray-500">Comments on this report, visible to staff only</span>
+          <CommentThread
+            target={{ type: 'generated_report', id: report.id }}
+            centreId={report.learning_centre_id}
+            status={findThreadStatus(commentThreads, { type: 'generated_report', id: report.id })}
+            defaultOpen
+          />
+        </section>
+      )}
     </div>
   );
 }
@@ -0,0 +1,35 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom'
+import { useAuth } from '../hooks/useAuth'
+import { hasRole } from '../lib/auth'
+import type { UserRole } from '../types/database'
+import { Skeleton } from './ui/skeleton'
+
+interface RequireAuthProps {
+  roles?: UserRole[]
+}
+
+export default function RequireAuth({ roles }: RequireAuthProps) {
+  const { session, profile, loading } = useAuth()
+  const location = useLocation()
+
+  if (loading) return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Skeleton className="h-8 w-64 mb-6" />
+      <Skeleton className="h-4 w-96" />
+    </div>
+  )
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location }} />
+  }
+
+  if (roles && !hasRole(profile, roles)) return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="rounded-lg border border-gray-200 bg-gray-50 px-4 py-8 text-center text-sm text-gray-600">
+        Your account does not have access to this page.
+      </div>
+    </div>
+  )
+
+  return <Outlet />
+}
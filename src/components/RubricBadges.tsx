@@ -0,0 +1,41 @@
+import { RUBRIC_DIMENSIONS } from '../lib/llm'
+import type { Rubric } from '../lib/llm'
+
+function scoreClassName(score: number | null): string {
+  if (score === null) return 'border-gray-200 bg-gray-50 text-gray-500'
+  if (score >= 4) return 'border-green-200 bg-green-50 text-green-800'
+  if (score === 3) return 'border-amber-200 bg-amber-50 text-amber-800'
+  return 'border-red-200 bg-red-50 text-red-800'
+}
+
+export default function RubricBadges({ rubric }: { rubric: Rubric }) {
+  return (
+    <div className="space-y-2">
+      <ul className="flex flex-wrap gap-2">
+        {RUBRIC_DIMENSIONS.map(dimension => {
+          const { score, evidence } = rubric[dimension.key]
+          return (
+            <li
+              key={dimension.key}
+              title={evidence}
+              className={`rounded-full border px-2.5 py-0.5 text-xs font-medium ${scoreClassName(score)}`}
+            >
+              {dimension.label} · {score === null ? 'no evidence' : `${score}/5`}
+            </li>
+          )
+        })}
+      </ul>
+      <details className="text-xs text-gray-500">
+        <summary className="cursor-pointer hover:text-gray-700">Rubric evidence</summary>
+        <dl className="mt-2 space-y-1">
+          {RUBRIC_DIMENSIONS.map(dimension => (
+            <div key={dimension.key}>
+              <dt className="inline font-medium text-gray-700">{dimension.label}: </dt>
+              <dd className="inline text-gray-600">{rubric[dimension.key].evidence}</dd>
+            </div>
+          ))}
+        </dl>
+      </details>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+// Small dependency-free SVG charts for monthly trends. Both take one label per
+// month and any number of series aligned with those labels.
+
+export interface ChartSeries {
+  key: string
+  label: string
+  color: string
+  values: Array<number | null>
+}
+
+interface ChartProps {
+  labels: string[]
+  series: ChartSeries[]
+  height?: number
+}
+
+const MONTH_WIDTH = 36
+const PADDING = { top: 12, right: 12, bottom: 28, left: 36 }
+
+function chartWidth(monthCount: number): number {
+  return Math.max(monthCount * MONTH_WIDTH, 320) + PADDING.left + PADDING.right
+}
+
+// Roughly one axis label per 60px so they never overlap
+function labelStep(monthCount: number, plotWidth: number): number {
+  return Math.max(1, Math.ceil(monthCount / Math.max(1, Math.floor(plotWidth / 60))))
+}
+
+function Legend({ series }: { series: ChartSeries[] }) {
+  return (
+    <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+      {series.map(s => (
+        <li key={s.key} className="flex items-center gap-1.5">
+          <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: s.color }} />
+          {s.label}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function XAxis({ labels, x, y, step }: { labels: string[]; x: (i: number) => number; y: number; step: number }) {
+  return (
+    <>
+      {labels.map((label, i) => (i % step === 0 || i === labels.length - 1) && (
+        <text key={label} x={x(i)} y={y + 16} textAnchor="middle" className="fill-gray-500 text-[10px]">
+          {label}
+        </text>
+      ))}
+    </>
+  )
+}
+
+export function BarChart({ labels, series, height = 180 }: ChartProps) {
+  const width = chartWidth(labels.length)
+  const plotWidth = width - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+  const max = Math.max(1, ...series.flatMap(s => s.values.map(v => v ?? 0)))
+  const slot = plotWidth / Math.max(labels.length, 1)
+  const barWidth = Math.max(2, (slot * 0.7) / Math.max(series.length, 1))
+  const x = (i: number) => PADDING.left + slot * i + slot / 2
+  const y = (value: number) => PADDING.top + plotHeight - (value / max) * plotHeight
+  const ticks = [0, Math.round(max / 2), max]
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <svg width={width} height={height} role="img">
+          {ticks.map(tick => (
+            <g key={tick}>
+              <line x1={PADDING.left} x2={width - PADDING.right} y1={y(tick)} y2={y(tick)} className="stroke-gray-100" />
+              <text x={PADDING.left - 6} y={y(tick) + 3} textAnchor="end" className="fill-gray-400 text-[10px]">
+                {tick}
+              </text>
+            </g>
+          ))}
+          {labels.map((label, i) => series.map((s, si) => {
+            const value = s.values[i] ?? 0
+            return (
+              <rect
+                key={`${label}-${s.key}`}
+                x={x(i) - (barWidth * series.length) / 2 + barWidth * si}
+                y={y(value)}
+                width={barWidth}
+                height={PADDING.top + plotHeight - y(value)}
+                fill={s.color}
+              >
+                <title>{`${label} · ${s.label}: ${value}`}</title>
+              </rect>
+            )
+          }))}
+          <XAxis labels={labels} x={x} y={PADDING.top + plotHeight} step={labelStep(labels.length, plotWidth)} />
+        </svg>
+      </div>
+      <Legend series={series} />
+    </div>
+  )
+}
+
+// Line per series over a fixed value range; null values break the line
+export function LineChart({ labels, series, height = 200, min, max }: ChartProps & { min: number; max: number }) {
+  const width = chartWidth(labels.length)
+  const plotWidth = width - PADDING.left - PADDING.right
+  const plotHeight = height - PADDING.top - PADDING.bottom
+  const slot = plotWidth / Math.max(labels.length, 1)
+  const x = (i: number) => PADDING.left + slot * i + slot / 2
+  const y = (value: number) => PADDING.top + plotHeight - ((value - min) / (max - min)) * plotHeight
+  const ticks = Array.from({ length: max - min + 1 }, (_, i) => min + i)
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <svg width={width} height={height} role="img">
+          {ticks.map(tick => (
+            <g key={tick}>
+              <line x1={PADDING.left} x2={width - PADDING.right} y1={y(tick)} y2={y(tick)} className="stroke-gray-100" />
+              <text x={PADDING.left - 6} y={y(tick) + 3} textAnchor="end" className="fill-gray-400 text-[10px]">
+                {tick}
+              </text>
+            </g>
+          ))}
+          {series.map(s => {
+            // Split into runs of consecutive values so missing months leave a gap
+            const segments: Array<Array<[number, number]>> = [[]]
+            s.values.forEach((value, i) => {
+              if (value === null) {
+                segments.push([])
+              } else {
+                segments[segments.length - 1].push([x(i), y(value)])
+              }
+            })
+            return (
+              <g key={s.key}>
+                {segments.filter(points => points.length > 1).map((points, i) => (
+                  <polyline
+                    key={i}
+                    points={points.map(([px, py]) => `${px},${py}`).join(' ')}
+                    fill="none"
+                    stroke={s.color}
+                    strokeWidth={2}
+                  />
+                ))}
+                {s.values.map((value, i) => value !== null && (
+                  <circle key={i} cx={x(i)} cy={y(value)} r={3} fill={s.color}>
+                    <title>{`${labels[i]} · ${s.label}: ${value.toFixed(1)}`}</title>
+                  </circle>
+                ))}
+              </g>
+            )
+          })}
+          <XAxis labels={labels} x={x} y={PADDING.top + plotHeight} step={labelStep(labels.length, plotWidth)} />
+        </svg>
+      </div>
+      <Legend series={series} />
+    </div>
+  )
+}
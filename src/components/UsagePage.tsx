@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import type { LLMUsageSummary } from '../types/database'
+import { Card, CardContent, CardHeader } from './ui/card'
+import { Label } from './ui/label'
+import { Skeleton } from './ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+
+const ALL_CYCLES = 'all'
+
+interface UsageTotals {
+  key: string
+  label: string
+  runs: number
+  failedRuns: number
+  promptTokens: number
+  completionTokens: number
+  imagesCount: number
+  costUsd: number
+  // Some runs used models without a price, so the cost is a lower bound
+  hasUnpricedRuns: boolean
+}
+
+function cycleLabel(year: number, month: number): string {
+  return new Date(year, month - 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+}
+
+function groupUsage(
+  rows: LLMUsageSummary[],
+  keyOf: (row: LLMUsageSummary) => string,
+  labelOf: (row: LLMUsageSummary) => string
+): UsageTotals[] {
+  const groups = new Map<string, UsageTotals>()
+  rows.forEach(row => {
+    const key = keyOf(row)
+    const totals = groups.get(key) ?? {
+      key,
+      label: labelOf(row),
+      runs: 0,
+      failedRuns: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      imagesCount: 0,
+      costUsd: 0,
+      hasUnpricedRuns: false,
+    }
+    totals.runs += Number(row.runs)
+    totals.failedRuns += Number(row.failed_runs)
+    totals.promptTokens += Number(row.prompt_tokens)
+    totals.completionTokens += Number(row.completion_tokens)
+    totals.imagesCount += Number(row.images_count)
+    if (row.estimated_cost_usd == null) {
+      totals.hasUnpricedRuns = true
+    } else {
+      totals.costUsd += Number(row.estimated_cost_usd)
+    }
+    groups.set(key, totals)
+  })
+  return [...groups.values()].sort((a, b) => b.costUsd - a.costUsd)
+}
+
+function formatCost(totals: UsageTotals): string {
+  return `$${totals.costUsd.toFixed(2)}${totals.hasUnpricedRuns ? '+' : ''}`
+}
+
+function UsageTable({ title, firstColumn, rows }: { title: string; firstColumn: string; rows: UsageTotals[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-lg font-medium">{title}</h2>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No analysis runs recorded.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{firstColumn}</TableHead>
+                <TableHead className="text-right">Runs</TableHead>
+                <TableHead className="text-right">Input tokens</TableHead>
+                <TableHead className="text-right">Output tokens</TableHead>
+                <TableHead className="text-right">Images</TableHead>
+                <TableHead className="text-right">Est. cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium text-gray-900">{row.label}</TableCell>
+                  <TableCell className="text-right">
+                    {row.runs}
+                    {row.failedRuns > 0 && <span className="text-xs text-red-600"> ({row.failedRuns} failed)</span>}
+                  </TableCell>
+                  <TableCell className="text-right">{row.promptTokens.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{row.completionTokens.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{row.imagesCount}</TableCell>
+                  <TableCell className="text-right">{formatCost(row)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function UsagePage() {
+  const [cycle, setCycle] = useState<string>(ALL_CYCLES)
+
+  const { data: usage = [], isLoading, error } = useQuery({
+    queryKey: ['llmUsage'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('llm_usage_summary')
+        .select('*')
+        .order('year', { ascending: false })
+        .order('month', { ascending: false })
+
+      if (error) throw error
+      return data as LLMUsageSummary[]
+    },
+  })
+
+  const byMonth = useMemo(
+    () => groupUsage(usage, row => `${row.year}-${row.month}`, row => cycleLabel(row.year, row.month))
+      .sort((a, b) => {
+        const [aYear, aMonth] = a.key.split('-').map(Number)
+        const [bYear, bMonth] = b.key.split('-').map(Number)
+        return bYear - aYear || bMonth - aMonth
+      }),
+    [usage]
+  )
+
+  const cycleRows = useMemo(
+    () => (cycle === ALL_CYCLES ? usage : usage.filter(row => `${row.year}-${row.month}` === cycle)),
+    [usage, cycle]
+  )
+  const byCentre = useMemo(
+    () => groupUsage(cycleRows, row => row.learning_centre_id ?? 'none', row => row.centre_name ?? 'No centre'),
+    [cycleRows]
+  )
+  const byUser = useMemo(
+    () => groupUsage(cycleRows, row => row.user_id ?? 'none', row => row.user_name ?? 'Deleted user'),
+    [cycleRows]
+  )
+  const byModel = useMemo(() => groupUsage(cycleRows, row => row.model, row => row.model), [cycleRows])
+  const cycleTotal = groupUsage(cycleRows, () => 'total', () => 'Total')[0]
+
+  if (isLoading) return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <Skeleton className="h-8 w-64 mb-8" />
+      <Skeleton className="h-64 w-full" />
+    </div>
+  )
+
+  if (error) return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="text-center text-red-600">Error: {error.message}</div>
+    </div>
+  )
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">LLM Usage</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Token usage and estimated API cost of analysis runs. Costs use list prices; a + means some runs used unpriced models.
+          </p>
+        </div>
+        <div className="w-64 space-y-2">
+          <Label htmlFor="cycle">Report cycle</Label>
+          <Select value={cycle} onValueChange={setCycle}>
+            <SelectTrigger id="cycle">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CYCLES}>All cycles</SelectItem>
+              {byMonth.map(month => (
+                <SelectItem key={month.key} value={month.key}>{month.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {cycleTotal && (
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          <div className="rounded-lg border border-gray-200 p-4">
+            <div className="text-xs text-gray-500">Estimated cost</div>
+            <div className="text-lg text-gray-900">{formatCost(cycleTotal)}</div>
+          </div>
+          <div className="rounded-lg border border-gray-200 p-4">
+            <div className="text-xs text-gray-500">Runs</div>
+            <div className="text-lg text-gray-900">{cycleTotal.runs}</div>
+          </div>
+          <div className="rounded-lg border border-gray-200 p-4">
+            <div className="text-xs text-gray-500">Tokens</div>
+            <div className="text-lg text-gray-900">
+              {(cycleTotal.promptTokens + cycleTotal.completionTokens).toLocaleString()}
+            </div>
+          </div>
+          <div className="rounded-lg border border-gray-200 p-4">
+            <div className="text-xs text-gray-500">Images analysed</div>
+            <div className="text-lg text-gray-900">{cycleTotal.imagesCount}</div>
+          </div>
+        </div>
+      )}
+
+      {cycle === ALL_CYCLES && <UsageTable title="By report cycle" firstColumn="Cycle" rows={byMonth} />}
+      <UsageTable title="By learning centre" firstColumn="Centre" rows={byCentre} />
+      <UsageTable title="By user" firstColumn="User" rows={byUser} />
+      <UsageTable title="By model" firstColumn="Model" rows={byModel} />
+    </div>
+  )
+}
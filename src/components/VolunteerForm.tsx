@@ -0,0 +1,72 @@
+import { useState } from 'react'
+import type { FormEvent } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { hasErrors, validateVolunteer } from '../lib/validation'
+import type { ValidationErrors, VolunteerDraft } from '../lib/validation'
+import { invalidateCentreQueries } from '../hooks/useDirectory'
+import type { Volunteer } from '../types/database'
+import FormField from './FormField'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+
+interface VolunteerFormProps {
+  volunteer?: Volunteer
+  onSaved: () => void
+  onCancel: () => void
+}
+
+export default function VolunteerForm({ volunteer, onSaved, onCancel }: VolunteerFormProps) {
+  const queryClient = useQueryClient()
+  const [draft, setDraft] = useState<VolunteerDraft>({ name: volunteer?.name ?? '' })
+  const [errors, setErrors] = useState<ValidationErrors<VolunteerDraft>>({})
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: VolunteerDraft) => {
+      const row = { name: values.name.trim() }
+      const { error } = volunteer
+        ? await supabase.from('volunteers').update(row).eq('id', volunteer.id)
+        : await supabase.from('volunteers').insert(row)
+
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['volunteers'] })
+      invalidateCentreQueries(queryClient)
+      onSaved()
+    },
+  })
+
+  function handleSubmit(event: FormEvent) {
+    event.preventDefault()
+    const validationErrors = validateVolunteer(draft)
+    setErrors(validationErrors)
+    if (!hasErrors(validationErrors)) saveMutation.mutate(draft)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-4">
+      <FormField id="volunteer-name" label="Name" error={errors.name}>
+        <Input
+          id="volunteer-name"
+          value={draft.name}
+          aria-invalid={!!errors.name}
+          onChange={(e) => setDraft({ name: e.target.value })}
+        />
+      </FormField>
+      {saveMutation.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {saveMutation.error.message}
+        </div>
+      )}
+      <div className="flex gap-3">
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? 'Saving...' : volunteer ? 'Save Volunteer' : 'Create Volunteer'}
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,324 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { DATE_ORDER_LABELS, matchFacilitator, parseChat, readChatExport } from '../lib/whatsapp'
+import type { ChatExport, DateOrder, ParsedChat } from '../lib/whatsapp'
+import { importChatItems, prepareChatImport, useCentreForImport } from '../hooks/useChatImport'
+import type { ChatImportItem, ChatImportResult, ChatImportStatus } from '../hooks/useChatImport'
+import { scanFieldDuplicates } from '../hooks/useFieldDuplicates'
+import type { DuplicateScanResult } from '../hooks/useFieldDuplicates'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+
+const SKIP_SENDER = 'skip'
+
+const STATUS_LABELS: Record<ChatImportStatus, string> = {
+  new: 'New',
+  stored: 'Already imported',
+  repeated: 'Repeated in chat',
+  unsupported: 'Not a photo or missing',
+}
+
+const STATUS_CLASSES: Record<ChatImportStatus, string> = {
+  new: 'text-emerald-700',
+  stored: 'text-gray-500',
+  repeated: 'text-amber-700',
+  unsupported: 'text-gray-400',
+}
+
+function initialSelection(items: ChatImportItem[]): Set<number> {
+  return new Set(items.filter(item => item.status === 'new').map(item => item.message.index))
+}
+
+// Imports a facilitator group's WhatsApp "Export chat" file into the centre's field notes
+// and photos. Nothing is stored until the preview is confirmed.
+export default function WhatsAppImport() {
+  const { centreId, state: stateParam, district: districtParam } = useParams<{
+    centreId: string
+    state: string
+    district: string
+  }>()
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const centrePath = `/${encodeURIComponent(stateParam || '')}/${encodeURIComponent(districtParam || '')}/centre/${centreId}`
+  const { data: centre, error: centreError } = useCentreForImport(centreId)
+  const facilitators = useMemo(() => centre?.facilitators ?? [], [centre])
+
+  const [chat, setChat] = useState<ChatExport | null>(null)
+  const [parsed, setParsed] = useState<ParsedChat | null>(null)
+  const [items, setItems] = useState<ChatImportItem[]>([])
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [senderFacilitators, setSenderFacilitators] = useState<Record<string, string>>({})
+  const [result, setResult] = useState<(ChatImportResult & { scan: DuplicateScanResult | null }) | null>(null)
+
+  // Preview URLs hold the photo bytes in memory until revoked
+  useEffect(() => () => items.forEach(item => item.previewUrl && URL.revokeObjectURL(item.previewUrl)), [items])
+
+  const senders = useMemo(() => {
+    const counts = new Map<string, number>()
+    items.forEach(item => counts.set(item.message.sender, (counts.get(item.message.sender) ?? 0) + 1))
+    return Array.from(counts, ([sender, count]) => ({ sender, count }))
+  }, [items])
+
+  const prepareMutation = useMutation({
+    mutationFn: async ({ chatExport, dateOrder }: { chatExport: ChatExport; dateOrder?: DateOrder }) => {
+      const chatParse = parseChat(chatExport.chatText, dateOrder)
+      const prepared = await prepareChatImport(centreId as string, chatExport, chatParse.messages)
+      return { chatParse, prepared }
+    },
+    onSuccess: ({ chatParse, prepared }) => {
+      setParsed(chatParse)
+      setItems(prepared)
+      setSelected(initialSelection(prepared))
+      setResult(null)
+      const matched: Record<string, string> = {}
+      prepared.forEach(({ message }) => {
+        if (message.sender in matched) return
+        matched[message.sender] = matchFacilitator(message.sender, facilitators)?.id ?? SKIP_SENDER
+      })
+      setSenderFacilitators(matched)
+    },
+  })
+
+  const readMutation = useMutation({
+    mutationFn: (file: File) => readChatExport(file),
+    onSuccess: (chatExport) => {
+      setChat(chatExport)
+      prepareMutation.mutate({ chatExport })
+    },
+  })
+
+  const facilitatorBySender = useMemo(
+    () => Object.fromEntries(Object.entries(senderFacilitators).filter(([, id]) => id !== SKIP_SENDER)),
+    [senderFacilitators]
+  )
+  const toImport = items.filter(item =>
+    selected.has(item.message.index) && item.status !== 'unsupported' && facilitatorBySender[item.message.sender]
+  )
+  const notesToImport = toImport.filter(item => item.kind === 'note').length
+  const photosToImport = toImport.length - notesToImport
+
+  const importMutation = useMutation({
+    // The new rows are compared with the centre's notes and photos straight away; a failed
+    // scan does not undo the import and can be rerun from Review Duplicates
+    mutationFn: async () => {
+      const imported = await importChatItems(centreId as string, toImport, facilitatorBySender)
+      const scan = await scanFieldDuplicates(centreId as string).catch(() => null)
+      return { ...imported, scan }
+    },
+    onSuccess: (imported) => {
+      setResult(imported)
+      setSelected(new Set())
+      queryClient.invalidateQueries({ queryKey: ['fieldDuplicates', centreId] })
+      queryClient.invalidateQueries({ queryKey: ['centreMonthFieldNotes', centreId] })
+      queryClient.invalidateQueries({ queryKey: ['centreMonthImages', centreId] })
+      queryClient.invalidateQueries({ queryKey: ['centreTrends', centreId] })
+      queryClient.invalidateQueries({ queryKey: ['districtMetrics'] })
+      queryClient.invalidateQueries({ queryKey: ['reportCoverage'] })
+    },
+  })
+
+  const toggle = (index: number) => {
+    const next = new Set(selected)
+    if (next.has(index)) next.delete(index)
+    else next.add(index)
+    setSelected(next)
+  }
+
+  const busy = readMutation.isPending || prepareMutation.isPending || importMutation.isPending
+  const error = centreError || readMutation.error || prepareMutation.error || importMutation.error
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <Button
+          onClick={() => navigate(centrePath)}
+          variant="link"
+          className="mb-2 gap-1 text-gray-500 hover:text-gray-900"
+        >
+          ← Back to Learning Centre
+        </Button>
+        <h1 className="text-2xl font-semibold text-gray-900">Import WhatsApp Chat</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          Upload the zip from WhatsApp's "Export chat" (with media), or its chat text file alone. Messages become field
+          notes and attached photos become field images, credited to the facilitator each sender is matched to. Times
+          are read in this browser's time zone.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          {error.message}
+        </div>
+      )}
+
+      <div className="mb-6 grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="chatExport">Chat export</Label>
+          <Input
+            id="chatExport"
+            type="file"
+            accept=".zip,.txt"
+            disabled={busy || !centre}
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) readMutation.mutate(file)
+            }}
+          />
+        </div>
+        {chat && parsed && (
+          <div className="space-y-2">
+            <Label htmlFor="chatDateOrder">Date format</Label>
+            <Select
+              value={parsed.dateOrder}
+              onValueChange={(value) => prepareMutation.mutate({ chatExport: chat, dateOrder: value as DateOrder })}
+              disabled={busy}
+            >
+              <SelectTrigger id="chatDateOrder">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map(order => (
+                  <SelectItem key={order} value={order}>{DATE_ORDER_LABELS[order]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      {(readMutation.isPending || prepareMutation.isPending) && (
+        <p className="mb-6 text-sm text-gray-600">Reading the chat and checking for messages already imported...</p>
+      )}
+
+      {result && !importMutation.isPending && (
+        <p className="mb-6 text-sm text-gray-600">
+          Imported {result.notes_added} note{result.notes_added === 1 ? '' : 's'} and {result.images_added} photo
+          {result.images_added === 1 ? '' : 's'}.{' '}
+          {result.scan
+            ? `${result.scan.added} possible duplicate${result.scan.added === 1 ? '' : 's'} queued under Review Duplicates.`
+            : 'Checking for duplicates failed; scan from Review Duplicates.'}
+        </p>
+      )}
+
+      {parsed && items.length === 0 && !prepareMutation.isPending && (
+        <p className="rounded-lg border border-dashed border-gray-300 bg-gray-50 py-6 text-center text-sm text-gray-500">
+          No messages were found in this file.
+        </p>
+      )}
+
+      {items.length > 0 && !prepareMutation.isPending && (
+        <>
+          <section className="mb-8">
+            <h2 className="mb-1 text-lg font-medium text-gray-900">Senders</h2>
+            <p className="mb-4 text-sm text-gray-500">
+              Senders are matched by phone number or by facilitator name and alias. Messages from skipped senders are
+              not imported.
+            </p>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {senders.map(({ sender, count }, idx) => (
+                <div key={sender} className="space-y-2">
+                  <Label htmlFor={`chatSender${idx}`}>
+                    {sender} <span className="font-normal text-gray-500">({count})</span>
+                  </Label>
+                  <Select
+                    value={senderFacilitators[sender] ?? SKIP_SENDER}
+                    onValueChange={(value) => setSenderFacilitators({ ...senderFacilitators, [sender]: value })}
+                    disabled={busy}
+                  >
+                    <SelectTrigger id={`chatSender${idx}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP_SENDER}>Skip this sender</SelectItem>
+                      {facilitators.map(facilitator => (
+                        <SelectItem key={facilitator.id} value={facilitator.id}>{facilitator.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
+            <p className="text-sm text-gray-600">
+              {items.length} messages
+              {parsed && parsed.systemMessages > 0 && ` · ${parsed.systemMessages} system messages ignored`}
+              {' · '}{notesToImport} note{notesToImport === 1 ? '' : 's'} and {photosToImport} photo
+              {photosToImport === 1 ? '' : 's'} selected
+            </p>
+            <Button disabled={busy || toImport.length === 0} onClick={() => importMutation.mutate()}>
+              {importMutation.isPending ? 'Importing...' : 'Import Selected'}
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10"><span className="sr-only">Import</span></TableHead>
+                <TableHead>Sent</TableHead>
+                <TableHead>Sender</TableHead>
+                <TableHead>Message</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map(item => {
+                const skipped = !facilitatorBySender[item.message.sender]
+                return (
+                  <TableRow key={item.message.index} className={skipped ? 'opacity-50' : undefined}>
+                    <TableCell>
+                      <input
+                        type="checkbox"
+                        aria-label="Import this message"
+                        checked={selected.has(item.message.index)}
+                        disabled={busy || item.status === 'unsupported'}
+                        onChange={() => toggle(item.message.index)}
+                      />
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-sm text-gray-600">
+                      {new Date(item.message.sent_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{item.message.sender}</TableCell>
+                    <TableCell className="text-sm text-gray-800">
+                      {item.previewUrl && (
+                        <img
+                          src={item.previewUrl}
+                          alt={item.message.text || 'Attached photo'}
+                          loading="lazy"
+                          className="mb-1 h-20 w-20 rounded-md object-cover"
+                        />
+                      )}
+                      {item.kind === 'image' && !item.previewUrl && (
+                        <span className="block text-xs text-gray-500">{item.message.attachment}</span>
+                      )}
+                      {item.message.text && <p className="whitespace-pre-wrap">{item.message.text}</p>}
+                    </TableCell>
+                    <TableCell className={`text-sm ${STATUS_CLASSES[item.status]}`}>{STATUS_LABELS[item.status]}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </div>
+  )
+}
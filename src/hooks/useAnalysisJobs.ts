@@ -0,0 +1,99 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import type {
+  AnalysisJobItem,
+  AnalysisJobSummary,
+  Facilitator,
+  GeneratedReport,
+  LearningCentre,
+} from '../types/database'
+
+export type AnalysisJobItemDetail = AnalysisJobItem & {
+  learning_centre?: Pick<LearningCentre, 'centre_name' | 'district' | 'state'> | null
+  report?: (Pick<GeneratedReport, 'id' | 'has_llm_analysis'> & {
+    facilitator?: Pick<Facilitator, 'name'> | null
+  }) | null
+}
+
+export interface EnqueueAnalysisJob {
+  year: number
+  month: number
+  state?: string
+  district?: string
+  // Analyse exactly these reports instead of every unanalysed report in the month and scope
+  reportIds?: string[]
+  includeAnalysed?: boolean
+  promptTemplateId?: string | null
+}
+
+const ANALYSIS_WORKER_FUNCTION = 'analysis-worker'
+// How often to refresh while the worker has items in hand
+const ACTIVE_REFRESH_MS = 5000
+
+export function useAnalysisJobs() {
+  return useQuery({
+    queryKey: ['analysisJobs'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('analysis_job_summary')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(50)
+
+      if (error) throw error
+      return (data || []) as AnalysisJobSummary[]
+    },
+    refetchInterval: (query) =>
+      query.state.data?.some(job => job.queued_count > 0 || job.running_count > 0) ? ACTIVE_REFRESH_MS : false,
+  })
+}
+
+export function useAnalysisJobItems(jobId?: string) {
+  return useQuery({
+    queryKey: ['analysisJobItems', jobId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('analysis_job_items')
+        .select(`
+          *,
+          learning_centre:learning_centre_id ( centre_name, district, state ),
+          report:generated_report_id ( id, has_llm_analysis, facilitator:facilitator_id ( name ) )
+        `)
+        .eq('job_id', jobId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as unknown as AnalysisJobItemDetail[]
+    },
+    enabled: !!jobId,
+    refetchInterval: (query) =>
+      query.state.data?.some(item => item.status === 'queued' || item.status === 'running') ? ACTIVE_REFRESH_MS : false,
+  })
+}
+
+// Returns the new job's id, or null when no report needed analysing
+export async function enqueueAnalysisJob(job: EnqueueAnalysisJob): Promise<string | null> {
+  const { data, error } = await supabase.rpc('enqueue_analysis_job', {
+    p_year: job.year,
+    p_month: job.month,
+    p_state: job.state ?? null,
+    p_district: job.district ?? null,
+    p_report_ids: job.reportIds ?? null,
+    p_include_analysed: job.includeAnalysed ?? false,
+    p_prompt_template_id: job.promptTemplateId ?? null,
+  })
+  if (error) throw error
+  return (data as string | null) ?? null
+}
+
+export async function retryAnalysisJobItems(itemIds: string[]): Promise<number> {
+  const { data, error } = await supabase.rpc('retry_analysis_job_items', { p_item_ids: itemIds })
+  if (error) throw error
+  return (data as number | null) ?? 0
+}
+
+// Starts a worker run in the background; scheduled runs pick up the queue as well
+export async function runAnalysisWorker(): Promise<void> {
+  const { error } = await supabase.functions.invoke(ANALYSIS_WORKER_FUNCTION, { body: {} })
+  if (error) throw error
+}
@@ -0,0 +1,55 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import type { LLMAnalysisReview, LLMAnalysisReviewAction, LLMAnalysisReviewStatus } from '../types/database'
+
+export const REVIEW_STATUS_LABELS: Record<LLMAnalysisReviewStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+}
+
+export const REVIEW_ACTION_LABELS: Record<LLMAnalysisReviewAction, string> = {
+  edited: 'Edited',
+  submitted: 'Submitted for review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  reopened: 'Reopened',
+  replaced: 'Replaced',
+}
+
+export function useAnalysisReviews(reportId?: string, enabled = true) {
+  return useQuery({
+    queryKey: ['analysisReviews', reportId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('llm_analysis_reviews')
+        .select('*, created_by_profile:created_by(display_name, email)')
+        .eq('generated_report_id', reportId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []) as LLMAnalysisReview[]
+    },
+    enabled: !!reportId && enabled,
+  })
+}
+
+export async function editAnalysisText(analysisId: string, text: string): Promise<void> {
+  const { error } = await supabase.rpc('edit_llm_analysis_text', { p_analysis_id: analysisId, p_text: text })
+  if (error) throw error
+}
+
+export async function reviewAnalysis(
+  analysisId: string,
+  action: Exclude<LLMAnalysisReviewAction, 'edited' | 'replaced'>,
+  comment?: string,
+): Promise<LLMAnalysisReviewStatus> {
+  const { data, error } = await supabase.rpc('review_llm_analysis', {
+    p_analysis_id: analysisId,
+    p_action: action,
+    p_comment: comment?.trim() || null,
+  })
+  if (error) throw error
+  return data as LLMAnalysisReviewStatus
+}
@@ -0,0 +1,66 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { withSignedPhotoUrls } from '../lib/fieldMedia'
+import { monthBounds } from '../lib/months'
+import type { FieldImage, FieldNote } from '../types/database'
+
+type MonthRow = { id: string; sent_at?: string | null; created_at: string }
+
+// Rows are dated by sent_at, falling back to created_at for imports without a timestamp.
+// Confirmed duplicates are left out.
+async function fetchMonthRows<T extends MonthRow>(
+  table: 'field_notes' | 'field_images',
+  centreId: string,
+  year: number,
+  month: number
+): Promise<T[]> {
+  const { startIso, endIso } = monthBounds(year, month)
+  const [primaryResult, fallbackResult] = await Promise.all([
+    supabase
+      .from(table)
+      .select('*')
+      .eq('learning_centre_id', centreId)
+      .is('duplicate_of', null)
+      .not('sent_at', 'is', null)
+      .gte('sent_at', startIso)
+      .lt('sent_at', endIso),
+    supabase
+      .from(table)
+      .select('*')
+      .eq('learning_centre_id', centreId)
+      .is('duplicate_of', null)
+      .is('sent_at', null)
+      .gte('created_at', startIso)
+      .lt('created_at', endIso),
+  ])
+
+  if (primaryResult.error) throw primaryResult.error
+  if (fallbackResult.error) throw fallbackResult.error
+
+  const rows: T[] = [...(primaryResult.data ?? []), ...(fallbackResult.data ?? [])]
+  const unique = new Map(rows.map(row => [row.id, row]))
+  return Array.from(unique.values()).sort((a, b) => {
+    const aDate = a.sent_at ?? a.created_at
+    const bDate = b.sent_at ?? b.created_at
+    if (!aDate && !bDate) return 0
+    if (!aDate) return 1
+    if (!bDate) return -1
+    return new Date(aDate).getTime() - new Date(bDate).getTime()
+  })
+}
+
+export function useCentreMonthImages(centreId: string | undefined, year: number, month: number, enabled = true) {
+  return useQuery({
+    queryKey: ['centreMonthImages', centreId, year, month],
+    queryFn: async () => withSignedPhotoUrls(await fetchMonthRows<FieldImage>('field_images', centreId as string, year, month)),
+    enabled: !!centreId && year > 0 && month > 0 && enabled,
+  })
+}
+
+export function useCentreMonthFieldNotes(centreId: string | undefined, year: number, month: number, enabled = true) {
+  return useQuery({
+    queryKey: ['centreMonthFieldNotes', centreId, year, month],
+    queryFn: () => fetchMonthRows<FieldNote>('field_notes', centreId as string, year, month),
+    enabled: !!centreId && year > 0 && month > 0 && enabled,
+  })
+}
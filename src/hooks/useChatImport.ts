@@ -0,0 +1,196 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchAllPages, supabase } from '../lib/supabase'
+import { FIELD_MEDIA_BUCKET } from '../lib/fieldMedia'
+import { computeDifferenceHash, hammingDistance, MAX_HASH_DISTANCE, normaliseNoteText } from '../lib/duplicates'
+import { imageType } from '../lib/whatsapp'
+import type { ChatExport, ChatMessage } from '../lib/whatsapp'
+import type { FieldImage, FieldNote, LearningCentre } from '../types/database'
+
+// 'stored' rows match a note or photo already at the centre and 'repeated' rows match an
+// earlier message in the same chat; both are left out unless the user picks them.
+// 'unsupported' attachments (videos, voice notes, documents, or media missing from the
+// zip) cannot be imported.
+export type ChatImportStatus = 'new' | 'stored' | 'repeated' | 'unsupported'
+
+export interface ChatImportItem {
+  message: ChatMessage
+  kind: 'note' | 'image'
+  status: ChatImportStatus
+  // Photo bytes and a local URL to preview them before upload
+  media?: Blob
+  previewUrl?: string
+  // SHA-256 of the photo bytes, which names its file in storage
+  digest?: string
+  perceptualHash?: string
+}
+
+export interface ChatImportResult {
+  notes_added: number
+  images_added: number
+}
+
+// Copies of a message from another export can differ by the seconds Android leaves out
+const SAME_MESSAGE_WINDOW_MS = 60 * 1000
+
+type StoredNote = Pick<FieldNote, 'id' | 'text' | 'sent_at'>
+type StoredImage = Pick<FieldImage, 'id' | 'photo_url' | 'perceptual_hash' | 'sent_at'>
+
+export function useCentreForImport(centreId?: string) {
+  return useQuery({
+    queryKey: ['centre', centreId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('learning_centres_with_details')
+        .select('*')
+        .eq('id', centreId)
+        .single()
+
+      if (error) throw error
+      return data as LearningCentre
+    },
+    enabled: !!centreId,
+  })
+}
+
+function closeInTime(a?: string | null, b?: string | null): boolean {
+  return !!a && !!b && Math.abs(Date.parse(a) - Date.parse(b)) < SAME_MESSAGE_WINDOW_MS
+}
+
+async function digestBlob(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+async function hashBlob(blob: Blob): Promise<{ previewUrl: string; perceptualHash?: string }> {
+  const previewUrl = URL.createObjectURL(blob)
+  try {
+    return { previewUrl, perceptualHash: await computeDifferenceHash(previewUrl) }
+  } catch {
+    return { previewUrl }
+  }
+}
+
+// Turns parsed messages into import rows, hashing photos as it goes, and marks the ones the
+// centre already has. The caller revokes the preview URLs once done.
+export async function prepareChatImport(
+  centreId: string,
+  chat: ChatExport,
+  messages: ChatMessage[],
+): Promise<ChatImportItem[]> {
+  if (messages.length === 0) return []
+  const times = messages.map(message => Date.parse(message.sent_at))
+  const from = new Date(times.reduce((min, time) => Math.min(min, time)) - SAME_MESSAGE_WINDOW_MS).toISOString()
+  const to = new Date(times.reduce((max, time) => Math.max(max, time)) + SAME_MESSAGE_WINDOW_MS).toISOString()
+
+  const [storedNotes, storedImages] = await Promise.all([
+    fetchAllPages<StoredNote>((start, end) =>
+      supabase
+        .from('field_notes')
+        .select('id, text, sent_at')
+        .eq('learning_centre_id', centreId)
+        .gte('sent_at', from)
+        .lte('sent_at', to)
+        .order('id')
+        .range(start, end)
+    ),
+    fetchAllPages<StoredImage>((start, end) =>
+      supabase
+        .from('field_images')
+        .select('id, photo_url, perceptual_hash, sent_at')
+        .eq('learning_centre_id', centreId)
+        .gte('sent_at', from)
+        .lte('sent_at', to)
+        .order('id')
+        .range(start, end)
+    ),
+  ])
+
+  const items: ChatImportItem[] = []
+  const seenTexts = new Set<string>()
+  const seenHashes: string[] = []
+
+  for (const message of messages) {
+    if (!message.attachment) {
+      const text = normaliseNoteText(message.text)
+      const stored = storedNotes.some(note =>
+        closeInTime(note.sent_at, message.sent_at) && normaliseNoteText(note.text ?? '') === text
+      )
+      items.push({ message, kind: 'note', status: stored ? 'stored' : seenTexts.has(text) ? 'repeated' : 'new' })
+      seenTexts.add(text)
+      continue
+    }
+
+    const type = imageType(message.attachment)
+    const bytes = chat.media.get(message.attachment)
+    if (!type || !bytes) {
+      items.push({ message, kind: 'image', status: 'unsupported' })
+      continue
+    }
+
+    const media = new Blob([bytes as BlobPart], { type })
+    const digest = await digestBlob(media)
+    const { previewUrl, perceptualHash } = await hashBlob(media)
+    const matches = (hash?: string | null) =>
+      !!hash && !!perceptualHash && hammingDistance(hash, perceptualHash) <= MAX_HASH_DISTANCE
+    const stored = storedImages.some(image =>
+      closeInTime(image.sent_at, message.sent_at) && (image.photo_url.includes(digest) || matches(image.perceptual_hash))
+    )
+    items.push({
+      message,
+      kind: 'image',
+      status: stored ? 'stored' : seenHashes.some(matches) ? 'repeated' : 'new',
+      media,
+      previewUrl,
+      digest,
+      perceptualHash,
+    })
+    if (perceptualHash) seenHashes.push(perceptualHash)
+  }
+  return items
+}
+
+// Uploads the chosen photos to the centre's folder in field-media, then stores the notes
+// and photos, keeping each photo's object path as its photo_url. Rows whose sender has no
+// facilitator are left out.
+export async function importChatItems(
+  centreId: string,
+  items: ChatImportItem[],
+  facilitatorBySender: Record<string, string>,
+): Promise<ChatImportResult> {
+  const attributed = items.filter(item => facilitatorBySender[item.message.sender])
+  const notes = attributed
+    .filter(item => item.kind === 'note')
+    .map(item => ({
+      facilitator_id: facilitatorBySender[item.message.sender],
+      text: item.message.text,
+      sent_at: item.message.sent_at,
+    }))
+
+  const images = []
+  for (const item of attributed.filter(item => item.kind === 'image' && item.media && item.digest)) {
+    const extension = item.message.attachment?.split('.').pop()?.toLowerCase() ?? 'jpg'
+    const path = `${centreId}/${item.digest}.${extension}`
+    const { error } = await supabase.storage
+      .from(FIELD_MEDIA_BUCKET)
+      .upload(path, item.media as Blob, { contentType: item.media?.type })
+    // The same photo uploaded by an earlier import is already there
+    if (error && (error as { statusCode?: string }).statusCode !== '409') throw error
+
+    images.push({
+      facilitator_id: facilitatorBySender[item.message.sender],
+      photo_url: path,
+      caption: item.message.text || null,
+      sent_at: item.message.sent_at,
+      perceptual_hash: item.perceptualHash ?? null,
+    })
+  }
+
+  const { data, error } = await supabase.rpc('import_field_messages', {
+    p_learning_centre_id: centreId,
+    p_notes: notes,
+    p_images: images,
+  })
+  if (error) throw error
+  const row = (data as ChatImportResult[] | null)?.[0]
+  return { notes_added: row?.notes_added ?? 0, images_added: row?.images_added ?? 0 }
+}
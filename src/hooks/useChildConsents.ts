@@ -0,0 +1,78 @@
+import { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import type { QueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { canShowPhoto, consentLookup } from '../lib/consent'
+import type { ChildConsent, ChildConsentStatus, ChildFieldImageLink } from '../types/database'
+import { useImageChildLinks } from './useChildImageLinks'
+
+export interface ConsentStatusFilter {
+  centreId?: string
+  childIds?: string[]
+  state?: string
+  district?: string
+}
+
+// Latest consent for children matching the filter; with no filter, every child the user
+// can see, as used by the consent report
+export function useConsentStatuses(filter: ConsentStatusFilter, enabled = true) {
+  const childIds = filter.childIds ? [...filter.childIds].sort() : undefined
+  return useQuery({
+    queryKey: ['childConsentStatus', filter.centreId, childIds, filter.state, filter.district],
+    queryFn: async () => {
+      let query = supabase.from('child_consent_status').select('*')
+      if (filter.centreId) query = query.eq('learning_centre_id', filter.centreId)
+      if (childIds) query = query.in('child_id', childIds)
+      if (filter.state) query = query.eq('state', filter.state)
+      if (filter.district) query = query.eq('district', filter.district)
+
+      const { data, error } = await query
+      if (error) throw error
+      return (data || []) as ChildConsentStatus[]
+    },
+    enabled: enabled && (!childIds || childIds.length > 0),
+  })
+}
+
+const NO_LINKS: ChildFieldImageLink[] = []
+
+// Child tags and consent for a gallery's photos. Photos stay hidden until both have loaded.
+export function usePhotoConsent(imageIds: string[], enabled = true) {
+  const linksQuery = useImageChildLinks(imageIds, enabled)
+  const links = linksQuery.data ?? NO_LINKS
+  const childIds = [...new Set(links.map(link => link.child_id))]
+  const statusQuery = useConsentStatuses({ childIds }, enabled && linksQuery.isSuccess)
+  const consents = useMemo(() => consentLookup(statusQuery.data ?? []), [statusQuery.data])
+  const ready = linksQuery.isSuccess && (childIds.length === 0 || statusQuery.isSuccess)
+
+  return {
+    links,
+    consents,
+    isPhotoVisible: (imageId: string) =>
+      ready && canShowPhoto(links.filter(link => link.field_image_id === imageId), consents),
+  }
+}
+
+// Every consent form recorded for a child, newest first
+export function useChildConsents(childId?: string) {
+  return useQuery({
+    queryKey: ['childConsents', childId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('child_consents')
+        .select('*, recorded_by_profile:recorded_by(display_name, email)')
+        .eq('child_id', childId)
+        .order('consented_on', { ascending: false })
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []) as ChildConsent[]
+    },
+    enabled: !!childId,
+  })
+}
+
+export function invalidateConsentQueries(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['childConsentStatus'] })
+  queryClient.invalidateQueries({ queryKey: ['childConsents'] })
+}
@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import type { ChildFieldImageLink } from '../types/database'
+
+// Child tags for a set of photos, keyed by the photo ids so galleries share the cache
+export function useImageChildLinks(imageIds: string[], enabled = true) {
+  const sortedIds = [...imageIds].sort()
+  return useQuery({
+    queryKey: ['imageChildLinks', sortedIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('child_field_image_links')
+        .select('*')
+        .in('field_image_id', sortedIds)
+
+      if (error) throw error
+      return (data || []) as ChildFieldImageLink[]
+    },
+    enabled: enabled && sortedIds.length > 0,
+  })
+}
@@ -0,0 +1,92 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchAllPages, supabase } from '../lib/supabase'
+import { findChildMentions } from '../lib/childMentions'
+import type { Child, ChildMentionSuggestion, Coordinator, CoordinatorFieldNote, Facilitator, FieldNote } from '../types/database'
+
+export type PendingChildMention = ChildMentionSuggestion & {
+  field_note?: (Pick<FieldNote, 'id' | 'text' | 'sent_at' | 'created_at'> & {
+    facilitator?: Pick<Facilitator, 'name'> | null
+  }) | null
+  coordinator_field_note?: (Pick<CoordinatorFieldNote, 'id' | 'note_text' | 'noted_at'> & {
+    coordinator?: Pick<Coordinator, 'name'> | null
+  }) | null
+}
+
+interface ScannedNote {
+  id: string
+  text: string
+}
+
+export function usePendingChildMentions(centreId?: string) {
+  return useQuery({
+    queryKey: ['childMentionSuggestions', centreId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('child_mention_suggestions')
+        .select(`
+          *,
+          field_note:field_note_id ( id, text, sent_at, created_at, facilitator:facilitator_id ( name ) ),
+          coordinator_field_note:coordinator_field_note_id ( id, note_text, noted_at, coordinator:coordinator_id ( name ) )
+        `)
+        .eq('learning_centre_id', centreId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as unknown as PendingChildMention[]
+    },
+    enabled: !!centreId,
+  })
+}
+
+// Scans every facilitator and coordinator note at the centre for the children's aliases
+// and records a suggestion for each match not already linked or suggested.
+// Resolves with the number of new suggestions.
+export async function scanChildMentions(centreId: string, children: Child[]): Promise<number> {
+  const [fieldNotes, coordinatorNotes] = await Promise.all([
+    fetchAllPages<ScannedNote>((from, to) =>
+      supabase
+        .from('field_notes')
+        .select('id, text')
+        .eq('learning_centre_id', centreId)
+        .is('duplicate_of', null)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllPages<ScannedNote>((from, to) =>
+      supabase
+        .from('coordinator_field_notes')
+        .select('id, text:note_text')
+        .eq('learning_centre_id', centreId)
+        .order('id')
+        .range(from, to)
+    ),
+  ])
+
+  const suggestions = [
+    ...fieldNotes.flatMap(note =>
+      findChildMentions(note.text ?? '', children).map(mention => ({
+        child_id: mention.childId,
+        field_note_id: note.id,
+        matched_alias: mention.alias,
+        matched_text: mention.matchedText,
+      }))
+    ),
+    ...coordinatorNotes.flatMap(note =>
+      findChildMentions(note.text ?? '', children).map(mention => ({
+        child_id: mention.childId,
+        coordinator_field_note_id: note.id,
+        matched_alias: mention.alias,
+        matched_text: mention.matchedText,
+      }))
+    ),
+  ]
+  if (suggestions.length === 0) return 0
+
+  const { data, error } = await supabase.rpc('propose_child_mentions', {
+    p_learning_centre_id: centreId,
+    p_suggestions: suggestions,
+  })
+  if (error) throw error
+  return (data as number | null) ?? 0
+}
@@ -0,0 +1,56 @@
+import { useQuery } from '@tanstack/react-query'
+import type { QueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import type { Child, ChildHistoryEntry } from '../types/database'
+
+const CHILD_HISTORY_LIMIT = 200
+
+// Children at a centre, including those who have left, shared by the children page
+// and the child tag pickers
+export function useCentreChildren(centreId?: string) {
+  return useQuery({
+    queryKey: ['centreChildren', centreId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('children')
+        .select('*')
+        .eq('learning_centre_id', centreId)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as Child[]
+    },
+    enabled: !!centreId,
+  })
+}
+
+export function useChildHistory(centreId?: string) {
+  return useQuery({
+    queryKey: ['childHistory', centreId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('child_history')
+        .select('*, changed_by_profile:changed_by(display_name, email)')
+        .eq('learning_centre_id', centreId)
+        .order('changed_at', { ascending: false })
+        .limit(CHILD_HISTORY_LIMIT)
+
+      if (error) throw error
+      return (data || []) as ChildHistoryEntry[]
+    },
+    enabled: !!centreId,
+  })
+}
+
+// Child changes show up in the centre's child list, the child pages and their notes
+export function invalidateChildQueries(queryClient: QueryClient, centreId: string) {
+  queryClient.invalidateQueries({ queryKey: ['centreChildren', centreId] })
+  queryClient.invalidateQueries({ queryKey: ['childHistory', centreId] })
+  queryClient.invalidateQueries({ queryKey: ['centre', centreId] })
+  queryClient.invalidateQueries({ queryKey: ['child'] })
+  queryClient.invalidateQueries({ queryKey: ['childEnrolments'] })
+  queryClient.invalidateQueries({ queryKey: ['childNotes'] })
+  queryClient.invalidateQueries({ queryKey: ['childPhotos'] })
+  queryClient.invalidateQueries({ queryKey: ['childConsentStatus'] })
+  queryClient.invalidateQueries({ queryKey: ['childMentionSuggestions', centreId] })
+}
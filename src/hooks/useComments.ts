@@ -0,0 +1,82 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import { COMMENT_TARGET_COLUMNS } from '../lib/comments'
+import type { CommentTarget } from '../lib/comments'
+import type { Comment, CommentParticipant, CommentThreadStatus } from '../types/database'
+
+// Comment counts for every commented item in the given centres
+export function useCommentThreads(centreIds: string[]) {
+  const ids = Array.from(new Set(centreIds.filter(Boolean))).sort()
+  return useQuery({
+    queryKey: ['commentThreads', ids],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('comment_threads')
+        .select('*')
+        .in('learning_centre_id', ids)
+
+      if (error) throw error
+      return (data || []) as CommentThreadStatus[]
+    },
+    enabled: ids.length > 0,
+  })
+}
+
+export function findThreadStatus(threads: CommentThreadStatus[], target: CommentTarget): CommentThreadStatus | undefined {
+  const column = COMMENT_TARGET_COLUMNS[target.type]
+  return threads.find(thread => thread[column] === target.id)
+}
+
+export function useComments(target: CommentTarget, enabled = true) {
+  return useQuery({
+    queryKey: ['comments', target.type, target.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('comments')
+        .select('*, mentions:comment_mentions(user_id), reads:comment_reads(user_id)')
+        .eq(COMMENT_TARGET_COLUMNS[target.type], target.id)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as Comment[]
+    },
+    enabled,
+  })
+}
+
+export function useCommentParticipants(centreId?: string) {
+  return useQuery({
+    queryKey: ['commentParticipants', centreId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('list_comment_participants', { p_learning_centre_id: centreId })
+      if (error) throw error
+      return (data || []) as CommentParticipant[]
+    },
+    enabled: !!centreId,
+  })
+}
+
+export async function addComment(
+  target: CommentTarget,
+  body: string,
+  parentId: string | null,
+  mentionedUserIds: string[],
+): Promise<string> {
+  const { data, error } = await supabase.rpc('add_comment', {
+    p_target_type: target.type,
+    p_target_id: target.id,
+    p_body: body,
+    p_parent_id: parentId,
+    p_mentioned_user_ids: mentionedUserIds,
+  })
+  if (error) throw error
+  return data as string
+}
+
+export async function markCommentsRead(target: CommentTarget): Promise<void> {
+  const { error } = await supabase.rpc('mark_comments_read', {
+    p_target_type: target.type,
+    p_target_id: target.id,
+  })
+  if (error) throw error
+}
@@ -0,0 +1,96 @@
+import { useQuery } from '@tanstack/react-query'
+import type { QueryClient } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import type { Coordinator, Facilitator, LearningCentre, PartnerOrganisation, Volunteer } from '../types/database'
+
+// People and organisations that can be assigned to centres, shared by the
+// manage page and the assignment pickers on a centre
+
+export function useFacilitators() {
+  return useQuery({
+    queryKey: ['facilitators'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('facilitators')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as Facilitator[]
+    },
+  })
+}
+
+export function useCoordinators() {
+  return useQuery({
+    queryKey: ['coordinators'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('coordinators')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as Coordinator[]
+    },
+  })
+}
+
+export function useVolunteers() {
+  return useQuery({
+    queryKey: ['volunteers'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('volunteers')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as Volunteer[]
+    },
+  })
+}
+
+export function usePartnerOrganisations() {
+  return useQuery({
+    queryKey: ['partnerOrganisations'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('partner_organisations')
+        .select('*')
+        .order('name', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as PartnerOrganisation[]
+    },
+  })
+}
+
+export function useAllLearningCentres() {
+  return useQuery({
+    queryKey: ['manageCentres'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('learning_centres_with_details')
+        .select('*')
+        .order('state', { ascending: true })
+        .order('district', { ascending: true })
+        .order('centre_name', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as LearningCentre[]
+    },
+  })
+}
+
+// Centre details are embedded in several views, so any edit refreshes all of them
+const CENTRE_QUERY_KEYS = ['learningCentres', 'manageCentres', 'coverageCentres', 'districtMetrics', 'auditLog']
+
+export function invalidateCentreQueries(queryClient: QueryClient, centreId?: string) {
+  if (centreId) {
+    queryClient.invalidateQueries({ queryKey: ['centre', centreId] })
+  }
+  CENTRE_QUERY_KEYS.forEach(key => {
+    queryClient.invalidateQueries({ queryKey: [key] })
+  })
+}
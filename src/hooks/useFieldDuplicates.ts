@@ -0,0 +1,131 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchAllPages, supabase } from '../lib/supabase'
+import { computeDifferenceHash, findNearDuplicateNotes, findSimilarImages } from '../lib/duplicates'
+import { withSignedPhotoUrls } from '../lib/fieldMedia'
+import type { HashedImage, HashedNote } from '../lib/duplicates'
+import type { Facilitator, FieldDuplicateCandidate, FieldImage, FieldNote } from '../types/database'
+
+type CandidateNote = Pick<FieldNote, 'id' | 'text' | 'sent_at' | 'created_at'> & {
+  facilitator?: Pick<Facilitator, 'name'> | null
+}
+
+type CandidateImage = Pick<FieldImage, 'id' | 'photo_url' | 'caption' | 'sent_at' | 'created_at'> & {
+  facilitator?: Pick<Facilitator, 'name'> | null
+}
+
+export type PendingFieldDuplicate = FieldDuplicateCandidate & {
+  original_field_note?: CandidateNote | null
+  duplicate_field_note?: CandidateNote | null
+  original_field_image?: CandidateImage | null
+  duplicate_field_image?: CandidateImage | null
+}
+
+export interface DuplicateScanResult {
+  added: number
+  // Photos that could not be loaded to hash, usually because their host blocks cross-origin reads
+  unreadableImages: number
+}
+
+type ImageRow = Pick<FieldImage, 'id' | 'photo_url' | 'sent_at' | 'created_at' | 'perceptual_hash'>
+
+const NOTE_FIELDS = 'id, text, sent_at, created_at, facilitator:facilitator_id ( name )'
+const IMAGE_FIELDS = 'id, photo_url, caption, sent_at, created_at, facilitator:facilitator_id ( name )'
+
+export function usePendingFieldDuplicates(centreId?: string) {
+  return useQuery({
+    queryKey: ['fieldDuplicates', centreId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('field_duplicate_candidates')
+        .select(`
+          *,
+          original_field_note:original_field_note_id ( ${NOTE_FIELDS} ),
+          duplicate_field_note:duplicate_field_note_id ( ${NOTE_FIELDS} ),
+          original_field_image:original_field_image_id ( ${IMAGE_FIELDS} ),
+          duplicate_field_image:duplicate_field_image_id ( ${IMAGE_FIELDS} )
+        `)
+        .eq('learning_centre_id', centreId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      const candidates = (data || []) as unknown as PendingFieldDuplicate[]
+      const images = candidates
+        .flatMap(candidate => [candidate.original_field_image, candidate.duplicate_field_image])
+        .filter((image): image is CandidateImage => !!image)
+      const signed = new Map((await withSignedPhotoUrls(images)).map(image => [image.id, image]))
+      return candidates.map(candidate => ({
+        ...candidate,
+        original_field_image: candidate.original_field_image && signed.get(candidate.original_field_image.id),
+        duplicate_field_image: candidate.duplicate_field_image && signed.get(candidate.duplicate_field_image.id),
+      }))
+    },
+    enabled: !!centreId,
+  })
+}
+
+// Hashes the centre's photos that have no perceptual hash yet, one at a time to keep the
+// browser responsive, and stores the results. Resolves with every hashed photo and the
+// number that could not be read.
+async function hashMissingImages(images: ImageRow[]): Promise<{ hashed: HashedImage[]; unreadable: number }> {
+  const hashed: HashedImage[] = images.flatMap(image =>
+    image.perceptual_hash ? [{ ...image, perceptual_hash: image.perceptual_hash }] : []
+  )
+  const computed: { field_image_id: string; perceptual_hash: string }[] = []
+  const missing = images.filter(image => !image.perceptual_hash)
+  const readable = await withSignedPhotoUrls(missing)
+  let unreadable = missing.length - readable.length
+
+  for (const image of readable) {
+    try {
+      const hash = await computeDifferenceHash(image.photo_url)
+      hashed.push({ ...image, perceptual_hash: hash })
+      computed.push({ field_image_id: image.id, perceptual_hash: hash })
+    } catch {
+      unreadable++
+    }
+  }
+
+  if (computed.length > 0) {
+    const { error } = await supabase.rpc('record_field_image_hashes', { p_hashes: computed })
+    if (error) throw error
+  }
+  return { hashed, unreadable }
+}
+
+// Compares every note and photo at the centre that is not already a confirmed duplicate
+// and queues near-identical pairs for review. Identical notes are queued by the database
+// when they are inserted, so they are not proposed again here.
+export async function scanFieldDuplicates(centreId: string): Promise<DuplicateScanResult> {
+  const [notes, images] = await Promise.all([
+    fetchAllPages<HashedNote>((from, to) =>
+      supabase
+        .from('field_notes')
+        .select('id, text, content_hash, facilitator_id, sent_at, created_at')
+        .eq('learning_centre_id', centreId)
+        .is('duplicate_of', null)
+        .order('id')
+        .range(from, to)
+    ),
+    fetchAllPages<ImageRow>((from, to) =>
+      supabase
+        .from('field_images')
+        .select('id, photo_url, perceptual_hash, sent_at, created_at')
+        .eq('learning_centre_id', centreId)
+        .is('duplicate_of', null)
+        .order('id')
+        .range(from, to)
+    ),
+  ])
+
+  const { hashed, unreadable } = await hashMissingImages(images)
+  const candidates = [...findNearDuplicateNotes(notes), ...findSimilarImages(hashed)]
+  if (candidates.length === 0) return { added: 0, unreadableImages: unreadable }
+
+  const { data, error } = await supabase.rpc('propose_field_duplicates', {
+    p_learning_centre_id: centreId,
+    p_candidates: candidates,
+  })
+  if (error) throw error
+  return { added: (data as number | null) ?? 0, unreadableImages: unreadable }
+}
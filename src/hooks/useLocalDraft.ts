@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+// Wait for a pause in typing before writing to localStorage
+const DRAFT_SAVE_DELAY_MS = 800
+
+interface StoredDraft<T> {
+  value: T
+  savedAt: string
+}
+
+function readDraft<T>(key: string): StoredDraft<T> | null {
+  try {
+    const raw = window.localStorage.getItem(key)
+    return raw ? (JSON.parse(raw) as StoredDraft<T>) : null
+  } catch {
+    return null
+  }
+}
+
+// Form state that survives reloads and closed tabs. The draft is only written
+// after the user changes something, and is removed with clear() once saved.
+export function useLocalDraft<T>(key: string, initial: T) {
+  const [stored] = useState(() => readDraft<T>(key))
+  const [value, setValue] = useState<T>(stored?.value ?? initial)
+  const [savedAt, setSavedAt] = useState<string | null>(stored?.savedAt ?? null)
+  const [restored, setRestored] = useState(stored !== null)
+  const dirty = useRef(false)
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    if (!dirty.current) return
+    timer.current = setTimeout(() => {
+      const draft: StoredDraft<T> = { value, savedAt: new Date().toISOString() }
+      try {
+        window.localStorage.setItem(key, JSON.stringify(draft))
+        setSavedAt(draft.savedAt)
+      } catch {
+        // Storage full or disabled; the form still works without drafts
+      }
+    }, DRAFT_SAVE_DELAY_MS)
+    return () => {
+      if (timer.current) clearTimeout(timer.current)
+    }
+  }, [key, value])
+
+  const update = useCallback((next: T) => {
+    dirty.current = true
+    setValue(next)
+  }, [])
+
+  const clear = useCallback(() => {
+    if (timer.current) clearTimeout(timer.current)
+    dirty.current = false
+    window.localStorage.removeItem(key)
+    setSavedAt(null)
+    setRestored(false)
+  }, [key])
+
+  const discard = useCallback(() => {
+    clear()
+    setValue(initial)
+  }, [clear, initial])
+
+  return { value, update, savedAt, restored, clear, discard }
+}
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '../lib/supabase'
+import type { PromptTemplate } from '../types/database'
+
+export function usePromptTemplates() {
+  return useQuery({
+    queryKey: ['promptTemplates'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .select('*')
+        .order('name', { ascending: true })
+        .order('version', { ascending: false })
+
+      if (error) throw error
+      return (data || []) as PromptTemplate[]
+    },
+  })
+}
@@ -0,0 +1,53 @@
+import type { AuditLogEntry } from '../types/database'
+
+export interface AuditFieldChange {
+  field: string
+  from: string
+  to: string
+}
+
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+  learning_centres: 'Learning centre',
+  facilitators: 'Facilitator',
+  coordinators: 'Coordinator',
+  volunteers: 'Volunteer',
+  partner_organisations: 'Partner organisation',
+  learning_centre_facilitators: 'Facilitator assignment',
+  learning_centre_volunteers: 'Volunteer assignment',
+  learning_centre_partner_organisations: 'Partner assignment',
+}
+
+// Assignment rows point at the assigned record through this column
+export const AUDIT_ASSIGNMENT_COLUMNS: Record<string, string> = {
+  learning_centre_facilitators: 'facilitator_id',
+  learning_centre_volunteers: 'volunteer_id',
+  learning_centre_partner_organisations: 'partner_organisation_id',
+}
+
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at'])
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (Array.isArray(value)) return value.join(', ') || '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Fields whose value differs between the old and new row; inserts and deletes list every field
+export function auditFieldChanges(entry: AuditLogEntry): AuditFieldChange[] {
+  const before = entry.old_data ?? {}
+  const after = entry.new_data ?? {}
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)])
+
+  return [...fields]
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({ field, from: formatValue(before[field]), to: formatValue(after[field]) }))
+}
+
+// The record's own name, for tables that have one
+export function auditRecordName(entry: AuditLogEntry): string | null {
+  const row = entry.new_data ?? entry.old_data ?? {}
+  const name = row.centre_name ?? row.name
+  return typeof name === 'string' ? name : null
+}
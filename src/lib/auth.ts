@@ -0,0 +1,26 @@
+import { createContext } from 'react'
+import type { Session, User } from '@supabase/supabase-js'
+import type { UserProfile, UserRole } from '../types/database'
+
+export interface AuthContextValue {
+  session: Session | null
+  user: User | null
+  profile: UserProfile | null
+  loading: boolean
+  signOut: () => Promise<void>
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null)
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  coordinator: 'Coordinator',
+  partner_viewer: 'Partner Viewer',
+}
+
+// Roles allowed to open field notes, photos and children's pages
+export const CHILD_DATA_ROLES: UserRole[] = ['admin', 'coordinator']
+
+export function hasRole(profile: UserProfile | null, roles: UserRole[]): boolean {
+  return !!profile && roles.includes(profile.role)
+}
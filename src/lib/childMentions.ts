@@ -0,0 +1,14 @@
+// Alias matching lives with the Edge Functions, which pseudonymise note text for the model too
+export {
+  childAliases,
+  childLabel,
+  findAliasMatches,
+  findChildAliasMatches,
+  findChildMentions,
+} from '../../supabase/functions/_shared/childMentions.ts'
+export type {
+  AliasMatch,
+  ChildAliasMatch,
+  ChildAliasRecord,
+  ChildMention,
+} from '../../supabase/functions/_shared/childMentions.ts'
@@ -0,0 +1,78 @@
+// Builds a child's timeline from the notes and photos linked to them, across every centre they attended
+import type { ChildAliasRecord } from './childMentions'
+
+export type TimelineEntryKind = 'facilitator' | 'coordinator' | 'photo'
+
+export interface TimelineEntry {
+  id: string
+  kind: TimelineEntryKind
+  // ISO timestamp the entry is dated by
+  date: string
+  author: string
+  // Note text, or the caption of a photo
+  text: string
+  learningCentreId?: string | null
+  // False for entries from a centre the viewer cannot open, such as a moved child's earlier centre
+  centreVisible?: boolean
+  photoUrl?: string
+  // Children at the entry's centre whose names must be replaced by a pseudonym
+  withheldChildren?: ChildAliasRecord[]
+}
+
+export interface TimelineMonth {
+  key: string
+  label: string
+  entries: TimelineEntry[]
+}
+
+export const TIMELINE_KIND_LABELS: Record<TimelineEntryKind, string> = {
+  facilitator: 'Facilitator notes',
+  coordinator: 'Coordinator notes',
+  photo: 'Photos',
+}
+
+function monthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+// Newest first, so the latest activity is at the top of the page
+export function sortTimeline(entries: TimelineEntry[]): TimelineEntry[] {
+  return [...entries].sort((a, b) => (Date.parse(b.date) || 0) - (Date.parse(a.date) || 0))
+}
+
+// Groups sorted entries into calendar months; entries without a usable date go last
+export function groupTimelineByMonth(entries: TimelineEntry[]): TimelineMonth[] {
+  const months: TimelineMonth[] = []
+  const undated: TimelineEntry[] = []
+
+  sortTimeline(entries).forEach(entry => {
+    const date = new Date(entry.date)
+    if (Number.isNaN(date.getTime())) {
+      undated.push(entry)
+      return
+    }
+    const key = monthKey(date)
+    const current = months[months.length - 1]
+    if (current?.key === key) {
+      current.entries.push(entry)
+    } else {
+      months.push({
+        key,
+        label: date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+        entries: [entry],
+      })
+    }
+  })
+
+  if (undated.length > 0) months.push({ key: 'undated', label: 'Date unavailable', entries: undated })
+  return months
+}
+
+// Earliest and latest dated entries, or null when nothing is dated
+export function timelineSpan(entries: TimelineEntry[]): { firstSeen: string; lastSeen: string } | null {
+  const dates = entries
+    .map(entry => entry.date)
+    .filter(date => !Number.isNaN(Date.parse(date)))
+    .sort((a, b) => Date.parse(a) - Date.parse(b))
+  return dates.length > 0 ? { firstSeen: dates[0], lastSeen: dates[dates.length - 1] } : null
+}
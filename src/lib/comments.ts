@@ -0,0 +1,69 @@
+// Comment targets and @mention parsing for discussion threads
+
+import type { CommentParticipant, CommentTargetType } from '../types/database'
+
+export interface CommentTarget {
+  type: CommentTargetType
+  id: string
+}
+
+export const COMMENT_TARGET_COLUMNS = {
+  generated_report: 'generated_report_id',
+  field_note: 'field_note_id',
+  field_image: 'field_image_id',
+  coordinator_field_note: 'coordinator_field_note_id',
+} as const satisfies Record<CommentTargetType, string>
+
+export interface MentionSegment {
+  text: string
+  participant?: CommentParticipant
+}
+
+const NAME_END = /[\s.,;:!?)]/
+
+// Splits a comment into plain text and @Name mentions of known participants. At each @
+// the longest matching name wins, so "@Anu Rao" is not read as "@Anu".
+export function splitMentions(body: string, participants: CommentParticipant[]): MentionSegment[] {
+  const byLength = [...participants].sort((a, b) => b.name.length - a.name.length)
+  const segments: MentionSegment[] = []
+  let plainStart = 0
+  let index = body.indexOf('@')
+
+  while (index !== -1) {
+    const rest = body.slice(index + 1).toLowerCase()
+    const participant = byLength.find(candidate => {
+      const name = candidate.name.toLowerCase()
+      const next = rest.charAt(name.length)
+      return name && rest.startsWith(name) && (next === '' || NAME_END.test(next))
+    })
+
+    if (participant) {
+      if (index > plainStart) segments.push({ text: body.slice(plainStart, index) })
+      const end = index + 1 + participant.name.length
+      segments.push({ text: body.slice(index, end), participant })
+      plainStart = end
+      index = body.indexOf('@', end)
+    } else {
+      index = body.indexOf('@', index + 1)
+    }
+  }
+
+  if (plainStart < body.length) segments.push({ text: body.slice(plainStart) })
+  return segments
+}
+
+export function mentionedUserIds(body: string, participants: CommentParticipant[]): string[] {
+  const ids = splitMentions(body, participants).flatMap(segment => segment.participant ? [segment.participant.id] : [])
+  return Array.from(new Set(ids))
+}
+
+// The partial name being typed after an @ at the end of the text, or null
+export function pendingMention(text: string): string | null {
+  const match = text.match(/(?:^|\s)@([^@\n]{0,40})$/)
+  return match ? match[1] : null
+}
+
+// Replaces the @partial at the end of the text with the participant's full name
+export function completeMention(text: string, participant: CommentParticipant): string {
+  return text.replace(/@([^@\n]{0,40})$/, `@${participant.name} `)
+}
@@ -0,0 +1,51 @@
+// Decides what the dashboard may show of a child. Aliases are replaced by a pseudonym and
+// photos are hidden unless a guardian's consent covers them.
+
+import { childLabel } from './childMentions'
+import type { ChildAliasRecord } from './childMentions'
+import { childPseudonym } from '../../supabase/functions/_shared/consent.ts'
+import type { ChildConsentStatus } from '../types/database'
+
+export {
+  canShowChildInPhoto,
+  canShowPhoto,
+  childPseudonym,
+  consentedChildAliases,
+  pseudonymiseAliases,
+  withheldChildren,
+} from '../../supabase/functions/_shared/consent.ts'
+
+export type ConsentGap = 'no_record' | 'not_acknowledged' | 'expired' | 'no_photo_consent' | 'no_name_consent'
+
+export const CONSENT_GAP_LABELS: Record<ConsentGap, string> = {
+  no_record: 'No consent recorded',
+  not_acknowledged: 'Not acknowledged by guardian',
+  expired: 'Expired',
+  no_photo_consent: 'No photo consent',
+  no_name_consent: 'No name consent',
+}
+
+export type ConsentLookup = Map<string, ChildConsentStatus>
+
+export function consentLookup(statuses: ChildConsentStatus[]): ConsentLookup {
+  return new Map(statuses.map(status => [status.child_id, status]))
+}
+
+export function canShowChildName(childId: string, consents: ConsentLookup): boolean {
+  return consents.get(childId)?.name_consent_current ?? false
+}
+
+export function displayChildLabel(child: ChildAliasRecord, consents: ConsentLookup): string {
+  return canShowChildName(child.id, consents) ? childLabel(child) : childPseudonym(child.id)
+}
+
+// Why a child's consent does not cover both their name and photos; empty when it does
+export function consentGaps(status: ChildConsentStatus): ConsentGap[] {
+  if (!status.consent_id) return ['no_record']
+  const gaps: ConsentGap[] = []
+  if (!status.guardian_acknowledged_on) gaps.push('not_acknowledged')
+  else if (!status.consent_current) gaps.push('expired')
+  if (!status.photo_consent) gaps.push('no_photo_consent')
+  if (!status.name_display_consent) gaps.push('no_name_consent')
+  return gaps
+}
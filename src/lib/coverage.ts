@@ -0,0 +1,72 @@
+import type { LearningCentre, ReportCoverageMonth } from '../types/database'
+
+export type CoverageStatus = 'analysed' | 'reported' | 'missing' | 'inactive' | 'closed'
+
+export interface CoverageMonth {
+  key: string
+  label: string
+  year: number
+  month: number
+}
+
+export interface CoverageCell {
+  status: CoverageStatus
+  fieldNotes: number
+  images: number
+  reportId: string | null
+}
+
+export const COVERAGE_STATUS_LABELS: Record<CoverageStatus, string> = {
+  analysed: 'Report with analysis',
+  reported: 'Report without analysis',
+  missing: 'Field data but no report',
+  inactive: 'No activity',
+  closed: 'Centre not open',
+}
+
+export function coverageMonthKey(year: number, month: number): string {
+  return `${year}-${month}`
+}
+
+// The last `count` months up to and including the current one, oldest first
+export function lastMonths(count: number, now = new Date()): CoverageMonth[] {
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(now.getFullYear(), now.getMonth() - (count - 1 - i), 1)
+    const year = date.getFullYear()
+    const month = date.getMonth() + 1
+    return {
+      key: coverageMonthKey(year, month),
+      label: date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
+      year,
+      month,
+    }
+  })
+}
+
+function isCentreOpen(centre: LearningCentre, month: CoverageMonth): boolean {
+  const monthStart = new Date(month.year, month.month - 1, 1)
+  const monthEnd = new Date(month.year, month.month, 0)
+  if (centre.start_date && new Date(centre.start_date) > monthEnd) return false
+  if (centre.end_date && new Date(centre.end_date) < monthStart) return false
+  return true
+}
+
+export function coverageCell(
+  centre: LearningCentre,
+  month: CoverageMonth,
+  row: ReportCoverageMonth | undefined
+): CoverageCell {
+  const fieldNotes = Number(row?.field_notes_count ?? 0)
+  const images = Number(row?.images_count ?? 0)
+  const reportId = row?.report_id ?? null
+
+  // A report outside the centre's dates still counts, so data errors stay visible
+  let status: CoverageStatus
+  if (Number(row?.analysed_reports_count ?? 0) > 0) status = 'analysed'
+  else if (Number(row?.reports_count ?? 0) > 0) status = 'reported'
+  else if (fieldNotes + images > 0) status = 'missing'
+  else if (!isCentreOpen(centre, month)) status = 'closed'
+  else status = 'inactive'
+
+  return { status, fieldNotes, images, reportId }
+}
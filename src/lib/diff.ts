@@ -0,0 +1,60 @@
+export type DiffPartType = 'equal' | 'added' | 'removed'
+
+export interface DiffPart {
+  type: DiffPartType
+  text: string
+}
+
+function tokenize(text: string): string[] {
+  // Keep whitespace as its own tokens so the diff can be rendered back verbatim
+  return text.split(/(\s+)/).filter(token => token.length > 0)
+}
+
+/**
+ * Word-level diff of `after` against `before` using a longest common subsequence
+ * table. Adjacent parts of the same type are merged.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const width = b.length + 1
+  const lcs = new Uint32Array((a.length + 1) * width)
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPartType, text: string) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      parts.push({ type, text })
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i])
+      i++
+      j++
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      push('removed', a[i])
+      i++
+    } else {
+      push('added', b[j])
+      j++
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+
+  return parts
+}
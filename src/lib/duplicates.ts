@@ -0,0 +1,206 @@
+// Finds field notes and photos that were stored more than once, for example when a chat is
+// re-imported or a message is forwarded. Identical notes are caught in the database by
+// content_hash; this finds notes that differ slightly and photos that look the same.
+
+export type DuplicateKind = 'note' | 'image'
+export type DuplicateMethod = 'exact' | 'near' | 'perceptual'
+
+export interface DuplicatePair {
+  kind: DuplicateKind
+  // The earlier row, which is kept
+  original_id: string
+  duplicate_id: string
+  method: DuplicateMethod
+  similarity: number
+}
+
+export interface DatedRow {
+  id: string
+  sent_at?: string | null
+  created_at: string
+}
+
+export interface HashedNote extends DatedRow {
+  text: string
+  content_hash?: string | null
+  facilitator_id?: string | null
+}
+
+export interface HashedImage extends DatedRow {
+  perceptual_hash: string
+}
+
+export const DUPLICATE_METHOD_LABELS: Record<DuplicateMethod, string> = {
+  exact: 'Identical text',
+  near: 'Similar text',
+  perceptual: 'Similar photo',
+}
+
+// Share of word shingles two notes must have in common
+export const NOTE_SIMILARITY_THRESHOLD = 0.8
+// Notes only duplicate each other when the same facilitator sent them this close together,
+// as in queue_exact_field_note_duplicate
+const NOTE_DUPLICATE_WINDOW_MS = 3 * 24 * 60 * 60 * 1000
+// Notes shorter than this are only compared exactly, since a few shared words mean little
+const MIN_NEAR_DUPLICATE_WORDS = 6
+const SHINGLE_SIZE = 3
+// Differing bits out of 64 for two photos to count as the same picture
+export const MAX_HASH_DISTANCE = 6
+const HASH_BITS = 64
+// Photos that have not loaded by then are counted as unreadable and skipped
+const HASH_TIMEOUT_MS = 15 * 1000
+
+// Close to normalise_field_note_text in the database, so both agree on what counts as the same text
+export function normaliseNoteText(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}\u200B-\u200D\uFEFF]+/gu, ' ')
+    .trim()
+}
+
+export function shingles(text: string, size = SHINGLE_SIZE): Set<string> {
+  const words = normaliseNoteText(text).split(' ').filter(Boolean)
+  const result = new Set<string>()
+  if (words.length <= size) {
+    if (words.length > 0) result.add(words.join(' '))
+    return result
+  }
+  for (let i = 0; i + size <= words.length; i++) {
+    result.add(words.slice(i, i + size).join(' '))
+  }
+  return result
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0
+  let shared = 0
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a]
+  smaller.forEach(item => {
+    if (larger.has(item)) shared++
+  })
+  return shared / (a.size + b.size - shared)
+}
+
+function rowTime(row: DatedRow): number {
+  return Date.parse(row.sent_at || row.created_at) || 0
+}
+
+// Oldest first, so the earlier copy of a pair is kept as the original
+function byDate<T extends DatedRow>(rows: T[]): T[] {
+  return [...rows].sort((a, b) => rowTime(a) - rowTime(b) || a.id.localeCompare(b.id))
+}
+
+// Notes from the same facilitator, days apart at most, whose wording mostly overlaps. Pairs
+// with the same content_hash are left to the database, which queues them as they are inserted.
+export function findNearDuplicateNotes(notes: HashedNote[], threshold = NOTE_SIMILARITY_THRESHOLD): DuplicatePair[] {
+  const candidates = byDate(notes)
+    .map(note => ({ note, shingles: shingles(note.text ?? '') }))
+    .filter(({ note }) => normaliseNoteText(note.text ?? '').split(' ').length >= MIN_NEAR_DUPLICATE_WORDS)
+
+  const pairs: DuplicatePair[] = []
+  candidates.forEach((later, index) => {
+    for (let i = 0; i < index; i++) {
+      const earlier = candidates[i]
+      if (earlier.note.content_hash && earlier.note.content_hash === later.note.content_hash) continue
+      if ((earlier.note.facilitator_id ?? null) !== (later.note.facilitator_id ?? null)) continue
+      if (rowTime(later.note) - rowTime(earlier.note) > NOTE_DUPLICATE_WINDOW_MS) continue
+      // Jaccard can only reach the threshold when the sets are of similar size
+      const sizes = [earlier.shingles.size, later.shingles.size].sort((a, b) => a - b)
+      if (sizes[0] < sizes[1] * threshold) continue
+      const similarity = jaccard(earlier.shingles, later.shingles)
+      if (similarity >= threshold) {
+        pairs.push({ kind: 'note', original_id: earlier.note.id, duplicate_id: later.note.id, method: 'near', similarity })
+        // Each note is paired with the earliest note it duplicates
+        break
+      }
+    }
+  })
+  return pairs
+}
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4]
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)]
+  }
+  return distance
+}
+
+export function findSimilarImages(images: HashedImage[], maxDistance = MAX_HASH_DISTANCE): DuplicatePair[] {
+  const sorted = byDate(images)
+  const pairs: DuplicatePair[] = []
+  sorted.forEach((later, index) => {
+    for (let i = 0; i < index; i++) {
+      const distance = hammingDistance(sorted[i].perceptual_hash, later.perceptual_hash)
+      if (distance <= maxDistance) {
+        pairs.push({
+          kind: 'image',
+          original_id: sorted[i].id,
+          duplicate_id: later.id,
+          method: 'perceptual',
+          similarity: 1 - distance / HASH_BITS,
+        })
+        break
+      }
+    }
+  })
+  return pairs
+}
+
+// Difference hash: the photo is shrunk to 9x8 greyscale pixels and each bit records whether
+// a pixel is brighter than its right-hand neighbour. Resized or recompressed copies of a
+// photo give the same or a very close hash. Rejects when the image cannot be loaded or
+// read back, for example when its host does not allow cross-origin access, or when it has
+// not loaded within HASH_TIMEOUT_MS.
+export function computeDifferenceHash(url: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    // A host that never answers would otherwise stall the scan on this photo
+    const timer = setTimeout(() => {
+      image.onload = null
+      image.onerror = null
+      image.src = ''
+      reject(new Error(`Timed out loading ${url}`))
+    }, HASH_TIMEOUT_MS)
+    image.crossOrigin = 'anonymous'
+    image.onload = () => {
+      clearTimeout(timer)
+      try {
+        const canvas = document.createElement('canvas')
+        canvas.width = 9
+        canvas.height = 8
+        const context = canvas.getContext('2d')
+        if (!context) throw new Error('Canvas is not available')
+        context.drawImage(image, 0, 0, 9, 8)
+        const { data } = context.getImageData(0, 0, 9, 8)
+
+        const grey = (x: number, y: number) => {
+          const offset = (y * 9 + x) * 4
+          return data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114
+        }
+        let hash = ''
+        for (let y = 0; y < 8; y++) {
+          let nibble = 0
+          for (let x = 0; x < 8; x++) {
+            nibble = (nibble << 1) | (grey(x, y) > grey(x + 1, y) ? 1 : 0)
+            if (x % 4 === 3) {
+              hash += nibble.toString(16)
+              nibble = 0
+            }
+          }
+        }
+        resolve(hash)
+      } catch (error) {
+        reject(error)
+      }
+    }
+    image.onerror = () => {
+      clearTimeout(timer)
+      reject(new Error(`Could not load ${url}`))
+    }
+    image.src = url
+  })
+}
@@ -0,0 +1,9 @@
+// Imported photos are served from the private field-media bucket through signed URLs
+import { supabase } from './supabase'
+import { signPhotoUrls } from '../../supabase/functions/_shared/fieldMedia.ts'
+
+export { FIELD_MEDIA_BUCKET } from '../../supabase/functions/_shared/fieldMedia.ts'
+
+export function withSignedPhotoUrls<T extends { photo_url: string }>(images: T[]): Promise<T[]> {
+  return signPhotoUrls(supabase, images)
+}
@@ -0,0 +1,80 @@
+import type { PromptContext } from './prompts'
+import { openAICompatibleProvider, openAIProvider } from './openai'
+import { mockProvider } from './mockLLM'
+
+import type { AnalysisProgress } from '../../supabase/functions/_shared/batching.ts'
+import type { Rubric } from '../../supabase/functions/_shared/rubric.ts'
+
+export { DEFAULT_ANALYSIS_TEMPERATURE } from '../../supabase/functions/_shared/models.ts'
+export type { AnalysisProgress } from '../../supabase/functions/_shared/batching.ts'
+export { RUBRIC_DIMENSIONS, parseRubric } from '../../supabase/functions/_shared/rubric.ts'
+export type { Rubric, RubricDimension, RubricScore } from '../../supabase/functions/_shared/rubric.ts'
+
+export interface LLMAnalysisRequest {
+  facilitatorName: string
+  fieldNotes: Array<{ timestamp: string; text: string }>
+  images: Array<{ url: string; caption?: string }>
+  customPrompt?: string
+  promptTemplateId?: string
+  promptContext?: Omit<Partial<PromptContext>, 'facilitatorName' | 'fieldNotes' | 'imagesCount'>
+  model?: string
+  temperature?: number
+  // What the run is for; recorded with its token usage and cost
+  context?: {
+    learningCentreId?: string
+    generatedReportId?: string
+    year?: number
+    month?: number
+  }
+  // Set to false to skip scoring the rubric
+  rubric?: boolean
+}
+
+export interface LLMAnalysisResult {
+  analysis: string
+  model: string
+  temperature: number
+  // Photos that reached the model, out of the imagesTotal that were sent
+  imagesCount: number
+  imagesTotal: number
+  // Null when not requested or the provider could not produce one
+  rubric: Rubric | null
+}
+
+export interface LLMStreamOptions {
+  signal?: AbortSignal
+  // Called for every chunk of text, with everything received so far
+  onToken?: (text: string, analysisSoFar: string) => void
+  // Called after each batch of photos has been described
+  onProgress?: (progress: AnalysisProgress) => void
+}
+
+export interface LLMStreamResult extends LLMAnalysisResult {
+  // True when the run was stopped through the signal; analysis holds the partial text
+  cancelled: boolean
+}
+
+// Everything that produces an analysis goes through this interface, so the
+// playground and report flows do not care which backend answers
+export interface LLMProvider {
+  id: string
+  label: string
+  models: string[]
+  defaultModel: string
+  generate(request: LLMAnalysisRequest): Promise<LLMAnalysisResult>
+  stream(request: LLMAnalysisRequest, options?: LLMStreamOptions): Promise<LLMStreamResult>
+}
+
+// The compatible provider needs a server to point at, and the mock is opt-in
+// so it cannot be picked by accident in production
+export const LLM_PROVIDERS: LLMProvider[] = [
+  openAIProvider,
+  ...(openAICompatibleProvider.models.length > 0 ? [openAICompatibleProvider] : []),
+  ...(import.meta.env.DEV || import.meta.env.VITE_ENABLE_MOCK_LLM === 'true' ? [mockProvider] : []),
+]
+
+export const DEFAULT_LLM_PROVIDER = openAIProvider
+
+export function getLLMProvider(id: string): LLMProvider {
+  return LLM_PROVIDERS.find(provider => provider.id === id) ?? DEFAULT_LLM_PROVIDER
+}
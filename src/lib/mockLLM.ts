@@ -0,0 +1,125 @@
+import type { LLMAnalysisRequest, LLMAnalysisResult, LLMProvider, LLMStreamOptions, LLMStreamResult } from './llm'
+import { DEFAULT_ANALYSIS_TEMPERATURE } from '../../supabase/functions/_shared/models.ts'
+import { batchImages } from '../../supabase/functions/_shared/batching.ts'
+import { RUBRIC_DIMENSIONS } from '../../supabase/functions/_shared/rubric.ts'
+import type { Rubric } from '../../supabase/functions/_shared/rubric.ts'
+
+// Offline stand-in for the analysis providers. The output depends only on the
+// request, so the same input always gives the same text and no network is used.
+const MOCK_MODELS = ['mock-summary', 'mock-echo']
+const TOKEN_DELAY_MS = 15
+
+// FNV-1a, enough to tell prompts apart in the output
+function hashText(text: string): string {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+function buildMockAnalysis(request: LLMAnalysisRequest, model: string): string {
+  const prompt = request.customPrompt ?? `template ${request.promptTemplateId ?? 'default'}`
+
+  if (model === 'mock-echo') {
+    return `[mock-echo ${hashText(prompt)}]\n\n${prompt}`
+  }
+
+  const notes = request.fieldNotes
+  const captions = request.images.map(image => image.caption).filter(Boolean)
+  const lines = [
+    `[Mock analysis ${hashText(prompt)} · temperature ${request.temperature ?? DEFAULT_ANALYSIS_TEMPERATURE}]`,
+    '',
+    `${request.facilitatorName} shared ${notes.length} field note${notes.length === 1 ? '' : 's'} and ${request.images.length} photo${request.images.length === 1 ? '' : 's'} this month.`,
+  ]
+
+  if (notes.length > 0) {
+    lines.push('', 'Notes mentioned:')
+    notes.slice(0, 5).forEach(note => lines.push(`- ${note.text.slice(0, 120)}`))
+  }
+  if (captions.length > 0) {
+    lines.push('', 'Photo captions:')
+    captions.slice(0, 5).forEach(caption => lines.push(`- ${caption}`))
+  }
+
+  lines.push('', 'This text was produced by the mock provider and is not a real analysis.')
+  return lines.join('\n')
+}
+
+// Scores derived from the prompt hash, so they change with the prompt but not between runs
+function buildMockRubric(request: LLMAnalysisRequest): Rubric {
+  const prompt = request.customPrompt ?? ''
+  return Object.fromEntries(RUBRIC_DIMENSIONS.map(dimension => {
+    const hash = parseInt(hashText(`${dimension.key}:${prompt}`), 16)
+    return [dimension.key, {
+      score: request.fieldNotes.length === 0 && request.images.length === 0 ? null : (hash % 5) + 1,
+      evidence: `Mock evidence for ${dimension.label.toLowerCase()}.`,
+    }]
+  })) as Rubric
+}
+
+function resultFor(request: LLMAnalysisRequest): LLMAnalysisResult {
+  const model = request.model && MOCK_MODELS.includes(request.model) ? request.model : MOCK_MODELS[0]
+  return {
+    analysis: buildMockAnalysis(request, model),
+    model,
+    temperature: request.temperature ?? DEFAULT_ANALYSIS_TEMPERATURE,
+    imagesCount: batchImages(request.images).reduce((sum, batch) => sum + batch.images.length, 0),
+    imagesTotal: request.images.length,
+    rubric: request.rubric === false ? null : buildMockRubric(request),
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      resolve()
+    }, { once: true })
+  })
+}
+
+async function streamMock(
+  request: LLMAnalysisRequest,
+  { signal, onToken, onProgress }: LLMStreamOptions = {}
+): Promise<LLMStreamResult> {
+  // Scoring happens after the report is written, so a stopped run has no rubric
+  const result = resultFor(request)
+
+  // Walk the same photo batches as the real function, when there is more than one
+  const batches = batchImages(request.images)
+  let imagesAnalysed = 0
+  for (const [index, batch] of (batches.length > 1 ? batches : []).entries()) {
+    await wait(TOKEN_DELAY_MS * 20, signal)
+    if (signal?.aborted) {
+      return { ...result, analysis: '', rubric: null, cancelled: true }
+    }
+    imagesAnalysed += batch.images.length
+    onProgress?.({ batch: index + 1, batchCount: batches.length, imagesAnalysed, imagesTotal: request.images.length })
+  }
+  // Word-sized chunks, keeping the whitespace so the joined text is unchanged
+  const chunks = result.analysis.match(/\S+\s*|\s+/g) ?? []
+  let analysis = ''
+
+  for (const chunk of chunks) {
+    await wait(TOKEN_DELAY_MS, signal)
+    if (signal?.aborted) {
+      return { ...result, analysis, rubric: null, cancelled: true }
+    }
+    analysis += chunk
+    onToken?.(chunk, analysis)
+  }
+
+  return { ...result, cancelled: false }
+}
+
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+  models: MOCK_MODELS,
+  defaultModel: MOCK_MODELS[0],
+  generate: async (request) => resultFor(request),
+  stream: streamMock,
+}
@@ -0,0 +1,3 @@
+// Report month bounds, in the centres' time zone
+export { monthBounds } from '../../supabase/functions/_shared/months.ts'
+export type { MonthBounds } from '../../supabase/functions/_shared/months.ts'
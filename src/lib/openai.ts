@@ -1,111 +1,222 @@
-import OpenAI from 'openai'
-
-const apiKey = import.meta.env.VITE_OPENAI_API_KEY
-
-if (!apiKey) {
-  console.warn('Missing OpenAI API key. LLM features will not work.')
+import { FunctionsHttpError } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import type {
+  LLMAnalysisRequest,
+  LLMAnalysisResult,
+  LLMProvider,
+  LLMStreamOptions,
+  LLMStreamResult,
+} from './llm'
+import { ANALYSIS_MODELS, DEFAULT_ANALYSIS_MODEL, DEFAULT_ANALYSIS_TEMPERATURE } from '../../supabase/functions/_shared/models.ts'
+import type { ProxyProvider } from '../../supabase/functions/_shared/models.ts'
+import type { AnalysisProgress } from '../../supabase/functions/_shared/batching.ts'
+import { parseRubric } from '../../supabase/functions/_shared/rubric.ts'
+
+// Analyses run through the llm-analysis Edge Function, which holds the provider keys.
+// Set VITE_LLM_ANALYSIS_URL to point at a local stand-in endpoint instead.
+const ANALYSIS_FUNCTION = 'llm-analysis'
+const analysisEndpoint = import.meta.env.VITE_LLM_ANALYSIS_URL
+const functionUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${ANALYSIS_FUNCTION}`
+
+// Models served by the OpenAI-compatible server configured on the function, comma-separated
+const compatibleModels = (import.meta.env.VITE_OPENAI_COMPATIBLE_MODELS ?? '')
+  .split(',')
+  .map((model: string) => model.trim())
+  .filter(Boolean)
+
+type ProxyRequest = LLMAnalysisRequest & { provider: ProxyProvider; stream?: boolean }
+
+interface LLMAnalysisResponse extends Partial<Omit<LLMAnalysisResult, 'rubric'>> {
+  rubric?: unknown
+  error?: string
 }
 
-export const openai = apiKey ? new OpenAI({
-  apiKey,
-  dangerouslyAllowBrowser: true // Note: In production, API calls should go through a backend
-}) : null
+type LLMStreamEvent =
+  | ({ type: 'progress' } & AnalysisProgress)
+  | { type: 'delta'; text: string }
+  | ({ type: 'done'; rubric?: unknown } & Omit<LLMAnalysisResult, 'analysis' | 'rubric'>)
+  | { type: 'error'; error: string }
 
-export interface LLMAnalysisRequest {
-  facilitatorName: string
-  fieldNotes: Array<{ timestamp: string; text: string }>
-  images: Array<{ url: string; caption?: string }>
-  customPrompt?: string
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const body = (await response.json()) as LLMAnalysisResponse
+    if (body.error) return body.error
+  } catch {
+    // Fall through to the status text
+  }
+  return `Analysis request failed (${response.status} ${response.statusText})`
 }
 
-export async function generateLLMAnalysis({
-  facilitatorName,
-  fieldNotes,
-  images,
-  customPrompt
-}: LLMAnalysisRequest): Promise<string> {
-  if (!openai) {
-    throw new Error('OpenAI client not initialized. Please check your API key.')
+async function requestHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return {
+    'Content-Type': 'application/json',
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_DEFAULT_KEY,
+    ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
   }
+}
 
-  // Format field notes
-  const fieldNotesText = fieldNotes.length > 0
-    ? fieldNotes.map(note => `[${note.timestamp}] ${note.text}`).join('\n')
-    : 'Limited text messages - analysis should focus primarily on visual documentation.'
-
-  // Use custom prompt or default prompt
-  const prompt = customPrompt || getDefaultPrompt(facilitatorName, fieldNotesText, images.length)
+async function postToEndpoint(url: string, request: ProxyRequest): Promise<LLMAnalysisResponse> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: await requestHeaders(),
+    body: JSON.stringify(request),
+  })
 
-  // Build message content
-  type MessageContent =
-    | { type: 'text'; text: string }
-    | { type: 'image_url'; image_url: { url: string; detail: string } }
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response))
+  }
+  return (await response.json()) as LLMAnalysisResponse
+}
 
-  const content: MessageContent[] = [
-    {
-      type: 'text',
-      text: prompt
-    }
-  ]
-
-  // Add images
-  for (let i = 0; i < Math.min(images.length, 10); i++) {
-    const img = images[i]
-    content.push({
-      type: 'image_url',
-      image_url: {
-        url: img.url,
-        detail: 'high'
-      }
-    })
+async function invokeFunction(request: ProxyRequest): Promise<LLMAnalysisResponse> {
+  const { data, error } = await supabase.functions.invoke<LLMAnalysisResponse>(ANALYSIS_FUNCTION, {
+    body: request,
+  })
 
-    // Add caption if available
-    if (img.caption) {
-      content.push({
-        type: 'text',
-        text: `Caption for image ${i + 1}: ${img.caption}`
-      })
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      throw new Error(await readErrorMessage(error.context as Response))
     }
+    throw error
   }
+  return data ?? {}
+}
 
+async function generateLLMAnalysis(request: ProxyRequest, defaultModel: string): Promise<LLMAnalysisResult> {
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'user',
-          content: content as OpenAI.Chat.Completions.ChatCompletionContentPart[]
-        }
-      ],
-      temperature: 1.0,
-      max_tokens: 4000,
-    })
-
-    return response.choices[0].message.content || 'No analysis generated'
+    const response = analysisEndpoint
+      ? await postToEndpoint(analysisEndpoint, request)
+      : await invokeFunction(request)
+
+    return {
+      analysis: response.analysis || 'No analysis generated',
+      model: response.model ?? request.model ?? defaultModel,
+      temperature: response.temperature ?? request.temperature ?? DEFAULT_ANALYSIS_TEMPERATURE,
+      imagesCount: response.imagesCount ?? request.images.length,
+      imagesTotal: response.imagesTotal ?? request.images.length,
+      rubric: parseRubric(response.rubric),
+    }
   } catch (error) {
-    console.error('OpenAI API error:', error)
+    console.error('LLM analysis error:', error)
     throw error
   }
 }
 
-function getDefaultPrompt(facilitatorName: string, fieldNotesText: string, imagesCount: number): string {
-  return `You are analyzing field notes from a learning facilitator named ${facilitatorName}. The facilitator works with oppressed communities and creates after school learning spaces with a view to build agency. Spaces are designed to be safe, open, joyful and self-determined where learners can make their own decisions.
+// Same as generateLLMAnalysis, but streams tokens through onToken as they arrive.
+// Aborting the signal stops the run and resolves with the partial text instead of throwing.
+async function streamLLMAnalysis(
+  request: ProxyRequest,
+  defaultModel: string,
+  { signal, onToken, onProgress }: LLMStreamOptions = {}
+): Promise<LLMStreamResult> {
+  let analysis = ''
+  let meta: Omit<LLMAnalysisResult, 'analysis'> = {
+    model: request.model ?? defaultModel,
+    temperature: request.temperature ?? DEFAULT_ANALYSIS_TEMPERATURE,
+    imagesCount: request.images.length,
+    imagesTotal: request.images.length,
+    rubric: null,
+  }
 
-CONTEXT: The facilitator has shared photos as well as some field notes. Since facilitators often prefer sending images over text, the visual content is crucial for understanding their work.
+  try {
+    const response = await fetch(analysisEndpoint || functionUrl, {
+      method: 'POST',
+      headers: await requestHeaders(),
+      body: JSON.stringify({ ...request, stream: true }),
+      signal,
+    })
 
-INSTRUCTIONS:
-- Analyze both the images and text messages to understand what is happening at the learning center
-- Observe if the learning center is safe, open, joyful and self-determined
-- Make a note if there is play happening in the learning centers
-- Check if the learning center is different from school like spaces
-- The images show real field work activities - describe what you see and avoid making assumptions
-- Create a comprehensive field work report based on visual evidence and text notes
-- Pay special attention to the visual documentation as it's the primary way this facilitator communicates their work
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response))
+    }
 
-TEXT MESSAGES AND FIELD NOTES:
-${fieldNotesText}
+    // Endpoints that do not stream answer with the whole analysis at once
+    if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      const body = (await response.json()) as LLMAnalysisResponse
+      analysis = body.analysis || 'No analysis generated'
+      onToken?.(analysis, analysis)
+      return {
+        analysis,
+        model: body.model ?? meta.model,
+        temperature: body.temperature ?? meta.temperature,
+        imagesCount: body.imagesCount ?? meta.imagesCount,
+        imagesTotal: body.imagesTotal ?? meta.imagesTotal,
+        rubric: parseRubric(body.rubric),
+        cancelled: false,
+      }
+    }
 
-IMAGES PROVIDED: ${imagesCount} work-related photos showing field activities
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+
+      buffer += value
+      const events = buffer.split('\n\n')
+      buffer = events.pop() ?? ''
+
+      for (const rawEvent of events) {
+        const data = rawEvent.split('\n').find(line => line.startsWith('data: '))
+        if (!data) continue
+
+        const event = JSON.parse(data.slice('data: '.length)) as LLMStreamEvent
+        if (event.type === 'progress') {
+          onProgress?.({
+            batch: event.batch,
+            batchCount: event.batchCount,
+            imagesAnalysed: event.imagesAnalysed,
+            imagesTotal: event.imagesTotal,
+          })
+        } else if (event.type === 'delta') {
+          analysis += event.text
+          onToken?.(event.text, analysis)
+        } else if (event.type === 'done') {
+          meta = {
+            model: event.model,
+            temperature: event.temperature,
+            imagesCount: event.imagesCount,
+            imagesTotal: event.imagesTotal,
+            rubric: parseRubric(event.rubric),
+          }
+        } else {
+          throw new Error(event.error)
+        }
+      }
+    }
 
-Write this as a professional field work assessment report that recognizes the visual documentation as the primary evidence of the facilitator's work and impact. Don't make up any details and don't add any details that are not in the text messages or images. Don't include the messages and photos in the report. You don't have to describe each photo. You don't need to include the purpose or details about the organisation. It's okay if the report is short and doesn't have a lot of details. Do not include any title or date in the report.`
+    return { analysis: analysis || 'No analysis generated', ...meta, cancelled: false }
+  } catch (error) {
+    if (signal?.aborted) {
+      return { analysis, ...meta, cancelled: true }
+    }
+    console.error('LLM analysis stream error:', error)
+    throw error
+  }
+}
+
+function createProxyProvider(
+  id: ProxyProvider,
+  label: string,
+  models: string[],
+  defaultModel: string
+): LLMProvider {
+  return {
+    id,
+    label,
+    models,
+    defaultModel,
+    generate: (request) => generateLLMAnalysis({ ...request, provider: id }, defaultModel),
+    stream: (request, options) => streamLLMAnalysis({ ...request, provider: id }, defaultModel, options),
+  }
 }
+
+export const openAIProvider = createProxyProvider('openai', 'OpenAI', ANALYSIS_MODELS, DEFAULT_ANALYSIS_MODEL)
+
+export const openAICompatibleProvider = createProxyProvider(
+  'openai-compatible',
+  'Self-hosted (OpenAI-compatible)',
+  compatibleModels,
+  compatibleModels[0] ?? ''
+)
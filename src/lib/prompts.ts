@@ -0,0 +1,9 @@
+// Template rendering is shared with the Edge Functions so the playground and
+// server-side report generation fill placeholders identically.
+export {
+  DEFAULT_PROMPT_TEMPLATE,
+  PROMPT_PLACEHOLDERS,
+  formatFieldNotes,
+  renderPromptTemplate,
+} from '../../supabase/functions/_shared/prompts.ts'
+export type { PromptContext } from '../../supabase/functions/_shared/prompts.ts'
@@ -0,0 +1,166 @@
+import { supabase } from './supabase'
+import type { LLMAnalysisRequest } from './llm'
+import { formatFieldNotes, renderPromptTemplate } from './prompts'
+import { canShowPhoto, consentLookup, consentedChildAliases, pseudonymiseAliases, withheldChildren } from './consent'
+import type { ChildAliasRecord } from './childMentions'
+import { withSignedPhotoUrls } from './fieldMedia'
+import { monthBounds } from './months'
+import type {
+  ChildConsentStatus,
+  ChildFieldImageLink,
+  CoordinatorFieldNote,
+  FieldImage,
+  FieldNote,
+  LearningCentre,
+} from '../types/database'
+
+// Everything an analysis prompt is filled from, for one centre-month. Photos and aliases
+// not covered by guardian consent are left out, since the model is a third party. Photo
+// URLs are signed, so the model can load imported photos.
+export interface AnalysisInput {
+  notes: FieldNote[]
+  images: FieldImage[]
+  coordinatorNotes: Pick<CoordinatorFieldNote, 'id' | 'note_text' | 'noted_at'>[]
+  childAliases: string[]
+  // Children at the centre without name consent, whose aliases are pseudonymised in the prompt
+  withheldChildren: ChildAliasRecord[]
+  // Photos from the month left out for lack of photo consent
+  withheldImagesCount: number
+}
+
+export const EMPTY_ANALYSIS_INPUT: AnalysisInput = {
+  notes: [],
+  images: [],
+  coordinatorNotes: [],
+  childAliases: [],
+  withheldChildren: [],
+  withheldImagesCount: 0,
+}
+
+export type AnalysisCentre = Pick<LearningCentre, 'id' | 'centre_name' | 'district' | 'state'>
+
+export interface AnalysisTarget {
+  centre: AnalysisCentre
+  facilitatorName: string
+  year: number
+  month: number
+  generatedReportId?: string
+}
+
+export async function fetchAnalysisInput(centreId: string, year: number, month: number): Promise<AnalysisInput> {
+  const { startIso, endIso } = monthBounds(year, month)
+
+  const [notesResult, imagesResult, coordinatorNotesResult, childrenResult] = await Promise.all([
+    supabase
+      .from('field_notes')
+      .select('*')
+      .eq('learning_centre_id', centreId)
+      .is('duplicate_of', null)
+      .gte('sent_at', startIso)
+      .lt('sent_at', endIso)
+      .order('sent_at', { ascending: true }),
+    supabase
+      .from('field_images')
+      .select('*')
+      .eq('learning_centre_id', centreId)
+      .is('duplicate_of', null)
+      .gte('sent_at', startIso)
+      .lt('sent_at', endIso)
+      .order('sent_at', { ascending: true }),
+    supabase
+      .from('coordinator_field_notes')
+      .select('id, note_text, noted_at')
+      .eq('learning_centre_id', centreId)
+      .gte('noted_at', startIso)
+      .lt('noted_at', endIso)
+      .order('noted_at', { ascending: true }),
+    supabase
+      .from('children')
+      .select('id, alias')
+      .eq('learning_centre_id', centreId)
+  ])
+
+  if (notesResult.error) throw notesResult.error
+  if (imagesResult.error) throw imagesResult.error
+  if (coordinatorNotesResult.error) throw coordinatorNotesResult.error
+  if (childrenResult.error) throw childrenResult.error
+
+  const images = (imagesResult.data || []) as FieldImage[]
+  const children = (childrenResult.data || []) as { id: string; alias: string[] | null }[]
+
+  let links: Pick<ChildFieldImageLink, 'child_id' | 'field_image_id' | 'consent_confirmed'>[] = []
+  if (images.length > 0) {
+    const { data, error } = await supabase
+      .from('child_field_image_links')
+      .select('child_id, field_image_id, consent_confirmed')
+      .in('field_image_id', images.map(image => image.id))
+    if (error) throw error
+    links = data || []
+  }
+
+  // Tagged children may have moved to another centre since, so look them up by id
+  const childIds = [...new Set([...children.map(child => child.id), ...links.map(link => link.child_id)])]
+  let statuses: ChildConsentStatus[] = []
+  if (childIds.length > 0) {
+    const { data, error } = await supabase.from('child_consent_status').select('*').in('child_id', childIds)
+    if (error) throw error
+    statuses = (data || []) as ChildConsentStatus[]
+  }
+  const consents = consentLookup(statuses)
+  const consentedImages = images.filter(image =>
+    canShowPhoto(links.filter(link => link.field_image_id === image.id), consents)
+  )
+
+  return {
+    notes: (notesResult.data || []) as FieldNote[],
+    images: await withSignedPhotoUrls(consentedImages),
+    coordinatorNotes: (coordinatorNotesResult.data || []) as AnalysisInput['coordinatorNotes'],
+    childAliases: consentedChildAliases(children, consents),
+    withheldChildren: withheldChildren(children, consents),
+    withheldImagesCount: images.length - consentedImages.length,
+  }
+}
+
+// Fill a prompt template for a centre-month and build the request. Mentions of children
+// without name consent are replaced by their pseudonyms in everything sent.
+export function buildAnalysisRequest(promptText: string, target: AnalysisTarget, input: AnalysisInput): LLMAnalysisRequest {
+  const { centre, facilitatorName, year, month } = target
+  const pseudonymise = (text: string) => pseudonymiseAliases(text, input.withheldChildren)
+
+  const formattedNotes = input.notes.map(note => ({
+    timestamp: note.sent_at || note.created_at,
+    text: pseudonymise(note.text)
+  }))
+
+  const formattedImages = input.images.map(img => ({
+    url: img.photo_url,
+    caption: img.caption && pseudonymise(img.caption)
+  }))
+
+  const processedPrompt = renderPromptTemplate(promptText, {
+    facilitatorName,
+    fieldNotes: formatFieldNotes(formattedNotes),
+    imagesCount: formattedImages.length,
+    centreName: centre.centre_name,
+    district: centre.district,
+    state: centre.state,
+    month: new Date(year, month - 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+    coordinatorNotes: formatFieldNotes(
+      input.coordinatorNotes.map(note => ({ timestamp: note.noted_at, text: pseudonymise(note.note_text) }))
+    ),
+    childAliases: input.childAliases.join(', '),
+  })
+
+  return {
+    facilitatorName,
+    fieldNotes: formattedNotes,
+    images: formattedImages,
+    customPrompt: processedPrompt,
+    context: {
+      learningCentreId: centre.id,
+      generatedReportId: target.generatedReportId,
+      year,
+      month,
+    },
+  }
+}
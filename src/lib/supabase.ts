@@ -7,4 +7,17 @@ if (!supabaseUrl || !supabsePublishableDefaultKey) {
   throw new Error('Missing Supabase environment variables')
 }
 
-export const supabase = createClient(supabaseUrl, supabsePublishableDefaultKey)
\ No newline at end of file
+export const supabase = createClient(supabaseUrl, supabsePublishableDefaultKey)
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000
+
+// Fetches every row of a query by requesting consecutive ranges until a short page comes back
+export async function fetchAllPages<T>(fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: Error | null }>): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
@@ -0,0 +1,104 @@
+import { RUBRIC_DIMENSIONS } from './llm'
+import type { RubricDimension } from './llm'
+import type { CentreMonthlyActivity } from '../types/database'
+
+export interface TrendMonth {
+  key: string
+  label: string
+  year: number
+  month: number
+  fieldNotes: number
+  images: number
+  scores: Record<RubricDimension, number | null>
+}
+
+export interface TrendWarning {
+  key: string
+  message: string
+}
+
+// Months compared on each side when looking for a drop in activity
+const ACTIVITY_WINDOW = 3
+// A rubric score this far below its recent average counts as slipping
+const SCORE_DROP = 1
+
+function monthIndex(year: number, month: number): number {
+  return year * 12 + (month - 1)
+}
+
+function monthLabel(year: number, month: number): string {
+  return new Date(year, month - 1).toLocaleDateString('en-US', { month: 'short', year: '2-digit' })
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+// One entry per month from the first recorded month to the current one, so
+// months without any notes show up as gaps rather than being skipped
+export function fillMonthlyActivity(rows: CentreMonthlyActivity[], now = new Date()): TrendMonth[] {
+  if (rows.length === 0) return []
+
+  const byIndex = new Map(rows.map(row => [monthIndex(row.year, row.month), row]))
+  const first = Math.min(...byIndex.keys())
+  const last = Math.max(...byIndex.keys(), monthIndex(now.getFullYear(), now.getMonth() + 1))
+
+  const months: TrendMonth[] = []
+  for (let index = first; index <= last; index++) {
+    const year = Math.floor(index / 12)
+    const month = (index % 12) + 1
+    const row = byIndex.get(index)
+    months.push({
+      key: `${year}-${month}`,
+      label: monthLabel(year, month),
+      year,
+      month,
+      fieldNotes: Number(row?.field_notes_count ?? 0),
+      images: Number(row?.images_count ?? 0),
+      scores: Object.fromEntries(RUBRIC_DIMENSIONS.map(dimension => {
+        const score = row?.[`${dimension.key}_score`]
+        return [dimension.key, score == null ? null : Number(score)]
+      })) as Record<RubricDimension, number | null>,
+    })
+  }
+  return months
+}
+
+// Flags a centre whose recent activity or rubric scores dropped noticeably
+export function detectSlips(months: TrendMonth[]): TrendWarning[] {
+  const warnings: TrendWarning[] = []
+
+  // The current month is still in progress, so it is left out of the activity check
+  const complete = months.slice(0, -1)
+  if (complete.length >= ACTIVITY_WINDOW * 2) {
+    const recent = complete.slice(-ACTIVITY_WINDOW)
+    const earlier = complete.slice(-ACTIVITY_WINDOW * 2, -ACTIVITY_WINDOW)
+    const activity = (month: TrendMonth) => month.fieldNotes + month.images
+    const recentAverage = average(recent.map(activity))
+    const earlierAverage = average(earlier.map(activity))
+    if (earlierAverage >= 2 && recentAverage < earlierAverage / 2) {
+      warnings.push({
+        key: 'activity',
+        message: `Notes and photos fell from ${earlierAverage.toFixed(1)} to ${recentAverage.toFixed(1)} per month over the last ${ACTIVITY_WINDOW} months.`,
+      })
+    }
+  }
+
+  RUBRIC_DIMENSIONS.forEach(dimension => {
+    const scored = months.filter(month => month.scores[dimension.key] !== null)
+    if (scored.length < 2) return
+
+    const latest = scored[scored.length - 1]
+    const previous = scored.slice(-1 - ACTIVITY_WINDOW, -1).map(month => month.scores[dimension.key] as number)
+    const previousAverage = average(previous)
+    const latestScore = latest.scores[dimension.key] as number
+    if (previousAverage - latestScore >= SCORE_DROP) {
+      warnings.push({
+        key: dimension.key,
+        message: `${dimension.label} scored ${latestScore.toFixed(1)} in ${latest.label}, down from an average of ${previousAverage.toFixed(1)}.`,
+      })
+    }
+  })
+
+  return warnings
+}
@@ -0,0 +1,187 @@
+// Client-side checks mirroring the column constraints in supabase/migrations, so
+// admins see a field error instead of a Postgres error after submitting.
+
+export type ValidationErrors<T> = Partial<Record<keyof T, string>>
+
+// VARCHAR(255) is the default text column size in the schema
+const MAX_TEXT_LENGTH = 255
+// facilitators.contact_number is VARCHAR(20) NOT NULL
+export const MAX_CONTACT_NUMBER_LENGTH = 20
+
+export interface LearningCentreDraft {
+  centre_name: string
+  area: string
+  city: string
+  district: string
+  state: string
+  country: string
+  start_date: string
+  end_date: string
+}
+
+export interface FacilitatorDraft {
+  name: string
+  contact_number: string
+  email: string
+  start_date: string
+  end_date: string
+  // Comma-separated in the form, stored as TEXT[]
+  alias: string
+}
+
+export interface VolunteerDraft {
+  name: string
+}
+
+export interface CoordinatorDraft {
+  name: string
+  contact: string
+  // Dashboard login linked to the coordinator, '' for none
+  user_id: string
+}
+
+export interface ChildDraft {
+  name: string
+  // Comma-separated in the form, stored as TEXT[]
+  alias: string
+  // Date the child left the centre, '' while attending
+  left_at: string
+}
+
+export interface ChildConsentDraft {
+  photo_consent: boolean
+  name_display_consent: boolean
+  consented_on: string
+  // '' when the consent does not expire
+  expires_on: string
+  guardian_name: string
+  // '' until the guardian has confirmed the form
+  guardian_acknowledged_on: string
+  notes: string
+}
+
+export interface PartnerOrganisationDraft {
+  name: string
+  url: string
+  contact: string
+  logo_url: string
+}
+
+function checkText(value: string, label: string, required: boolean): string | undefined {
+  const trimmed = value.trim()
+  if (required && !trimmed) return `${label} is required`
+  if (trimmed.length > MAX_TEXT_LENGTH) return `${label} must be at most ${MAX_TEXT_LENGTH} characters`
+  return undefined
+}
+
+function checkDateOrder(startDate: string, endDate: string): string | undefined {
+  if (startDate && endDate && endDate < startDate) return 'End date must be on or after the start date'
+  return undefined
+}
+
+function checkUrl(value: string, label: string): string | undefined {
+  if (!value.trim()) return undefined
+  try {
+    const url = new URL(value.trim())
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return `${label} must start with http:// or https://`
+  } catch {
+    return `${label} must be a full URL, e.g. https://example.org`
+  }
+  return undefined
+}
+
+function compact<T>(errors: ValidationErrors<T>): ValidationErrors<T> {
+  return Object.fromEntries(Object.entries(errors).filter(([, message]) => message)) as ValidationErrors<T>
+}
+
+export function hasErrors<T>(errors: ValidationErrors<T>): boolean {
+  return Object.keys(errors).length > 0
+}
+
+export function validateLearningCentre(draft: LearningCentreDraft): ValidationErrors<LearningCentreDraft> {
+  return compact<LearningCentreDraft>({
+    centre_name: checkText(draft.centre_name, 'Centre name', true),
+    area: checkText(draft.area, 'Area', true),
+    city: checkText(draft.city, 'City', true),
+    district: checkText(draft.district, 'District', true),
+    state: checkText(draft.state, 'State', true),
+    country: checkText(draft.country, 'Country', true),
+    start_date: draft.start_date ? undefined : 'Start date is required',
+    end_date: checkDateOrder(draft.start_date, draft.end_date),
+  })
+}
+
+export function validateFacilitator(draft: FacilitatorDraft): ValidationErrors<FacilitatorDraft> {
+  const contactNumber = draft.contact_number.trim()
+  let contactError: string | undefined
+  if (!contactNumber) {
+    contactError = 'Contact number is required'
+  } else if (contactNumber.length > MAX_CONTACT_NUMBER_LENGTH) {
+    contactError = `Contact number must be at most ${MAX_CONTACT_NUMBER_LENGTH} characters`
+  }
+
+  const email = draft.email.trim()
+  return compact<FacilitatorDraft>({
+    name: checkText(draft.name, 'Name', true),
+    contact_number: contactError,
+    email: checkText(email, 'Email', false) ?? (email && !/^[^\s@]+@[^\s@]+$/.test(email) ? 'Enter a valid email address' : undefined),
+    end_date: checkDateOrder(draft.start_date, draft.end_date),
+  })
+}
+
+export function validateVolunteer(draft: VolunteerDraft): ValidationErrors<VolunteerDraft> {
+  return compact<VolunteerDraft>({
+    name: checkText(draft.name, 'Name', true),
+  })
+}
+
+export function validateCoordinator(draft: CoordinatorDraft): ValidationErrors<CoordinatorDraft> {
+  return compact<CoordinatorDraft>({
+    name: checkText(draft.name, 'Name', true),
+    contact: checkText(draft.contact, 'Contact', false),
+  })
+}
+
+export function validateChild(draft: ChildDraft): ValidationErrors<ChildDraft> {
+  const today = new Date().toISOString().slice(0, 10)
+  return compact<ChildDraft>({
+    name: checkText(draft.name, 'Name', true),
+    left_at: draft.left_at && draft.left_at > today ? 'Left date cannot be in the future' : undefined,
+  })
+}
+
+export function validateChildConsent(draft: ChildConsentDraft): ValidationErrors<ChildConsentDraft> {
+  const today = new Date().toISOString().slice(0, 10)
+  return compact<ChildConsentDraft>({
+    consented_on: !draft.consented_on
+      ? 'Consent date is required'
+      : draft.consented_on > today ? 'Consent date cannot be in the future' : undefined,
+    expires_on: draft.expires_on && draft.expires_on < draft.consented_on
+      ? 'Expiry date must be on or after the consent date'
+      : undefined,
+    guardian_name: checkText(draft.guardian_name, 'Guardian name', false),
+    guardian_acknowledged_on: draft.guardian_acknowledged_on && draft.guardian_acknowledged_on > today
+      ? 'Acknowledgement date cannot be in the future'
+      : undefined,
+  })
+}
+
+export function validatePartnerOrganisation(draft: PartnerOrganisationDraft): ValidationErrors<PartnerOrganisationDraft> {
+  return compact<PartnerOrganisationDraft>({
+    name: checkText(draft.name, 'Name', true),
+    contact: checkText(draft.contact, 'Contact', false),
+    url: checkUrl(draft.url, 'Website'),
+    logo_url: checkUrl(draft.logo_url, 'Logo URL'),
+  })
+}
+
+// Splits a comma-separated alias field, dropping blanks
+export function parseAliases(value: string): string[] {
+  return value.split(',').map(alias => alias.trim()).filter(Boolean)
+}
+
+// Empty optional fields are stored as NULL rather than ''
+export function emptyToNull(value: string): string | null {
+  const trimmed = value.trim()
+  return trimmed ? trimmed : null
+}
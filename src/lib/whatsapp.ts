@@ -0,0 +1,234 @@
+// Reads a WhatsApp "Export chat" file (the _chat.txt, or the zip holding it and the media)
+// into messages that can be stored as field notes and photos. Exports differ by platform
+// and phone locale: iOS writes "[12/03/2024, 14:05:33] Name: text", Android writes
+// "12/03/2024, 2:05 pm - Name: text", and either may put the month first.
+
+import { unzipSync } from 'fflate'
+import type { Facilitator } from '../types/database'
+
+export type DateOrder = 'dmy' | 'mdy' | 'ymd'
+
+export interface ChatMessage {
+  // Position in the chat, used as a stable key
+  index: number
+  sender: string
+  sent_at: string
+  text: string
+  // Name of the attached file when the message carries one
+  attachment?: string
+}
+
+export interface ParsedChat {
+  messages: ChatMessage[]
+  dateOrder: DateOrder
+  // Lines that start a message but carry no sender, such as "X added Y"
+  systemMessages: number
+}
+
+export interface ChatExport {
+  chatText: string
+  // Attached files by name, without any folder the zip puts them in
+  media: Map<string, Uint8Array>
+}
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  dmy: 'Day / Month / Year',
+  mdy: 'Month / Day / Year',
+  ymd: 'Year / Month / Day',
+}
+
+// Photo types browsers can show; other attachments (videos, voice notes, documents) are skipped
+export const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+}
+
+// Direction and embedding marks WhatsApp puts around names, numbers and system lines
+const INVISIBLE_MARKS = /[\u200E\u200F\u202A-\u202E\u2066-\u2069\uFEFF]/g
+
+const LEADING_MARKS = /^[\u200E\u200F]+/
+
+// Date, time with optional seconds and AM/PM, in brackets (iOS) or followed by " - " (Android)
+const MESSAGE_START = new RegExp(
+  '^(\\[)?(\\d{1,4})[./-](\\d{1,2})[./-](\\d{1,4}),?\\s+(\\d{1,2})[:.](\\d{2})(?:[:.](\\d{2}))?' +
+    '(?:[\\s\\u202F]*([ap])\\.?\\s?m\\.?)?(\\])?(?:\\s[-\\u2013]\\s|\\s)(.*)$',
+  'i'
+)
+
+const ATTACHMENT_PATTERNS = [
+  /<attached:\s*([^>]+)>/i,
+  /^(\S+\.[a-z0-9]{2,5}) \(file attached\)/im,
+]
+
+// Messages exported without their media, or removed by the sender
+const SKIPPED_TEXT = [
+  /^<media omitted>$/i,
+  /^(image|video|audio|sticker|gif|document) omitted$/i,
+  /^this message was deleted\.?$/i,
+  /^you deleted this message\.?$/i,
+]
+
+const EDITED_SUFFIX = /\s*<this message was edited>$/i
+
+interface MessageStart {
+  parts: [number, number, number]
+  hour: number
+  minute: number
+  second: number
+  meridiem?: string
+  rest: string
+}
+
+function matchStart(line: string): MessageStart | null {
+  const match = line.replace(LEADING_MARKS, '').match(MESSAGE_START)
+  if (!match) return null
+  const [, open, a, b, c, hour, minute, second, meridiem, close, rest] = match
+  if (Boolean(open) !== Boolean(close)) return null
+  return {
+    parts: [Number(a), Number(b), Number(c)],
+    hour: Number(hour),
+    minute: Number(minute),
+    second: Number(second ?? 0),
+    meridiem: meridiem?.toLowerCase(),
+    rest,
+  }
+}
+
+// A day above 12 settles whether the day or month comes first; chats where it never does
+// are read day first, the usual order for Indian phones
+export function detectDateOrder(chatText: string): DateOrder {
+  let order: DateOrder | null = null
+  for (const line of chatText.split(/\r?\n/)) {
+    const start = matchStart(line)
+    if (!start) continue
+    const [a, b] = start.parts
+    if (a > 31) return 'ymd'
+    if (a > 12) order = order ?? 'dmy'
+    if (b > 12) order = order ?? 'mdy'
+  }
+  return order ?? 'dmy'
+}
+
+function toIsoDate(start: MessageStart, order: DateOrder): string | null {
+  const [a, b, c] = start.parts
+  const [year, month, day] = order === 'ymd' ? [a, b, c] : order === 'mdy' ? [c, a, b] : [c, b, a]
+  let hour = start.hour
+  if (start.meridiem === 'p' && hour < 12) hour += 12
+  if (start.meridiem === 'a' && hour === 12) hour = 0
+
+  // Times are in the phone's local zone, taken to be the importer's
+  const date = new Date(year < 100 ? 2000 + year : year, month - 1, day, hour, start.minute, start.second)
+  if (Number.isNaN(date.getTime()) || date.getDate() !== day || date.getMonth() !== month - 1) return null
+  return date.toISOString()
+}
+
+function splitSender(rest: string): { sender: string; text: string } | null {
+  const separator = rest.indexOf(': ')
+  if (separator <= 0) return null
+  return { sender: rest.slice(0, separator).replace(INVISIBLE_MARKS, '').trim(), text: rest.slice(separator + 2) }
+}
+
+function finishMessage(message: ChatMessage): ChatMessage | null {
+  let text = message.text.replace(EDITED_SUFFIX, '').trim()
+  for (const pattern of ATTACHMENT_PATTERNS) {
+    const match = text.match(pattern)
+    if (match) {
+      message.attachment = match[1].trim()
+      text = text.replace(match[0], '').trim()
+      break
+    }
+  }
+  if (!message.attachment && SKIPPED_TEXT.some(pattern => pattern.test(text))) return null
+  message.text = text
+  return message.text || message.attachment ? message : null
+}
+
+// Lines that do not start with a timestamp continue the message above them
+export function parseChat(chatText: string, dateOrder = detectDateOrder(chatText)): ParsedChat {
+  const messages: ChatMessage[] = []
+  let current: ChatMessage | null = null
+  let systemMessages = 0
+  let index = 0
+
+  const flush = () => {
+    const message = current && finishMessage(current)
+    if (message) messages.push(message)
+    current = null
+  }
+
+  for (const rawLine of chatText.split(/\r?\n/)) {
+    const start = matchStart(rawLine)
+    if (!start) {
+      if (current) current.text += `\n${rawLine.replace(INVISIBLE_MARKS, '')}`
+      continue
+    }
+
+    flush()
+    const sentAt = toIsoDate(start, dateOrder)
+    const parts = splitSender(start.rest)
+    // iOS marks its own notices, such as the encryption banner, with a leading direction
+    // mark; it marks attachments the same way
+    const isNotice = !!parts && parts.text.startsWith('\u200E') && !/<attached:/i.test(parts.text)
+    if (!sentAt || !parts || isNotice) {
+      systemMessages++
+      continue
+    }
+    current = { index: index++, sender: parts.sender, sent_at: sentAt, text: parts.text.replace(INVISIBLE_MARKS, '') }
+  }
+  flush()
+
+  return { messages, dateOrder, systemMessages }
+}
+
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1)
+}
+
+// Accepts the exported zip or the chat text on its own. Zips hold "_chat.txt" (iOS) or
+// "WhatsApp Chat with <name>.txt" (Android).
+export async function readChatExport(file: File): Promise<ChatExport> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  if (!file.name.toLowerCase().endsWith('.zip')) {
+    return { chatText: new TextDecoder().decode(bytes), media: new Map() }
+  }
+
+  const entries = unzipSync(bytes, { filter: entry => !entry.name.startsWith('__MACOSX/') })
+  const names = Object.keys(entries).filter(name => !name.endsWith('/'))
+  const chatName =
+    names.find(name => fileName(name) === '_chat.txt') ?? names.find(name => name.toLowerCase().endsWith('.txt'))
+  if (!chatName) throw new Error('No chat text file was found in the zip')
+
+  const media = new Map<string, Uint8Array>()
+  names.filter(name => name !== chatName).forEach(name => media.set(fileName(name), entries[name]))
+  return { chatText: new TextDecoder().decode(entries[chatName]), media }
+}
+
+export function imageType(name: string): string | undefined {
+  return IMAGE_TYPES[name.slice(name.lastIndexOf('.') + 1).toLowerCase()]
+}
+
+function phoneDigits(value: string): string {
+  return value.replace(/\D/g, '')
+}
+
+function nameKey(value: string): string {
+  return value.replace(INVISIBLE_MARKS, '').trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+// Senders appear as the contact's saved name or, when unsaved, as their number. Numbers
+// are compared on their last ten digits so country codes and spacing do not matter.
+export function matchFacilitator(sender: string, facilitators: Facilitator[]): Facilitator | undefined {
+  const digits = phoneDigits(sender)
+  if (digits.length >= 10 && digits.length === sender.replace(INVISIBLE_MARKS, '').replace(/[\s+()-]/g, '').length) {
+    return facilitators.find(f => {
+      const contact = phoneDigits(f.contact_number ?? '')
+      return contact.length >= 10 && contact.slice(-10) === digits.slice(-10)
+    })
+  }
+
+  const key = nameKey(sender)
+  return facilitators.find(f => [f.name, ...(f.alias ?? [])].some(name => name && nameKey(name) === key))
+}
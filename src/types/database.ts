@@ -4,6 +4,24 @@ export interface District {
   learning_centres_count: number;
 }
 
+export interface DistrictMetrics {
+  state: string;
+  district: string;
+  centres_count: number;
+  active_centres_count: number;
+  ended_centres_count: number;
+  facilitators_count: number;
+  // Facilitators behind facilitators_count; one can work in several districts
+  facilitator_ids: string[];
+  children_count: number;
+  field_notes_count: number;
+  images_count: number;
+  centre_months: number;
+  reported_centre_months: number;
+  reports_count: number;
+  analysed_reports_count: number;
+}
+
 export interface DistrictPartnerOrganisation {
   id: string;
   district: string;
@@ -48,6 +66,7 @@ export interface Coordinator {
   id: string;
   name: string;
   contact?: string;
+  user_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -59,16 +78,85 @@ export interface CoordinatorFieldNote {
   note_text: string;
   noted_at: string;
   created_at: string;
+  created_by?: string | null;
+  updated_at?: string;
 }
 
 export interface Child {
   id: string;
   learning_centre_id: string;
+  name?: string;
   alias?: string[];
+  left_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface ChildCentreEnrolment {
+  id: string;
+  child_id: string;
+  learning_centre_id: string;
+  started_on: string;
+  ended_on?: string | null;
+  created_at: string;
+}
+
+// Rows of list_child_timeline_notes, from any centre the child attended
+export interface ChildTimelineNote {
+  id: string;
+  kind: 'facilitator' | 'coordinator';
+  dated_at: string;
+  author: string;
+  body: string;
+  learning_centre_id: string;
+  // False when the caller cannot otherwise see the centre the note was written for
+  centre_visible: boolean;
+  // Children at that centre without name consent, whose aliases must not be shown
+  withheld_children: { id: string; alias: string[] | null }[];
+}
+
+// Rows of list_child_timeline_photos; photo_url is null unless every tagged child has photo consent
+export interface ChildTimelinePhoto {
+  id: string;
+  dated_at: string;
+  author: string;
+  caption: string;
+  learning_centre_id: string;
+  centre_visible: boolean;
+  photo_url: string | null;
+  withheld_children: { id: string; alias: string[] | null }[];
+}
+
+export type ChildHistoryAction = 'created' | 'alias_added' | 'alias_removed' | 'merged' | 'left' | 'returned' | 'moved';
+
+export interface ChildHistoryEntry {
+  id: string;
+  child_id: string;
+  learning_centre_id: string;
+  action: ChildHistoryAction;
+  details: Record<string, unknown>;
+  changed_by?: string | null;
+  changed_at: string;
+  changed_by_profile?: Pick<UserProfile, 'display_name' | 'email'> | null;
+}
+
+export type ChildMentionSuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface ChildMentionSuggestion {
+  id: string;
+  child_id: string;
+  learning_centre_id: string;
+  field_note_id?: string | null;
+  coordinator_field_note_id?: string | null;
+  matched_alias: string;
+  matched_text: string;
+  status: ChildMentionSuggestionStatus;
+  created_by?: string | null;
+  created_at: string;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+}
+
 export interface ChildFieldNoteLink {
   id: string;
   child_id: string;
@@ -77,14 +165,65 @@ export interface ChildFieldNoteLink {
   created_at: string;
 }
 
+export interface ChildFieldImageLink {
+  id: string;
+  child_id: string;
+  field_image_id: string;
+  consent_confirmed: boolean;
+  share_externally: boolean;
+  tagged_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChildConsent {
+  id: string;
+  child_id: string;
+  photo_consent: boolean;
+  name_display_consent: boolean;
+  consented_on: string;
+  expires_on?: string | null;
+  guardian_name?: string | null;
+  guardian_acknowledged_on?: string | null;
+  notes?: string | null;
+  recorded_by?: string | null;
+  created_at: string;
+  recorded_by_profile?: Pick<UserProfile, 'display_name' | 'email'> | null;
+}
+
+// A child with their latest consent record; the consent columns are null when none was recorded
+export interface ChildConsentStatus {
+  child_id: string;
+  learning_centre_id: string;
+  centre_name: string;
+  state: string;
+  district: string;
+  alias?: string[] | null;
+  left_at?: string | null;
+  consent_id?: string | null;
+  photo_consent?: boolean | null;
+  name_display_consent?: boolean | null;
+  consented_on?: string | null;
+  expires_on?: string | null;
+  guardian_name?: string | null;
+  guardian_acknowledged_on?: string | null;
+  consent_current: boolean;
+  photo_consent_current: boolean;
+  name_consent_current: boolean;
+}
+
 export interface FieldImage {
   id: string;
   learning_centre_id: string;
   facilitator_id?: string | null;
+  // A URL, or for imported photos an object path in the private field-media bucket
   photo_url: string;
   caption?: string;
   sent_at?: string;
   created_at: string;
+  perceptual_hash?: string | null;
+  // Set once the photo is confirmed to duplicate another
+  duplicate_of?: string | null;
 }
 
 export interface FieldNote {
@@ -94,6 +233,28 @@ export interface FieldNote {
   text: string;
   sent_at?: string;
   created_at: string;
+  content_hash?: string | null;
+  // Set once the note is confirmed to duplicate another
+  duplicate_of?: string | null;
+}
+
+export type FieldDuplicateStatus = 'pending' | 'merged' | 'dismissed';
+
+export interface FieldDuplicateCandidate {
+  id: string;
+  learning_centre_id: string;
+  kind: 'note' | 'image';
+  original_field_note_id?: string | null;
+  duplicate_field_note_id?: string | null;
+  original_field_image_id?: string | null;
+  duplicate_field_image_id?: string | null;
+  method: 'exact' | 'near' | 'perceptual';
+  similarity: number;
+  status: FieldDuplicateStatus;
+  created_by?: string | null;
+  created_at: string;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
 }
 
 export interface LearningCentreVolunteer {
@@ -133,6 +294,51 @@ export interface GeneratedReport {
   month_year_display: string;
 }
 
+export type LLMAnalysisReviewStatus = 'draft' | 'in_review' | 'approved' | 'rejected';
+
+// 'replaced' is recorded when analysing the report again discards an edited or reviewed analysis
+export type LLMAnalysisReviewAction = 'edited' | 'submitted' | 'approved' | 'rejected' | 'reopened' | 'replaced';
+
+export interface ReportLLMAnalysis {
+  id: string;
+  generated_report_id: string;
+  // Shown text, including reviewer edits; original_text keeps the model output
+  text: string;
+  original_text: string;
+  created_at: string;
+  prompt_text?: string | null;
+  model?: string | null;
+  temperature?: number | null;
+  images_count?: number | null;
+  rubric?: unknown;
+  review_status: LLMAnalysisReviewStatus;
+  edited_by?: string | null;
+  edited_at?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+}
+
+export interface LLMAnalysisReview {
+  id: string;
+  generated_report_id: string;
+  analysis_id?: string | null;
+  action: LLMAnalysisReviewAction;
+  comment?: string | null;
+  created_by?: string | null;
+  created_at: string;
+  created_by_profile?: Pick<UserProfile, 'display_name' | 'email'> | null;
+}
+
+// One row per facilitator with activity in the month, from generate_monthly_reports.
+// facilitator_id and report_id are null for notes and photos that could not be attributed.
+export interface MonthlyReportGeneration {
+  facilitator_id: string | null;
+  report_id: string | null;
+  created: boolean;
+  field_notes_count: number;
+  images_count: number;
+}
+
 export interface ComprehensiveReport {
   id: string;
   facilitator_id: string;
@@ -157,3 +363,218 @@ export interface ComprehensiveReport {
   actual_messages_count: number;
   has_actual_llm_analysis: boolean;
 }
+
+export type UserRole = 'admin' | 'coordinator' | 'partner_viewer';
+
+export interface UserProfile {
+  id: string;
+  email?: string | null;
+  display_name?: string | null;
+  role: UserRole;
+  partner_organisation_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UserDistrictAccess {
+  id: string;
+  user_id: string;
+  district: string;
+  state: string;
+  created_at: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  body: string;
+  changelog?: string | null;
+  is_default: boolean;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface PromptComparisonVariant {
+  label: string;
+  prompt_text: string;
+  prompt_template_id?: string | null;
+  provider?: string;
+  model: string;
+  temperature: number;
+  output: string;
+}
+
+export interface PromptComparison {
+  id: string;
+  learning_centre_id: string;
+  month: number;
+  year: number;
+  variants: PromptComparisonVariant[];
+  preferred_variant: number;
+  notes?: string | null;
+  reviewer_id: string;
+  created_at: string;
+}
+
+export interface PromptTemplatePreference {
+  prompt_template_id: string;
+  times_compared: number;
+  times_preferred: number;
+}
+
+export type LLMRunStatus = 'succeeded' | 'failed' | 'cancelled';
+
+export interface LLMRun {
+  id: string;
+  user_id?: string | null;
+  provider: string;
+  model: string;
+  status: LLMRunStatus;
+  prompt_tokens: number;
+  completion_tokens: number;
+  images_count: number;
+  batch_count: number;
+  latency_ms: number;
+  estimated_cost_usd?: number | null;
+  error?: string | null;
+  learning_centre_id?: string | null;
+  generated_report_id?: string | null;
+  year?: number | null;
+  month?: number | null;
+  created_at: string;
+}
+
+export interface LLMUsageSummary {
+  year: number;
+  month: number;
+  learning_centre_id?: string | null;
+  centre_name?: string | null;
+  user_id?: string | null;
+  user_name?: string | null;
+  model: string;
+  runs: number;
+  failed_runs: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  images_count: number;
+  avg_latency_ms: number;
+  estimated_cost_usd?: number | null;
+}
+
+export interface CentreMonthlyActivity {
+  learning_centre_id: string;
+  year: number;
+  month: number;
+  field_notes_count: number;
+  images_count: number;
+  safe_score?: number | null;
+  open_score?: number | null;
+  joyful_score?: number | null;
+  self_determined_score?: number | null;
+  play_score?: number | null;
+  different_from_school_score?: number | null;
+}
+
+export interface ReportCoverageMonth {
+  learning_centre_id: string;
+  year: number;
+  month: number;
+  field_notes_count: number;
+  images_count: number;
+  reports_count: number;
+  analysed_reports_count: number;
+  report_id: string | null;
+}
+
+export type AnalysisJobItemStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface AnalysisJob {
+  id: string;
+  year: number;
+  month: number;
+  state?: string | null;
+  district?: string | null;
+  prompt_template_id?: string | null;
+  model?: string | null;
+  temperature?: number | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+export interface AnalysisJobSummary extends AnalysisJob {
+  items_count: number;
+  queued_count: number;
+  running_count: number;
+  succeeded_count: number;
+  failed_count: number;
+}
+
+export interface AnalysisJobItem {
+  id: string;
+  job_id: string;
+  generated_report_id: string;
+  learning_centre_id: string;
+  status: AnalysisJobItemStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_at?: string | null;
+  locked_by?: string | null;
+  last_error?: string | null;
+  finished_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CommentTargetType = 'generated_report' | 'field_note' | 'field_image' | 'coordinator_field_note';
+
+export interface Comment {
+  id: string;
+  learning_centre_id: string;
+  generated_report_id?: string | null;
+  field_note_id?: string | null;
+  field_image_id?: string | null;
+  coordinator_field_note_id?: string | null;
+  // Top-level comment this one replies to
+  parent_id?: string | null;
+  body: string;
+  created_by?: string | null;
+  created_at: string;
+  mentions?: { user_id: string }[];
+  // Only ever the signed-in user's read receipt
+  reads?: { user_id: string }[];
+}
+
+// Comment counts for one commented item, with the signed-in user's unread counts
+export interface CommentThreadStatus {
+  learning_centre_id: string;
+  generated_report_id?: string | null;
+  field_note_id?: string | null;
+  field_image_id?: string | null;
+  coordinator_field_note_id?: string | null;
+  comments_count: number;
+  unread_count: number;
+  unread_mentions_count: number;
+  last_comment_at: string;
+}
+
+export interface CommentParticipant {
+  id: string;
+  name: string;
+}
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditLogEntry {
+  id: string;
+  table_name: string;
+  record_id: string;
+  learning_centre_id?: string | null;
+  action: AuditAction;
+  changed_by?: string | null;
+  old_data?: Record<string, unknown> | null;
+  new_data?: Record<string, unknown> | null;
+  changed_at: string;
+  changed_by_profile?: Pick<UserProfile, 'display_name' | 'email'> | null;
+}
@@ -0,0 +1,188 @@
+// Model calls shared by the llm-analysis proxy and the analysis-worker queue: photo
+// batching, the final report, rubric scoring and run accounting.
+import OpenAI from 'npm:openai@6'
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import type { ProxyProvider } from './models.ts'
+import { buildBatchPrompt, buildReducePrompt } from './batching.ts'
+import type { AnalysisProgress, ImageBatch } from './batching.ts'
+import { estimateCostUsd } from './pricing.ts'
+import { RUBRIC_JSON_SCHEMA, buildRubricPrompt, parseRubric } from './rubric.ts'
+import type { Rubric } from './rubric.ts'
+import type { TokenUsage } from './pricing.ts'
+
+// What the run was for, so usage can be broken down by report cycle and centre
+export interface AnalysisContext {
+  learningCentreId?: string
+  generatedReportId?: string
+  year?: number
+  month?: number
+}
+
+type ContentPart = OpenAI.Chat.Completions.ChatCompletionContentPart
+export interface AnalysisImage {
+  url: string
+  caption?: string
+}
+
+export interface RunSettings {
+  client: OpenAI
+  signal: AbortSignal
+  provider: ProxyProvider
+  model: string
+  temperature: number
+  // Summed over every model call of the run
+  usage: TokenUsage
+}
+
+export function addUsage(settings: RunSettings, usage: OpenAI.CompletionUsage | null | undefined) {
+  if (!usage) return
+  settings.usage.promptTokens += usage.prompt_tokens
+  settings.usage.completionTokens += usage.completion_tokens
+}
+
+export interface RunRecord {
+  // Null for queued runs whose job has no creator left
+  userId: string | null
+  context: AnalysisContext
+  startedAt: number
+  imagesCount: number
+  batchCount: number
+}
+
+// Logging must never fail the analysis itself, so errors are only reported
+export async function recordRun(
+  serviceClient: SupabaseClient,
+  settings: RunSettings,
+  record: RunRecord,
+  status: 'succeeded' | 'failed' | 'cancelled',
+  error?: unknown,
+) {
+  const { error: insertError } = await serviceClient.from('llm_runs').insert({
+    user_id: record.userId,
+    provider: settings.provider,
+    model: settings.model,
+    status,
+    prompt_tokens: settings.usage.promptTokens,
+    completion_tokens: settings.usage.completionTokens,
+    images_count: record.imagesCount,
+    batch_count: record.batchCount,
+    latency_ms: Date.now() - record.startedAt,
+    estimated_cost_usd: estimateCostUsd(settings.model, settings.usage),
+    error: error ? errorMessage(error) : null,
+    learning_centre_id: record.context.learningCentreId ?? null,
+    generated_report_id: record.context.generatedReportId ?? null,
+    year: record.context.year ?? null,
+    month: record.context.month ?? null,
+  })
+  if (insertError) {
+    console.error('Recording llm run failed:', insertError)
+  }
+}
+
+function imageContent(batch: ImageBatch<AnalysisImage>): ContentPart[] {
+  return batch.images.flatMap((img, i): ContentPart[] => [
+    { type: 'image_url', image_url: { url: img.url, detail: 'high' } },
+    ...(img.caption
+      ? [{ type: 'text' as const, text: `Caption for image ${batch.firstImageNumber + i}: ${img.caption}` }]
+      : []),
+  ])
+}
+
+// Small months go to the model in one call. Larger ones are described batch by
+// batch first and only the descriptions reach the final prompt.
+export async function buildFinalContent(
+  settings: RunSettings,
+  prompt: string,
+  batches: ImageBatch<AnalysisImage>[],
+  imagesTotal: number,
+  onProgress?: (progress: AnalysisProgress) => void,
+): Promise<ContentPart[]> {
+  if (batches.length <= 1) {
+    return [{ type: 'text', text: prompt }, ...(batches[0] ? imageContent(batches[0]) : [])]
+  }
+
+  const summaries: string[] = []
+  let imagesAnalysed = 0
+  for (const [index, batch] of batches.entries()) {
+    const response = await settings.client.chat.completions.create(
+      {
+        model: settings.model,
+        messages: [{
+          role: 'user',
+          content: [{ type: 'text', text: buildBatchPrompt(batch, index, batches.length) }, ...imageContent(batch)],
+        }],
+        temperature: settings.temperature,
+        max_tokens: 1000,
+      },
+      { signal: settings.signal },
+    )
+    addUsage(settings, response.usage)
+    summaries.push(response.choices[0].message.content || 'No description generated.')
+    imagesAnalysed += batch.images.length
+    onProgress?.({ batch: index + 1, batchCount: batches.length, imagesAnalysed, imagesTotal })
+  }
+
+  return [{ type: 'text', text: buildReducePrompt(prompt, summaries, batches) }]
+}
+
+// Scores the rubric from the finished report and the notes, without resending the
+// photos. Servers without structured output support just leave the rubric out.
+export async function scoreRubric(settings: RunSettings, analysis: string, fieldNotes: string): Promise<Rubric | null> {
+  try {
+    const response = await settings.client.chat.completions.create(
+      {
+        model: settings.model,
+        messages: [{ role: 'user', content: buildRubricPrompt(analysis, fieldNotes) }],
+        temperature: 0,
+        max_tokens: 1500,
+        response_format: { type: 'json_schema', json_schema: RUBRIC_JSON_SCHEMA },
+      },
+      { signal: settings.signal },
+    )
+    addUsage(settings, response.usage)
+    const rubric = parseRubric(JSON.parse(response.choices[0].message.content ?? 'null'))
+    if (!rubric) {
+      console.error('Rubric response did not match the schema')
+    }
+    return rubric
+  } catch (error) {
+    if (settings.signal.aborted) throw error
+    console.error('Rubric scoring failed:', error)
+    return null
+  }
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'OpenAI request failed'
+}
+
+export interface AnalysisOutput {
+  analysis: string
+  // Null when not requested or the provider could not produce one
+  rubric: Rubric | null
+}
+
+// One complete run without streaming: photo batches, the report, then the rubric when
+// rubricNotes is given
+export async function generateAnalysis(
+  settings: RunSettings,
+  prompt: string,
+  batches: ImageBatch<AnalysisImage>[],
+  imagesTotal: number,
+  rubricNotes: string | null,
+): Promise<AnalysisOutput> {
+  const content = await buildFinalContent(settings, prompt, batches, imagesTotal)
+  const response = await settings.client.chat.completions.create(
+    {
+      model: settings.model,
+      messages: [{ role: 'user', content }],
+      temperature: settings.temperature,
+      max_tokens: 4000,
+    },
+    { signal: settings.signal },
+  )
+  addUsage(settings, response.usage)
+  const analysis = response.choices[0].message.content
+  const rubric = rubricNotes !== null && analysis ? await scoreRubric(settings, analysis, rubricNotes) : null
+  return { analysis: analysis || 'No analysis generated', rubric }
+}
@@ -0,0 +1,50 @@
+// Map-reduce over photos: large months are split into batches that are described
+// one at a time, and the batch descriptions replace the photos in the final prompt.
+// Shared with the dashboard's mock provider so both batch the same way.
+
+export const IMAGES_PER_BATCH = 10
+
+export interface AnalysisProgress {
+  batch: number
+  batchCount: number
+  imagesAnalysed: number
+  imagesTotal: number
+}
+
+export interface ImageBatch<T> {
+  // 1-based number of the first image, for captions and prompts
+  firstImageNumber: number
+  images: T[]
+}
+
+export function batchImages<T>(images: T[], size = IMAGES_PER_BATCH): ImageBatch<T>[] {
+  const batches: ImageBatch<T>[] = []
+  for (let i = 0; i < images.length; i += size) {
+    batches.push({ firstImageNumber: i + 1, images: images.slice(i, i + size) })
+  }
+  return batches
+}
+
+// index is the batch's 0-based position among batchCount batches
+export function buildBatchPrompt(batch: ImageBatch<unknown>, index: number, batchCount: number): string {
+  const lastImageNumber = batch.firstImageNumber + batch.images.length - 1
+  return `These are photos ${batch.firstImageNumber}-${lastImageNumber} (batch ${index + 1} of ${batchCount}) shared by a learning facilitator from an after school learning centre.
+
+Describe what the photos show: the activities, how many children appear to be involved, whether play is happening, and anything that suggests the space is or is not safe, open, joyful and self-determined. Only describe what is visible or stated in the captions; do not guess names or make assumptions. Use short bullet points.`
+}
+
+export function buildReducePrompt(prompt: string, summaries: string[], batches: ImageBatch<unknown>[]): string {
+  const imagesCount = batches.reduce((sum, batch) => sum + batch.images.length, 0)
+  const sections = summaries.map((summary, i) => {
+    const batch = batches[i]
+    const lastImageNumber = batch.firstImageNumber + batch.images.length - 1
+    return `Photos ${batch.firstImageNumber}-${lastImageNumber}:\n${summary}`
+  })
+
+  return `${prompt}
+
+PHOTO OBSERVATIONS:
+The ${imagesCount} photos were described in ${batches.length} batches rather than attached directly. Treat these descriptions as the visual evidence.
+
+${sections.join('\n\n')}`
+}
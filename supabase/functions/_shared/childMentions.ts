@@ -0,0 +1,224 @@
+// Finds children mentioned by alias in free text, to suggest tags while a note is written,
+// to propose links from existing notes and to pseudonymise children without name consent.
+// Aliases match case-insensitively on whole words, and also when spelt differently in
+// Latin or written in Kannada script. Shared by the dashboard and the Edge Functions.
+
+export interface ChildAliasRecord {
+  id: string
+  alias?: string[] | null
+}
+
+export interface ChildMention {
+  childId: string
+  alias: string
+  // Text as it appears in the note
+  matchedText: string
+  // True when the text only matched through a spelling or script variant
+  variant: boolean
+}
+
+export interface AliasMatch {
+  start: number
+  end: number
+  alias: string
+  variant: boolean
+}
+
+export interface ChildAliasMatch extends AliasMatch {
+  childId: string
+}
+
+interface Token {
+  text: string
+  start: number
+  end: number
+  key: string
+}
+
+// Aliases shorter than this match too many ordinary words
+const MIN_ALIAS_LENGTH = 2
+// Keys this short keep their final vowel, so "Anna" does not match "an"
+const MAX_KEY_LENGTH_KEEPING_FINAL_VOWEL = 3
+
+// Letters, combining marks and digits count as word characters, so Kannada aliases
+// followed by a vowel sign are not matched inside a longer word
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu
+
+const KANNADA_VIRAMA = '್'
+
+// Vowel length is dropped: Latin spellings rarely mark it consistently
+const KANNADA_VOWELS: Record<string, string> = {
+  'ಅ': 'a', 'ಆ': 'a', 'ಇ': 'i', 'ಈ': 'i', 'ಉ': 'u', 'ಊ': 'u', 'ಋ': 'ri',
+  'ಎ': 'e', 'ಏ': 'e', 'ಐ': 'ai', 'ಒ': 'o', 'ಓ': 'o', 'ಔ': 'au',
+}
+
+const KANNADA_VOWEL_SIGNS: Record<string, string> = {
+  'ಾ': 'a', 'ಿ': 'i', 'ೀ': 'i', 'ು': 'u', 'ೂ': 'u', 'ೃ': 'ri',
+  'ೆ': 'e', 'ೇ': 'e', 'ೈ': 'ai', 'ೊ': 'o', 'ೋ': 'o', 'ೌ': 'au',
+}
+
+const KANNADA_CONSONANTS: Record<string, string> = {
+  'ಕ': 'k', 'ಖ': 'kh', 'ಗ': 'g', 'ಘ': 'gh', 'ಙ': 'n',
+  'ಚ': 'ch', 'ಛ': 'chh', 'ಜ': 'j', 'ಝ': 'jh', 'ಞ': 'n',
+  'ಟ': 't', 'ಠ': 'th', 'ಡ': 'd', 'ಢ': 'dh', 'ಣ': 'n',
+  'ತ': 't', 'ಥ': 'th', 'ದ': 'd', 'ಧ': 'dh', 'ನ': 'n',
+  'ಪ': 'p', 'ಫ': 'ph', 'ಬ': 'b', 'ಭ': 'bh', 'ಮ': 'm',
+  'ಯ': 'y', 'ರ': 'r', 'ಱ': 'r', 'ಲ': 'l', 'ವ': 'v',
+  'ಶ': 'sh', 'ಷ': 'sh', 'ಸ': 's', 'ಹ': 'h', 'ಳ': 'l', 'ೞ': 'l',
+}
+
+const KANNADA_OTHER: Record<string, string> = {
+  'ಂ': 'n', 'ಃ': 'h',
+  '೦': '0', '೧': '1', '೨': '2', '೩': '3', '೪': '4', '೫': '5', '೬': '6', '೭': '7', '೮': '8', '೯': '9',
+}
+
+// Spelling variants common in romanised Indian names, applied in order
+const LATIN_VARIANTS: Array<[RegExp, string]> = [
+  [/chh|ch|c/g, 'c'],
+  [/sh|zh/g, 's'],
+  [/([kgtdpbj])h/g, '$1'],
+  [/ph|f/g, 'p'],
+  [/w/g, 'v'],
+  [/z/g, 'j'],
+  [/q/g, 'k'],
+  [/x/g, 'ks'],
+  [/ee|ii/g, 'i'],
+  [/oo|uu/g, 'u'],
+  // Nasals before a consonant are written m, n or with an anusvara
+  [/[mn](?=[bcdgjkpstv])/g, 'n'],
+  [/(.)\1+/g, '$1'],
+]
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Romanises Kannada script so it can be compared with Latin spellings of the same name
+export function transliterateKannada(text: string): string {
+  let output = ''
+  // Inherent vowel of the last consonant, dropped by a vowel sign or virama
+  let pendingVowel = false
+
+  for (const char of text) {
+    const consonant = KANNADA_CONSONANTS[char]
+    const vowelSign = KANNADA_VOWEL_SIGNS[char]
+    if (consonant) {
+      if (pendingVowel) output += 'a'
+      output += consonant
+      pendingVowel = true
+    } else if (vowelSign) {
+      output += vowelSign
+      pendingVowel = false
+    } else if (char === KANNADA_VIRAMA) {
+      pendingVowel = false
+    } else {
+      if (pendingVowel) output += 'a'
+      pendingVowel = false
+      output += KANNADA_VOWELS[char] ?? KANNADA_OTHER[char] ?? (/[ಀ-೿]/.test(char) ? '' : char)
+    }
+  }
+  return pendingVowel ? `${output}a` : output
+}
+
+// Phonetic key of one word: spellings of the same name in either script share a key
+export function aliasKey(word: string): string {
+  let key = transliterateKannada(word.normalize('NFC'))
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+  LATIN_VARIANTS.forEach(([pattern, replacement]) => {
+    key = key.replace(pattern, replacement)
+  })
+  // Kannada names end in a vowel that romanised spellings often leave out
+  if (key.length > MAX_KEY_LENGTH_KEEPING_FINAL_VOWEL && key.endsWith('a')) {
+    key = key.slice(0, -1)
+  }
+  return key
+}
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    text: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    key: aliasKey(match[0]),
+  }))
+}
+
+export function childAliases(child: ChildAliasRecord): string[] {
+  return child.alias?.map(alias => alias?.trim()).filter((alias): alias is string => Boolean(alias)) ?? []
+}
+
+export function childLabel(child: ChildAliasRecord): string {
+  const aliases = childAliases(child)
+  return aliases.length > 0 ? aliases.join(', ') : 'Unnamed Child'
+}
+
+// Longer matches win where two overlap
+function withoutOverlaps<T extends AliasMatch>(matches: T[]): T[] {
+  const sorted = [...matches].sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start))
+  const kept: T[] = []
+  sorted.forEach(match => {
+    const previous = kept[kept.length - 1]
+    if (!previous || previous.end <= match.start) kept.push(match)
+  })
+  return kept
+}
+
+// Every place in the text where one of the aliases appears, in text order, without overlaps
+export function findAliasMatches(text: string, aliases: string[]): AliasMatch[] {
+  const normalised = text.normalize('NFC')
+  const tokens = tokenize(normalised)
+  if (tokens.length === 0) return []
+
+  const matches: AliasMatch[] = []
+  aliases
+    .map(alias => alias.trim().normalize('NFC'))
+    .filter(alias => alias.length >= MIN_ALIAS_LENGTH)
+    .forEach(alias => {
+      const aliasTokens = tokenize(alias)
+      if (aliasTokens.length === 0) return
+      const exact = new RegExp(
+        `^${aliasTokens.map(token => escapeRegExp(token.text)).join('[^\\p{L}\\p{M}\\p{N}]+')}$`,
+        'iu'
+      )
+
+      for (let i = 0; i + aliasTokens.length <= tokens.length; i++) {
+        const window = tokens.slice(i, i + aliasTokens.length)
+        if (!window.every((token, j) => token.key === aliasTokens[j].key)) continue
+        const start = window[0].start
+        const end = window[window.length - 1].end
+        matches.push({ start, end, alias, variant: !exact.test(normalised.slice(start, end)) })
+      }
+    })
+
+  return withoutOverlaps(matches)
+}
+
+// Every place in the text where any of the children is mentioned, in text order, without overlaps
+export function findChildAliasMatches(text: string, children: ChildAliasRecord[]): ChildAliasMatch[] {
+  return withoutOverlaps(children.flatMap(child =>
+    findAliasMatches(text, childAliases(child)).map(match => ({ ...match, childId: child.id }))
+  ))
+}
+
+export function findChildMentions(text: string, children: ChildAliasRecord[]): ChildMention[] {
+  const normalised = text.normalize('NFC')
+  if (!normalised.trim()) return []
+
+  const mentions: ChildMention[] = []
+  children.forEach(child => {
+    const matches = findAliasMatches(normalised, childAliases(child))
+    // Prefer an exact match to report, falling back to the first variant
+    const match = matches.find(m => !m.variant) ?? matches[0]
+    if (match) {
+      mentions.push({
+        childId: child.id,
+        alias: match.alias,
+        matchedText: normalised.slice(match.start, match.end),
+        variant: match.variant,
+      })
+    }
+  })
+  return mentions
+}
@@ -0,0 +1,64 @@
+// Guardian consent rules shared by the dashboard and the Edge Functions. The dashboard
+// applies them to what it shows; both apply them to what is sent to the model.
+
+import { findChildAliasMatches } from './childMentions.ts'
+
+export interface ChildConsentFlags {
+  child_id: string
+  consent_current: boolean
+  photo_consent_current: boolean
+  name_consent_current: boolean
+}
+
+export interface PhotoChildTag {
+  child_id: string
+  consent_confirmed: boolean
+}
+
+export interface ChildAliases {
+  id: string
+  alias?: string[] | null
+}
+
+// A child's current consent form decides; without one, the consent recorded on the photo tag applies
+export function canShowChildInPhoto(link: PhotoChildTag, consents: Map<string, ChildConsentFlags>): boolean {
+  const status = consents.get(link.child_id)
+  return status?.consent_current ? status.photo_consent_current : link.consent_confirmed
+}
+
+// Photos nobody is tagged in are shown; otherwise every tagged child must be covered
+export function canShowPhoto(links: PhotoChildTag[], consents: Map<string, ChildConsentFlags>): boolean {
+  return links.every(link => canShowChildInPhoto(link, consents))
+}
+
+// Aliases for the prompt's child list, one entry per child, leaving out children without
+// current name consent
+export function consentedChildAliases(children: ChildAliases[], consents: Map<string, ChildConsentFlags>): string[] {
+  return children
+    .filter(child => consents.get(child.id)?.name_consent_current ?? false)
+    .map(child => child.alias?.filter(alias => alias?.trim()).join(' / ') ?? '')
+    .filter(Boolean)
+}
+
+// Stable for a child, so the same child can be followed across pages without their alias
+export function childPseudonym(childId: string): string {
+  return `Child ${childId.replace(/-/g, '').slice(0, 6).toUpperCase()}`
+}
+
+// Children whose aliases must not be shown or sent: those without current name consent
+export function withheldChildren<T extends ChildAliases>(children: T[], consents: Map<string, ChildConsentFlags>): T[] {
+  return children.filter(child => !(consents.get(child.id)?.name_consent_current ?? false))
+}
+
+// Replaces every mention of the given children with their pseudonym, matching aliases the
+// same way as mention suggestions, including respellings and Kannada script
+export function pseudonymiseAliases(text: string, children: ChildAliases[]): string {
+  const normalised = text.normalize('NFC')
+  let output = ''
+  let position = 0
+  findChildAliasMatches(normalised, children).forEach(match => {
+    output += normalised.slice(position, match.start) + childPseudonym(match.childId)
+    position = match.end
+  })
+  return output + normalised.slice(position)
+}
@@ -0,0 +1,47 @@
+// Photos imported from WhatsApp chats are kept in the private field-media bucket, and their
+// photo_url holds the object path there instead of a URL. Photos stored by the import
+// script keep their full URL. The dashboard and the Edge Functions sign the paths before
+// showing a photo or sending it to the model.
+
+export const FIELD_MEDIA_BUCKET = 'field-media'
+
+// Long enough for a page left open or a batched analysis to load every photo
+export const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+// The part of a Supabase client used here, so the browser and Deno clients both fit
+export interface FieldMediaClient {
+  storage: {
+    from(bucket: string): {
+      createSignedUrls(paths: string[], expiresIn: number): PromiseLike<{
+        data: { path: string | null; signedUrl: string | null; error: string | null }[] | null
+        error: Error | null
+      }>
+    }
+  }
+}
+
+export function isFieldMediaPath(photoUrl: string): boolean {
+  return !/^https?:\/\//i.test(photoUrl)
+}
+
+// Replaces field-media paths with signed URLs. Photos whose object cannot be signed, for
+// example because the caller may not read it or it was removed, are left out.
+export async function signPhotoUrls<T extends { photo_url: string }>(
+  client: FieldMediaClient,
+  images: T[],
+): Promise<T[]> {
+  const paths = [...new Set(images.map(image => image.photo_url).filter(isFieldMediaPath))]
+  if (paths.length === 0) return images
+
+  const { data, error } = await client.storage.from(FIELD_MEDIA_BUCKET).createSignedUrls(paths, SIGNED_URL_TTL_SECONDS)
+  if (error) throw error
+  const signed = new Map(
+    (data ?? []).flatMap(entry => (entry.path && entry.signedUrl && !entry.error ? [[entry.path, entry.signedUrl] as const] : [])),
+  )
+
+  return images.flatMap(image => {
+    if (!isFieldMediaPath(image.photo_url)) return [image]
+    const url = signed.get(image.photo_url)
+    return url ? [{ ...image, photo_url: url }] : []
+  })
+}
@@ -0,0 +1,24 @@
+// Providers and models the analysis endpoint accepts. Shared with the dashboard's pickers.
+export const PROXY_PROVIDERS = ['openai', 'openai-compatible'] as const
+export type ProxyProvider = (typeof PROXY_PROVIDERS)[number]
+
+export const DEFAULT_PROVIDER: ProxyProvider = 'openai'
+
+export const ANALYSIS_MODELS = ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini']
+
+export const DEFAULT_ANALYSIS_MODEL = 'gpt-4o'
+export const DEFAULT_ANALYSIS_TEMPERATURE = 1.0
+
+export function isProxyProvider(value: unknown): value is ProxyProvider {
+  return typeof value === 'string' && (PROXY_PROVIDERS as readonly string[]).includes(value)
+}
+
+// OpenAI models are allow-listed; a self-hosted server validates its own model names
+export function isValidModel(provider: ProxyProvider, model: unknown): model is string {
+  if (typeof model !== 'string' || model.trim() === '') return false
+  return provider !== 'openai' || ANALYSIS_MODELS.includes(model)
+}
+
+export function isValidTemperature(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 2
+}
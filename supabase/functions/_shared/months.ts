@@ -0,0 +1,25 @@
+// Report months run from midnight to midnight India Standard Time, where the centres are,
+// whichever time zone the browser or server works in. Shared by the dashboard and the Edge
+// Functions; generate_monthly_reports counts activity over the same bounds.
+
+// Asia/Kolkata has no daylight saving, so one offset holds for every month
+const REPORT_UTC_OFFSET = '+05:30'
+
+export interface MonthBounds {
+  startIso: string
+  // Start of the following month, so queries compare with lt rather than lte
+  endIso: string
+}
+
+function monthStart(year: number, month: number): string {
+  const date = `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-01`
+  return new Date(`${date}T00:00:00${REPORT_UTC_OFFSET}`).toISOString()
+}
+
+// month is 1-based
+export function monthBounds(year: number, month: number): MonthBounds {
+  return {
+    startIso: monthStart(year, month),
+    endIso: month === 12 ? monthStart(year + 1, 1) : monthStart(year, month + 1),
+  }
+}
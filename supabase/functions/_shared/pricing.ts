@@ -0,0 +1,21 @@
+// USD list prices per million tokens, used to estimate what each run cost.
+// Update when OpenAI changes its pricing; self-hosted models have no entry.
+export const MODEL_PRICING: Record<string, { inputPerMillion: number; outputPerMillion: number }> = {
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export function estimateCostUsd(model: string, usage: TokenUsage): number | null {
+  const pricing = MODEL_PRICING[model]
+  if (!pricing) return null
+  return (
+    (usage.promptTokens * pricing.inputPerMillion + usage.completionTokens * pricing.outputPerMillion) / 1_000_000
+  )
+}
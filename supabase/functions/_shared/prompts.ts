@@ -0,0 +1,69 @@
+// Prompt templates and placeholder rendering shared by the Edge Functions and the
+// dashboard (imported from src/lib/prompts.ts), so both fill templates the same way.
+
+export interface PromptContext {
+  facilitatorName: string
+  fieldNotes: string
+  imagesCount: number
+  centreName?: string
+  district?: string
+  state?: string
+  month?: string
+  coordinatorNotes?: string
+  childAliases?: string
+}
+
+export const PROMPT_PLACEHOLDERS: Array<{ token: string; description: string }> = [
+  { token: '{{FACILITATOR_NAME}}', description: 'Name of the facilitator' },
+  { token: '{{FIELD_NOTES}}', description: 'Timestamped field notes for the month' },
+  { token: '{{IMAGES_COUNT}}', description: 'Number of photos shared in the month' },
+  { token: '{{CENTRE_NAME}}', description: 'Learning centre name' },
+  { token: '{{DISTRICT}}', description: 'District of the learning centre' },
+  { token: '{{STATE}}', description: 'State of the learning centre' },
+  { token: '{{MONTH}}', description: 'Report month, e.g. "March 2025"' },
+  { token: '{{COORDINATOR_NOTES}}', description: 'Coordinator visit notes for the month' },
+  { token: '{{CHILD_ALIASES}}', description: 'Aliases of children at the centre whose guardians consented to name display' },
+]
+
+export const DEFAULT_PROMPT_TEMPLATE = `You are analyzing field notes from a learning facilitator named {{FACILITATOR_NAME}}. The facilitator works with oppressed communities and creates after school learning spaces with a view to build agency. Spaces are designed to be safe, open, joyful and self-determined where learners can make their own decisions.
+
+CONTEXT: The facilitator has shared photos as well as some field notes. Since facilitators often prefer sending images over text, the visual content is crucial for understanding their work.
+
+INSTRUCTIONS:
+- Analyze both the images and text messages to understand what is happening at the learning center
+- Observe if the learning center is safe, open, joyful and self-determined
+- Make a note if there is play happening in the learning centers
+- Check if the learning center is different from school like spaces
+- The images show real field work activities - describe what you see and avoid making assumptions
+- Create a comprehensive field work report based on visual evidence and text notes
+- Pay special attention to the visual documentation as it's the primary way this facilitator communicates their work
+
+TEXT MESSAGES AND FIELD NOTES:
+{{FIELD_NOTES}}
+
+IMAGES PROVIDED: {{IMAGES_COUNT}} work-related photos showing field activities
+
+Write this as a professional field work assessment report that recognizes the visual documentation as the primary evidence of the facilitator's work and impact. Don't make up any details and don't add any details that are not in the text messages or images. Don't include the messages and photos in the report. You don't have to describe each photo. You don't need to include the purpose or details about the organisation. It's okay if the report is short and doesn't have a lot of details. Do not include any title or date in the report.`
+
+export function formatFieldNotes(fieldNotes: Array<{ timestamp: string; text: string }>): string {
+  return fieldNotes.length > 0
+    ? fieldNotes.map(note => `[${note.timestamp}] ${note.text}`).join('\n')
+    : 'Limited text messages - analysis should focus primarily on visual documentation.'
+}
+
+export function renderPromptTemplate(template: string, context: PromptContext): string {
+  const values: Record<string, string> = {
+    FACILITATOR_NAME: context.facilitatorName,
+    FIELD_NOTES: context.fieldNotes,
+    IMAGES_COUNT: String(context.imagesCount),
+    CENTRE_NAME: context.centreName ?? '',
+    DISTRICT: context.district ?? '',
+    STATE: context.state ?? '',
+    MONTH: context.month ?? '',
+    COORDINATOR_NOTES: context.coordinatorNotes || 'No coordinator notes for this month.',
+    CHILD_ALIASES: context.childAliases || 'No child aliases recorded.',
+  }
+
+  // Unknown placeholders are left as-is so typos stay visible in the output
+  return template.replace(/\{\{([A-Z_]+)\}\}/g, (match, key: string) => values[key] ?? match)
+}
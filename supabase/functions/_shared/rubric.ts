@@ -0,0 +1,84 @@
+// Rubric scored alongside the free-text analysis, returned through structured
+// outputs. Shared with the dashboard, which renders and validates stored rubrics.
+
+export const RUBRIC_DIMENSIONS = [
+  { key: 'safe', label: 'Safe', question: 'Is the learning centre a physically and emotionally safe space for children?' },
+  { key: 'open', label: 'Open', question: 'Is the space open and welcoming to all children in the community?' },
+  { key: 'joyful', label: 'Joyful', question: 'Do children appear to enjoy being at the centre?' },
+  { key: 'self_determined', label: 'Self-determined', question: 'Do learners make their own decisions about what they do?' },
+  { key: 'play', label: 'Play', question: 'Is play happening at the centre?' },
+  { key: 'different_from_school', label: 'Different from school', question: 'Is the centre different from school-like spaces?' },
+] as const
+
+export type RubricDimension = (typeof RUBRIC_DIMENSIONS)[number]['key']
+
+export interface RubricScore {
+  // 1 (not at all) to 5 (strongly); null when there is not enough evidence to judge
+  score: number | null
+  evidence: string
+}
+
+export type Rubric = Record<RubricDimension, RubricScore>
+
+const scoreSchema = {
+  type: 'object',
+  properties: {
+    score: {
+      type: ['integer', 'null'],
+      enum: [1, 2, 3, 4, 5, null],
+      description: '1 = not at all, 5 = strongly; null when the notes and photos give no evidence either way',
+    },
+    evidence: {
+      type: 'string',
+      description: 'One or two sentences citing what in the notes or photos supports the score',
+    },
+  },
+  required: ['score', 'evidence'],
+  additionalProperties: false,
+}
+
+// JSON schema for OpenAI structured outputs (strict mode)
+export const RUBRIC_JSON_SCHEMA = {
+  name: 'centre_rubric',
+  strict: true,
+  schema: {
+    type: 'object',
+    properties: Object.fromEntries(RUBRIC_DIMENSIONS.map(dimension => [dimension.key, scoreSchema])),
+    required: RUBRIC_DIMENSIONS.map(dimension => dimension.key),
+    additionalProperties: false,
+  },
+}
+
+export function buildRubricPrompt(analysis: string, fieldNotes: string): string {
+  const questions = RUBRIC_DIMENSIONS.map(dimension => `- ${dimension.key}: ${dimension.question}`).join('\n')
+
+  return `Score this month at a learning centre on each dimension below, from 1 (not at all) to 5 (strongly). Use null when there is no evidence either way rather than guessing. Base every score only on the field report and field notes, and cite the evidence briefly.
+
+DIMENSIONS:
+${questions}
+
+FIELD REPORT:
+${analysis}
+
+FIELD NOTES:
+${fieldNotes}`
+}
+
+// Accepts a stored or model-produced rubric only if every dimension is well formed
+export function parseRubric(value: unknown): Rubric | null {
+  if (!value || typeof value !== 'object') return null
+  const candidate = value as Record<string, unknown>
+
+  const rubric: Partial<Rubric> = {}
+  for (const { key } of RUBRIC_DIMENSIONS) {
+    const entry = candidate[key] as Partial<RubricScore> | undefined
+    if (!entry || typeof entry !== 'object' || typeof entry.evidence !== 'string') return null
+
+    const score = entry.score
+    if (score !== null && !(typeof score === 'number' && Number.isInteger(score) && score >= 1 && score <= 5)) {
+      return null
+    }
+    rubric[key] = { score: score ?? null, evidence: entry.evidence }
+  }
+  return rubric as Rubric
+}
@@ -0,0 +1,340 @@
+// Works through the analysis_job_items queue. Called on a schedule with the service role
+// key, or by an admin from the jobs page. Each call claims items one at a time until its
+// time budget runs out; whatever is left is picked up by the next call. Rate-limited and
+// transient failures go back in the queue with exponential backoff.
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import OpenAI from 'npm:openai@6'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/http.ts'
+import { DEFAULT_PROMPT_TEMPLATE, formatFieldNotes, renderPromptTemplate } from '../_shared/prompts.ts'
+import { DEFAULT_ANALYSIS_MODEL, DEFAULT_ANALYSIS_TEMPERATURE } from '../_shared/models.ts'
+import { batchImages } from '../_shared/batching.ts'
+import { errorMessage, generateAnalysis, recordRun } from '../_shared/analysis.ts'
+import { canShowPhoto, consentedChildAliases, pseudonymiseAliases, withheldChildren } from '../_shared/consent.ts'
+import { signPhotoUrls } from '../_shared/fieldMedia.ts'
+import { monthBounds } from '../_shared/months.ts'
+import type { ChildConsentFlags, PhotoChildTag } from '../_shared/consent.ts'
+import type { RunRecord, RunSettings } from '../_shared/analysis.ts'
+
+interface JobItem {
+  id: string
+  job_id: string
+  generated_report_id: string
+  learning_centre_id: string
+  attempts: number
+  max_attempts: number
+}
+
+interface Job {
+  id: string
+  prompt_template_id: string | null
+  model: string | null
+  temperature: number | null
+  created_by: string | null
+}
+
+type ItemOutcome = 'succeeded' | 'queued' | 'failed'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
+
+// Stop claiming new items after this long, leaving time to finish the one in hand
+const TIME_BUDGET_MS = Number(Deno.env.get('ANALYSIS_WORKER_TIME_BUDGET_MS') ?? '120000')
+// Longest a single item may take before it is abandoned and retried, plus the time allowed
+// for each photo batch, since every photo of the month is described
+const ITEM_TIMEOUT_MS = 5 * 60 * 1000
+const BATCH_TIMEOUT_MS = 60 * 1000
+const BACKOFF_BASE_SECONDS = 30
+const BACKOFF_MAX_SECONDS = 60 * 60
+
+// The SDK's own retries are turned off so a 429 sends the item back to the queue
+// instead of holding the worker
+const openai = openaiApiKey ? new OpenAI({ apiKey: openaiApiKey, maxRetries: 0 }) : null
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof OpenAI.APIError && error.status) {
+    return error.status === 408 || error.status === 409 || error.status === 429 || error.status >= 500
+  }
+  // Timeouts, dropped connections and database errors
+  return true
+}
+
+function isRateLimited(error: unknown): boolean {
+  return error instanceof OpenAI.APIError && error.status === 429
+}
+
+// Doubles with each attempt, with some jitter so items queued together do not retry
+// together. A Retry-After from OpenAI is respected when it asks for longer.
+function backoffSeconds(attempts: number, error: unknown): number {
+  const exponential = Math.min(BACKOFF_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_SECONDS)
+  const jittered = Math.round(exponential * (0.8 + Math.random() * 0.4))
+  const retryAfter = error instanceof OpenAI.APIError ? Number(error.headers?.get('retry-after')) : NaN
+  return Number.isFinite(retryAfter) ? Math.max(jittered, Math.ceil(retryAfter)) : jittered
+}
+
+async function resolveTemplate(client: SupabaseClient, job: Job): Promise<{ id: string | null; body: string }> {
+  const query = client.from('prompt_templates').select('id, body')
+  const { data, error } = job.prompt_template_id
+    ? await query.eq('id', job.prompt_template_id).maybeSingle()
+    : await query.eq('is_default', true).maybeSingle()
+  if (error) throw error
+  return data ? { id: data.id, body: data.body } : { id: null, body: DEFAULT_PROMPT_TEMPLATE }
+}
+
+// Fills the template for the report's centre-month, the same way the dashboard does
+async function buildPrompt(client: SupabaseClient, item: JobItem, templateBody: string) {
+  const { data: report, error: reportError } = await client
+    .from('generated_reports_summary')
+    .select('facilitator_name, learning_centre_name, year, month')
+    .eq('id', item.generated_report_id)
+    .single()
+  if (reportError) throw reportError
+
+  const { startIso, endIso } = monthBounds(report.year, report.month)
+  const [centreResult, notesResult, imagesResult, coordinatorNotesResult, childrenResult] = await Promise.all([
+    client.from('learning_centres').select('district, state').eq('id', item.learning_centre_id).single(),
+    client
+      .from('field_notes')
+      .select('text, sent_at, created_at')
+      .eq('learning_centre_id', item.learning_centre_id)
+      .is('duplicate_of', null)
+      .gte('sent_at', startIso)
+      .lt('sent_at', endIso)
+      .order('sent_at', { ascending: true }),
+    client
+      .from('field_images')
+      .select('id, photo_url, caption')
+      .eq('learning_centre_id', item.learning_centre_id)
+      .is('duplicate_of', null)
+      .gte('sent_at', startIso)
+      .lt('sent_at', endIso)
+      .order('sent_at', { ascending: true }),
+    client
+      .from('coordinator_field_notes')
+      .select('note_text, noted_at')
+      .eq('learning_centre_id', item.learning_centre_id)
+      .gte('noted_at', startIso)
+      .lt('noted_at', endIso)
+      .order('noted_at', { ascending: true }),
+    client.from('children').select('id, alias').eq('learning_centre_id', item.learning_centre_id),
+  ])
+  for (const result of [centreResult, notesResult, imagesResult, coordinatorNotesResult, childrenResult]) {
+    if (result.error) throw result.error
+  }
+
+  // Photos and aliases go to OpenAI only when guardian consent covers them, as in the dashboard
+  const monthImages = imagesResult.data ?? []
+  const children = childrenResult.data ?? []
+  let links: (PhotoChildTag & { field_image_id: string })[] = []
+  if (monthImages.length > 0) {
+    const { data, error } = await client
+      .from('child_field_image_links')
+      .select('child_id, field_image_id, consent_confirmed')
+      .in('field_image_id', monthImages.map(image => image.id))
+    if (error) throw error
+    links = data ?? []
+  }
+  const childIds = [...new Set([...children.map(child => child.id as string), ...links.map(link => link.child_id)])]
+  const consents = new Map<string, ChildConsentFlags>()
+  if (childIds.length > 0) {
+    const { data, error } = await client
+      .from('child_consent_status')
+      .select('child_id, consent_current, photo_consent_current, name_consent_current')
+      .in('child_id', childIds)
+    if (error) throw error
+    for (const status of (data ?? []) as ChildConsentFlags[]) consents.set(status.child_id, status)
+  }
+
+  const consentedImages = monthImages.filter(image =>
+    canShowPhoto(links.filter(link => link.field_image_id === image.id), consents)
+  )
+  const centreChildren = children as { id: string; alias: string[] | null }[]
+  const childAliases = consentedChildAliases(centreChildren, consents)
+  const withheld = withheldChildren(centreChildren, consents)
+  const pseudonymise = (text: string) => pseudonymiseAliases(text, withheld)
+
+  const fieldNotes = (notesResult.data ?? []).map(note => ({
+    timestamp: note.sent_at || note.created_at,
+    text: pseudonymise(note.text ?? ''),
+  }))
+  const images = (await signPhotoUrls(client, consentedImages))
+    .map(image => ({ url: image.photo_url, caption: image.caption ? pseudonymise(image.caption) : undefined }))
+
+  const prompt = renderPromptTemplate(templateBody, {
+    facilitatorName: report.facilitator_name,
+    fieldNotes: formatFieldNotes(fieldNotes),
+    imagesCount: images.length,
+    centreName: report.learning_centre_name,
+    district: centreResult.data?.district,
+    state: centreResult.data?.state,
+    month: new Date(Date.UTC(report.year, report.month - 1)).toLocaleDateString('en-US', {
+      month: 'long',
+      year: 'numeric',
+      timeZone: 'UTC',
+    }),
+    coordinatorNotes: formatFieldNotes(
+      (coordinatorNotesResult.data ?? []).map(note => ({ timestamp: note.noted_at, text: pseudonymise(note.note_text) })),
+    ),
+    childAliases: childAliases.join(', '),
+  })
+
+  return { prompt, fieldNotes, images, year: report.year as number, month: report.month as number }
+}
+
+async function processItem(
+  client: SupabaseClient,
+  openaiClient: OpenAI,
+  item: JobItem,
+  jobs: Map<string, Job>,
+): Promise<{ outcome: ItemOutcome; rateLimited: boolean }> {
+  let run: { settings: RunSettings; record: RunRecord } | null = null
+
+  try {
+    let job = jobs.get(item.job_id)
+    if (!job) {
+      const { data, error } = await client
+        .from('analysis_jobs')
+        .select('id, prompt_template_id, model, temperature, created_by')
+        .eq('id', item.job_id)
+        .single()
+      if (error) throw error
+      job = data as Job
+      jobs.set(job.id, job)
+    }
+
+    const template = await resolveTemplate(client, job)
+    const { prompt, fieldNotes, images, year, month } = await buildPrompt(client, item, template.body)
+    const batches = batchImages(images)
+    const imagesCount = batches.reduce((sum, batch) => sum + batch.images.length, 0)
+
+    run = {
+      settings: {
+        client: openaiClient,
+        signal: AbortSignal.timeout(ITEM_TIMEOUT_MS + batches.length * BATCH_TIMEOUT_MS),
+        provider: 'openai',
+        model: job.model ?? DEFAULT_ANALYSIS_MODEL,
+        temperature: job.temperature ?? DEFAULT_ANALYSIS_TEMPERATURE,
+        usage: { promptTokens: 0, completionTokens: 0 },
+      },
+      record: {
+        userId: job.created_by,
+        context: { learningCentreId: item.learning_centre_id, generatedReportId: item.generated_report_id, year, month },
+        startedAt: Date.now(),
+        imagesCount,
+        batchCount: Math.max(batches.length, 1),
+      },
+    }
+
+    const { analysis, rubric } = await generateAnalysis(
+      run.settings,
+      prompt,
+      batches,
+      images.length,
+      formatFieldNotes(fieldNotes),
+    )
+    const { model, temperature } = run.settings
+    await recordRun(client, run.settings, run.record, 'succeeded')
+    // Saving can still fail, but the model run itself is already accounted for
+    run = null
+
+    const { error } = await client.rpc('complete_analysis_job_item', {
+      p_item_id: item.id,
+      p_text: analysis,
+      p_prompt_text: template.body,
+      p_model: model,
+      p_temperature: temperature,
+      p_images_count: imagesCount,
+      p_prompt_template_id: template.id,
+      p_rubric: rubric,
+    })
+    if (error) throw error
+    return { outcome: 'succeeded', rateLimited: false }
+  } catch (error) {
+    console.error(`Analysis job item ${item.id} failed:`, error)
+    if (run) {
+      await recordRun(client, run.settings, run.record, 'failed', error)
+    }
+
+    const retryIn = isRetryable(error) ? backoffSeconds(item.attempts, error) : null
+    const { data, error: failError } = await client.rpc('fail_analysis_job_item', {
+      p_item_id: item.id,
+      p_error: errorMessage(error),
+      p_retry_in_seconds: retryIn,
+    })
+    if (failError) {
+      // The item stays locked and is claimed again once the lock expires
+      console.error(`Recording failure for ${item.id} failed:`, failError)
+    }
+    return { outcome: (data as ItemOutcome | null) ?? 'queued', rateLimited: isRateLimited(error) }
+  }
+}
+
+async function work(client: SupabaseClient, openaiClient: OpenAI, workerId: string) {
+  const deadline = Date.now() + TIME_BUDGET_MS
+  const jobs = new Map<string, Job>()
+  const counts: Record<ItemOutcome, number> = { succeeded: 0, queued: 0, failed: 0 }
+
+  while (Date.now() < deadline) {
+    const { data, error } = await client.rpc('claim_analysis_job_items', { p_worker: workerId, p_limit: 1 })
+    if (error) {
+      console.error('Claiming analysis job items failed:', error)
+      break
+    }
+    const item = (data as JobItem[] | null)?.[0]
+    if (!item) break
+
+    const { outcome, rateLimited } = await processItem(client, openaiClient, item, jobs)
+    counts[outcome]++
+    // The limit applies to every item, so leave the rest for a later call
+    if (rateLimited) break
+  }
+
+  console.log(`Analysis worker ${workerId} finished:`, counts)
+}
+
+// The schedule calls with the service role key; people must be admins
+async function isAllowed(authHeader: string): Promise<boolean> {
+  if (supabaseServiceRoleKey && authHeader === `Bearer ${supabaseServiceRoleKey}`) return true
+
+  const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authHeader } },
+  })
+  const { data: { user } } = await userClient.auth.getUser()
+  if (!user) return false
+
+  const { data: profile } = await userClient
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+  return profile?.role === 'admin'
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    return jsonResponse({ error: 'Missing authorization header' }, 401)
+  }
+  if (!(await isAllowed(authHeader))) {
+    return jsonResponse({ error: 'Only admins can run the analysis queue' }, 403)
+  }
+  if (!openai) {
+    return jsonResponse({ error: 'OPENAI_API_KEY is not configured for this function.' }, 500)
+  }
+
+  // The queue is worked in the background so the caller does not wait for it
+  const workerId = crypto.randomUUID()
+  const serviceClient = createClient(supabaseUrl, supabaseServiceRoleKey)
+  EdgeRuntime.waitUntil(work(serviceClient, openai, workerId))
+
+  return jsonResponse({ workerId }, 202)
+})
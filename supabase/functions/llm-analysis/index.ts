@@ -0,0 +1,317 @@
+// Server-side proxy for LLM analysis. Holds the OpenAI (or OpenAI-compatible) keys,
+// checks the caller's session and role, and enforces a per-user hourly rate limit.
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts'
+import OpenAI from 'npm:openai@6'
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse, sseEvent, sseResponse } from '../_shared/http.ts'
+import { DEFAULT_PROMPT_TEMPLATE, formatFieldNotes, renderPromptTemplate } from '../_shared/prompts.ts'
+import type { PromptContext } from '../_shared/prompts.ts'
+import {
+  DEFAULT_ANALYSIS_MODEL,
+  DEFAULT_ANALYSIS_TEMPERATURE,
+  DEFAULT_PROVIDER,
+  isProxyProvider,
+  isValidModel,
+  isValidTemperature,
+} from '../_shared/models.ts'
+import type { ProxyProvider } from '../_shared/models.ts'
+import { batchImages } from '../_shared/batching.ts'
+import type { ImageBatch } from '../_shared/batching.ts'
+import {
+  addUsage,
+  buildFinalContent,
+  errorMessage,
+  generateAnalysis,
+  recordRun,
+  scoreRubric,
+} from '../_shared/analysis.ts'
+import type { AnalysisContext, AnalysisImage, RunRecord, RunSettings } from '../_shared/analysis.ts'
+
+interface LLMAnalysisRequest {
+  facilitatorName: string
+  fieldNotes: Array<{ timestamp: string; text: string }>
+  images: Array<{ url: string; caption?: string }>
+  customPrompt?: string
+  promptTemplateId?: string
+  promptContext?: Omit<Partial<PromptContext>, 'facilitatorName' | 'fieldNotes' | 'imagesCount'>
+  provider?: ProxyProvider
+  model?: string
+  temperature?: number
+  // Stream tokens back as server-sent events instead of one JSON response
+  stream?: boolean
+  context?: AnalysisContext
+  // Also score the rubric through structured outputs (default true)
+  rubric?: boolean
+}
+
+const ALLOWED_ROLES = ['admin', 'coordinator']
+const RATE_LIMIT_PER_HOUR = Number(Deno.env.get('LLM_RATE_LIMIT_PER_HOUR') ?? '30')
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+const openaiApiKey = Deno.env.get('OPENAI_API_KEY')
+const compatibleBaseUrl = Deno.env.get('OPENAI_COMPATIBLE_BASE_URL')
+const compatibleApiKey = Deno.env.get('OPENAI_COMPATIBLE_API_KEY')
+const compatibleDefaultModel = Deno.env.get('OPENAI_COMPATIBLE_DEFAULT_MODEL')
+
+// Self-hosted servers often ignore the key, but the SDK requires one
+const providerClients: Record<ProxyProvider, OpenAI | null> = {
+  openai: openaiApiKey ? new OpenAI({ apiKey: openaiApiKey }) : null,
+  'openai-compatible': compatibleBaseUrl
+    ? new OpenAI({ apiKey: compatibleApiKey || 'not-needed', baseURL: compatibleBaseUrl })
+    : null,
+}
+
+const providerConfigErrors: Record<ProxyProvider, string> = {
+  openai: 'OPENAI_API_KEY is not configured for this function.',
+  'openai-compatible': 'OPENAI_COMPATIBLE_BASE_URL is not configured for this function.',
+}
+
+function isValidContext(context: unknown): context is AnalysisContext {
+  if (!context || typeof context !== 'object') return false
+  const { learningCentreId, generatedReportId, year, month } = context as AnalysisContext
+  return (
+    (learningCentreId === undefined || typeof learningCentreId === 'string') &&
+    (generatedReportId === undefined || typeof generatedReportId === 'string') &&
+    (year === undefined || Number.isInteger(year)) &&
+    (month === undefined || (Number.isInteger(month) && month >= 1 && month <= 12))
+  )
+}
+
+function isValidRequest(body: unknown): body is LLMAnalysisRequest {
+  if (!body || typeof body !== 'object') return false
+  const request = body as Partial<LLMAnalysisRequest>
+  return (
+    typeof request.facilitatorName === 'string' &&
+    Array.isArray(request.fieldNotes) &&
+    request.fieldNotes.every(note => typeof note?.text === 'string' && typeof note?.timestamp === 'string') &&
+    Array.isArray(request.images) &&
+    request.images.every(image => typeof image?.url === 'string') &&
+    (request.customPrompt === undefined || typeof request.customPrompt === 'string') &&
+    (request.promptTemplateId === undefined || typeof request.promptTemplateId === 'string') &&
+    (request.promptContext === undefined || typeof request.promptContext === 'object') &&
+    (request.provider === undefined || isProxyProvider(request.provider)) &&
+    (request.model === undefined || isValidModel(request.provider ?? DEFAULT_PROVIDER, request.model)) &&
+    (request.temperature === undefined || isValidTemperature(request.temperature)) &&
+    (request.stream === undefined || typeof request.stream === 'boolean') &&
+    (request.context === undefined || isValidContext(request.context)) &&
+    (request.rubric === undefined || typeof request.rubric === 'boolean')
+  )
+}
+
+// Without a custom prompt, render the requested template (or the registry default)
+async function resolvePrompt(client: SupabaseClient, request: LLMAnalysisRequest): Promise<string> {
+  if (request.customPrompt) return request.customPrompt
+
+  const query = client.from('prompt_templates').select('body')
+  const { data, error } = request.promptTemplateId
+    ? await query.eq('id', request.promptTemplateId).maybeSingle()
+    : await query.eq('is_default', true).maybeSingle()
+
+  if (error) {
+    console.error('Prompt template lookup failed:', error)
+  }
+
+  return renderPromptTemplate(data?.body ?? DEFAULT_PROMPT_TEMPLATE, {
+    ...request.promptContext,
+    facilitatorName: request.facilitatorName,
+    fieldNotes: formatFieldNotes(request.fieldNotes),
+    imagesCount: request.images.length,
+  })
+}
+
+// Emits {type: 'progress', ...} per photo batch, {type: 'delta', text} per token,
+// then {type: 'done', ...} or {type: 'error', error}. The upstream requests are
+// aborted when the client disconnects.
+function streamAnalysis(
+  settings: RunSettings,
+  prompt: string,
+  batches: ImageBatch<AnalysisImage>[],
+  meta: { imagesCount: number; imagesTotal: number },
+  rubricNotes: string | null,
+  logRun: (status: 'succeeded' | 'failed' | 'cancelled', error?: unknown) => void,
+): Response {
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        const content = await buildFinalContent(settings, prompt, batches, meta.imagesTotal, (progress) => {
+          controller.enqueue(sseEvent({ type: 'progress', ...progress }))
+        })
+        const completion = await settings.client.chat.completions.create(
+          {
+            model: settings.model,
+            messages: [{ role: 'user', content }],
+            temperature: settings.temperature,
+            max_tokens: 4000,
+            stream: true,
+            stream_options: { include_usage: true },
+          },
+          { signal: settings.signal },
+        )
+        let analysis = ''
+        for await (const chunk of completion) {
+          addUsage(settings, chunk.usage)
+          const text = chunk.choices[0]?.delta?.content
+          if (text) {
+            analysis += text
+            controller.enqueue(sseEvent({ type: 'delta', text }))
+          }
+        }
+        const rubric = rubricNotes !== null && analysis ? await scoreRubric(settings, analysis, rubricNotes) : null
+        controller.enqueue(sseEvent({
+          type: 'done',
+          provider: settings.provider,
+          model: settings.model,
+          temperature: settings.temperature,
+          ...meta,
+          rubric,
+        }))
+        logRun('succeeded')
+      } catch (error) {
+        if (settings.signal.aborted) {
+          logRun('cancelled')
+        } else {
+          console.error('OpenAI stream error:', error)
+          logRun('failed', error)
+          controller.enqueue(sseEvent({ type: 'error', error: errorMessage(error) }))
+        }
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // Already closed because the client went away
+        }
+      }
+    },
+  })
+
+  return sseResponse(stream)
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    return jsonResponse({ error: 'Missing authorization header' }, 401)
+  }
+
+  // Resolve the caller with their own token so RLS applies to the profile lookup
+  const userClient = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authHeader } },
+  })
+  const { data: { user }, error: userError } = await userClient.auth.getUser()
+  if (userError || !user) {
+    return jsonResponse({ error: 'Invalid or expired session' }, 401)
+  }
+
+  const { data: profile } = await userClient
+    .from('user_profiles')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+  if (!profile || !ALLOWED_ROLES.includes(profile.role)) {
+    return jsonResponse({ error: 'Your account is not allowed to run analyses' }, 403)
+  }
+
+  const serviceClient = createClient(supabaseUrl, supabaseServiceRoleKey)
+  const windowStart = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+  const { count, error: countError } = await serviceClient
+    .from('llm_request_log')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', user.id)
+    .gte('created_at', windowStart)
+
+  if (countError) {
+    console.error('Rate limit lookup failed:', countError)
+    return jsonResponse({ error: 'Could not verify rate limit' }, 500)
+  }
+  if ((count ?? 0) >= RATE_LIMIT_PER_HOUR) {
+    return jsonResponse(
+      { error: `Rate limit reached: ${RATE_LIMIT_PER_HOUR} analyses per hour. Try again later.` },
+      429,
+    )
+  }
+
+  let body: unknown
+  try {
+    body = await req.json()
+  } catch {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400)
+  }
+  if (!isValidRequest(body)) {
+    return jsonResponse({ error: 'Request does not match LLMAnalysisRequest' }, 400)
+  }
+
+  const provider = body.provider ?? DEFAULT_PROVIDER
+  const client = providerClients[provider]
+  if (!client) {
+    return jsonResponse({ error: providerConfigErrors[provider] }, 500)
+  }
+  const model = body.model ?? (provider === 'openai' ? DEFAULT_ANALYSIS_MODEL : compatibleDefaultModel)
+  if (!model) {
+    return jsonResponse({ error: 'No model given and OPENAI_COMPATIBLE_DEFAULT_MODEL is not set' }, 400)
+  }
+
+  await serviceClient.from('llm_request_log').insert({ user_id: user.id })
+
+  const { images } = body
+  const temperature = body.temperature ?? DEFAULT_ANALYSIS_TEMPERATURE
+  const prompt = await resolvePrompt(userClient, body)
+
+  const settings: RunSettings = {
+    client,
+    signal: req.signal,
+    provider,
+    model,
+    temperature,
+    usage: { promptTokens: 0, completionTokens: 0 },
+  }
+  const batches = batchImages(images)
+  const imagesCount = batches.reduce((sum, batch) => sum + batch.images.length, 0)
+  const meta = { imagesCount, imagesTotal: images.length }
+
+  const record: RunRecord = {
+    userId: user.id,
+    context: body.context ?? {},
+    startedAt: Date.now(),
+    imagesCount,
+    batchCount: Math.max(batches.length, 1),
+  }
+  // Keep the function alive until the log row is written, even after the response ends
+  const logRun = (status: 'succeeded' | 'failed' | 'cancelled', error?: unknown) => {
+    EdgeRuntime.waitUntil(recordRun(serviceClient, settings, record, status, error))
+  }
+
+  // Notes given to the rubric call, or null when no rubric was requested
+  const rubricNotes = body.rubric === false ? null : formatFieldNotes(body.fieldNotes)
+
+  if (body.stream) {
+    return streamAnalysis(settings, prompt, batches, meta, rubricNotes, logRun)
+  }
+
+  try {
+    const { analysis, rubric } = await generateAnalysis(settings, prompt, batches, images.length, rubricNotes)
+    logRun('succeeded')
+
+    return jsonResponse({
+      analysis,
+      provider,
+      model,
+      temperature,
+      ...meta,
+      rubric,
+    })
+  } catch (error) {
+    console.error('OpenAI API error:', error)
+    logRun('failed', error)
+    const status = error instanceof OpenAI.APIError && error.status ? error.status : 502
+    return jsonResponse({ error: errorMessage(error) }, status)
+  }
+})
@@ -0,0 +1,223 @@
+-- Migration: Supabase Auth user profiles, roles and role-scoped row level security
+-- Replaces the public read policies with policies scoped to the signed-in user's role and districts
+BEGIN;
+
+-- Roles available to dashboard users
+CREATE TYPE app_role AS ENUM ('admin', 'coordinator', 'partner_viewer');
+
+-- One profile per Supabase Auth user
+CREATE TABLE user_profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    email VARCHAR(255),
+    display_name VARCHAR(255),
+    role app_role NOT NULL DEFAULT 'partner_viewer',
+    partner_organisation_id UUID REFERENCES partner_organisations(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE user_profiles IS 'Dashboard profile and role for each Supabase Auth user';
+COMMENT ON COLUMN user_profiles.partner_organisation_id IS 'Partner organisation whose centres a partner_viewer may open';
+
+CREATE TRIGGER update_user_profiles_updated_at
+    BEFORE UPDATE ON user_profiles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Districts a user is allowed to see
+CREATE TABLE user_district_access (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    district VARCHAR(255) NOT NULL,
+    state VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(user_id, district, state)
+);
+
+COMMENT ON TABLE user_district_access IS 'Districts each coordinator or partner viewer is scoped to';
+
+CREATE INDEX idx_user_district_access_user_id ON user_district_access(user_id);
+CREATE INDEX idx_user_district_access_state_district ON user_district_access(state, district);
+
+-- Create a profile for every new auth user; new users start with no district access
+CREATE OR REPLACE FUNCTION handle_new_auth_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO user_profiles (id, email, display_name)
+    VALUES (NEW.id, NEW.email, COALESCE(NEW.raw_user_meta_data->>'display_name', NEW.email))
+    ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION handle_new_auth_user();
+
+-- Access helpers used by the policies below. SECURITY DEFINER so they can read
+-- user_profiles / user_district_access without recursing through their own policies.
+CREATE OR REPLACE FUNCTION current_app_role()
+RETURNS app_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT role FROM user_profiles WHERE id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(current_app_role() = 'admin', FALSE);
+$$;
+
+CREATE OR REPLACE FUNCTION can_access_district(p_state TEXT, p_district TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT is_admin() OR EXISTS (
+        SELECT 1
+        FROM user_district_access uda
+        WHERE uda.user_id = auth.uid()
+          AND uda.state = p_state
+          AND uda.district = p_district
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION can_access_learning_centre(p_learning_centre_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT is_admin()
+        OR EXISTS (
+            SELECT 1
+            FROM learning_centres lc
+            JOIN user_district_access uda
+              ON uda.state = lc.state AND uda.district = lc.district
+            WHERE lc.id = p_learning_centre_id
+              AND uda.user_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1
+            FROM learning_centre_partner_organisations lcpo
+            JOIN user_profiles up ON up.partner_organisation_id = lcpo.partner_organisation_id
+            WHERE lcpo.learning_centre_id = p_learning_centre_id
+              AND up.id = auth.uid()
+              AND up.role = 'partner_viewer'
+        );
+$$;
+
+-- Field notes, photos and children are only visible to admins and coordinators
+CREATE OR REPLACE FUNCTION can_view_child_data(p_learning_centre_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(current_app_role() IN ('admin', 'coordinator'), FALSE)
+        AND can_access_learning_centre(p_learning_centre_id);
+$$;
+
+-- Drop the public read policies
+DROP POLICY IF EXISTS "Enable read access for all users" ON facilitators;
+DROP POLICY IF EXISTS "Enable read access for all users" ON partner_organisations;
+DROP POLICY IF EXISTS "Enable read access for all users" ON learning_centres;
+DROP POLICY IF EXISTS "Enable read access for all users" ON learning_centre_facilitators;
+DROP POLICY IF EXISTS "Enable read access for all users" ON learning_centre_partner_organisations;
+DROP POLICY IF EXISTS "Enable read access for all users" ON generated_reports;
+DROP POLICY IF EXISTS "Enable read access for all users" ON generated_report_llm_analysis;
+DROP POLICY IF EXISTS "Enable read access for all users" ON volunteers;
+DROP POLICY IF EXISTS "Enable read access for all users" ON learning_centre_volunteers;
+DROP POLICY IF EXISTS "Enable read access for all users" ON district_partner_organisations;
+DROP POLICY IF EXISTS "Public read access on field_notes" ON field_notes;
+DROP POLICY IF EXISTS "Public read access on field_images" ON field_images;
+DROP POLICY IF EXISTS "Public read access on coordinators" ON coordinators;
+DROP POLICY IF EXISTS "Public read access on coordinator_field_notes" ON coordinator_field_notes;
+DROP POLICY IF EXISTS "Public read access on children" ON children;
+DROP POLICY IF EXISTS "Public read access on child_field_note_links" ON child_field_note_links;
+
+-- Directory tables: readable by any signed-in user
+CREATE POLICY "Authenticated read access on facilitators" ON facilitators
+    FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated read access on partner_organisations" ON partner_organisations
+    FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated read access on volunteers" ON volunteers
+    FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Authenticated read access on coordinators" ON coordinators
+    FOR SELECT TO authenticated USING (true);
+
+-- Centre-scoped tables
+CREATE POLICY "Scoped read access on learning_centres" ON learning_centres
+    FOR SELECT TO authenticated USING (can_access_learning_centre(id));
+CREATE POLICY "Scoped read access on learning_centre_facilitators" ON learning_centre_facilitators
+    FOR SELECT TO authenticated USING (can_access_learning_centre(learning_centre_id));
+CREATE POLICY "Scoped read access on learning_centre_partner_organisations" ON learning_centre_partner_organisations
+    FOR SELECT TO authenticated USING (can_access_learning_centre(learning_centre_id));
+CREATE POLICY "Scoped read access on learning_centre_volunteers" ON learning_centre_volunteers
+    FOR SELECT TO authenticated USING (can_access_learning_centre(learning_centre_id));
+CREATE POLICY "Scoped read access on district_partner_organisations" ON district_partner_organisations
+    FOR SELECT TO authenticated USING (can_access_district(state, district));
+CREATE POLICY "Scoped read access on generated_reports" ON generated_reports
+    FOR SELECT TO authenticated USING (can_access_learning_centre(learning_centre_id));
+CREATE POLICY "Scoped read access on generated_report_llm_analysis" ON generated_report_llm_analysis
+    FOR SELECT TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM generated_reports gr
+            WHERE gr.id = generated_report_llm_analysis.generated_report_id
+              AND can_access_learning_centre(gr.learning_centre_id)
+        )
+    );
+
+-- Child-level data: admins and coordinators only
+CREATE POLICY "Scoped read access on field_notes" ON field_notes
+    FOR SELECT TO authenticated USING (can_view_child_data(learning_centre_id));
+CREATE POLICY "Scoped read access on field_images" ON field_images
+    FOR SELECT TO authenticated USING (can_view_child_data(learning_centre_id));
+CREATE POLICY "Scoped read access on coordinator_field_notes" ON coordinator_field_notes
+    FOR SELECT TO authenticated USING (can_view_child_data(learning_centre_id));
+CREATE POLICY "Scoped read access on children" ON children
+    FOR SELECT TO authenticated USING (can_view_child_data(learning_centre_id));
+CREATE POLICY "Scoped read access on child_field_note_links" ON child_field_note_links
+    FOR SELECT TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM children ch
+            WHERE ch.id = child_field_note_links.child_id
+              AND can_view_child_data(ch.learning_centre_id)
+        )
+    );
+
+-- Profiles: users read their own, admins manage everyone
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_district_access ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read own profile" ON user_profiles
+    FOR SELECT TO authenticated USING (id = auth.uid() OR is_admin());
+CREATE POLICY "Admins manage profiles" ON user_profiles
+    FOR ALL TO authenticated USING (is_admin()) WITH CHECK (is_admin());
+CREATE POLICY "Users read own district access" ON user_district_access
+    FOR SELECT TO authenticated USING (user_id = auth.uid() OR is_admin());
+CREATE POLICY "Admins manage district access" ON user_district_access
+    FOR ALL TO authenticated USING (is_admin()) WITH CHECK (is_admin());
+
+-- Views must evaluate RLS as the caller, not the view owner
+ALTER VIEW districts_summary SET (security_invoker = true);
+ALTER VIEW districts_with_partner_organisations SET (security_invoker = true);
+ALTER VIEW learning_centres_with_details SET (security_invoker = true);
+ALTER VIEW generated_reports_summary SET (security_invoker = true);
+
+COMMIT;
@@ -0,0 +1,19 @@
+-- Migration: request log backing the per-user rate limit of the llm-analysis Edge Function
+BEGIN;
+
+CREATE TABLE llm_request_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE llm_request_log IS 'One row per llm-analysis call, used to enforce per-user rate limits';
+
+CREATE INDEX idx_llm_request_log_user_id_created_at ON llm_request_log(user_id, created_at DESC);
+
+-- Only the Edge Function (service role) writes here; admins may inspect usage
+ALTER TABLE llm_request_log ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins read llm_request_log" ON llm_request_log
+    FOR SELECT TO authenticated USING (is_admin());
+
+COMMIT;
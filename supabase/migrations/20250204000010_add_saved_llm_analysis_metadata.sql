@@ -0,0 +1,62 @@
+-- Migration: record how an LLM analysis was produced and allow saving analyses from the UI
+BEGIN;
+
+ALTER TABLE generated_report_llm_analysis
+    ADD COLUMN IF NOT EXISTS prompt_text TEXT,
+    ADD COLUMN IF NOT EXISTS model VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS temperature NUMERIC(3, 2),
+    ADD COLUMN IF NOT EXISTS images_count INTEGER,
+    ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN generated_report_llm_analysis.prompt_text IS 'Prompt template used for the run, before placeholders were filled';
+COMMENT ON COLUMN generated_report_llm_analysis.images_count IS 'Number of images actually sent to the model';
+COMMENT ON COLUMN generated_report_llm_analysis.created_by IS 'User who saved the analysis; NULL for analyses written by the batch script';
+
+-- Replace the report's analysis and flag the report, in one transaction
+CREATE OR REPLACE FUNCTION save_report_llm_analysis(
+    p_generated_report_id UUID,
+    p_text TEXT,
+    p_prompt_text TEXT,
+    p_model TEXT,
+    p_temperature NUMERIC,
+    p_images_count INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_learning_centre_id UUID;
+    v_analysis_id UUID;
+BEGIN
+    SELECT learning_centre_id INTO v_learning_centre_id
+    FROM generated_reports
+    WHERE id = p_generated_report_id;
+
+    IF v_learning_centre_id IS NULL THEN
+        RAISE EXCEPTION 'Generated report % not found', p_generated_report_id;
+    END IF;
+
+    IF NOT can_view_child_data(v_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to save analyses for this learning centre'
+            USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM generated_report_llm_analysis WHERE generated_report_id = p_generated_report_id;
+
+    INSERT INTO generated_report_llm_analysis (
+        generated_report_id, text, prompt_text, model, temperature, images_count, created_by
+    )
+    VALUES (
+        p_generated_report_id, p_text, p_prompt_text, p_model, p_temperature, p_images_count, auth.uid()
+    )
+    RETURNING id INTO v_analysis_id;
+
+    UPDATE generated_reports SET has_llm_analysis = TRUE WHERE id = p_generated_report_id;
+
+    RETURN v_analysis_id;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,131 @@
+-- Migration: versioned prompt template registry shared by the playground and report generation
+BEGIN;
+
+CREATE TABLE prompt_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1 CHECK (version >= 1),
+    body TEXT NOT NULL,
+    changelog TEXT,
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(name, version)
+);
+
+COMMENT ON TABLE prompt_templates IS 'Named, versioned LLM prompt templates. Versions are immutable; edits create a new version';
+COMMENT ON COLUMN prompt_templates.changelog IS 'What changed compared to the previous version of the same template';
+COMMENT ON COLUMN prompt_templates.is_default IS 'Template version used when no template is chosen explicitly';
+
+-- At most one default template version
+CREATE UNIQUE INDEX idx_prompt_templates_single_default ON prompt_templates(is_default) WHERE is_default;
+CREATE INDEX idx_prompt_templates_name ON prompt_templates(name, version DESC);
+
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read prompt_templates" ON prompt_templates
+    FOR SELECT TO authenticated USING (current_app_role() IN ('admin', 'coordinator'));
+CREATE POLICY "Admins create prompt_templates" ON prompt_templates
+    FOR INSERT TO authenticated WITH CHECK (is_admin());
+
+-- Switch the default in one statement so the single-default index never blocks the change
+CREATE OR REPLACE FUNCTION set_default_prompt_template(p_prompt_template_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Only admins can change the default prompt template'
+            USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE prompt_templates
+    SET is_default = (id = p_prompt_template_id)
+    WHERE is_default OR id = p_prompt_template_id;
+END;
+$$;
+
+-- Track which template version produced a saved analysis
+ALTER TABLE generated_report_llm_analysis
+    ADD COLUMN IF NOT EXISTS prompt_template_id UUID REFERENCES prompt_templates(id) ON DELETE SET NULL;
+
+DROP FUNCTION IF EXISTS save_report_llm_analysis(UUID, TEXT, TEXT, TEXT, NUMERIC, INTEGER);
+
+CREATE OR REPLACE FUNCTION save_report_llm_analysis(
+    p_generated_report_id UUID,
+    p_text TEXT,
+    p_prompt_text TEXT,
+    p_model TEXT,
+    p_temperature NUMERIC,
+    p_images_count INTEGER,
+    p_prompt_template_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_learning_centre_id UUID;
+    v_analysis_id UUID;
+BEGIN
+    SELECT learning_centre_id INTO v_learning_centre_id
+    FROM generated_reports
+    WHERE id = p_generated_report_id;
+
+    IF v_learning_centre_id IS NULL THEN
+        RAISE EXCEPTION 'Generated report % not found', p_generated_report_id;
+    END IF;
+
+    IF NOT can_view_child_data(v_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to save analyses for this learning centre'
+            USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM generated_report_llm_analysis WHERE generated_report_id = p_generated_report_id;
+
+    INSERT INTO generated_report_llm_analysis (
+        generated_report_id, text, prompt_text, model, temperature, images_count, prompt_template_id, created_by
+    )
+    VALUES (
+        p_generated_report_id, p_text, p_prompt_text, p_model, p_temperature, p_images_count, p_prompt_template_id, auth.uid()
+    )
+    RETURNING id INTO v_analysis_id;
+
+    UPDATE generated_reports SET has_llm_analysis = TRUE WHERE id = p_generated_report_id;
+
+    RETURN v_analysis_id;
+END;
+$$;
+
+-- Seed the prompt previously hardcoded in the playground as the first default template
+INSERT INTO prompt_templates (name, version, body, changelog, is_default)
+VALUES (
+    'Monthly field report',
+    1,
+    'You are analyzing field notes from a learning facilitator named {{FACILITATOR_NAME}}. The facilitator works with oppressed communities and creates after school learning spaces with a view to build agency. Spaces are designed to be safe, open, joyful and self-determined where learners can make their own decisions.
+
+CONTEXT: The facilitator has shared photos as well as some field notes. Since facilitators often prefer sending images over text, the visual content is crucial for understanding their work.
+
+INSTRUCTIONS:
+- Analyze both the images and text messages to understand what is happening at the learning center
+- Observe if the learning center is safe, open, joyful and self-determined
+- Make a note if there is play happening in the learning centers
+- Check if the learning center is different from school like spaces
+- The images show real field work activities - describe what you see and avoid making assumptions
+- Create a comprehensive field work report based on visual evidence and text notes
+- Pay special attention to the visual documentation as it''s the primary way this facilitator communicates their work
+
+TEXT MESSAGES AND FIELD NOTES:
+{{FIELD_NOTES}}
+
+IMAGES PROVIDED: {{IMAGES_COUNT}} work-related photos showing field activities
+
+Write this as a professional field work assessment report that recognizes the visual documentation as the primary evidence of the facilitator''s work and impact. Don''t make up any details and don''t add any details that are not in the text messages or images. Don''t include the messages and photos in the report. You don''t have to describe each photo. You don''t need to include the purpose or details about the organisation. It''s okay if the report is short and doesn''t have a lot of details. Do not include any title or date in the report.',
+    'Initial version, carried over from the playground default prompt.',
+    TRUE
+);
+
+COMMIT;
@@ -0,0 +1,45 @@
+-- Migration: store reviewer preferences from side-by-side prompt comparisons
+BEGIN;
+
+CREATE TABLE prompt_comparisons (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    learning_centre_id UUID NOT NULL REFERENCES learning_centres(id) ON DELETE CASCADE,
+    month INTEGER NOT NULL CHECK (month >= 1 AND month <= 12),
+    year INTEGER NOT NULL CHECK (year >= 2000 AND year <= 2100),
+    variants JSONB NOT NULL,
+    preferred_variant INTEGER NOT NULL CHECK (preferred_variant >= 0),
+    notes TEXT,
+    reviewer_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (jsonb_typeof(variants) = 'array' AND preferred_variant < jsonb_array_length(variants))
+);
+
+COMMENT ON TABLE prompt_comparisons IS 'A/B prompt comparison runs from the playground and which variant the reviewer preferred';
+COMMENT ON COLUMN prompt_comparisons.variants IS 'Array of {label, prompt_text, prompt_template_id, model, temperature, output}';
+COMMENT ON COLUMN prompt_comparisons.preferred_variant IS 'Index into variants of the preferred output';
+
+CREATE INDEX idx_prompt_comparisons_learning_centre_id ON prompt_comparisons(learning_centre_id);
+CREATE INDEX idx_prompt_comparisons_created_at ON prompt_comparisons(created_at DESC);
+
+ALTER TABLE prompt_comparisons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff read prompt_comparisons" ON prompt_comparisons
+    FOR SELECT TO authenticated USING (can_view_child_data(learning_centre_id));
+CREATE POLICY "Staff record prompt_comparisons" ON prompt_comparisons
+    FOR INSERT TO authenticated WITH CHECK (
+        reviewer_id = auth.uid() AND can_view_child_data(learning_centre_id)
+    );
+
+-- How often each template version was compared and preferred
+CREATE VIEW prompt_template_preference_summary
+WITH (security_invoker = true) AS
+SELECT
+    (variant.value->>'prompt_template_id')::UUID AS prompt_template_id,
+    COUNT(*) AS times_compared,
+    COUNT(*) FILTER (WHERE variant.ordinality - 1 = pc.preferred_variant) AS times_preferred
+FROM prompt_comparisons pc
+CROSS JOIN LATERAL jsonb_array_elements(pc.variants) WITH ORDINALITY AS variant(value, ordinality)
+WHERE variant.value->>'prompt_template_id' IS NOT NULL
+GROUP BY (variant.value->>'prompt_template_id')::UUID;
+
+COMMIT;
@@ -0,0 +1,65 @@
+-- Migration: token, latency and cost accounting for every llm-analysis run
+BEGIN;
+
+CREATE TABLE llm_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed', 'cancelled')),
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    images_count INTEGER NOT NULL DEFAULT 0,
+    batch_count INTEGER NOT NULL DEFAULT 1,
+    latency_ms INTEGER NOT NULL,
+    estimated_cost_usd NUMERIC(10, 6),
+    error TEXT,
+    learning_centre_id UUID REFERENCES learning_centres(id) ON DELETE SET NULL,
+    generated_report_id UUID REFERENCES generated_reports(id) ON DELETE SET NULL,
+    year INTEGER,
+    month INTEGER CHECK (month BETWEEN 1 AND 12),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE llm_runs IS 'One row per llm-analysis run with token usage, latency and estimated cost';
+COMMENT ON COLUMN llm_runs.prompt_tokens IS 'Input tokens summed over the photo batch calls and the final call';
+COMMENT ON COLUMN llm_runs.estimated_cost_usd IS 'From the pricing table in supabase/functions/_shared/pricing.ts; NULL for unpriced models';
+COMMENT ON COLUMN llm_runs.year IS 'Report cycle the run was for, when the caller passed one';
+
+CREATE INDEX idx_llm_runs_created_at ON llm_runs(created_at DESC);
+CREATE INDEX idx_llm_runs_user_id ON llm_runs(user_id);
+CREATE INDEX idx_llm_runs_learning_centre_id ON llm_runs(learning_centre_id);
+CREATE INDEX idx_llm_runs_year_month ON llm_runs(year, month);
+
+-- Written only by the Edge Function (service role); admins review spend
+ALTER TABLE llm_runs ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Admins read llm_runs" ON llm_runs
+    FOR SELECT TO authenticated USING (is_admin());
+
+-- Usage rolled up per report cycle, centre, user and model. Runs without a
+-- report cycle fall back to the month they were made in.
+CREATE VIEW llm_usage_summary
+WITH (security_invoker = true) AS
+SELECT
+    COALESCE(r.year, EXTRACT(YEAR FROM r.created_at)::INTEGER) AS year,
+    COALESCE(r.month, EXTRACT(MONTH FROM r.created_at)::INTEGER) AS month,
+    r.learning_centre_id,
+    lc.centre_name,
+    r.user_id,
+    COALESCE(up.display_name, up.email) AS user_name,
+    r.model,
+    COUNT(*) AS runs,
+    COUNT(*) FILTER (WHERE r.status = 'failed') AS failed_runs,
+    SUM(r.prompt_tokens) AS prompt_tokens,
+    SUM(r.completion_tokens) AS completion_tokens,
+    SUM(r.images_count) AS images_count,
+    ROUND(AVG(r.latency_ms)) AS avg_latency_ms,
+    SUM(r.estimated_cost_usd) AS estimated_cost_usd
+FROM llm_runs r
+LEFT JOIN learning_centres lc ON lc.id = r.learning_centre_id
+LEFT JOIN user_profiles up ON up.id = r.user_id
+GROUP BY 1, 2, r.learning_centre_id, lc.centre_name, r.user_id, up.display_name, up.email, r.model;
+
+COMMENT ON VIEW llm_usage_summary IS 'llm_runs aggregated by report cycle, centre, user and model for the usage page';
+
+COMMIT;
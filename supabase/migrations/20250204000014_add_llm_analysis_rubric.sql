@@ -0,0 +1,60 @@
+-- Migration: structured rubric stored alongside each report analysis
+BEGIN;
+
+ALTER TABLE generated_report_llm_analysis
+    ADD COLUMN rubric JSONB;
+
+COMMENT ON COLUMN generated_report_llm_analysis.rubric IS 'Per-dimension {score 1-5 or null, evidence} for safe, open, joyful, self_determined, play and different_from_school';
+
+-- Recreate the save RPC with the rubric parameter
+DROP FUNCTION IF EXISTS save_report_llm_analysis(UUID, TEXT, TEXT, TEXT, NUMERIC, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION save_report_llm_analysis(
+    p_generated_report_id UUID,
+    p_text TEXT,
+    p_prompt_text TEXT,
+    p_model TEXT,
+    p_temperature NUMERIC,
+    p_images_count INTEGER,
+    p_prompt_template_id UUID DEFAULT NULL,
+    p_rubric JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_learning_centre_id UUID;
+    v_analysis_id UUID;
+BEGIN
+    SELECT learning_centre_id INTO v_learning_centre_id
+    FROM generated_reports
+    WHERE id = p_generated_report_id;
+
+    IF v_learning_centre_id IS NULL THEN
+        RAISE EXCEPTION 'Generated report % not found', p_generated_report_id;
+    END IF;
+
+    IF NOT can_view_child_data(v_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to save analyses for this learning centre'
+            USING ERRCODE = '42501';
+    END IF;
+
+    DELETE FROM generated_report_llm_analysis WHERE generated_report_id = p_generated_report_id;
+
+    INSERT INTO generated_report_llm_analysis (
+        generated_report_id, text, prompt_text, model, temperature, images_count, prompt_template_id, rubric, created_by
+    )
+    VALUES (
+        p_generated_report_id, p_text, p_prompt_text, p_model, p_temperature, p_images_count, p_prompt_template_id, p_rubric, auth.uid()
+    )
+    RETURNING id INTO v_analysis_id;
+
+    UPDATE generated_reports SET has_llm_analysis = TRUE WHERE id = p_generated_report_id;
+
+    RETURN v_analysis_id;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,67 @@
+-- Migration: per-month activity and rubric scores for each learning centre, for trend charts
+BEGIN;
+
+CREATE VIEW learning_centre_monthly_activity
+WITH (security_invoker = true) AS
+WITH note_months AS (
+    SELECT
+        learning_centre_id,
+        EXTRACT(YEAR FROM COALESCE(sent_at, created_at))::INTEGER AS year,
+        EXTRACT(MONTH FROM COALESCE(sent_at, created_at))::INTEGER AS month,
+        COUNT(*) AS field_notes_count
+    FROM field_notes
+    GROUP BY 1, 2, 3
+),
+image_months AS (
+    SELECT
+        learning_centre_id,
+        EXTRACT(YEAR FROM COALESCE(sent_at, created_at))::INTEGER AS year,
+        EXTRACT(MONTH FROM COALESCE(sent_at, created_at))::INTEGER AS month,
+        COUNT(*) AS images_count
+    FROM field_images
+    GROUP BY 1, 2, 3
+),
+-- A centre-month can have one report per facilitator, so scores are averaged
+rubric_months AS (
+    SELECT
+        gr.learning_centre_id,
+        gr.year,
+        gr.month,
+        AVG((a.rubric->'safe'->>'score')::NUMERIC) AS safe_score,
+        AVG((a.rubric->'open'->>'score')::NUMERIC) AS open_score,
+        AVG((a.rubric->'joyful'->>'score')::NUMERIC) AS joyful_score,
+        AVG((a.rubric->'self_determined'->>'score')::NUMERIC) AS self_determined_score,
+        AVG((a.rubric->'play'->>'score')::NUMERIC) AS play_score,
+        AVG((a.rubric->'different_from_school'->>'score')::NUMERIC) AS different_from_school_score
+    FROM generated_reports gr
+    JOIN generated_report_llm_analysis a ON a.generated_report_id = gr.id
+    WHERE a.rubric IS NOT NULL
+    GROUP BY gr.learning_centre_id, gr.year, gr.month
+),
+months AS (
+    SELECT learning_centre_id, year, month FROM note_months
+    UNION
+    SELECT learning_centre_id, year, month FROM image_months
+    UNION
+    SELECT learning_centre_id, year, month FROM rubric_months
+)
+SELECT
+    m.learning_centre_id,
+    m.year,
+    m.month,
+    COALESCE(n.field_notes_count, 0) AS field_notes_count,
+    COALESCE(i.images_count, 0) AS images_count,
+    r.safe_score,
+    r.open_score,
+    r.joyful_score,
+    r.self_determined_score,
+    r.play_score,
+    r.different_from_school_score
+FROM months m
+LEFT JOIN note_months n USING (learning_centre_id, year, month)
+LEFT JOIN image_months i USING (learning_centre_id, year, month)
+LEFT JOIN rubric_months r USING (learning_centre_id, year, month);
+
+COMMENT ON VIEW learning_centre_monthly_activity IS 'Field note and image counts plus averaged rubric scores per learning centre and month';
+
+COMMIT;
@@ -0,0 +1,87 @@
+-- Migration: per centre-month activity and report status for the coverage matrix.
+-- SECURITY DEFINER for the same reason as district_dashboard_metrics: partner viewers
+-- see whether a month had field activity without reading the notes or photos.
+BEGIN;
+
+CREATE OR REPLACE FUNCTION report_coverage(
+    p_from DATE,
+    p_to DATE
+)
+RETURNS TABLE (
+    learning_centre_id UUID,
+    year INTEGER,
+    month INTEGER,
+    field_notes_count BIGINT,
+    images_count BIGINT,
+    reports_count BIGINT,
+    analysed_reports_count BIGINT,
+    report_id UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH note_months AS (
+        SELECT
+            fn.learning_centre_id,
+            EXTRACT(YEAR FROM COALESCE(fn.sent_at, fn.created_at))::INTEGER AS year,
+            EXTRACT(MONTH FROM COALESCE(fn.sent_at, fn.created_at))::INTEGER AS month,
+            COUNT(*) AS field_notes_count
+        FROM field_notes fn
+        WHERE COALESCE(fn.sent_at, fn.created_at) >= DATE_TRUNC('month', p_from)
+          AND COALESCE(fn.sent_at, fn.created_at) < p_to + 1
+          AND can_access_learning_centre(fn.learning_centre_id)
+        GROUP BY 1, 2, 3
+    ),
+    image_months AS (
+        SELECT
+            fi.learning_centre_id,
+            EXTRACT(YEAR FROM COALESCE(fi.sent_at, fi.created_at))::INTEGER AS year,
+            EXTRACT(MONTH FROM COALESCE(fi.sent_at, fi.created_at))::INTEGER AS month,
+            COUNT(*) AS images_count
+        FROM field_images fi
+        WHERE COALESCE(fi.sent_at, fi.created_at) >= DATE_TRUNC('month', p_from)
+          AND COALESCE(fi.sent_at, fi.created_at) < p_to + 1
+          AND can_access_learning_centre(fi.learning_centre_id)
+        GROUP BY 1, 2, 3
+    ),
+    -- Analysed reports are linked first so the matrix opens the most complete one
+    report_months AS (
+        SELECT
+            gr.learning_centre_id,
+            gr.year,
+            gr.month,
+            COUNT(*) AS reports_count,
+            COUNT(*) FILTER (WHERE gr.has_llm_analysis) AS analysed_reports_count,
+            (ARRAY_AGG(gr.id ORDER BY gr.has_llm_analysis DESC, gr.created_at DESC))[1] AS report_id
+        FROM generated_reports gr
+        WHERE MAKE_DATE(gr.year, gr.month, 1) BETWEEN DATE_TRUNC('month', p_from) AND p_to
+          AND can_access_learning_centre(gr.learning_centre_id)
+        GROUP BY gr.learning_centre_id, gr.year, gr.month
+    ),
+    months AS (
+        SELECT n.learning_centre_id, n.year, n.month FROM note_months n
+        UNION
+        SELECT i.learning_centre_id, i.year, i.month FROM image_months i
+        UNION
+        SELECT r.learning_centre_id, r.year, r.month FROM report_months r
+    )
+    SELECT
+        m.learning_centre_id,
+        m.year,
+        m.month,
+        COALESCE(n.field_notes_count, 0) AS field_notes_count,
+        COALESCE(i.images_count, 0) AS images_count,
+        COALESCE(r.reports_count, 0) AS reports_count,
+        COALESCE(r.analysed_reports_count, 0) AS analysed_reports_count,
+        r.report_id
+    FROM months m
+    LEFT JOIN note_months n USING (learning_centre_id, year, month)
+    LEFT JOIN image_months i USING (learning_centre_id, year, month)
+    LEFT JOIN report_months r USING (learning_centre_id, year, month);
+$$;
+
+COMMENT ON FUNCTION report_coverage(DATE, DATE) IS 'Field activity and report counts per accessible learning centre and month, for the report coverage matrix';
+
+COMMIT;
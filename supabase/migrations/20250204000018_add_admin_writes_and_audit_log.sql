@@ -0,0 +1,108 @@
+-- Migration: admin write access to centres, people and their assignments, with an audit log
+-- Every insert, update and delete on these tables is recorded with the signed-in user.
+BEGIN;
+
+CREATE TABLE audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name TEXT NOT NULL,
+    record_id UUID NOT NULL,
+    -- Centre the change belongs to, so a centre's history includes its assignments
+    learning_centre_id UUID,
+    action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+    changed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    old_data JSONB,
+    new_data JSONB,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE audit_log IS 'Row changes made to centres, facilitators, volunteers, partner organisations and their assignments';
+COMMENT ON COLUMN audit_log.old_data IS 'Row before the change; NULL for inserts';
+COMMENT ON COLUMN audit_log.new_data IS 'Row after the change; NULL for deletes';
+
+CREATE INDEX idx_audit_log_record_id ON audit_log(record_id);
+CREATE INDEX idx_audit_log_learning_centre_id ON audit_log(learning_centre_id);
+CREATE INDEX idx_audit_log_changed_at ON audit_log(changed_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins read audit_log" ON audit_log
+    FOR SELECT TO authenticated USING (is_admin());
+
+-- SECURITY DEFINER so the insert succeeds even though nobody may write audit_log directly
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_row JSONB := CASE WHEN TG_OP = 'DELETE' THEN to_jsonb(OLD) ELSE to_jsonb(NEW) END;
+BEGIN
+    -- Updates that only touch updated_at are not worth recording
+    IF TG_OP = 'UPDATE' AND (to_jsonb(OLD) - 'updated_at') = (to_jsonb(NEW) - 'updated_at') THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO audit_log (table_name, record_id, learning_centre_id, action, changed_by, old_data, new_data)
+    VALUES (
+        TG_TABLE_NAME,
+        (v_row->>'id')::UUID,
+        CASE
+            WHEN TG_TABLE_NAME = 'learning_centres' THEN (v_row->>'id')::UUID
+            ELSE (v_row->>'learning_centre_id')::UUID
+        END,
+        TG_OP,
+        auth.uid(),
+        CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+        CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER audit_learning_centres
+    AFTER INSERT OR UPDATE OR DELETE ON learning_centres
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+CREATE TRIGGER audit_facilitators
+    AFTER INSERT OR UPDATE OR DELETE ON facilitators
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+CREATE TRIGGER audit_volunteers
+    AFTER INSERT OR UPDATE OR DELETE ON volunteers
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+CREATE TRIGGER audit_partner_organisations
+    AFTER INSERT OR UPDATE OR DELETE ON partner_organisations
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+CREATE TRIGGER audit_learning_centre_facilitators
+    AFTER INSERT OR UPDATE OR DELETE ON learning_centre_facilitators
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+CREATE TRIGGER audit_learning_centre_volunteers
+    AFTER INSERT OR UPDATE OR DELETE ON learning_centre_volunteers
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+CREATE TRIGGER audit_learning_centre_partner_organisations
+    AFTER INSERT OR UPDATE OR DELETE ON learning_centre_partner_organisations
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Centres and facilitators are ended with end_date rather than deleted, because
+-- deleting either cascades to their generated reports
+CREATE POLICY "Admins create learning_centres" ON learning_centres
+    FOR INSERT TO authenticated WITH CHECK (is_admin());
+CREATE POLICY "Admins update learning_centres" ON learning_centres
+    FOR UPDATE TO authenticated USING (is_admin()) WITH CHECK (is_admin());
+CREATE POLICY "Admins create facilitators" ON facilitators
+    FOR INSERT TO authenticated WITH CHECK (is_admin());
+CREATE POLICY "Admins update facilitators" ON facilitators
+    FOR UPDATE TO authenticated USING (is_admin()) WITH CHECK (is_admin());
+
+CREATE POLICY "Admins manage volunteers" ON volunteers
+    FOR ALL TO authenticated USING (is_admin()) WITH CHECK (is_admin());
+CREATE POLICY "Admins manage partner_organisations" ON partner_organisations
+    FOR ALL TO authenticated USING (is_admin()) WITH CHECK (is_admin());
+CREATE POLICY "Admins manage learning_centre_facilitators" ON learning_centre_facilitators
+    FOR ALL TO authenticated USING (is_admin()) WITH CHECK (is_admin());
+CREATE POLICY "Admins manage learning_centre_volunteers" ON learning_centre_volunteers
+    FOR ALL TO authenticated USING (is_admin()) WITH CHECK (is_admin());
+CREATE POLICY "Admins manage learning_centre_partner_organisations" ON learning_centre_partner_organisations
+    FOR ALL TO authenticated USING (is_admin()) WITH CHECK (is_admin());
+
+COMMIT;
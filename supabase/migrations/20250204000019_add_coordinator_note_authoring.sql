@@ -0,0 +1,153 @@
+-- Migration: write coordinator field notes from the dashboard
+-- Coordinators are linked to a login so notes can be owned; saving and deleting go through
+-- SECURITY DEFINER RPCs that check ownership and keep child tags in step with the note.
+BEGIN;
+
+ALTER TABLE coordinators
+    ADD COLUMN user_id UUID UNIQUE REFERENCES user_profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN coordinators.user_id IS 'Dashboard login of the coordinator; notes written under this coordinator belong to that user';
+
+ALTER TABLE coordinator_field_notes
+    ADD COLUMN created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+COMMENT ON COLUMN coordinator_field_notes.created_by IS 'User who entered the note; NULL for imported notes';
+
+CREATE TRIGGER update_coordinator_field_notes_updated_at
+    BEFORE UPDATE ON coordinator_field_notes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX idx_coordinators_user_id ON coordinators(user_id);
+
+-- Admins manage the coordinator list and logins; changes are audited like other people
+CREATE POLICY "Admins manage coordinators" ON coordinators
+    FOR ALL TO authenticated USING (is_admin()) WITH CHECK (is_admin());
+
+CREATE TRIGGER audit_coordinators
+    AFTER INSERT OR UPDATE OR DELETE ON coordinators
+    FOR EACH ROW EXECUTE FUNCTION record_audit_log();
+
+-- Admins may write as any coordinator; coordinators only as themselves
+CREATE OR REPLACE FUNCTION can_author_coordinator_note(p_coordinator_id UUID, p_learning_centre_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT can_view_child_data(p_learning_centre_id) AND (
+        is_admin()
+        OR EXISTS (
+            SELECT 1 FROM coordinators c
+            WHERE c.id = p_coordinator_id
+              AND c.user_id = auth.uid()
+        )
+    );
+$$;
+
+-- Admins edit any note; coordinators edit notes they entered or that are attributed to them
+CREATE OR REPLACE FUNCTION can_edit_coordinator_note(p_note_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM coordinator_field_notes n
+        LEFT JOIN coordinators c ON c.id = n.coordinator_id
+        WHERE n.id = p_note_id
+          AND can_view_child_data(n.learning_centre_id)
+          AND (is_admin() OR n.created_by = auth.uid() OR c.user_id = auth.uid())
+    );
+$$;
+
+-- Creates the note when p_note_id is NULL, otherwise updates it. Child tags are
+-- replaced with p_child_ids, which must belong to the note's centre.
+CREATE OR REPLACE FUNCTION save_coordinator_field_note(
+    p_note_id UUID,
+    p_learning_centre_id UUID,
+    p_coordinator_id UUID,
+    p_noted_at TIMESTAMP WITH TIME ZONE,
+    p_note_text TEXT,
+    p_child_ids UUID[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_note_id UUID := p_note_id;
+BEGIN
+    IF COALESCE(TRIM(p_note_text), '') = '' THEN
+        RAISE EXCEPTION 'Note text is required' USING ERRCODE = '23514';
+    END IF;
+
+    IF NOT can_author_coordinator_note(p_coordinator_id, p_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to write notes as this coordinator for this learning centre'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM UNNEST(COALESCE(p_child_ids, '{}')) AS tagged(child_id)
+        LEFT JOIN children ch ON ch.id = tagged.child_id
+        WHERE ch.learning_centre_id IS DISTINCT FROM p_learning_centre_id
+    ) THEN
+        RAISE EXCEPTION 'Tagged children must belong to the note''s learning centre'
+            USING ERRCODE = '23503';
+    END IF;
+
+    IF v_note_id IS NULL THEN
+        INSERT INTO coordinator_field_notes (coordinator_id, learning_centre_id, note_text, noted_at, created_by)
+        VALUES (p_coordinator_id, p_learning_centre_id, p_note_text, COALESCE(p_noted_at, NOW()), auth.uid())
+        RETURNING id INTO v_note_id;
+    ELSE
+        IF NOT can_edit_coordinator_note(v_note_id) THEN
+            RAISE EXCEPTION 'Not allowed to edit this coordinator note' USING ERRCODE = '42501';
+        END IF;
+
+        UPDATE coordinator_field_notes
+        SET coordinator_id = p_coordinator_id,
+            learning_centre_id = p_learning_centre_id,
+            note_text = p_note_text,
+            noted_at = COALESCE(p_noted_at, noted_at)
+        WHERE id = v_note_id;
+    END IF;
+
+    DELETE FROM child_field_note_links
+    WHERE coordinator_field_note_id = v_note_id
+      AND NOT (child_id = ANY(COALESCE(p_child_ids, '{}')));
+
+    INSERT INTO child_field_note_links (child_id, coordinator_field_note_id)
+    SELECT DISTINCT tagged.child_id, v_note_id
+    FROM UNNEST(COALESCE(p_child_ids, '{}')) AS tagged(child_id)
+    WHERE NOT EXISTS (
+        SELECT 1 FROM child_field_note_links l
+        WHERE l.coordinator_field_note_id = v_note_id
+          AND l.child_id = tagged.child_id
+    );
+
+    RETURN v_note_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_coordinator_field_note(p_note_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT can_edit_coordinator_note(p_note_id) THEN
+        RAISE EXCEPTION 'Not allowed to delete this coordinator note' USING ERRCODE = '42501';
+    END IF;
+
+    -- Child tags go with the note through ON DELETE CASCADE
+    DELETE FROM coordinator_field_notes WHERE id = p_note_id;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,212 @@
+-- Migration: manage child records from the dashboard
+-- Children can be created, have aliases added or removed, be merged when two rows turn
+-- out to be the same child, and be marked as having left the centre. Every change goes
+-- through a SECURITY DEFINER RPC that writes a child_history entry.
+BEGIN;
+
+ALTER TABLE children
+    ADD COLUMN left_at DATE;
+
+COMMENT ON COLUMN children.left_at IS 'Date the child left the learning centre; NULL while attending';
+
+CREATE TABLE child_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+    learning_centre_id UUID NOT NULL REFERENCES learning_centres(id) ON DELETE CASCADE,
+    action TEXT NOT NULL CHECK (action IN ('created', 'alias_added', 'alias_removed', 'merged', 'left', 'returned')),
+    details JSONB NOT NULL DEFAULT '{}'::jsonb,
+    changed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE child_history IS 'Changes made to child records, written by the child management RPCs';
+COMMENT ON COLUMN child_history.details IS 'alias for alias changes, left_at for left, merged_child_id and merged_aliases for merges';
+
+ALTER TABLE child_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Scoped read access on child_history" ON child_history
+    FOR SELECT TO authenticated USING (can_view_child_data(learning_centre_id));
+
+CREATE INDEX idx_child_history_child_id ON child_history(child_id);
+CREATE INDEX idx_child_history_learning_centre_id ON child_history(learning_centre_id, changed_at DESC);
+
+-- Trims, drops blanks and removes case-insensitive duplicates, keeping the first spelling
+CREATE OR REPLACE FUNCTION normalise_child_aliases(p_aliases TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT COALESCE(ARRAY_AGG(alias ORDER BY first_position), '{}')
+    FROM (
+        SELECT (ARRAY_AGG(TRIM(a.alias) ORDER BY a.position))[1] AS alias, MIN(a.position) AS first_position
+        FROM UNNEST(COALESCE(p_aliases, '{}')) WITH ORDINALITY AS a(alias, position)
+        WHERE TRIM(a.alias) <> ''
+        GROUP BY LOWER(TRIM(a.alias))
+    ) deduped;
+$$;
+
+CREATE OR REPLACE FUNCTION create_child(
+    p_learning_centre_id UUID,
+    p_name TEXT,
+    p_aliases TEXT[] DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_child_id UUID;
+    v_aliases TEXT[] := normalise_child_aliases(p_aliases);
+BEGIN
+    IF NOT can_view_child_data(p_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to manage children for this learning centre' USING ERRCODE = '42501';
+    END IF;
+
+    IF COALESCE(TRIM(p_name), '') = '' THEN
+        RAISE EXCEPTION 'Name is required' USING ERRCODE = '23514';
+    END IF;
+
+    INSERT INTO children (learning_centre_id, name, alias)
+    VALUES (p_learning_centre_id, TRIM(p_name), v_aliases)
+    RETURNING id INTO v_child_id;
+
+    INSERT INTO child_history (child_id, learning_centre_id, action, details, changed_by)
+    VALUES (v_child_id, p_learning_centre_id, 'created', JSONB_BUILD_OBJECT('aliases', v_aliases), auth.uid());
+
+    RETURN v_child_id;
+END;
+$$;
+
+-- Replaces the alias list, recording each alias added or removed
+CREATE OR REPLACE FUNCTION set_child_aliases(p_child_id UUID, p_aliases TEXT[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_child children%ROWTYPE;
+    v_aliases TEXT[] := normalise_child_aliases(p_aliases);
+BEGIN
+    SELECT * INTO v_child FROM children WHERE id = p_child_id;
+
+    IF NOT FOUND OR NOT can_view_child_data(v_child.learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to edit this child' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO child_history (child_id, learning_centre_id, action, details, changed_by)
+    SELECT p_child_id, v_child.learning_centre_id, 'alias_added', JSONB_BUILD_OBJECT('alias', added.alias), auth.uid()
+    FROM UNNEST(v_aliases) AS added(alias)
+    WHERE NOT LOWER(added.alias) = ANY(SELECT LOWER(a) FROM UNNEST(COALESCE(v_child.alias, '{}')) AS a);
+
+    INSERT INTO child_history (child_id, learning_centre_id, action, details, changed_by)
+    SELECT p_child_id, v_child.learning_centre_id, 'alias_removed', JSONB_BUILD_OBJECT('alias', removed.alias), auth.uid()
+    FROM UNNEST(COALESCE(v_child.alias, '{}')) AS removed(alias)
+    WHERE TRIM(removed.alias) <> ''
+      AND NOT LOWER(TRIM(removed.alias)) = ANY(SELECT LOWER(a) FROM UNNEST(v_aliases) AS a);
+
+    UPDATE children SET alias = v_aliases WHERE id = p_child_id;
+END;
+$$;
+
+-- p_left_at NULL records that the child is attending again
+CREATE OR REPLACE FUNCTION set_child_left_at(p_child_id UUID, p_left_at DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_child children%ROWTYPE;
+BEGIN
+    SELECT * INTO v_child FROM children WHERE id = p_child_id;
+
+    IF NOT FOUND OR NOT can_view_child_data(v_child.learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to edit this child' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_child.left_at IS NOT DISTINCT FROM p_left_at THEN
+        RETURN;
+    END IF;
+
+    UPDATE children SET left_at = p_left_at WHERE id = p_child_id;
+
+    INSERT INTO child_history (child_id, learning_centre_id, action, details, changed_by)
+    VALUES (
+        p_child_id,
+        v_child.learning_centre_id,
+        CASE WHEN p_left_at IS NULL THEN 'returned' ELSE 'left' END,
+        CASE WHEN p_left_at IS NULL THEN '{}'::jsonb ELSE JSONB_BUILD_OBJECT('left_at', p_left_at) END,
+        auth.uid()
+    );
+END;
+$$;
+
+-- Folds p_source_child_id into p_target_child_id: note links and aliases move to the
+-- target, the source's history is kept under the target, and the source row is deleted
+CREATE OR REPLACE FUNCTION merge_children(p_source_child_id UUID, p_target_child_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_source children%ROWTYPE;
+    v_target children%ROWTYPE;
+BEGIN
+    IF p_source_child_id = p_target_child_id THEN
+        RAISE EXCEPTION 'A child cannot be merged into itself' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_source FROM children WHERE id = p_source_child_id;
+    SELECT * INTO v_target FROM children WHERE id = p_target_child_id;
+
+    IF v_source.id IS NULL OR v_target.id IS NULL
+        OR NOT can_view_child_data(v_target.learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to merge these children' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_source.learning_centre_id <> v_target.learning_centre_id THEN
+        RAISE EXCEPTION 'Only children at the same learning centre can be merged' USING ERRCODE = '22023';
+    END IF;
+
+    -- Drop source links the target already has, then move the rest
+    DELETE FROM child_field_note_links s
+    WHERE s.child_id = p_source_child_id
+      AND EXISTS (
+          SELECT 1 FROM child_field_note_links t
+          WHERE t.child_id = p_target_child_id
+            AND t.field_note_id IS NOT DISTINCT FROM s.field_note_id
+            AND t.coordinator_field_note_id IS NOT DISTINCT FROM s.coordinator_field_note_id
+      );
+
+    UPDATE child_field_note_links SET child_id = p_target_child_id WHERE child_id = p_source_child_id;
+    UPDATE child_history SET child_id = p_target_child_id WHERE child_id = p_source_child_id;
+
+    UPDATE children
+    SET alias = normalise_child_aliases(COALESCE(v_target.alias, '{}') || COALESCE(v_source.alias, '{}')),
+        -- The merged record is only marked as left if both were
+        left_at = CASE
+            WHEN v_target.left_at IS NULL OR v_source.left_at IS NULL THEN NULL
+            ELSE GREATEST(v_target.left_at, v_source.left_at)
+        END
+    WHERE id = p_target_child_id;
+
+    INSERT INTO child_history (child_id, learning_centre_id, action, details, changed_by)
+    VALUES (
+        p_target_child_id,
+        v_target.learning_centre_id,
+        'merged',
+        JSONB_BUILD_OBJECT(
+            'merged_child_id', p_source_child_id,
+            'merged_aliases', COALESCE(v_source.alias, '{}')
+        ),
+        auth.uid()
+    );
+
+    DELETE FROM children WHERE id = p_source_child_id;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,125 @@
+-- Migration: review queue for child mentions found in notes
+-- The dashboard scans a centre's facilitator and coordinator notes for child aliases and
+-- proposes links here. Staff accept or reject each one; accepting creates the
+-- child_field_note_links row, rejecting keeps the pair from being proposed again.
+BEGIN;
+
+CREATE TABLE child_mention_suggestions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+    learning_centre_id UUID NOT NULL REFERENCES learning_centres(id) ON DELETE CASCADE,
+    field_note_id UUID REFERENCES field_notes(id) ON DELETE CASCADE,
+    coordinator_field_note_id UUID REFERENCES coordinator_field_notes(id) ON DELETE CASCADE,
+    matched_alias TEXT NOT NULL,
+    matched_text TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+    created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reviewed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    CHECK (
+        ((field_note_id IS NOT NULL)::int + (coordinator_field_note_id IS NOT NULL)::int) = 1
+    )
+);
+
+COMMENT ON TABLE child_mention_suggestions IS 'Proposed child_field_note_links found by alias matching, awaiting review';
+COMMENT ON COLUMN child_mention_suggestions.matched_text IS 'Text in the note that matched, which may be a spelling or script variant of matched_alias';
+
+ALTER TABLE child_mention_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Scoped read access on child_mention_suggestions" ON child_mention_suggestions
+    FOR SELECT TO authenticated USING (can_view_child_data(learning_centre_id));
+
+-- One suggestion per child and note, whatever its outcome
+CREATE UNIQUE INDEX idx_child_mention_suggestions_field_note
+    ON child_mention_suggestions(child_id, field_note_id) WHERE field_note_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_child_mention_suggestions_coordinator_note
+    ON child_mention_suggestions(child_id, coordinator_field_note_id) WHERE coordinator_field_note_id IS NOT NULL;
+CREATE INDEX idx_child_mention_suggestions_centre_status
+    ON child_mention_suggestions(learning_centre_id, status);
+
+-- Records suggestions for a centre from a JSON array of
+-- {child_id, field_note_id | coordinator_field_note_id, matched_alias, matched_text}.
+-- Pairs already linked or already suggested are skipped; returns the number added.
+CREATE OR REPLACE FUNCTION propose_child_mentions(p_learning_centre_id UUID, p_suggestions JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_added INTEGER;
+BEGIN
+    IF NOT can_view_child_data(p_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to suggest child links for this learning centre' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO child_mention_suggestions (
+        child_id, learning_centre_id, field_note_id, coordinator_field_note_id,
+        matched_alias, matched_text, created_by
+    )
+    SELECT s.child_id, p_learning_centre_id, s.field_note_id, s.coordinator_field_note_id,
+           s.matched_alias, s.matched_text, auth.uid()
+    FROM JSONB_TO_RECORDSET(COALESCE(p_suggestions, '[]'::jsonb)) AS s(
+        child_id UUID,
+        field_note_id UUID,
+        coordinator_field_note_id UUID,
+        matched_alias TEXT,
+        matched_text TEXT
+    )
+    JOIN children ch ON ch.id = s.child_id AND ch.learning_centre_id = p_learning_centre_id
+    LEFT JOIN field_notes fn ON fn.id = s.field_note_id
+    LEFT JOIN coordinator_field_notes cfn ON cfn.id = s.coordinator_field_note_id
+    WHERE COALESCE(fn.learning_centre_id, cfn.learning_centre_id) = p_learning_centre_id
+      AND NOT EXISTS (
+          SELECT 1 FROM child_field_note_links l
+          WHERE l.child_id = s.child_id
+            AND l.field_note_id IS NOT DISTINCT FROM s.field_note_id
+            AND l.coordinator_field_note_id IS NOT DISTINCT FROM s.coordinator_field_note_id
+      )
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_added = ROW_COUNT;
+    RETURN v_added;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION review_child_mention_suggestion(p_suggestion_id UUID, p_accept BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_suggestion child_mention_suggestions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_suggestion FROM child_mention_suggestions WHERE id = p_suggestion_id;
+
+    IF NOT FOUND OR NOT can_view_child_data(v_suggestion.learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to review this suggestion' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_suggestion.status <> 'pending' THEN
+        RAISE EXCEPTION 'This suggestion has already been reviewed' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_accept THEN
+        INSERT INTO child_field_note_links (child_id, field_note_id, coordinator_field_note_id)
+        SELECT v_suggestion.child_id, v_suggestion.field_note_id, v_suggestion.coordinator_field_note_id
+        WHERE NOT EXISTS (
+            SELECT 1 FROM child_field_note_links l
+            WHERE l.child_id = v_suggestion.child_id
+              AND l.field_note_id IS NOT DISTINCT FROM v_suggestion.field_note_id
+              AND l.coordinator_field_note_id IS NOT DISTINCT FROM v_suggestion.coordinator_field_note_id
+        );
+    END IF;
+
+    UPDATE child_mention_suggestions
+    SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'rejected' END,
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+    WHERE id = p_suggestion_id;
+END;
+$$;
+
+COMMIT;
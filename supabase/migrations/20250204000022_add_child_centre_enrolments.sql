@@ -0,0 +1,121 @@
+-- Migration: track the centres a child has attended
+-- children.learning_centre_id stays the child's current centre, which scopes access.
+-- child_centre_enrolments keeps the earlier centres so a child's timeline and history
+-- survive a move, and move_child_to_centre records the change.
+BEGIN;
+
+CREATE TABLE child_centre_enrolments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+    learning_centre_id UUID NOT NULL REFERENCES learning_centres(id) ON DELETE CASCADE,
+    started_on DATE NOT NULL,
+    ended_on DATE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (ended_on IS NULL OR ended_on >= started_on)
+);
+
+COMMENT ON TABLE child_centre_enrolments IS 'Centres a child has attended; the open enrolment matches children.learning_centre_id';
+
+ALTER TABLE child_centre_enrolments ENABLE ROW LEVEL SECURITY;
+
+-- Staff of the child's current centre see the full list, so the timeline can name earlier centres
+CREATE POLICY "Scoped read access on child_centre_enrolments" ON child_centre_enrolments
+    FOR SELECT TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM children ch
+            WHERE ch.id = child_centre_enrolments.child_id
+              AND can_view_child_data(ch.learning_centre_id)
+        )
+    );
+
+CREATE UNIQUE INDEX idx_child_centre_enrolments_open ON child_centre_enrolments(child_id) WHERE ended_on IS NULL;
+CREATE INDEX idx_child_centre_enrolments_learning_centre_id ON child_centre_enrolments(learning_centre_id);
+
+INSERT INTO child_centre_enrolments (child_id, learning_centre_id, started_on)
+SELECT id, learning_centre_id, COALESCE(created_at, NOW())::date
+FROM children;
+
+-- New children start enrolled at the centre they are created at
+CREATE OR REPLACE FUNCTION enrol_new_child()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO child_centre_enrolments (child_id, learning_centre_id, started_on)
+    VALUES (NEW.id, NEW.learning_centre_id, COALESCE(NEW.created_at, NOW())::date);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enrol_new_child
+    AFTER INSERT ON children
+    FOR EACH ROW EXECUTE FUNCTION enrol_new_child();
+
+ALTER TABLE child_history DROP CONSTRAINT child_history_action_check;
+ALTER TABLE child_history ADD CONSTRAINT child_history_action_check
+    CHECK (action IN ('created', 'alias_added', 'alias_removed', 'merged', 'left', 'returned', 'moved'));
+
+-- Moves a child to another centre from p_moved_on. The caller needs child data access
+-- to both centres. The child's history moves with them.
+CREATE OR REPLACE FUNCTION move_child_to_centre(p_child_id UUID, p_learning_centre_id UUID, p_moved_on DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_child children%ROWTYPE;
+    v_moved_on DATE := COALESCE(p_moved_on, CURRENT_DATE);
+BEGIN
+    SELECT * INTO v_child FROM children WHERE id = p_child_id;
+
+    IF NOT FOUND
+        OR NOT can_view_child_data(v_child.learning_centre_id)
+        OR NOT can_view_child_data(p_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to move this child to that learning centre' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_child.learning_centre_id = p_learning_centre_id THEN
+        RAISE EXCEPTION 'The child is already at this learning centre' USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM child_centre_enrolments
+        WHERE child_id = p_child_id AND ended_on IS NULL AND started_on > v_moved_on
+    ) THEN
+        RAISE EXCEPTION 'The move date is before the child joined their current centre' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE child_centre_enrolments
+    SET ended_on = v_moved_on
+    WHERE child_id = p_child_id AND ended_on IS NULL;
+
+    INSERT INTO child_centre_enrolments (child_id, learning_centre_id, started_on)
+    VALUES (p_child_id, p_learning_centre_id, v_moved_on);
+
+    -- A child who moves is attending again
+    UPDATE children
+    SET learning_centre_id = p_learning_centre_id,
+        left_at = NULL
+    WHERE id = p_child_id;
+
+    UPDATE child_history SET learning_centre_id = p_learning_centre_id WHERE child_id = p_child_id;
+
+    INSERT INTO child_history (child_id, learning_centre_id, action, details, changed_by)
+    VALUES (
+        p_child_id,
+        p_learning_centre_id,
+        'moved',
+        JSONB_BUILD_OBJECT(
+            'from_learning_centre_id', v_child.learning_centre_id,
+            'to_learning_centre_id', p_learning_centre_id,
+            'moved_on', v_moved_on
+        ),
+        auth.uid()
+    );
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,147 @@
+-- Migration: tag children in field photos
+-- Mirrors child_field_note_links for field_images, with consent flags recorded per
+-- photo and child. Tags are written directly by staff who can see both the child and
+-- the photo.
+BEGIN;
+
+CREATE TABLE child_field_image_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+    field_image_id UUID NOT NULL REFERENCES field_images(id) ON DELETE CASCADE,
+    consent_confirmed BOOLEAN NOT NULL DEFAULT FALSE,
+    share_externally BOOLEAN NOT NULL DEFAULT FALSE,
+    tagged_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (child_id, field_image_id)
+);
+
+COMMENT ON TABLE child_field_image_links IS 'Children who appear in a field photo';
+COMMENT ON COLUMN child_field_image_links.consent_confirmed IS 'A guardian has agreed to this photo of the child being kept and shown to staff';
+COMMENT ON COLUMN child_field_image_links.share_externally IS 'The photo may be shown to partners or used outside the team';
+
+CREATE TRIGGER update_child_field_image_links_updated_at
+    BEFORE UPDATE ON child_field_image_links
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX idx_child_field_image_links_child_id ON child_field_image_links(child_id);
+CREATE INDEX idx_child_field_image_links_field_image_id ON child_field_image_links(field_image_id);
+
+ALTER TABLE child_field_image_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Scoped read access on child_field_image_links" ON child_field_image_links
+    FOR SELECT TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM children ch
+            WHERE ch.id = child_field_image_links.child_id
+              AND can_view_child_data(ch.learning_centre_id)
+        )
+    );
+
+CREATE POLICY "Scoped write access on child_field_image_links" ON child_field_image_links
+    FOR ALL TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM children ch
+            WHERE ch.id = child_field_image_links.child_id
+              AND can_view_child_data(ch.learning_centre_id)
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM children ch
+            WHERE ch.id = child_field_image_links.child_id
+              AND can_view_child_data(ch.learning_centre_id)
+        )
+        AND EXISTS (
+            SELECT 1 FROM field_images fi
+            WHERE fi.id = child_field_image_links.field_image_id
+              AND can_view_child_data(fi.learning_centre_id)
+        )
+    );
+
+-- Merging children now also moves photo tags. Where both children were tagged in the same
+-- photo the target's tag is kept, with consent recorded if either tag had it.
+CREATE OR REPLACE FUNCTION merge_children(p_source_child_id UUID, p_target_child_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_source children%ROWTYPE;
+    v_target children%ROWTYPE;
+BEGIN
+    IF p_source_child_id = p_target_child_id THEN
+        RAISE EXCEPTION 'A child cannot be merged into itself' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_source FROM children WHERE id = p_source_child_id;
+    SELECT * INTO v_target FROM children WHERE id = p_target_child_id;
+
+    IF v_source.id IS NULL OR v_target.id IS NULL
+        OR NOT can_view_child_data(v_target.learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to merge these children' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_source.learning_centre_id <> v_target.learning_centre_id THEN
+        RAISE EXCEPTION 'Only children at the same learning centre can be merged' USING ERRCODE = '22023';
+    END IF;
+
+    -- Drop source links the target already has, then move the rest
+    DELETE FROM child_field_note_links s
+    WHERE s.child_id = p_source_child_id
+      AND EXISTS (
+          SELECT 1 FROM child_field_note_links t
+          WHERE t.child_id = p_target_child_id
+            AND t.field_note_id IS NOT DISTINCT FROM s.field_note_id
+            AND t.coordinator_field_note_id IS NOT DISTINCT FROM s.coordinator_field_note_id
+      );
+
+    UPDATE child_field_note_links SET child_id = p_target_child_id WHERE child_id = p_source_child_id;
+
+    UPDATE child_field_image_links t
+    SET consent_confirmed = t.consent_confirmed OR s.consent_confirmed,
+        share_externally = t.share_externally OR s.share_externally
+    FROM child_field_image_links s
+    WHERE t.child_id = p_target_child_id
+      AND s.child_id = p_source_child_id
+      AND s.field_image_id = t.field_image_id;
+
+    DELETE FROM child_field_image_links s
+    WHERE s.child_id = p_source_child_id
+      AND EXISTS (
+          SELECT 1 FROM child_field_image_links t
+          WHERE t.child_id = p_target_child_id
+            AND t.field_image_id = s.field_image_id
+      );
+
+    UPDATE child_field_image_links SET child_id = p_target_child_id WHERE child_id = p_source_child_id;
+    UPDATE child_history SET child_id = p_target_child_id WHERE child_id = p_source_child_id;
+
+    UPDATE children
+    SET alias = normalise_child_aliases(COALESCE(v_target.alias, '{}') || COALESCE(v_source.alias, '{}')),
+        -- The merged record is only marked as left if both were
+        left_at = CASE
+            WHEN v_target.left_at IS NULL OR v_source.left_at IS NULL THEN NULL
+            ELSE GREATEST(v_target.left_at, v_source.left_at)
+        END
+    WHERE id = p_target_child_id;
+
+    INSERT INTO child_history (child_id, learning_centre_id, action, details, changed_by)
+    VALUES (
+        p_target_child_id,
+        v_target.learning_centre_id,
+        'merged',
+        JSONB_BUILD_OBJECT(
+            'merged_child_id', p_source_child_id,
+            'merged_aliases', COALESCE(v_source.alias, '{}')
+        ),
+        auth.uid()
+    );
+
+    DELETE FROM children WHERE id = p_source_child_id;
+END;
+$$;
+
+COMMIT;
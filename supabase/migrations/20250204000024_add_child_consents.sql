@@ -0,0 +1,172 @@
+-- Migration: record guardian consent for each child
+-- child_consents keeps every consent form recorded for a child; the latest one applies.
+-- child_consent_status joins each child to their latest record so the dashboard can
+-- pseudonymise aliases and hide photos when consent is missing or has expired.
+BEGIN;
+
+CREATE TABLE child_consents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    child_id UUID NOT NULL REFERENCES children(id) ON DELETE CASCADE,
+    photo_consent BOOLEAN NOT NULL DEFAULT FALSE,
+    name_display_consent BOOLEAN NOT NULL DEFAULT FALSE,
+    consented_on DATE NOT NULL,
+    expires_on DATE,
+    guardian_name VARCHAR(255),
+    guardian_acknowledged_on DATE,
+    notes TEXT,
+    recorded_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (expires_on IS NULL OR expires_on >= consented_on)
+);
+
+COMMENT ON TABLE child_consents IS 'Consent forms recorded for a child; the latest one applies';
+COMMENT ON COLUMN child_consents.photo_consent IS 'Photos of the child may be kept and shown to staff';
+COMMENT ON COLUMN child_consents.name_display_consent IS 'The child''s aliases may be shown instead of a pseudonym';
+COMMENT ON COLUMN child_consents.guardian_acknowledged_on IS 'When the guardian confirmed the form; consent is not current without it';
+
+CREATE INDEX idx_child_consents_child_id ON child_consents(child_id, consented_on DESC, created_at DESC);
+
+ALTER TABLE child_consents ENABLE ROW LEVEL SECURITY;
+
+-- Records are never edited; a new form replaces the previous one
+CREATE POLICY "Scoped read access on child_consents" ON child_consents
+    FOR SELECT TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM children ch
+            WHERE ch.id = child_consents.child_id
+              AND can_view_child_data(ch.learning_centre_id)
+        )
+    );
+
+CREATE POLICY "Scoped insert access on child_consents" ON child_consents
+    FOR INSERT TO authenticated WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM children ch
+            WHERE ch.id = child_consents.child_id
+              AND can_view_child_data(ch.learning_centre_id)
+        )
+    );
+
+CREATE VIEW child_consent_status
+WITH (security_invoker = true) AS
+SELECT
+    ch.id AS child_id,
+    ch.learning_centre_id,
+    lc.centre_name,
+    lc.state,
+    lc.district,
+    ch.alias,
+    ch.left_at,
+    cc.id AS consent_id,
+    cc.photo_consent,
+    cc.name_display_consent,
+    cc.consented_on,
+    cc.expires_on,
+    cc.guardian_name,
+    cc.guardian_acknowledged_on,
+    (cc.id IS NOT NULL
+        AND cc.guardian_acknowledged_on IS NOT NULL
+        AND (cc.expires_on IS NULL OR cc.expires_on >= CURRENT_DATE)) AS consent_current,
+    COALESCE(cc.photo_consent
+        AND cc.guardian_acknowledged_on IS NOT NULL
+        AND (cc.expires_on IS NULL OR cc.expires_on >= CURRENT_DATE), FALSE) AS photo_consent_current,
+    COALESCE(cc.name_display_consent
+        AND cc.guardian_acknowledged_on IS NOT NULL
+        AND (cc.expires_on IS NULL OR cc.expires_on >= CURRENT_DATE), FALSE) AS name_consent_current
+FROM children ch
+JOIN learning_centres lc ON lc.id = ch.learning_centre_id
+LEFT JOIN LATERAL (
+    SELECT *
+    FROM child_consents c
+    WHERE c.child_id = ch.id
+    ORDER BY c.consented_on DESC, c.created_at DESC
+    LIMIT 1
+) cc ON TRUE;
+
+COMMENT ON VIEW child_consent_status IS 'Each child with their latest consent record and whether it is current';
+
+-- Merging children now also moves consent records, so the latest form for either child applies
+CREATE OR REPLACE FUNCTION merge_children(p_source_child_id UUID, p_target_child_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_source children%ROWTYPE;
+    v_target children%ROWTYPE;
+BEGIN
+    IF p_source_child_id = p_target_child_id THEN
+        RAISE EXCEPTION 'A child cannot be merged into itself' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO v_source FROM children WHERE id = p_source_child_id;
+    SELECT * INTO v_target FROM children WHERE id = p_target_child_id;
+
+    IF v_source.id IS NULL OR v_target.id IS NULL
+        OR NOT can_view_child_data(v_target.learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to merge these children' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_source.learning_centre_id <> v_target.learning_centre_id THEN
+        RAISE EXCEPTION 'Only children at the same learning centre can be merged' USING ERRCODE = '22023';
+    END IF;
+
+    -- Drop source links the target already has, then move the rest
+    DELETE FROM child_field_note_links s
+    WHERE s.child_id = p_source_child_id
+      AND EXISTS (
+          SELECT 1 FROM child_field_note_links t
+          WHERE t.child_id = p_target_child_id
+            AND t.field_note_id IS NOT DISTINCT FROM s.field_note_id
+            AND t.coordinator_field_note_id IS NOT DISTINCT FROM s.coordinator_field_note_id
+      );
+
+    UPDATE child_field_note_links SET child_id = p_target_child_id WHERE child_id = p_source_child_id;
+
+    UPDATE child_field_image_links t
+    SET consent_confirmed = t.consent_confirmed OR s.consent_confirmed,
+        share_externally = t.share_externally OR s.share_externally
+    FROM child_field_image_links s
+    WHERE t.child_id = p_target_child_id
+      AND s.child_id = p_source_child_id
+      AND s.field_image_id = t.field_image_id;
+
+    DELETE FROM child_field_image_links s
+    WHERE s.child_id = p_source_child_id
+      AND EXISTS (
+          SELECT 1 FROM child_field_image_links t
+          WHERE t.child_id = p_target_child_id
+            AND t.field_image_id = s.field_image_id
+      );
+
+    UPDATE child_field_image_links SET child_id = p_target_child_id WHERE child_id = p_source_child_id;
+    UPDATE child_consents SET child_id = p_target_child_id WHERE child_id = p_source_child_id;
+    UPDATE child_history SET child_id = p_target_child_id WHERE child_id = p_source_child_id;
+
+    UPDATE children
+    SET alias = normalise_child_aliases(COALESCE(v_target.alias, '{}') || COALESCE(v_source.alias, '{}')),
+        -- The merged record is only marked as left if both were
+        left_at = CASE
+            WHEN v_target.left_at IS NULL OR v_source.left_at IS NULL THEN NULL
+            ELSE GREATEST(v_target.left_at, v_source.left_at)
+        END
+    WHERE id = p_target_child_id;
+
+    INSERT INTO child_history (child_id, learning_centre_id, action, details, changed_by)
+    VALUES (
+        p_target_child_id,
+        v_target.learning_centre_id,
+        'merged',
+        JSONB_BUILD_OBJECT(
+            'merged_child_id', p_source_child_id,
+            'merged_aliases', COALESCE(v_source.alias, '{}')
+        ),
+        auth.uid()
+    );
+
+    DELETE FROM children WHERE id = p_source_child_id;
+END;
+$$;
+
+COMMIT;
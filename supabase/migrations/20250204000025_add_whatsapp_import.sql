@@ -0,0 +1,114 @@
+-- Migration: import WhatsApp chat exports from the dashboard
+-- Staff upload a facilitator group's "Export chat" zip; the dashboard parses it, matches
+-- senders to the centre's facilitators and, after a preview, stores the messages as field
+-- notes and the attached photos as field images. Photos go to the field-media bucket.
+BEGIN;
+
+-- Photos are served by URL like the ones the import script stored, so the model and the
+-- dashboard can load them directly. Objects are named by a hash of their bytes, so the same
+-- photo is stored once however often it is imported.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('field-media', 'field-media', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects are stored under <learning_centre_id>/, and only staff who can see the centre's
+-- child data may add or list them
+CREATE POLICY "Scoped upload access on field-media" ON storage.objects
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        bucket_id = 'field-media'
+        AND (storage.foldername(name))[1] ~ '^[0-9a-f-]{36}$'
+        AND can_view_child_data(((storage.foldername(name))[1])::UUID)
+    );
+
+CREATE POLICY "Scoped read access on field-media" ON storage.objects
+    FOR SELECT TO authenticated
+    USING (
+        bucket_id = 'field-media'
+        AND (storage.foldername(name))[1] ~ '^[0-9a-f-]{36}$'
+        AND can_view_child_data(((storage.foldername(name))[1])::UUID)
+    );
+
+-- Stores imported messages for a centre from JSON arrays of notes
+-- {facilitator_id, text, sent_at} and photos {facilitator_id, photo_url, caption, sent_at}.
+-- Facilitators must be assigned to the centre. Rows already stored by an
+-- earlier import of the same chat are skipped, so an import can be safely repeated.
+CREATE OR REPLACE FUNCTION import_field_messages(
+    p_learning_centre_id UUID,
+    p_notes JSONB,
+    p_images JSONB
+)
+RETURNS TABLE (notes_added INTEGER, images_added INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_notes_added INTEGER;
+    v_images_added INTEGER;
+BEGIN
+    IF NOT can_view_child_data(p_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to import field data for this learning centre' USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM (
+            SELECT n.facilitator_id
+            FROM JSONB_TO_RECORDSET(COALESCE(p_notes, '[]'::jsonb)) AS n(facilitator_id UUID)
+            UNION
+            SELECT i.facilitator_id
+            FROM JSONB_TO_RECORDSET(COALESCE(p_images, '[]'::jsonb)) AS i(facilitator_id UUID)
+        ) f
+        WHERE NOT EXISTS (
+            SELECT 1 FROM learning_centre_facilitators lcf
+            WHERE lcf.learning_centre_id = p_learning_centre_id
+              AND lcf.facilitator_id = f.facilitator_id
+        )
+    ) THEN
+        RAISE EXCEPTION 'Every message must come from a facilitator assigned to this learning centre'
+            USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO field_notes (learning_centre_id, facilitator_id, text, sent_at)
+    SELECT p_learning_centre_id, n.facilitator_id, BTRIM(n.text), n.sent_at
+    FROM JSONB_TO_RECORDSET(COALESCE(p_notes, '[]'::jsonb)) AS n(
+        facilitator_id UUID,
+        text TEXT,
+        sent_at TIMESTAMP WITH TIME ZONE
+    )
+    WHERE NULLIF(BTRIM(n.text), '') IS NOT NULL
+      AND n.sent_at IS NOT NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM field_notes fn
+          WHERE fn.learning_centre_id = p_learning_centre_id
+            AND fn.facilitator_id = n.facilitator_id
+            AND fn.sent_at = n.sent_at
+            AND fn.text = BTRIM(n.text)
+      );
+    GET DIAGNOSTICS v_notes_added = ROW_COUNT;
+
+    INSERT INTO field_images (learning_centre_id, facilitator_id, photo_url, caption, sent_at)
+    SELECT p_learning_centre_id, i.facilitator_id, i.photo_url, NULLIF(BTRIM(i.caption), ''), i.sent_at
+    FROM JSONB_TO_RECORDSET(COALESCE(p_images, '[]'::jsonb)) AS i(
+        facilitator_id UUID,
+        photo_url TEXT,
+        caption TEXT,
+        sent_at TIMESTAMP WITH TIME ZONE
+    )
+    WHERE NULLIF(BTRIM(i.photo_url), '') IS NOT NULL
+      AND i.sent_at IS NOT NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM field_images fi
+          WHERE fi.learning_centre_id = p_learning_centre_id
+            AND fi.facilitator_id = i.facilitator_id
+            AND fi.sent_at = i.sent_at
+            AND fi.photo_url = i.photo_url
+      );
+    GET DIAGNOSTICS v_images_added = ROW_COUNT;
+
+    RETURN QUERY SELECT v_notes_added, v_images_added;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,714 @@
+-- Migration: detect duplicate field notes and photos
+-- Re-imported chats and forwarded messages store the same note or photo twice. Notes get
+-- a hash of their normalised text, and identical notes are queued for review as they are
+-- inserted. The dashboard scans a centre for near-identical notes and for photos with
+-- matching perceptual hashes and queues those too. Staff merge or dismiss each pair;
+-- a merged row points at the row it duplicates through duplicate_of and is left out of
+-- counts and analysis.
+BEGIN;
+
+-- Lowercased, NFC, with punctuation, whitespace and zero-width characters collapsed to single spaces
+CREATE OR REPLACE FUNCTION normalise_field_note_text(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT BTRIM(REGEXP_REPLACE(
+        LOWER(NORMALIZE(COALESCE(p_text, ''), NFC)),
+        '[[:space:][:punct:]\u200B-\u200D\uFEFF]+',
+        ' ',
+        'g'
+    ));
+$$;
+
+ALTER TABLE field_notes
+    ADD COLUMN content_hash TEXT,
+    ADD COLUMN duplicate_of UUID REFERENCES field_notes(id) ON DELETE SET NULL;
+
+ALTER TABLE field_images
+    ADD COLUMN perceptual_hash TEXT,
+    ADD COLUMN duplicate_of UUID REFERENCES field_images(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN field_notes.content_hash IS 'MD5 of normalise_field_note_text(text); NULL for notes without text';
+COMMENT ON COLUMN field_notes.duplicate_of IS 'The note this one was confirmed to duplicate; duplicates are excluded from counts and analysis';
+COMMENT ON COLUMN field_images.perceptual_hash IS '64-bit difference hash (16 hex characters) computed by the dashboard';
+COMMENT ON COLUMN field_images.duplicate_of IS 'The photo this one was confirmed to duplicate; duplicates are excluded from counts and analysis';
+
+CREATE INDEX idx_field_notes_content_hash ON field_notes(learning_centre_id, content_hash);
+CREATE INDEX idx_field_notes_duplicate_of ON field_notes(duplicate_of) WHERE duplicate_of IS NOT NULL;
+CREATE INDEX idx_field_images_duplicate_of ON field_images(duplicate_of) WHERE duplicate_of IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION set_field_note_content_hash()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_normalised TEXT := normalise_field_note_text(NEW.text);
+BEGIN
+    NEW.content_hash := CASE WHEN v_normalised = '' THEN NULL ELSE MD5(v_normalised) END;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_field_note_content_hash
+    BEFORE INSERT OR UPDATE OF text ON field_notes
+    FOR EACH ROW EXECUTE FUNCTION set_field_note_content_hash();
+
+UPDATE field_notes
+SET content_hash = CASE
+    WHEN normalise_field_note_text(text) = '' THEN NULL
+    ELSE MD5(normalise_field_note_text(text))
+END;
+
+CREATE TABLE field_duplicate_candidates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    learning_centre_id UUID NOT NULL REFERENCES learning_centres(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('note', 'image')),
+    original_field_note_id UUID REFERENCES field_notes(id) ON DELETE CASCADE,
+    duplicate_field_note_id UUID REFERENCES field_notes(id) ON DELETE CASCADE,
+    original_field_image_id UUID REFERENCES field_images(id) ON DELETE CASCADE,
+    duplicate_field_image_id UUID REFERENCES field_images(id) ON DELETE CASCADE,
+    method TEXT NOT NULL CHECK (method IN ('exact', 'near', 'perceptual')),
+    similarity NUMERIC(4, 3) NOT NULL CHECK (similarity BETWEEN 0 AND 1),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'merged', 'dismissed')),
+    created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reviewed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    CHECK (
+        (kind = 'note'
+            AND original_field_note_id IS NOT NULL AND duplicate_field_note_id IS NOT NULL
+            AND original_field_note_id <> duplicate_field_note_id
+            AND original_field_image_id IS NULL AND duplicate_field_image_id IS NULL)
+        OR (kind = 'image'
+            AND original_field_image_id IS NOT NULL AND duplicate_field_image_id IS NOT NULL
+            AND original_field_image_id <> duplicate_field_image_id
+            AND original_field_note_id IS NULL AND duplicate_field_note_id IS NULL)
+    )
+);
+
+COMMENT ON TABLE field_duplicate_candidates IS 'Pairs of field notes or photos that look like duplicates, awaiting review';
+COMMENT ON COLUMN field_duplicate_candidates.similarity IS '1 for identical text; word overlap for near notes; share of matching hash bits for photos';
+
+ALTER TABLE field_duplicate_candidates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Scoped read access on field_duplicate_candidates" ON field_duplicate_candidates
+    FOR SELECT TO authenticated USING (can_view_child_data(learning_centre_id));
+
+-- One candidate per pair, whatever its outcome
+CREATE UNIQUE INDEX idx_field_duplicate_candidates_notes
+    ON field_duplicate_candidates(original_field_note_id, duplicate_field_note_id) WHERE kind = 'note';
+CREATE UNIQUE INDEX idx_field_duplicate_candidates_images
+    ON field_duplicate_candidates(original_field_image_id, duplicate_field_image_id) WHERE kind = 'image';
+CREATE INDEX idx_field_duplicate_candidates_centre_status
+    ON field_duplicate_candidates(learning_centre_id, status);
+
+-- New notes with the same text as an earlier note at the centre are queued as they arrive.
+-- Only earlier notes count, so when an import stores several copies in one statement each
+-- is queued against the first rather than against each other.
+CREATE OR REPLACE FUNCTION queue_exact_field_note_duplicate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_original_id UUID;
+    v_sent_at TIMESTAMP WITH TIME ZONE := COALESCE(NEW.sent_at, NEW.created_at);
+BEGIN
+    IF NEW.content_hash IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT fn.id INTO v_original_id
+    FROM field_notes fn
+    WHERE fn.learning_centre_id = NEW.learning_centre_id
+      AND fn.content_hash = NEW.content_hash
+      AND (COALESCE(fn.sent_at, fn.created_at), fn.id) < (v_sent_at, NEW.id)
+      AND fn.duplicate_of IS NULL
+    ORDER BY COALESCE(fn.sent_at, fn.created_at), fn.id
+    LIMIT 1;
+
+    IF v_original_id IS NOT NULL THEN
+        INSERT INTO field_duplicate_candidates (
+            learning_centre_id, kind, original_field_note_id, duplicate_field_note_id, method, similarity
+        )
+        VALUES (NEW.learning_centre_id, 'note', v_original_id, NEW.id, 'exact', 1)
+        ON CONFLICT DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_exact_field_note_duplicate
+    AFTER INSERT ON field_notes
+    FOR EACH ROW EXECUTE FUNCTION queue_exact_field_note_duplicate();
+
+-- Queue the identical notes already stored, each against the earliest copy
+WITH ranked AS (
+    SELECT
+        id,
+        learning_centre_id,
+        FIRST_VALUE(id) OVER (
+            PARTITION BY learning_centre_id, content_hash
+            ORDER BY COALESCE(sent_at, created_at), id
+        ) AS original_id
+    FROM field_notes
+    WHERE content_hash IS NOT NULL
+)
+INSERT INTO field_duplicate_candidates (
+    learning_centre_id, kind, original_field_note_id, duplicate_field_note_id, method, similarity
+)
+SELECT learning_centre_id, 'note', original_id, id, 'exact', 1
+FROM ranked
+WHERE id <> original_id
+ON CONFLICT DO NOTHING;
+
+-- Stores perceptual hashes from a JSON array of {field_image_id, perceptual_hash}.
+-- Photos the caller cannot see are skipped; returns the number stored.
+CREATE OR REPLACE FUNCTION record_field_image_hashes(p_hashes JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_updated INTEGER;
+BEGIN
+    UPDATE field_images fi
+    SET perceptual_hash = h.perceptual_hash
+    FROM JSONB_TO_RECORDSET(COALESCE(p_hashes, '[]'::jsonb)) AS h(field_image_id UUID, perceptual_hash TEXT)
+    WHERE fi.id = h.field_image_id
+      AND h.perceptual_hash ~ '^[0-9a-f]{16}$'
+      AND can_view_child_data(fi.learning_centre_id);
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+    RETURN v_updated;
+END;
+$$;
+
+-- As in 20250204000025, with photos also taking a perceptual_hash computed during the
+-- import. Notes already stored match on their text hash, so a copy that differs only in
+-- case or punctuation is skipped too, and photos match on either their file or their hash.
+CREATE OR REPLACE FUNCTION import_field_messages(
+    p_learning_centre_id UUID,
+    p_notes JSONB,
+    p_images JSONB
+)
+RETURNS TABLE (notes_added INTEGER, images_added INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_notes_added INTEGER;
+    v_images_added INTEGER;
+BEGIN
+    IF NOT can_view_child_data(p_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to import field data for this learning centre' USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM (
+            SELECT n.facilitator_id
+            FROM JSONB_TO_RECORDSET(COALESCE(p_notes, '[]'::jsonb)) AS n(facilitator_id UUID)
+            UNION
+            SELECT i.facilitator_id
+            FROM JSONB_TO_RECORDSET(COALESCE(p_images, '[]'::jsonb)) AS i(facilitator_id UUID)
+        ) f
+        WHERE NOT EXISTS (
+            SELECT 1 FROM learning_centre_facilitators lcf
+            WHERE lcf.learning_centre_id = p_learning_centre_id
+              AND lcf.facilitator_id = f.facilitator_id
+        )
+    ) THEN
+        RAISE EXCEPTION 'Every message must come from a facilitator assigned to this learning centre'
+            USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO field_notes (learning_centre_id, facilitator_id, text, sent_at)
+    SELECT p_learning_centre_id, n.facilitator_id, BTRIM(n.text), n.sent_at
+    FROM JSONB_TO_RECORDSET(COALESCE(p_notes, '[]'::jsonb)) AS n(
+        facilitator_id UUID,
+        text TEXT,
+        sent_at TIMESTAMP WITH TIME ZONE
+    )
+    WHERE NULLIF(BTRIM(n.text), '') IS NOT NULL
+      AND n.sent_at IS NOT NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM field_notes fn
+          WHERE fn.learning_centre_id = p_learning_centre_id
+            AND fn.facilitator_id = n.facilitator_id
+            AND fn.sent_at = n.sent_at
+            AND fn.content_hash = MD5(normalise_field_note_text(n.text))
+      );
+    GET DIAGNOSTICS v_notes_added = ROW_COUNT;
+
+    INSERT INTO field_images (learning_centre_id, facilitator_id, photo_url, caption, sent_at, perceptual_hash)
+    SELECT
+        p_learning_centre_id, i.facilitator_id, i.photo_url, NULLIF(BTRIM(i.caption), ''), i.sent_at,
+        CASE WHEN i.perceptual_hash ~ '^[0-9a-f]{16}$' THEN i.perceptual_hash END
+    FROM JSONB_TO_RECORDSET(COALESCE(p_images, '[]'::jsonb)) AS i(
+        facilitator_id UUID,
+        photo_url TEXT,
+        caption TEXT,
+        sent_at TIMESTAMP WITH TIME ZONE,
+        perceptual_hash TEXT
+    )
+    WHERE NULLIF(BTRIM(i.photo_url), '') IS NOT NULL
+      AND i.sent_at IS NOT NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM field_images fi
+          WHERE fi.learning_centre_id = p_learning_centre_id
+            AND fi.facilitator_id = i.facilitator_id
+            AND fi.sent_at = i.sent_at
+            AND (fi.photo_url = i.photo_url OR fi.perceptual_hash = i.perceptual_hash)
+      );
+    GET DIAGNOSTICS v_images_added = ROW_COUNT;
+
+    RETURN QUERY SELECT v_notes_added, v_images_added;
+END;
+$$;
+
+-- Records candidates for a centre from a JSON array of
+-- {kind, original_id, duplicate_id, method, similarity}. Pairs already queued in either
+-- order, or involving a confirmed duplicate, are skipped; returns the number added.
+CREATE OR REPLACE FUNCTION propose_field_duplicates(p_learning_centre_id UUID, p_candidates JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_added INTEGER;
+BEGIN
+    IF NOT can_view_child_data(p_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to queue duplicates for this learning centre' USING ERRCODE = '42501';
+    END IF;
+
+    WITH candidates AS (
+        SELECT c.*
+        FROM JSONB_TO_RECORDSET(COALESCE(p_candidates, '[]'::jsonb)) AS c(
+            kind TEXT,
+            original_id UUID,
+            duplicate_id UUID,
+            method TEXT,
+            similarity NUMERIC
+        )
+    )
+    INSERT INTO field_duplicate_candidates (
+        learning_centre_id, kind,
+        original_field_note_id, duplicate_field_note_id,
+        original_field_image_id, duplicate_field_image_id,
+        method, similarity, created_by
+    )
+    SELECT
+        p_learning_centre_id, c.kind,
+        CASE WHEN c.kind = 'note' THEN c.original_id END,
+        CASE WHEN c.kind = 'note' THEN c.duplicate_id END,
+        CASE WHEN c.kind = 'image' THEN c.original_id END,
+        CASE WHEN c.kind = 'image' THEN c.duplicate_id END,
+        c.method, ROUND(c.similarity, 3), auth.uid()
+    FROM candidates c
+    WHERE (
+        c.kind = 'note' AND c.method IN ('exact', 'near')
+        AND EXISTS (
+            SELECT 1 FROM field_notes o
+            WHERE o.id = c.original_id AND o.learning_centre_id = p_learning_centre_id AND o.duplicate_of IS NULL
+        )
+        AND EXISTS (
+            SELECT 1 FROM field_notes d
+            WHERE d.id = c.duplicate_id AND d.learning_centre_id = p_learning_centre_id AND d.duplicate_of IS NULL
+        )
+        AND NOT EXISTS (
+            SELECT 1 FROM field_duplicate_candidates x
+            WHERE x.original_field_note_id = c.duplicate_id AND x.duplicate_field_note_id = c.original_id
+        )
+    ) OR (
+        c.kind = 'image' AND c.method = 'perceptual'
+        AND EXISTS (
+            SELECT 1 FROM field_images o
+            WHERE o.id = c.original_id AND o.learning_centre_id = p_learning_centre_id AND o.duplicate_of IS NULL
+        )
+        AND EXISTS (
+            SELECT 1 FROM field_images d
+            WHERE d.id = c.duplicate_id AND d.learning_centre_id = p_learning_centre_id AND d.duplicate_of IS NULL
+        )
+        AND NOT EXISTS (
+            SELECT 1 FROM field_duplicate_candidates x
+            WHERE x.original_field_image_id = c.duplicate_id AND x.duplicate_field_image_id = c.original_id
+        )
+    )
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_added = ROW_COUNT;
+    RETURN v_added;
+END;
+$$;
+
+-- Merging marks the duplicate with duplicate_of and moves its child tags onto the original.
+-- Other pending candidates for the same duplicate are dismissed, since it is now settled.
+CREATE OR REPLACE FUNCTION review_field_duplicate(p_candidate_id UUID, p_merge BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_candidate field_duplicate_candidates%ROWTYPE;
+    v_original_id UUID;
+BEGIN
+    SELECT * INTO v_candidate FROM field_duplicate_candidates WHERE id = p_candidate_id;
+
+    IF NOT FOUND OR NOT can_view_child_data(v_candidate.learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to review this duplicate' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_candidate.status <> 'pending' THEN
+        RAISE EXCEPTION 'This duplicate has already been reviewed' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_merge AND v_candidate.kind = 'note' THEN
+        -- Point at the first note in the chain, in case the original was merged meanwhile
+        SELECT COALESCE(duplicate_of, id) INTO v_original_id
+        FROM field_notes WHERE id = v_candidate.original_field_note_id;
+
+        IF v_original_id = v_candidate.duplicate_field_note_id THEN
+            RAISE EXCEPTION 'These notes are already merged the other way' USING ERRCODE = '22023';
+        END IF;
+
+        UPDATE field_notes SET duplicate_of = v_original_id WHERE id = v_candidate.duplicate_field_note_id;
+        UPDATE field_notes SET duplicate_of = v_original_id WHERE duplicate_of = v_candidate.duplicate_field_note_id;
+
+        INSERT INTO child_field_note_links (child_id, field_note_id)
+        SELECT l.child_id, v_original_id
+        FROM child_field_note_links l
+        WHERE l.field_note_id = v_candidate.duplicate_field_note_id
+          AND NOT EXISTS (
+              SELECT 1 FROM child_field_note_links t
+              WHERE t.child_id = l.child_id AND t.field_note_id = v_original_id
+          );
+        DELETE FROM child_field_note_links WHERE field_note_id = v_candidate.duplicate_field_note_id;
+
+        UPDATE field_duplicate_candidates
+        SET status = 'dismissed', reviewed_by = auth.uid(), reviewed_at = NOW()
+        WHERE status = 'pending'
+          AND id <> p_candidate_id
+          AND duplicate_field_note_id = v_candidate.duplicate_field_note_id;
+    ELSIF p_merge THEN
+        SELECT COALESCE(duplicate_of, id) INTO v_original_id
+        FROM field_images WHERE id = v_candidate.original_field_image_id;
+
+        IF v_original_id = v_candidate.duplicate_field_image_id THEN
+            RAISE EXCEPTION 'These photos are already merged the other way' USING ERRCODE = '22023';
+        END IF;
+
+        UPDATE field_images SET duplicate_of = v_original_id WHERE id = v_candidate.duplicate_field_image_id;
+        UPDATE field_images SET duplicate_of = v_original_id WHERE duplicate_of = v_candidate.duplicate_field_image_id;
+
+        UPDATE child_field_image_links t
+        SET consent_confirmed = t.consent_confirmed OR s.consent_confirmed,
+            share_externally = t.share_externally OR s.share_externally
+        FROM child_field_image_links s
+        WHERE t.field_image_id = v_original_id
+          AND s.field_image_id = v_candidate.duplicate_field_image_id
+          AND s.child_id = t.child_id;
+
+        DELETE FROM child_field_image_links s
+        WHERE s.field_image_id = v_candidate.duplicate_field_image_id
+          AND EXISTS (
+              SELECT 1 FROM child_field_image_links t
+              WHERE t.field_image_id = v_original_id AND t.child_id = s.child_id
+          );
+
+        UPDATE child_field_image_links
+        SET field_image_id = v_original_id
+        WHERE field_image_id = v_candidate.duplicate_field_image_id;
+
+        UPDATE field_duplicate_candidates
+        SET status = 'dismissed', reviewed_by = auth.uid(), reviewed_at = NOW()
+        WHERE status = 'pending'
+          AND id <> p_candidate_id
+          AND duplicate_field_image_id = v_candidate.duplicate_field_image_id;
+    END IF;
+
+    UPDATE field_duplicate_candidates
+    SET status = CASE WHEN p_merge THEN 'merged' ELSE 'dismissed' END,
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+    WHERE id = p_candidate_id;
+END;
+$$;
+
+-- Counts below now leave out confirmed duplicates
+
+CREATE OR REPLACE VIEW learning_centre_monthly_activity
+WITH (security_invoker = true) AS
+WITH note_months AS (
+    SELECT
+        learning_centre_id,
+        EXTRACT(YEAR FROM COALESCE(sent_at, created_at))::INTEGER AS year,
+        EXTRACT(MONTH FROM COALESCE(sent_at, created_at))::INTEGER AS month,
+        COUNT(*) AS field_notes_count
+    FROM field_notes
+    WHERE duplicate_of IS NULL
+    GROUP BY 1, 2, 3
+),
+image_months AS (
+    SELECT
+        learning_centre_id,
+        EXTRACT(YEAR FROM COALESCE(sent_at, created_at))::INTEGER AS year,
+        EXTRACT(MONTH FROM COALESCE(sent_at, created_at))::INTEGER AS month,
+        COUNT(*) AS images_count
+    FROM field_images
+    WHERE duplicate_of IS NULL
+    GROUP BY 1, 2, 3
+),
+-- A centre-month can have one report per facilitator, so scores are averaged
+rubric_months AS (
+    SELECT
+        gr.learning_centre_id,
+        gr.year,
+        gr.month,
+        AVG((a.rubric->'safe'->>'score')::NUMERIC) AS safe_score,
+        AVG((a.rubric->'open'->>'score')::NUMERIC) AS open_score,
+        AVG((a.rubric->'joyful'->>'score')::NUMERIC) AS joyful_score,
+        AVG((a.rubric->'self_determined'->>'score')::NUMERIC) AS self_determined_score,
+        AVG((a.rubric->'play'->>'score')::NUMERIC) AS play_score,
+        AVG((a.rubric->'different_from_school'->>'score')::NUMERIC) AS different_from_school_score
+    FROM generated_reports gr
+    JOIN generated_report_llm_analysis a ON a.generated_report_id = gr.id
+    WHERE a.rubric IS NOT NULL
+    GROUP BY gr.learning_centre_id, gr.year, gr.month
+),
+months AS (
+    SELECT learning_centre_id, year, month FROM note_months
+    UNION
+    SELECT learning_centre_id, year, month FROM image_months
+    UNION
+    SELECT learning_centre_id, year, month FROM rubric_months
+)
+SELECT
+    m.learning_centre_id,
+    m.year,
+    m.month,
+    COALESCE(n.field_notes_count, 0) AS field_notes_count,
+    COALESCE(i.images_count, 0) AS images_count,
+    r.safe_score,
+    r.open_score,
+    r.joyful_score,
+    r.self_determined_score,
+    r.play_score,
+    r.different_from_school_score
+FROM months m
+LEFT JOIN note_months n USING (learning_centre_id, year, month)
+LEFT JOIN image_months i USING (learning_centre_id, year, month)
+LEFT JOIN rubric_months r USING (learning_centre_id, year, month);
+
+CREATE OR REPLACE FUNCTION district_dashboard_metrics(
+    p_from DATE DEFAULT NULL,
+    p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    state TEXT,
+    district TEXT,
+    centres_count BIGINT,
+    active_centres_count BIGINT,
+    ended_centres_count BIGINT,
+    facilitators_count BIGINT,
+    children_count BIGINT,
+    field_notes_count BIGINT,
+    images_count BIGINT,
+    centre_months BIGINT,
+    reported_centre_months BIGINT,
+    reports_count BIGINT,
+    analysed_reports_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH bounds AS (
+        SELECT
+            COALESCE(p_from, DATE '1900-01-01') AS from_date,
+            LEAST(COALESCE(p_to, CURRENT_DATE), CURRENT_DATE) AS to_date
+    ),
+    centres AS (
+        SELECT lc.*
+        FROM learning_centres lc
+        WHERE can_access_learning_centre(lc.id)
+    ),
+    -- Every month each centre was open within the range
+    centre_month_series AS (
+        SELECT c.id AS learning_centre_id, m::DATE AS month_start
+        FROM centres c
+        CROSS JOIN bounds b
+        CROSS JOIN LATERAL generate_series(
+            DATE_TRUNC('month', GREATEST(c.start_date, b.from_date)),
+            DATE_TRUNC('month', LEAST(COALESCE(c.end_date, b.to_date), b.to_date)),
+            INTERVAL '1 month'
+        ) AS m
+    ),
+    centre_stats AS (
+        SELECT
+            c.id,
+            c.state::TEXT AS state,
+            c.district::TEXT AS district,
+            c.start_date <= b.to_date AND (c.end_date IS NULL OR c.end_date >= b.to_date) AS is_active,
+            c.end_date IS NOT NULL AND c.end_date < b.to_date AS is_ended,
+            (SELECT COUNT(*) FROM children ch WHERE ch.learning_centre_id = c.id) AS children_count,
+            (
+                SELECT COUNT(*) FROM field_notes fn
+                WHERE fn.learning_centre_id = c.id
+                  AND fn.duplicate_of IS NULL
+                  AND COALESCE(fn.sent_at, fn.created_at) >= b.from_date
+                  AND COALESCE(fn.sent_at, fn.created_at) < b.to_date + 1
+            ) AS field_notes_count,
+            (
+                SELECT COUNT(*) FROM field_images fi
+                WHERE fi.learning_centre_id = c.id
+                  AND fi.duplicate_of IS NULL
+                  AND COALESCE(fi.sent_at, fi.created_at) >= b.from_date
+                  AND COALESCE(fi.sent_at, fi.created_at) < b.to_date + 1
+            ) AS images_count,
+            (SELECT COUNT(*) FROM centre_month_series s WHERE s.learning_centre_id = c.id) AS centre_months,
+            (
+                SELECT COUNT(*) FROM centre_month_series s
+                WHERE s.learning_centre_id = c.id
+                  AND EXISTS (
+                      SELECT 1 FROM generated_reports gr
+                      WHERE gr.learning_centre_id = c.id
+                        AND gr.year = EXTRACT(YEAR FROM s.month_start)
+                        AND gr.month = EXTRACT(MONTH FROM s.month_start)
+                  )
+            ) AS reported_centre_months,
+            (
+                SELECT COUNT(*) FROM generated_reports gr
+                WHERE gr.learning_centre_id = c.id
+                  AND MAKE_DATE(gr.year, gr.month, 1) BETWEEN DATE_TRUNC('month', b.from_date) AND b.to_date
+            ) AS reports_count,
+            (
+                SELECT COUNT(*) FROM generated_reports gr
+                WHERE gr.learning_centre_id = c.id
+                  AND gr.has_llm_analysis
+                  AND MAKE_DATE(gr.year, gr.month, 1) BETWEEN DATE_TRUNC('month', b.from_date) AND b.to_date
+            ) AS analysed_reports_count
+        FROM centres c
+        CROSS JOIN bounds b
+    ),
+    -- Facilitators working in the district at any point in the range, counted once
+    facilitator_counts AS (
+        SELECT c.state::TEXT AS state, c.district::TEXT AS district, COUNT(DISTINCT f.id) AS facilitators_count
+        FROM centres c
+        JOIN learning_centre_facilitators lcf ON lcf.learning_centre_id = c.id
+        JOIN facilitators f ON f.id = lcf.facilitator_id
+        CROSS JOIN bounds b
+        WHERE (f.start_date IS NULL OR f.start_date <= b.to_date)
+          AND (f.end_date IS NULL OR f.end_date >= b.from_date)
+        GROUP BY c.state, c.district
+    )
+    SELECT
+        cs.state,
+        cs.district,
+        COUNT(*) AS centres_count,
+        COUNT(*) FILTER (WHERE cs.is_active) AS active_centres_count,
+        COUNT(*) FILTER (WHERE cs.is_ended) AS ended_centres_count,
+        COALESCE(MAX(fc.facilitators_count), 0) AS facilitators_count,
+        SUM(cs.children_count)::BIGINT AS children_count,
+        SUM(cs.field_notes_count)::BIGINT AS field_notes_count,
+        SUM(cs.images_count)::BIGINT AS images_count,
+        SUM(cs.centre_months)::BIGINT AS centre_months,
+        SUM(cs.reported_centre_months)::BIGINT AS reported_centre_months,
+        SUM(cs.reports_count)::BIGINT AS reports_count,
+        SUM(cs.analysed_reports_count)::BIGINT AS analysed_reports_count
+    FROM centre_stats cs
+    LEFT JOIN facilitator_counts fc ON fc.state = cs.state AND fc.district = cs.district
+    GROUP BY cs.state, cs.district
+    ORDER BY cs.state, cs.district;
+$$;
+
+CREATE OR REPLACE FUNCTION report_coverage(
+    p_from DATE,
+    p_to DATE
+)
+RETURNS TABLE (
+    learning_centre_id UUID,
+    year INTEGER,
+    month INTEGER,
+    field_notes_count BIGINT,
+    images_count BIGINT,
+    reports_count BIGINT,
+    analysed_reports_count BIGINT,
+    report_id UUID
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH note_months AS (
+        SELECT
+            fn.learning_centre_id,
+            EXTRACT(YEAR FROM COALESCE(fn.sent_at, fn.created_at))::INTEGER AS year,
+            EXTRACT(MONTH FROM COALESCE(fn.sent_at, fn.created_at))::INTEGER AS month,
+            COUNT(*) AS field_notes_count
+        FROM field_notes fn
+        WHERE COALESCE(fn.sent_at, fn.created_at) >= DATE_TRUNC('month', p_from)
+          AND COALESCE(fn.sent_at, fn.created_at) < p_to + 1
+          AND fn.duplicate_of IS NULL
+          AND can_access_learning_centre(fn.learning_centre_id)
+        GROUP BY 1, 2, 3
+    ),
+    image_months AS (
+        SELECT
+            fi.learning_centre_id,
+            EXTRACT(YEAR FROM COALESCE(fi.sent_at, fi.created_at))::INTEGER AS year,
+            EXTRACT(MONTH FROM COALESCE(fi.sent_at, fi.created_at))::INTEGER AS month,
+            COUNT(*) AS images_count
+        FROM field_images fi
+        WHERE COALESCE(fi.sent_at, fi.created_at) >= DATE_TRUNC('month', p_from)
+          AND COALESCE(fi.sent_at, fi.created_at) < p_to + 1
+          AND fi.duplicate_of IS NULL
+          AND can_access_learning_centre(fi.learning_centre_id)
+        GROUP BY 1, 2, 3
+    ),
+    -- Analysed reports are linked first so the matrix opens the most complete one
+    report_months AS (
+        SELECT
+            gr.learning_centre_id,
+            gr.year,
+            gr.month,
+            COUNT(*) AS reports_count,
+            COUNT(*) FILTER (WHERE gr.has_llm_analysis) AS analysed_reports_count,
+            (ARRAY_AGG(gr.id ORDER BY gr.has_llm_analysis DESC, gr.created_at DESC))[1] AS report_id
+        FROM generated_reports gr
+        WHERE MAKE_DATE(gr.year, gr.month, 1) BETWEEN DATE_TRUNC('month', p_from) AND p_to
+          AND can_access_learning_centre(gr.learning_centre_id)
+        GROUP BY gr.learning_centre_id, gr.year, gr.month
+    ),
+    months AS (
+        SELECT n.learning_centre_id, n.year, n.month FROM note_months n
+        UNION
+        SELECT i.learning_centre_id, i.year, i.month FROM image_months i
+        UNION
+        SELECT r.learning_centre_id, r.year, r.month FROM report_months r
+    )
+    SELECT
+        m.learning_centre_id,
+        m.year,
+        m.month,
+        COALESCE(n.field_notes_count, 0) AS field_notes_count,
+        COALESCE(i.images_count, 0) AS images_count,
+        COALESCE(r.reports_count, 0) AS reports_count,
+        COALESCE(r.analysed_reports_count, 0) AS analysed_reports_count,
+        r.report_id
+    FROM months m
+    LEFT JOIN note_months n USING (learning_centre_id, year, month)
+    LEFT JOIN image_months i USING (learning_centre_id, year, month)
+    LEFT JOIN report_months r USING (learning_centre_id, year, month);
+$$;
+
+COMMIT;
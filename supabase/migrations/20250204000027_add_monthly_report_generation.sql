@@ -0,0 +1,108 @@
+-- Migration: generate monthly reports from the dashboard
+-- Replaces the offline batch script. The dashboard calls generate_monthly_reports once per
+-- centre and shows progress as it goes; a report is created for each facilitator whose notes
+-- or photos fall in the month. Counts are returned rather than stored, since reports read
+-- their field data live (see 20250204000006).
+BEGIN;
+
+ALTER TABLE generated_reports
+    ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN generated_reports.created_by IS 'User who generated the report; NULL for reports written by the batch script';
+
+-- Creates the month's missing reports for a centre and returns one row per facilitator with
+-- activity. Notes and photos without a facilitator are credited to the centre's facilitator
+-- when it has exactly one; otherwise they come back in a row with no facilitator or report.
+-- Confirmed duplicates are not counted.
+CREATE OR REPLACE FUNCTION generate_monthly_reports(
+    p_learning_centre_id UUID,
+    p_year INTEGER,
+    p_month INTEGER
+)
+RETURNS TABLE (
+    facilitator_id UUID,
+    report_id UUID,
+    created BOOLEAN,
+    field_notes_count BIGINT,
+    images_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    v_start TIMESTAMP WITH TIME ZONE;
+    v_end TIMESTAMP WITH TIME ZONE;
+    v_sole_facilitator_id UUID;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Only admins can generate reports' USING ERRCODE = '42501';
+    END IF;
+
+    IF p_month NOT BETWEEN 1 AND 12 OR p_year NOT BETWEEN 2000 AND 2100 THEN
+        RAISE EXCEPTION 'Invalid report month %-%', p_year, p_month USING ERRCODE = '22023';
+    END IF;
+
+    v_start := MAKE_DATE(p_year, p_month, 1);
+    v_end := v_start + INTERVAL '1 month';
+
+    SELECT CASE WHEN COUNT(*) = 1 THEN (ARRAY_AGG(lcf.facilitator_id))[1] END
+    INTO v_sole_facilitator_id
+    FROM learning_centre_facilitators lcf
+    WHERE lcf.learning_centre_id = p_learning_centre_id;
+
+    RETURN QUERY
+    WITH activity AS (
+        SELECT COALESCE(fn.facilitator_id, v_sole_facilitator_id) AS facilitator_id, 1 AS notes, 0 AS images
+        FROM field_notes fn
+        WHERE fn.learning_centre_id = p_learning_centre_id
+          AND fn.duplicate_of IS NULL
+          AND COALESCE(fn.sent_at, fn.created_at) >= v_start
+          AND COALESCE(fn.sent_at, fn.created_at) < v_end
+        UNION ALL
+        SELECT COALESCE(fi.facilitator_id, v_sole_facilitator_id), 0, 1
+        FROM field_images fi
+        WHERE fi.learning_centre_id = p_learning_centre_id
+          AND fi.duplicate_of IS NULL
+          AND COALESCE(fi.sent_at, fi.created_at) >= v_start
+          AND COALESCE(fi.sent_at, fi.created_at) < v_end
+    ),
+    counts AS (
+        SELECT
+            a.facilitator_id,
+            SUM(a.notes)::BIGINT AS field_notes_count,
+            SUM(a.images)::BIGINT AS images_count
+        FROM activity a
+        GROUP BY a.facilitator_id
+    ),
+    inserted AS (
+        INSERT INTO generated_reports (facilitator_id, learning_centre_id, month, year, created_by)
+        SELECT c.facilitator_id, p_learning_centre_id, p_month, p_year, auth.uid()
+        FROM counts c
+        WHERE c.facilitator_id IS NOT NULL
+        ON CONFLICT (facilitator_id, learning_centre_id, month, year) DO NOTHING
+        RETURNING generated_reports.id, generated_reports.facilitator_id
+    )
+    -- The join on generated_reports does not see this statement's inserts, so it only
+    -- finds reports that already existed
+    SELECT
+        c.facilitator_id,
+        COALESCE(i.id, gr.id),
+        i.id IS NOT NULL,
+        c.field_notes_count,
+        c.images_count
+    FROM counts c
+    LEFT JOIN inserted i ON i.facilitator_id = c.facilitator_id
+    LEFT JOIN generated_reports gr
+        ON gr.facilitator_id = c.facilitator_id
+       AND gr.learning_centre_id = p_learning_centre_id
+       AND gr.month = p_month
+       AND gr.year = p_year
+    ORDER BY c.facilitator_id NULLS LAST;
+END;
+$$;
+
+COMMENT ON FUNCTION generate_monthly_reports(UUID, INTEGER, INTEGER) IS 'Creates missing generated_reports for a centre-month from its field activity and returns per-facilitator counts';
+
+COMMIT;
@@ -0,0 +1,273 @@
+-- Migration: queue for bulk LLM analysis
+-- Admins queue a job with one item per generated report. The analysis-worker Edge Function
+-- claims items with FOR UPDATE SKIP LOCKED, so several workers can run at once, and
+-- records the outcome of each. Rate-limited or failed calls are retried with backoff,
+-- and items left running by a worker that died are claimed again once their lock expires.
+BEGIN;
+
+CREATE TABLE analysis_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    year INTEGER NOT NULL CHECK (year >= 2000 AND year <= 2100),
+    month INTEGER NOT NULL CHECK (month BETWEEN 1 AND 12),
+    state TEXT,
+    district TEXT,
+    prompt_template_id UUID REFERENCES prompt_templates(id) ON DELETE SET NULL,
+    model TEXT,
+    temperature NUMERIC(3, 2),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE analysis_jobs IS 'Bulk LLM analysis requests; the work is tracked per report in analysis_job_items';
+COMMENT ON COLUMN analysis_jobs.prompt_template_id IS 'Template to analyse with; NULL uses the default template when the item runs';
+COMMENT ON COLUMN analysis_jobs.model IS 'NULL uses the worker''s default model';
+
+CREATE TABLE analysis_job_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+    generated_report_id UUID NOT NULL REFERENCES generated_reports(id) ON DELETE CASCADE,
+    learning_centre_id UUID NOT NULL REFERENCES learning_centres(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMP WITH TIME ZONE,
+    locked_by TEXT,
+    last_error TEXT,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(job_id, generated_report_id)
+);
+
+COMMENT ON COLUMN analysis_job_items.run_after IS 'Earliest time the item may be claimed; pushed back after a retryable failure';
+COMMENT ON COLUMN analysis_job_items.locked_at IS 'When a worker claimed the item; running items with an old lock are claimed again';
+
+CREATE INDEX idx_analysis_job_items_job_id ON analysis_job_items(job_id);
+CREATE INDEX idx_analysis_job_items_claimable ON analysis_job_items(status, run_after);
+
+ALTER TABLE analysis_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analysis_job_items ENABLE ROW LEVEL SECURITY;
+
+-- Written through the RPCs below and by the worker (service role)
+CREATE POLICY "Admins read analysis_jobs" ON analysis_jobs
+    FOR SELECT TO authenticated USING (is_admin());
+CREATE POLICY "Admins read analysis_job_items" ON analysis_job_items
+    FOR SELECT TO authenticated USING (is_admin());
+
+-- Progress per job for the jobs page
+CREATE VIEW analysis_job_summary WITH (security_invoker = true) AS
+SELECT
+    j.*,
+    COUNT(i.id) AS items_count,
+    COUNT(i.id) FILTER (WHERE i.status = 'queued') AS queued_count,
+    COUNT(i.id) FILTER (WHERE i.status = 'running') AS running_count,
+    COUNT(i.id) FILTER (WHERE i.status = 'succeeded') AS succeeded_count,
+    COUNT(i.id) FILTER (WHERE i.status = 'failed') AS failed_count
+FROM analysis_jobs j
+LEFT JOIN analysis_job_items i ON i.job_id = j.id
+GROUP BY j.id;
+
+-- Queues a job for the given reports, or, when p_report_ids is NULL, for every report in
+-- the month and scope that has no analysis yet (or every report, with p_include_analysed).
+-- Returns the job id, or NULL when there was nothing to analyse.
+CREATE OR REPLACE FUNCTION enqueue_analysis_job(
+    p_year INTEGER,
+    p_month INTEGER,
+    p_state TEXT DEFAULT NULL,
+    p_district TEXT DEFAULT NULL,
+    p_report_ids UUID[] DEFAULT NULL,
+    p_include_analysed BOOLEAN DEFAULT FALSE,
+    p_prompt_template_id UUID DEFAULT NULL,
+    p_model TEXT DEFAULT NULL,
+    p_temperature NUMERIC DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_job_id UUID;
+    v_added INTEGER;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Only admins can queue analysis jobs' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO analysis_jobs (year, month, state, district, prompt_template_id, model, temperature, created_by)
+    VALUES (p_year, p_month, p_state, p_district, p_prompt_template_id, p_model, p_temperature, auth.uid())
+    RETURNING id INTO v_job_id;
+
+    INSERT INTO analysis_job_items (job_id, generated_report_id, learning_centre_id)
+    SELECT v_job_id, gr.id, gr.learning_centre_id
+    FROM generated_reports gr
+    JOIN learning_centres lc ON lc.id = gr.learning_centre_id
+    WHERE gr.year = p_year
+      AND gr.month = p_month
+      AND (p_state IS NULL OR lc.state = p_state)
+      AND (p_district IS NULL OR lc.district = p_district)
+      AND (
+          CASE WHEN p_report_ids IS NULL
+              THEN p_include_analysed OR NOT gr.has_llm_analysis
+              ELSE gr.id = ANY(p_report_ids)
+          END
+      );
+
+    GET DIAGNOSTICS v_added = ROW_COUNT;
+    IF v_added = 0 THEN
+        DELETE FROM analysis_jobs WHERE id = v_job_id;
+        RETURN NULL;
+    END IF;
+
+    RETURN v_job_id;
+END;
+$$;
+
+-- Puts failed items back in the queue with a fresh set of attempts; returns the number requeued
+CREATE OR REPLACE FUNCTION retry_analysis_job_items(p_item_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_requeued INTEGER;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Only admins can retry analysis jobs' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE analysis_job_items
+    SET status = 'queued',
+        attempts = 0,
+        run_after = NOW(),
+        locked_at = NULL,
+        locked_by = NULL,
+        finished_at = NULL,
+        updated_at = NOW()
+    WHERE id = ANY(p_item_ids)
+      AND status = 'failed';
+
+    GET DIAGNOSTICS v_requeued = ROW_COUNT;
+    RETURN v_requeued;
+END;
+$$;
+
+-- Claims up to p_limit items for a worker: queued items that are due, and running items
+-- whose worker has held them longer than p_lock_timeout_seconds, which means it died
+CREATE OR REPLACE FUNCTION claim_analysis_job_items(
+    p_worker TEXT,
+    p_limit INTEGER DEFAULT 1,
+    p_lock_timeout_seconds INTEGER DEFAULT 900
+)
+RETURNS SETOF analysis_job_items
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE analysis_job_items i
+    SET status = 'running',
+        attempts = i.attempts + 1,
+        locked_at = NOW(),
+        locked_by = p_worker,
+        updated_at = NOW()
+    WHERE i.id IN (
+        SELECT c.id
+        FROM analysis_job_items c
+        WHERE (c.status = 'queued' AND c.run_after <= NOW())
+           OR (c.status = 'running' AND c.locked_at < NOW() - MAKE_INTERVAL(secs => p_lock_timeout_seconds))
+        ORDER BY c.run_after, c.created_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING i.*;
+$$;
+
+-- Saves a worker's analysis to the report, as save_report_llm_analysis does for the
+-- dashboard, and marks the item done in the same transaction
+CREATE OR REPLACE FUNCTION complete_analysis_job_item(
+    p_item_id UUID,
+    p_text TEXT,
+    p_prompt_text TEXT,
+    p_model TEXT,
+    p_temperature NUMERIC,
+    p_images_count INTEGER,
+    p_prompt_template_id UUID DEFAULT NULL,
+    p_rubric JSONB DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_report_id UUID;
+    v_created_by UUID;
+BEGIN
+    SELECT i.generated_report_id, j.created_by INTO v_report_id, v_created_by
+    FROM analysis_job_items i
+    JOIN analysis_jobs j ON j.id = i.job_id
+    WHERE i.id = p_item_id;
+
+    IF v_report_id IS NULL THEN
+        RAISE EXCEPTION 'Analysis job item % not found', p_item_id USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM generated_report_llm_analysis WHERE generated_report_id = v_report_id;
+
+    INSERT INTO generated_report_llm_analysis (
+        generated_report_id, text, prompt_text, model, temperature, images_count, prompt_template_id, rubric, created_by
+    )
+    VALUES (
+        v_report_id, p_text, p_prompt_text, p_model, p_temperature, p_images_count, p_prompt_template_id, p_rubric, v_created_by
+    );
+
+    UPDATE generated_reports SET has_llm_analysis = TRUE WHERE id = v_report_id;
+
+    UPDATE analysis_job_items
+    SET status = 'succeeded',
+        last_error = NULL,
+        locked_at = NULL,
+        finished_at = NOW(),
+        updated_at = NOW()
+    WHERE id = p_item_id;
+END;
+$$;
+
+-- Records a failed attempt. With p_retry_in_seconds and attempts left the item goes back
+-- in the queue after that delay; otherwise it is marked failed until an admin retries it.
+CREATE OR REPLACE FUNCTION fail_analysis_job_item(
+    p_item_id UUID,
+    p_error TEXT,
+    p_retry_in_seconds INTEGER DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE analysis_job_items
+    SET status = CASE
+            WHEN p_retry_in_seconds IS NOT NULL AND attempts < max_attempts THEN 'queued'
+            ELSE 'failed'
+        END,
+        run_after = NOW() + MAKE_INTERVAL(secs => COALESCE(p_retry_in_seconds, 0)),
+        last_error = p_error,
+        locked_at = NULL,
+        locked_by = NULL,
+        finished_at = CASE
+            WHEN p_retry_in_seconds IS NOT NULL AND attempts < max_attempts THEN NULL
+            ELSE NOW()
+        END,
+        updated_at = NOW()
+    WHERE id = p_item_id
+    RETURNING status;
+$$;
+
+-- Only the worker, using the service role key, may claim and complete items
+REVOKE EXECUTE ON FUNCTION claim_analysis_job_items(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_analysis_job_item(UUID, TEXT, TEXT, TEXT, NUMERIC, INTEGER, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION fail_analysis_job_item(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+COMMIT;
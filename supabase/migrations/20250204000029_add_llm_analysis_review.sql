@@ -0,0 +1,177 @@
+-- Migration: human review of report analyses before they reach partners
+-- Every analysis starts as a draft. Staff edit the text, submit it for review, and a
+-- reviewer approves or rejects it with a comment. The model output is kept in
+-- original_text, and partner viewers can only read approved analyses.
+BEGIN;
+
+ALTER TABLE generated_report_llm_analysis
+    ADD COLUMN review_status TEXT NOT NULL DEFAULT 'draft'
+        CHECK (review_status IN ('draft', 'in_review', 'approved', 'rejected')),
+    ADD COLUMN original_text TEXT,
+    ADD COLUMN edited_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN reviewed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing analyses were never reviewed, so they start as drafts like new ones
+UPDATE generated_report_llm_analysis SET original_text = text;
+
+ALTER TABLE generated_report_llm_analysis ALTER COLUMN original_text SET NOT NULL;
+
+COMMENT ON COLUMN generated_report_llm_analysis.text IS 'Analysis as shown, including reviewer edits';
+COMMENT ON COLUMN generated_report_llm_analysis.original_text IS 'Text as returned by the model, never edited';
+COMMENT ON COLUMN generated_report_llm_analysis.review_status IS 'draft, in_review, approved or rejected; only approved analyses are visible to partner viewers';
+COMMENT ON COLUMN generated_report_llm_analysis.reviewed_by IS 'User who last approved or rejected the analysis';
+
+-- The save RPCs insert text only; keep the model output alongside it
+CREATE OR REPLACE FUNCTION set_llm_analysis_original_text()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.original_text := COALESCE(NEW.original_text, NEW.text);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_generated_report_llm_analysis_original_text
+    BEFORE INSERT ON generated_report_llm_analysis
+    FOR EACH ROW EXECUTE FUNCTION set_llm_analysis_original_text();
+
+-- Review history per report. It outlives the analysis, which is replaced when a report is
+-- analysed again.
+CREATE TABLE llm_analysis_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    generated_report_id UUID NOT NULL REFERENCES generated_reports(id) ON DELETE CASCADE,
+    analysis_id UUID REFERENCES generated_report_llm_analysis(id) ON DELETE SET NULL,
+    action TEXT NOT NULL CHECK (action IN ('edited', 'submitted', 'approved', 'rejected', 'reopened')),
+    comment TEXT,
+    created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE llm_analysis_reviews IS 'Edits and review decisions on report analyses, with reviewer comments';
+
+CREATE INDEX idx_llm_analysis_reviews_report ON llm_analysis_reviews(generated_report_id, created_at);
+
+ALTER TABLE llm_analysis_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Scoped read access on llm_analysis_reviews" ON llm_analysis_reviews
+    FOR SELECT TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM generated_reports gr
+            WHERE gr.id = llm_analysis_reviews.generated_report_id
+              AND can_view_child_data(gr.learning_centre_id)
+        )
+    );
+
+-- Partner viewers only see approved analyses
+DROP POLICY IF EXISTS "Scoped read access on generated_report_llm_analysis" ON generated_report_llm_analysis;
+
+CREATE POLICY "Scoped read access on generated_report_llm_analysis" ON generated_report_llm_analysis
+    FOR SELECT TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM generated_reports gr
+            WHERE gr.id = generated_report_llm_analysis.generated_report_id
+              AND can_access_learning_centre(gr.learning_centre_id)
+              AND (generated_report_llm_analysis.review_status = 'approved'
+                   OR can_view_child_data(gr.learning_centre_id))
+        )
+    );
+
+-- Replaces the analysis text. The model output stays in original_text; approved
+-- analyses have to be reopened first.
+CREATE OR REPLACE FUNCTION edit_llm_analysis_text(p_analysis_id UUID, p_text TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_analysis generated_report_llm_analysis%ROWTYPE;
+    v_learning_centre_id UUID;
+BEGIN
+    SELECT a.* INTO v_analysis FROM generated_report_llm_analysis a WHERE a.id = p_analysis_id;
+    SELECT learning_centre_id INTO v_learning_centre_id
+    FROM generated_reports WHERE id = v_analysis.generated_report_id;
+
+    IF v_learning_centre_id IS NULL OR NOT can_view_child_data(v_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to edit this analysis' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_analysis.review_status = 'approved' THEN
+        RAISE EXCEPTION 'Reopen the approved analysis before editing it' USING ERRCODE = '22023';
+    END IF;
+
+    IF NULLIF(BTRIM(p_text), '') IS NULL THEN
+        RAISE EXCEPTION 'Analysis text cannot be empty' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_text = v_analysis.text THEN
+        RETURN;
+    END IF;
+
+    UPDATE generated_report_llm_analysis
+    SET text = p_text,
+        edited_by = auth.uid(),
+        edited_at = NOW()
+    WHERE id = p_analysis_id;
+
+    INSERT INTO llm_analysis_reviews (generated_report_id, analysis_id, action, created_by)
+    VALUES (v_analysis.generated_report_id, p_analysis_id, 'edited', auth.uid());
+END;
+$$;
+
+-- Moves an analysis through review: submit (draft or rejected -> in_review),
+-- approve or reject (in_review -> approved / rejected) and reopen (approved -> draft).
+-- Rejections need a comment saying what to change.
+CREATE OR REPLACE FUNCTION review_llm_analysis(p_analysis_id UUID, p_action TEXT, p_comment TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_analysis generated_report_llm_analysis%ROWTYPE;
+    v_learning_centre_id UUID;
+    v_comment TEXT := NULLIF(BTRIM(p_comment), '');
+    v_status TEXT;
+BEGIN
+    SELECT a.* INTO v_analysis FROM generated_report_llm_analysis a WHERE a.id = p_analysis_id;
+    SELECT learning_centre_id INTO v_learning_centre_id
+    FROM generated_reports WHERE id = v_analysis.generated_report_id;
+
+    IF v_learning_centre_id IS NULL OR NOT can_view_child_data(v_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to review this analysis' USING ERRCODE = '42501';
+    END IF;
+
+    v_status := CASE
+        WHEN p_action = 'submitted' AND v_analysis.review_status IN ('draft', 'rejected') THEN 'in_review'
+        WHEN p_action = 'approved' AND v_analysis.review_status = 'in_review' THEN 'approved'
+        WHEN p_action = 'rejected' AND v_analysis.review_status = 'in_review' THEN 'rejected'
+        WHEN p_action = 'reopened' AND v_analysis.review_status = 'approved' THEN 'draft'
+    END;
+
+    IF v_status IS NULL THEN
+        RAISE EXCEPTION 'An analysis that is % cannot be %', v_analysis.review_status, p_action
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF p_action = 'rejected' AND v_comment IS NULL THEN
+        RAISE EXCEPTION 'Say what needs to change when rejecting an analysis' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE generated_report_llm_analysis
+    SET review_status = v_status,
+        reviewed_by = CASE WHEN p_action IN ('approved', 'rejected') THEN auth.uid() ELSE reviewed_by END,
+        reviewed_at = CASE WHEN p_action IN ('approved', 'rejected') THEN NOW() ELSE reviewed_at END
+    WHERE id = p_analysis_id;
+
+    INSERT INTO llm_analysis_reviews (generated_report_id, analysis_id, action, comment, created_by)
+    VALUES (v_analysis.generated_report_id, p_analysis_id, p_action, v_comment, auth.uid());
+
+    RETURN v_status;
+END;
+$$;
+
+COMMIT;
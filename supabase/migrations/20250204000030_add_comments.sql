@@ -0,0 +1,211 @@
+-- Migration: discussion threads on reports, field notes, photos and coordinator notes
+-- Staff comment on a single row and reply to comments, mentioning each other with @Name.
+-- comment_reads records what each user has seen so threads can show unread comments.
+BEGIN;
+
+CREATE TABLE comments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    learning_centre_id UUID NOT NULL REFERENCES learning_centres(id) ON DELETE CASCADE,
+    generated_report_id UUID REFERENCES generated_reports(id) ON DELETE CASCADE,
+    field_note_id UUID REFERENCES field_notes(id) ON DELETE CASCADE,
+    field_image_id UUID REFERENCES field_images(id) ON DELETE CASCADE,
+    coordinator_field_note_id UUID REFERENCES coordinator_field_notes(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES comments(id) ON DELETE CASCADE,
+    body TEXT NOT NULL CHECK (BTRIM(body) <> ''),
+    created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (
+        ((generated_report_id IS NOT NULL)::int + (field_note_id IS NOT NULL)::int
+            + (field_image_id IS NOT NULL)::int + (coordinator_field_note_id IS NOT NULL)::int) = 1
+    )
+);
+
+COMMENT ON TABLE comments IS 'Staff discussion attached to one report, field note, photo or coordinator note';
+COMMENT ON COLUMN comments.parent_id IS 'Top-level comment this one replies to; threads are one level deep';
+
+CREATE INDEX idx_comments_learning_centre_id ON comments(learning_centre_id);
+CREATE INDEX idx_comments_generated_report_id ON comments(generated_report_id) WHERE generated_report_id IS NOT NULL;
+CREATE INDEX idx_comments_field_note_id ON comments(field_note_id) WHERE field_note_id IS NOT NULL;
+CREATE INDEX idx_comments_field_image_id ON comments(field_image_id) WHERE field_image_id IS NOT NULL;
+CREATE INDEX idx_comments_coordinator_field_note_id ON comments(coordinator_field_note_id) WHERE coordinator_field_note_id IS NOT NULL;
+
+CREATE TABLE comment_mentions (
+    comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    PRIMARY KEY (comment_id, user_id)
+);
+
+CREATE INDEX idx_comment_mentions_user_id ON comment_mentions(user_id);
+
+CREATE TABLE comment_reads (
+    comment_id UUID NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    read_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (comment_id, user_id)
+);
+
+ALTER TABLE comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comment_mentions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE comment_reads ENABLE ROW LEVEL SECURITY;
+
+-- Comments quote notes and photos, so they follow the same access as child data.
+-- Writes go through the RPCs below.
+CREATE POLICY "Scoped read access on comments" ON comments
+    FOR SELECT TO authenticated USING (can_view_child_data(learning_centre_id));
+
+CREATE POLICY "Scoped read access on comment_mentions" ON comment_mentions
+    FOR SELECT TO authenticated USING (
+        EXISTS (
+            SELECT 1 FROM comments c
+            WHERE c.id = comment_mentions.comment_id
+              AND can_view_child_data(c.learning_centre_id)
+        )
+    );
+
+CREATE POLICY "Users read own comment_reads" ON comment_reads
+    FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- One row per commented item with the caller's unread counts. A comment is unread until
+-- the caller opens its thread; their own comments never are.
+CREATE VIEW comment_threads
+WITH (security_invoker = true) AS
+SELECT
+    c.learning_centre_id,
+    c.generated_report_id,
+    c.field_note_id,
+    c.field_image_id,
+    c.coordinator_field_note_id,
+    COUNT(*) AS comments_count,
+    COUNT(*) FILTER (WHERE r.comment_id IS NULL AND c.created_by IS DISTINCT FROM auth.uid()) AS unread_count,
+    COUNT(*) FILTER (WHERE r.comment_id IS NULL AND c.created_by IS DISTINCT FROM auth.uid() AND m.user_id IS NOT NULL)
+        AS unread_mentions_count,
+    MAX(c.created_at) AS last_comment_at
+FROM comments c
+LEFT JOIN comment_reads r ON r.comment_id = c.id AND r.user_id = auth.uid()
+LEFT JOIN comment_mentions m ON m.comment_id = c.id AND m.user_id = auth.uid()
+GROUP BY c.learning_centre_id, c.generated_report_id, c.field_note_id, c.field_image_id, c.coordinator_field_note_id;
+
+-- Everyone who can read a centre's comments and so may be mentioned in them: admins,
+-- and coordinators with access to the centre's district.
+CREATE OR REPLACE FUNCTION list_comment_participants(p_learning_centre_id UUID)
+RETURNS TABLE (id UUID, name TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT can_view_child_data(p_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to view comments for this learning centre' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT up.id, COALESCE(NULLIF(BTRIM(up.display_name), ''), up.email)::TEXT
+    FROM user_profiles up
+    WHERE up.role = 'admin'
+       OR (up.role = 'coordinator' AND EXISTS (
+            SELECT 1
+            FROM learning_centres lc
+            JOIN user_district_access uda ON uda.state = lc.state AND uda.district = lc.district
+            WHERE lc.id = p_learning_centre_id
+              AND uda.user_id = up.id
+       ))
+    ORDER BY 2;
+END;
+$$;
+
+-- Adds a comment to a report ('generated_report'), field note ('field_note'), photo
+-- ('field_image') or coordinator note ('coordinator_field_note'). Replies to a reply join
+-- the top-level comment's thread. Mentions of users who cannot see the centre are dropped.
+CREATE OR REPLACE FUNCTION add_comment(
+    p_target_type TEXT,
+    p_target_id UUID,
+    p_body TEXT,
+    p_parent_id UUID DEFAULT NULL,
+    p_mentioned_user_ids UUID[] DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_learning_centre_id UUID;
+    v_parent comments%ROWTYPE;
+    v_comment_id UUID;
+BEGIN
+    v_learning_centre_id := CASE p_target_type
+        WHEN 'generated_report' THEN (SELECT learning_centre_id FROM generated_reports WHERE id = p_target_id)
+        WHEN 'field_note' THEN (SELECT learning_centre_id FROM field_notes WHERE id = p_target_id)
+        WHEN 'field_image' THEN (SELECT learning_centre_id FROM field_images WHERE id = p_target_id)
+        WHEN 'coordinator_field_note' THEN (SELECT learning_centre_id FROM coordinator_field_notes WHERE id = p_target_id)
+    END;
+
+    IF v_learning_centre_id IS NULL OR NOT can_view_child_data(v_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to comment on this item' USING ERRCODE = '42501';
+    END IF;
+
+    IF NULLIF(BTRIM(p_body), '') IS NULL THEN
+        RAISE EXCEPTION 'Comment cannot be empty' USING ERRCODE = '22023';
+    END IF;
+
+    IF p_parent_id IS NOT NULL THEN
+        SELECT * INTO v_parent FROM comments WHERE id = p_parent_id;
+
+        IF NOT FOUND OR COALESCE(
+            v_parent.generated_report_id, v_parent.field_note_id,
+            v_parent.field_image_id, v_parent.coordinator_field_note_id
+        ) <> p_target_id THEN
+            RAISE EXCEPTION 'The comment being replied to is not on this item' USING ERRCODE = '22023';
+        END IF;
+    END IF;
+
+    INSERT INTO comments (
+        learning_centre_id, generated_report_id, field_note_id, field_image_id, coordinator_field_note_id,
+        parent_id, body, created_by
+    )
+    VALUES (
+        v_learning_centre_id,
+        CASE WHEN p_target_type = 'generated_report' THEN p_target_id END,
+        CASE WHEN p_target_type = 'field_note' THEN p_target_id END,
+        CASE WHEN p_target_type = 'field_image' THEN p_target_id END,
+        CASE WHEN p_target_type = 'coordinator_field_note' THEN p_target_id END,
+        COALESCE(v_parent.parent_id, v_parent.id),
+        BTRIM(p_body),
+        auth.uid()
+    )
+    RETURNING id INTO v_comment_id;
+
+    INSERT INTO comment_mentions (comment_id, user_id)
+    SELECT DISTINCT v_comment_id, p.id
+    FROM list_comment_participants(v_learning_centre_id) p
+    WHERE p.id = ANY(COALESCE(p_mentioned_user_ids, '{}'))
+      AND p.id IS DISTINCT FROM auth.uid();
+
+    RETURN v_comment_id;
+END;
+$$;
+
+-- Marks every comment on an item as read by the caller
+CREATE OR REPLACE FUNCTION mark_comments_read(p_target_type TEXT, p_target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO comment_reads (comment_id, user_id)
+    SELECT c.id, auth.uid()
+    FROM comments c
+    WHERE CASE p_target_type
+            WHEN 'generated_report' THEN c.generated_report_id
+            WHEN 'field_note' THEN c.field_note_id
+            WHEN 'field_image' THEN c.field_image_id
+            WHEN 'coordinator_field_note' THEN c.coordinator_field_note_id
+          END = p_target_id
+      AND can_view_child_data(c.learning_centre_id)
+    ON CONFLICT DO NOTHING;
+END;
+$$;
+
+COMMIT;
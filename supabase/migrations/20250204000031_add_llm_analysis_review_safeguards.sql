@@ -0,0 +1,114 @@
+-- Migration: keep report analysis review independent and its history complete
+-- An analysis can no longer be approved by the person who last edited it or submitted it
+-- for review. Analysing a report again replaces its analysis; when the replaced one had
+-- been edited or reviewed, the history now records a 'replaced' entry saying so, since the
+-- new analysis starts over as a draft that partners cannot see.
+BEGIN;
+
+ALTER TABLE llm_analysis_reviews DROP CONSTRAINT IF EXISTS llm_analysis_reviews_action_check;
+
+ALTER TABLE llm_analysis_reviews
+    ADD CONSTRAINT llm_analysis_reviews_action_check
+        CHECK (action IN ('edited', 'submitted', 'approved', 'rejected', 'reopened', 'replaced'));
+
+-- The save RPCs and the analysis worker delete the old analysis before inserting the new
+-- one. Deletes that come from removing the report itself are not recorded.
+CREATE OR REPLACE FUNCTION record_replaced_llm_analysis()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.review_status = 'draft' AND OLD.edited_by IS NULL THEN
+        RETURN OLD;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM generated_reports WHERE id = OLD.generated_report_id) THEN
+        RETURN OLD;
+    END IF;
+
+    INSERT INTO llm_analysis_reviews (generated_report_id, analysis_id, action, comment, created_by)
+    VALUES (
+        OLD.generated_report_id,
+        NULL,
+        'replaced',
+        'Replaced by a new analysis while ' || REPLACE(OLD.review_status, '_', ' '),
+        auth.uid()
+    );
+
+    RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER record_replaced_llm_analysis
+    BEFORE DELETE ON generated_report_llm_analysis
+    FOR EACH ROW EXECUTE FUNCTION record_replaced_llm_analysis();
+
+-- As in 20250204000029, and approval must come from someone other than the last editor
+-- and the last submitter
+CREATE OR REPLACE FUNCTION review_llm_analysis(p_analysis_id UUID, p_action TEXT, p_comment TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_analysis generated_report_llm_analysis%ROWTYPE;
+    v_learning_centre_id UUID;
+    v_comment TEXT := NULLIF(BTRIM(p_comment), '');
+    v_status TEXT;
+    v_submitted_by UUID;
+BEGIN
+    SELECT a.* INTO v_analysis FROM generated_report_llm_analysis a WHERE a.id = p_analysis_id;
+    SELECT learning_centre_id INTO v_learning_centre_id
+    FROM generated_reports WHERE id = v_analysis.generated_report_id;
+
+    IF v_learning_centre_id IS NULL OR NOT can_view_child_data(v_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to review this analysis' USING ERRCODE = '42501';
+    END IF;
+
+    v_status := CASE
+        WHEN p_action = 'submitted' AND v_analysis.review_status IN ('draft', 'rejected') THEN 'in_review'
+        WHEN p_action = 'approved' AND v_analysis.review_status = 'in_review' THEN 'approved'
+        WHEN p_action = 'rejected' AND v_analysis.review_status = 'in_review' THEN 'rejected'
+        WHEN p_action = 'reopened' AND v_analysis.review_status = 'approved' THEN 'draft'
+    END;
+
+    IF v_status IS NULL THEN
+        RAISE EXCEPTION 'An analysis that is % cannot be %', v_analysis.review_status, p_action
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF p_action = 'approved' THEN
+        SELECT r.created_by INTO v_submitted_by
+        FROM llm_analysis_reviews r
+        WHERE r.analysis_id = p_analysis_id
+          AND r.action = 'submitted'
+        ORDER BY r.created_at DESC
+        LIMIT 1;
+
+        IF auth.uid() = v_analysis.edited_by OR auth.uid() = v_submitted_by THEN
+            RAISE EXCEPTION 'An analysis must be approved by someone other than its last editor or submitter'
+                USING ERRCODE = '42501';
+        END IF;
+    END IF;
+
+    IF p_action = 'rejected' AND v_comment IS NULL THEN
+        RAISE EXCEPTION 'Say what needs to change when rejecting an analysis' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE generated_report_llm_analysis
+    SET review_status = v_status,
+        reviewed_by = CASE WHEN p_action IN ('approved', 'rejected') THEN auth.uid() ELSE reviewed_by END,
+        reviewed_at = CASE WHEN p_action IN ('approved', 'rejected') THEN NOW() ELSE reviewed_at END
+    WHERE id = p_analysis_id;
+
+    INSERT INTO llm_analysis_reviews (generated_report_id, analysis_id, action, comment, created_by)
+    VALUES (v_analysis.generated_report_id, p_analysis_id, p_action, v_comment, auth.uid());
+
+    RETURN v_status;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,109 @@
+-- Migration: serve imported photos through signed URLs
+-- The field-media bucket was public, so anyone holding a photo's URL could open it with no
+-- sign-in and no consent check. The bucket is now private. Imported photos keep their
+-- object path in photo_url, and the dashboard and the analysis worker sign it for an hour
+-- when they show a photo or send it to the model. Signing from the dashboard goes through
+-- the read policy on storage.objects, so only staff who can see the centre's child data
+-- can open them.
+BEGIN;
+
+UPDATE storage.buckets SET public = false WHERE id = 'field-media';
+
+-- Photos imported so far stored the bucket's public URL
+UPDATE field_images
+SET photo_url = SUBSTRING(photo_url FROM '/storage/v1/object/public/field-media/(.+)$')
+WHERE photo_url ~ '/storage/v1/object/public/field-media/.+$';
+
+-- As in 20250204000026, and a photo given as a path must be in the centre's own folder,
+-- since the worker signs paths with the service role
+CREATE OR REPLACE FUNCTION import_field_messages(
+    p_learning_centre_id UUID,
+    p_notes JSONB,
+    p_images JSONB
+)
+RETURNS TABLE (notes_added INTEGER, images_added INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_notes_added INTEGER;
+    v_images_added INTEGER;
+BEGIN
+    IF NOT can_view_child_data(p_learning_centre_id) THEN
+        RAISE EXCEPTION 'Not allowed to import field data for this learning centre' USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM (
+            SELECT n.facilitator_id
+            FROM JSONB_TO_RECORDSET(COALESCE(p_notes, '[]'::jsonb)) AS n(facilitator_id UUID)
+            UNION
+            SELECT i.facilitator_id
+            FROM JSONB_TO_RECORDSET(COALESCE(p_images, '[]'::jsonb)) AS i(facilitator_id UUID)
+        ) f
+        WHERE NOT EXISTS (
+            SELECT 1 FROM learning_centre_facilitators lcf
+            WHERE lcf.learning_centre_id = p_learning_centre_id
+              AND lcf.facilitator_id = f.facilitator_id
+        )
+    ) THEN
+        RAISE EXCEPTION 'Every message must come from a facilitator assigned to this learning centre'
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM JSONB_TO_RECORDSET(COALESCE(p_images, '[]'::jsonb)) AS i(photo_url TEXT)
+        WHERE i.photo_url !~* '^https?://'
+          AND i.photo_url !~ ('^' || p_learning_centre_id::TEXT || '/[^/]+$')
+    ) THEN
+        RAISE EXCEPTION 'Imported photos must be stored under this learning centre' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO field_notes (learning_centre_id, facilitator_id, text, sent_at)
+    SELECT p_learning_centre_id, n.facilitator_id, BTRIM(n.text), n.sent_at
+    FROM JSONB_TO_RECORDSET(COALESCE(p_notes, '[]'::jsonb)) AS n(
+        facilitator_id UUID,
+        text TEXT,
+        sent_at TIMESTAMP WITH TIME ZONE
+    )
+    WHERE NULLIF(BTRIM(n.text), '') IS NOT NULL
+      AND n.sent_at IS NOT NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM field_notes fn
+          WHERE fn.learning_centre_id = p_learning_centre_id
+            AND fn.facilitator_id = n.facilitator_id
+            AND fn.sent_at = n.sent_at
+            AND fn.content_hash = MD5(normalise_field_note_text(n.text))
+      );
+    GET DIAGNOSTICS v_notes_added = ROW_COUNT;
+
+    INSERT INTO field_images (learning_centre_id, facilitator_id, photo_url, caption, sent_at, perceptual_hash)
+    SELECT
+        p_learning_centre_id, i.facilitator_id, i.photo_url, NULLIF(BTRIM(i.caption), ''), i.sent_at,
+        CASE WHEN i.perceptual_hash ~ '^[0-9a-f]{16}$' THEN i.perceptual_hash END
+    FROM JSONB_TO_RECORDSET(COALESCE(p_images, '[]'::jsonb)) AS i(
+        facilitator_id UUID,
+        photo_url TEXT,
+        caption TEXT,
+        sent_at TIMESTAMP WITH TIME ZONE,
+        perceptual_hash TEXT
+    )
+    WHERE NULLIF(BTRIM(i.photo_url), '') IS NOT NULL
+      AND i.sent_at IS NOT NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM field_images fi
+          WHERE fi.learning_centre_id = p_learning_centre_id
+            AND fi.facilitator_id = i.facilitator_id
+            AND fi.sent_at = i.sent_at
+            AND (fi.photo_url = i.photo_url OR fi.perceptual_hash = i.perceptual_hash)
+      );
+    GET DIAGNOSTICS v_images_added = ROW_COUNT;
+
+    RETURN QUERY SELECT v_notes_added, v_images_added;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,133 @@
+-- Migration: keep a moved child's earlier notes and photos on their timeline
+-- Notes and photos stay with the centre they were written for. Once a child moved to a
+-- centre in another district, staff there could read the child's links but not the notes
+-- and photos behind them, so the timeline lost everything from before the move. These
+-- functions return whatever is linked to a child the caller can see, from any centre.
+-- A photo's URL is only returned when every child tagged in it has photo consent, since
+-- the caller may not be able to see the other children to check.
+BEGIN;
+
+CREATE OR REPLACE FUNCTION list_child_timeline_notes(p_child_id UUID)
+RETURNS TABLE (
+    id UUID,
+    kind TEXT,
+    dated_at TIMESTAMP WITH TIME ZONE,
+    author TEXT,
+    body TEXT,
+    learning_centre_id UUID,
+    centre_visible BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM children ch
+        WHERE ch.id = p_child_id AND can_view_child_data(ch.learning_centre_id)
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to view this child' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        fn.id,
+        'facilitator'::TEXT,
+        COALESCE(fn.sent_at, fn.created_at),
+        COALESCE(f.name, 'Facilitator')::TEXT,
+        COALESCE(fn.text, '')::TEXT,
+        fn.learning_centre_id,
+        can_view_child_data(fn.learning_centre_id)
+    FROM child_field_note_links l
+    JOIN field_notes fn ON fn.id = l.field_note_id
+    LEFT JOIN facilitators f ON f.id = fn.facilitator_id
+    WHERE l.child_id = p_child_id
+      AND fn.duplicate_of IS NULL
+    UNION ALL
+    SELECT
+        cn.id,
+        'coordinator'::TEXT,
+        COALESCE(cn.noted_at, cn.created_at),
+        COALESCE(c.name, 'Coordinator')::TEXT,
+        cn.note_text,
+        cn.learning_centre_id,
+        can_view_child_data(cn.learning_centre_id)
+    FROM child_field_note_links l
+    JOIN coordinator_field_notes cn ON cn.id = l.coordinator_field_note_id
+    LEFT JOIN coordinators c ON c.id = cn.coordinator_id
+    WHERE l.child_id = p_child_id;
+END;
+$$;
+
+-- photo_url is NULL for photos that cannot be shown, following canShowPhoto in the dashboard
+CREATE OR REPLACE FUNCTION list_child_timeline_photos(p_child_id UUID)
+RETURNS TABLE (
+    id UUID,
+    dated_at TIMESTAMP WITH TIME ZONE,
+    author TEXT,
+    caption TEXT,
+    learning_centre_id UUID,
+    centre_visible BOOLEAN,
+    photo_url TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM children ch
+        WHERE ch.id = p_child_id AND can_view_child_data(ch.learning_centre_id)
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to view this child' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        fi.id,
+        COALESCE(fi.sent_at, fi.created_at),
+        COALESCE(f.name, 'Facilitator')::TEXT,
+        COALESCE(fi.caption, '')::TEXT,
+        fi.learning_centre_id,
+        can_view_child_data(fi.learning_centre_id),
+        CASE WHEN NOT EXISTS (
+            SELECT 1
+            FROM child_field_image_links t
+            LEFT JOIN child_consent_status s ON s.child_id = t.child_id
+            WHERE t.field_image_id = fi.id
+              AND NOT CASE WHEN s.consent_current THEN s.photo_consent_current ELSE t.consent_confirmed END
+        ) THEN fi.photo_url::TEXT END
+    FROM child_field_image_links l
+    JOIN field_images fi ON fi.id = l.field_image_id
+    LEFT JOIN facilitators f ON f.id = fi.facilitator_id
+    WHERE l.child_id = p_child_id
+      AND fi.duplicate_of IS NULL;
+END;
+$$;
+
+-- Imported photos of a child the caller can see may be signed from any centre's folder,
+-- so their timeline can show photos taken before a move
+CREATE OR REPLACE FUNCTION can_view_child_field_media(p_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM field_images fi
+        JOIN child_field_image_links l ON l.field_image_id = fi.id
+        JOIN children ch ON ch.id = l.child_id
+        WHERE fi.photo_url = p_name
+          AND can_view_child_data(ch.learning_centre_id)
+    );
+$$;
+
+CREATE POLICY "Child read access on field-media" ON storage.objects
+    FOR SELECT TO authenticated
+    USING (bucket_id = 'field-media' AND can_view_child_field_media(name));
+
+COMMIT;
@@ -0,0 +1,136 @@
+-- Migration: return the children whose names a timeline entry must not show
+-- A note or caption can name other children at its centre. The timeline can only hide the
+-- names it knows about, and staff of the child's new centre cannot read the children of the
+-- centre the entry was written for. Each entry now carries the aliases of that centre's
+-- children without name consent, so the dashboard can pseudonymise them.
+BEGIN;
+
+-- The return type changes, so the functions are dropped first
+DROP FUNCTION IF EXISTS list_child_timeline_notes(UUID);
+DROP FUNCTION IF EXISTS list_child_timeline_photos(UUID);
+
+-- Aliases of the centre's children whose guardians have not agreed to their name being shown
+CREATE OR REPLACE FUNCTION centre_withheld_children(p_learning_centre_id UUID)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(JSONB_AGG(JSONB_BUILD_OBJECT('id', ch.id, 'alias', ch.alias)), '[]'::JSONB)
+    FROM children ch
+    LEFT JOIN child_consent_status s ON s.child_id = ch.id
+    WHERE ch.learning_centre_id = p_learning_centre_id
+      AND NOT COALESCE(s.name_consent_current, FALSE);
+$$;
+
+-- Only called from the timeline functions below
+REVOKE EXECUTE ON FUNCTION centre_withheld_children(UUID) FROM PUBLIC, anon, authenticated;
+
+-- As in 20250204000035, plus the withheld children of the note's centre
+CREATE FUNCTION list_child_timeline_notes(p_child_id UUID)
+RETURNS TABLE (
+    id UUID,
+    kind TEXT,
+    dated_at TIMESTAMP WITH TIME ZONE,
+    author TEXT,
+    body TEXT,
+    learning_centre_id UUID,
+    centre_visible BOOLEAN,
+    withheld_children JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM children ch
+        WHERE ch.id = p_child_id AND can_view_child_data(ch.learning_centre_id)
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to view this child' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        fn.id,
+        'facilitator'::TEXT,
+        COALESCE(fn.sent_at, fn.created_at),
+        COALESCE(f.name, 'Facilitator')::TEXT,
+        COALESCE(fn.text, '')::TEXT,
+        fn.learning_centre_id,
+        can_view_child_data(fn.learning_centre_id),
+        centre_withheld_children(fn.learning_centre_id)
+    FROM child_field_note_links l
+    JOIN field_notes fn ON fn.id = l.field_note_id
+    LEFT JOIN facilitators f ON f.id = fn.facilitator_id
+    WHERE l.child_id = p_child_id
+      AND fn.duplicate_of IS NULL
+    UNION ALL
+    SELECT
+        cn.id,
+        'coordinator'::TEXT,
+        COALESCE(cn.noted_at, cn.created_at),
+        COALESCE(c.name, 'Coordinator')::TEXT,
+        cn.note_text,
+        cn.learning_centre_id,
+        can_view_child_data(cn.learning_centre_id),
+        centre_withheld_children(cn.learning_centre_id)
+    FROM child_field_note_links l
+    JOIN coordinator_field_notes cn ON cn.id = l.coordinator_field_note_id
+    LEFT JOIN coordinators c ON c.id = cn.coordinator_id
+    WHERE l.child_id = p_child_id;
+END;
+$$;
+
+-- As in 20250204000035, plus the withheld children of the photo's centre
+CREATE FUNCTION list_child_timeline_photos(p_child_id UUID)
+RETURNS TABLE (
+    id UUID,
+    dated_at TIMESTAMP WITH TIME ZONE,
+    author TEXT,
+    caption TEXT,
+    learning_centre_id UUID,
+    centre_visible BOOLEAN,
+    photo_url TEXT,
+    withheld_children JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM children ch
+        WHERE ch.id = p_child_id AND can_view_child_data(ch.learning_centre_id)
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to view this child' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        fi.id,
+        COALESCE(fi.sent_at, fi.created_at),
+        COALESCE(f.name, 'Facilitator')::TEXT,
+        COALESCE(fi.caption, '')::TEXT,
+        fi.learning_centre_id,
+        can_view_child_data(fi.learning_centre_id),
+        CASE WHEN NOT EXISTS (
+            SELECT 1
+            FROM child_field_image_links t
+            LEFT JOIN child_consent_status s ON s.child_id = t.child_id
+            WHERE t.field_image_id = fi.id
+              AND NOT CASE WHEN s.consent_current THEN s.photo_consent_current ELSE t.consent_confirmed END
+        ) THEN fi.photo_url::TEXT END,
+        centre_withheld_children(fi.learning_centre_id)
+    FROM child_field_image_links l
+    JOIN field_images fi ON fi.id = l.field_image_id
+    LEFT JOIN facilitators f ON f.id = fi.facilitator_id
+    WHERE l.child_id = p_child_id
+      AND fi.duplicate_of IS NULL;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,140 @@
+-- Migration: count only children still attending during the dashboard's date range
+-- children_count took every child on a centre's record, including those who left long
+-- before the range, while the other counts follow the range.
+BEGIN;
+
+-- As in 20250204000033, leaving out children who left before the range
+CREATE OR REPLACE FUNCTION district_dashboard_metrics(
+    p_from DATE DEFAULT NULL,
+    p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    state TEXT,
+    district TEXT,
+    centres_count BIGINT,
+    active_centres_count BIGINT,
+    ended_centres_count BIGINT,
+    facilitators_count BIGINT,
+    facilitator_ids UUID[],
+    children_count BIGINT,
+    field_notes_count BIGINT,
+    images_count BIGINT,
+    centre_months BIGINT,
+    reported_centre_months BIGINT,
+    reports_count BIGINT,
+    analysed_reports_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH bounds AS (
+        SELECT
+            COALESCE(p_from, DATE '1900-01-01') AS from_date,
+            LEAST(COALESCE(p_to, CURRENT_DATE), CURRENT_DATE) AS to_date
+    ),
+    centres AS (
+        SELECT lc.*
+        FROM learning_centres lc
+        WHERE can_access_learning_centre(lc.id)
+    ),
+    -- Every month each centre was open within the range
+    centre_month_series AS (
+        SELECT c.id AS learning_centre_id, m::DATE AS month_start
+        FROM centres c
+        CROSS JOIN bounds b
+        CROSS JOIN LATERAL generate_series(
+            DATE_TRUNC('month', GREATEST(c.start_date, b.from_date)),
+            DATE_TRUNC('month', LEAST(COALESCE(c.end_date, b.to_date), b.to_date)),
+            INTERVAL '1 month'
+        ) AS m
+    ),
+    centre_stats AS (
+        SELECT
+            c.id,
+            c.state::TEXT AS state,
+            c.district::TEXT AS district,
+            c.start_date <= b.to_date AND (c.end_date IS NULL OR c.end_date >= b.to_date) AS is_active,
+            c.end_date IS NOT NULL AND c.end_date < b.to_date AS is_ended,
+            (
+                SELECT COUNT(*) FROM children ch
+                WHERE ch.learning_centre_id = c.id
+                  AND (ch.left_at IS NULL OR ch.left_at >= b.from_date)
+            ) AS children_count,
+            (
+                SELECT COUNT(*) FROM field_notes fn
+                WHERE fn.learning_centre_id = c.id
+                  AND fn.duplicate_of IS NULL
+                  AND COALESCE(fn.sent_at, fn.created_at) >= b.from_date
+                  AND COALESCE(fn.sent_at, fn.created_at) < b.to_date + 1
+            ) AS field_notes_count,
+            (
+                SELECT COUNT(*) FROM field_images fi
+                WHERE fi.learning_centre_id = c.id
+                  AND fi.duplicate_of IS NULL
+                  AND COALESCE(fi.sent_at, fi.created_at) >= b.from_date
+                  AND COALESCE(fi.sent_at, fi.created_at) < b.to_date + 1
+            ) AS images_count,
+            (SELECT COUNT(*) FROM centre_month_series s WHERE s.learning_centre_id = c.id) AS centre_months,
+            (
+                SELECT COUNT(*) FROM centre_month_series s
+                WHERE s.learning_centre_id = c.id
+                  AND EXISTS (
+                      SELECT 1 FROM generated_reports gr
+                      WHERE gr.learning_centre_id = c.id
+                        AND gr.year = EXTRACT(YEAR FROM s.month_start)
+                        AND gr.month = EXTRACT(MONTH FROM s.month_start)
+                  )
+            ) AS reported_centre_months,
+            (
+                SELECT COUNT(*) FROM generated_reports gr
+                WHERE gr.learning_centre_id = c.id
+                  AND MAKE_DATE(gr.year, gr.month, 1) BETWEEN DATE_TRUNC('month', b.from_date) AND b.to_date
+            ) AS reports_count,
+            (
+                SELECT COUNT(*) FROM generated_reports gr
+                WHERE gr.learning_centre_id = c.id
+                  AND gr.has_llm_analysis
+                  AND MAKE_DATE(gr.year, gr.month, 1) BETWEEN DATE_TRUNC('month', b.from_date) AND b.to_date
+            ) AS analysed_reports_count
+        FROM centres c
+        CROSS JOIN bounds b
+    ),
+    -- Facilitators working in the district at any point in the range, counted once
+    facilitator_counts AS (
+        SELECT
+            c.state::TEXT AS state,
+            c.district::TEXT AS district,
+            COUNT(DISTINCT f.id) AS facilitators_count,
+            ARRAY_AGG(DISTINCT f.id) AS facilitator_ids
+        FROM centres c
+        JOIN learning_centre_facilitators lcf ON lcf.learning_centre_id = c.id
+        JOIN facilitators f ON f.id = lcf.facilitator_id
+        CROSS JOIN bounds b
+        WHERE (f.start_date IS NULL OR f.start_date <= b.to_date)
+          AND (f.end_date IS NULL OR f.end_date >= b.from_date)
+        GROUP BY c.state, c.district
+    )
+    SELECT
+        cs.state,
+        cs.district,
+        COUNT(*) AS centres_count,
+        COUNT(*) FILTER (WHERE cs.is_active) AS active_centres_count,
+        COUNT(*) FILTER (WHERE cs.is_ended) AS ended_centres_count,
+        COALESCE(MAX(fc.facilitators_count), 0) AS facilitators_count,
+        COALESCE(MAX(fc.facilitator_ids), '{}') AS facilitator_ids,
+        SUM(cs.children_count)::BIGINT AS children_count,
+        SUM(cs.field_notes_count)::BIGINT AS field_notes_count,
+        SUM(cs.images_count)::BIGINT AS images_count,
+        SUM(cs.centre_months)::BIGINT AS centre_months,
+        SUM(cs.reported_centre_months)::BIGINT AS reported_centre_months,
+        SUM(cs.reports_count)::BIGINT AS reports_count,
+        SUM(cs.analysed_reports_count)::BIGINT AS analysed_reports_count
+    FROM centre_stats cs
+    LEFT JOIN facilitator_counts fc ON fc.state = cs.state AND fc.district = cs.district
+    GROUP BY cs.state, cs.district
+    ORDER BY cs.state, cs.district;
+$$;
+
+COMMIT;
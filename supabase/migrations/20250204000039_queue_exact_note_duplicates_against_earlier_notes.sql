@@ -0,0 +1,83 @@
+-- Migration: only queue an identical note against a note sent before it
+-- 20250204000032 looked for matches three days either side of a new note, so a note
+-- imported after a later copy was already stored became the duplicate's "original" and
+-- the earlier note was queued for removal. The original must be the earlier note, as in
+-- the dashboard's scan, so the trigger now only looks back.
+BEGIN;
+
+-- As in 20250204000032, matching only notes dated at or before the new one
+CREATE OR REPLACE FUNCTION queue_exact_field_note_duplicate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_original_id UUID;
+    v_sent_at TIMESTAMP WITH TIME ZONE := COALESCE(NEW.sent_at, NEW.created_at);
+BEGIN
+    IF NEW.content_hash IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT fn.id INTO v_original_id
+    FROM field_notes fn
+    WHERE fn.learning_centre_id = NEW.learning_centre_id
+      AND fn.content_hash = NEW.content_hash
+      AND fn.facilitator_id IS NOT DISTINCT FROM NEW.facilitator_id
+      AND (COALESCE(fn.sent_at, fn.created_at), fn.id) < (v_sent_at, NEW.id)
+      AND COALESCE(fn.sent_at, fn.created_at) >= v_sent_at - INTERVAL '3 days'
+      AND fn.duplicate_of IS NULL
+    ORDER BY COALESCE(fn.sent_at, fn.created_at), fn.id
+    LIMIT 1;
+
+    IF v_original_id IS NOT NULL THEN
+        INSERT INTO field_duplicate_candidates (
+            learning_centre_id, kind, original_field_note_id, duplicate_field_note_id, method, similarity
+        )
+        VALUES (NEW.learning_centre_id, 'note', v_original_id, NEW.id, 'exact', 1)
+        ON CONFLICT DO NOTHING;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Drop the pending identical-text pairs whose original was sent after the duplicate;
+-- reviewed pairs are kept
+DELETE FROM field_duplicate_candidates c
+USING field_notes o, field_notes d
+WHERE c.kind = 'note'
+  AND c.method = 'exact'
+  AND c.status = 'pending'
+  AND o.id = c.original_field_note_id
+  AND d.id = c.duplicate_field_note_id
+  AND (COALESCE(o.sent_at, o.created_at), o.id) > (COALESCE(d.sent_at, d.created_at), d.id);
+
+-- Queue the notes those pairs covered against the earliest earlier copy, as in 20250204000032
+INSERT INTO field_duplicate_candidates (
+    learning_centre_id, kind, original_field_note_id, duplicate_field_note_id, method, similarity
+)
+SELECT d.learning_centre_id, 'note', o.id, d.id, 'exact', 1
+FROM field_notes d
+CROSS JOIN LATERAL (
+    SELECT fn.id
+    FROM field_notes fn
+    WHERE fn.learning_centre_id = d.learning_centre_id
+      AND fn.content_hash = d.content_hash
+      AND fn.facilitator_id IS NOT DISTINCT FROM d.facilitator_id
+      AND fn.duplicate_of IS NULL
+      AND (COALESCE(fn.sent_at, fn.created_at), fn.id) < (COALESCE(d.sent_at, d.created_at), d.id)
+      AND COALESCE(fn.sent_at, fn.created_at) >= COALESCE(d.sent_at, d.created_at) - INTERVAL '3 days'
+    ORDER BY COALESCE(fn.sent_at, fn.created_at), fn.id
+    LIMIT 1
+) o
+WHERE d.content_hash IS NOT NULL
+  AND d.duplicate_of IS NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM field_duplicate_candidates x
+      WHERE x.kind = 'note' AND x.duplicate_field_note_id = d.id
+  )
+ON CONFLICT DO NOTHING;
+
+COMMIT;